@@ -1,35 +1,63 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  CREATOR_SESSION_COOKIE,
+  PLAYER_SESSION_TTL_SECONDS,
+  createSessionToken,
+  getSessionCookieOptions,
+  verifySessionToken,
+} from '@/lib/session';
+import { PLAYER_ID_COOKIE } from '@/lib/game-storage';
+import { getGameCspDirectives } from '@/lib/external-hosts';
+import {
+  GAME_RAW_PATH_PATTERN,
+  getGameRawCsp,
+  getGameSandboxOrigin,
+  isGameSandboxIsolated,
+} from '@/lib/game-sandbox';
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const response = NextResponse.next();
 
   // 管理员页面访问控制
   if (request.nextUrl.pathname.startsWith('/admin')) {
-    // 在生产环境中，这里应该实现更严格的认证检查
-    // 目前简化为检查特定的header或cookie
-    const adminAuth = request.headers.get('x-admin-auth') || request.cookies.get('admin-auth')?.value;
-    
-    // 如果没有认证信息，重定向到登录页面或返回401
-    if (!adminAuth && process.env.NODE_ENV === 'production') {
-      return NextResponse.redirect(new URL('/login', request.url));
+    // 校验会话Cookie的签名和有效期（账号状态由各API在服务端再次校验）
+    const session = await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+
+    // 会话无效时重定向到登录页面，并记录原访问路径
+    if (!session || session.kind !== 'admin') {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('from', request.nextUrl.pathname + request.nextUrl.search);
+
+      const redirect = NextResponse.redirect(loginUrl);
+      redirect.cookies.delete(ADMIN_SESSION_COOKIE);
+      return redirect;
+    }
+  }
+
+  // 创作者页面访问控制
+  if (request.nextUrl.pathname.startsWith('/my-games')) {
+    const session = await verifySessionToken(request.cookies.get(CREATOR_SESSION_COOKIE)?.value);
+
+    if (!session || session.kind !== 'creator') {
+      const loginUrl = new URL('/creator/login', request.url);
+      loginUrl.searchParams.set('from', request.nextUrl.pathname + request.nextUrl.search);
+
+      const redirect = NextResponse.redirect(loginUrl);
+      redirect.cookies.delete(CREATOR_SESSION_COOKIE);
+      return redirect;
     }
   }
 
   // 为游戏页面添加安全headers
   if (request.nextUrl.pathname.startsWith('/game/')) {
-    // Content Security Policy for game pages
+    const sandboxOrigin = getGameSandboxOrigin();
+    // Content Security Policy for game pages（外部脚本、样式和字体只允许白名单中的CDN主机）
     const csp = [
-      "default-src 'self'",
-      "script-src 'self' 'unsafe-inline' 'unsafe-eval' blob:",
-      "style-src 'self' 'unsafe-inline' blob:",
-      "img-src 'self' data: blob: https:",
-      "font-src 'self' data:",
-      "connect-src 'self'",
-      "media-src 'self' blob:",
-      "object-src 'none'",
-      "base-uri 'self'",
-      "form-action 'self'",
+      ...getGameCspDirectives(),
+      // 游戏内容只能从沙箱路由加载
+      `frame-src 'self'${sandboxOrigin ? ` ${sandboxOrigin}` : ''}`,
       "frame-ancestors 'none'",
       "upgrade-insecure-requests",
     ].join('; ');
@@ -39,6 +67,31 @@ export function middleware(request: NextRequest) {
     response.headers.set('X-Content-Type-Options', 'nosniff');
     response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
     response.headers.set('Permissions-Policy', 'camera=(), microphone=(), geolocation=()');
+
+    // 未登录玩家的存档标识只由游戏页面签发，存档API不接受客户端自行生成的标识
+    const player = await verifySessionToken(request.cookies.get(PLAYER_ID_COOKIE)?.value);
+    if (!player || player.kind !== 'player') {
+      const token = await createSessionToken(
+        { sub: crypto.randomUUID(), name: 'player', kind: 'player' },
+        PLAYER_SESSION_TTL_SECONDS
+      );
+      response.cookies.set(PLAYER_ID_COOKIE, token, getSessionCookieOptions(PLAYER_SESSION_TTL_SECONDS));
+    }
+  }
+
+  // 游戏内容路由：配置了沙箱源时只能从沙箱源访问，并通过CSP的sandbox指令隔离
+  if (GAME_RAW_PATH_PATTERN.test(request.nextUrl.pathname)) {
+    const sandboxOrigin = getGameSandboxOrigin();
+    // 按Host头比较（nextUrl会把127.0.0.1等本机地址规范化为localhost）
+    const host = request.headers.get('host') ?? request.nextUrl.host;
+    if (sandboxOrigin && host !== new URL(sandboxOrigin).host) {
+      return new NextResponse('Not Found', { status: 404 });
+    }
+
+    response.headers.set('Content-Security-Policy', getGameRawCsp(isGameSandboxIsolated()));
+    response.headers.set('X-Content-Type-Options', 'nosniff');
+    response.headers.set('Referrer-Policy', 'no-referrer');
+    response.headers.set('Permissions-Policy', 'camera=(), microphone=(), geolocation=()');
   }
 
   // 为API路由添加基础安全headers
@@ -54,7 +107,9 @@ export function middleware(request: NextRequest) {
 export const config = {
   matcher: [
     '/admin/:path*',
+    '/my-games/:path*',
     '/game/:path*',
+    '/play/:path*',
     '/api/:path*',
   ],
 };
\ No newline at end of file
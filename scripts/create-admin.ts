@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+import { v4 as uuidv4 } from 'uuid';
+import { AdminDAL } from '../src/lib/dal';
+import { hashPassword } from '../src/lib/password';
+import { testConnection } from '../src/lib/db-test';
+import { ADMIN_ROLES, type AdminRole } from '../src/lib/permissions';
+
+async function main() {
+  const [username, password, displayName, role = 'owner'] = process.argv.slice(2);
+
+  console.log('👤 创建管理员账号');
+  console.log('==================');
+
+  if (!username || !password) {
+    console.log('\n使用方法:');
+    console.log('  npm run admin:create <用户名> <密码> [显示名称] [角色]');
+    console.log(`  角色可选: ${ADMIN_ROLES.join(', ')}（默认owner）`);
+    process.exit(1);
+  }
+
+  if (!ADMIN_ROLES.includes(role as AdminRole)) {
+    console.error(`❌ 无效的角色: ${role}`);
+    process.exit(1);
+  }
+
+  if (password.length < 8) {
+    console.error('❌ 密码长度不能少于8个字符');
+    process.exit(1);
+  }
+
+  // 测试数据库连接
+  const isConnected = await testConnection();
+  if (!isConnected) {
+    process.exit(1);
+  }
+
+  const existing = await AdminDAL.getByUsernameWithPassword(username);
+  if (existing) {
+    console.log(`\n🔑 管理员 ${username} 已存在，更新密码和角色...`);
+    await AdminDAL.update(existing.id, {
+      passwordHash: await hashPassword(password),
+      role: role as AdminRole,
+    });
+  } else {
+    console.log(`\n➕ 创建管理员 ${username}（${role}）...`);
+    await AdminDAL.create({
+      id: uuidv4(),
+      username,
+      passwordHash: await hashPassword(password),
+      displayName: displayName || null,
+      role: role as AdminRole,
+    });
+  }
+
+  console.log('\n✨ 完成!');
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ 创建管理员失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env tsx
+
+import { SecurityRescanService } from '../src/lib/security-rescan';
+import { testConnection } from '../src/lib/db-test';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const apply = args.includes('--apply');
+  const requeue = args.includes('--requeue');
+
+  console.log('🛡️  游戏安全复查');
+  console.log('==================');
+
+  if (args.includes('--help')) {
+    console.log('\n使用方法:');
+    console.log('  npm run security:rescan                     - 试运行，只输出汇总');
+    console.log('  npm run security:rescan -- --apply          - 保存复查结果并标记不符合策略的已发布游戏');
+    console.log('  npm run security:rescan -- --apply --requeue - 同时将被标记的游戏撤回待审核队列');
+    process.exit(0);
+  }
+
+  if (requeue && !apply) {
+    console.log('ℹ️  试运行模式下 --requeue 不会变更游戏状态');
+  }
+
+  // 测试数据库连接
+  const isConnected = await testConnection();
+  if (!isConnected) {
+    process.exit(1);
+  }
+
+  const summary = await SecurityRescanService.run({
+    dryRun: !apply,
+    requeue,
+    reviewer: 'system',
+  });
+
+  console.log(`\n📋 安全策略: ${summary.policyVersion ? `v${summary.policyVersion}` : '内置默认配置'}`);
+  console.log(`检查游戏: ${summary.scanned}`);
+  console.log(`通过: ${summary.passed}`);
+  console.log(`仅有警告: ${summary.withWarnings}`);
+  console.log(`不符合策略: ${summary.violating}`);
+
+  if (summary.flagged.length > 0) {
+    console.log(`\n⚠️  不符合策略的已发布游戏（${summary.flagged.length}）:`);
+    for (const game of summary.flagged) {
+      const status = game.requeued ? '（已撤回待审核）' : '';
+      console.log(`  - ${game.title} [${game.gameId}] ${game.ruleIds.join(', ')}${status}`);
+    }
+  }
+
+  if (summary.errors.length > 0) {
+    console.log(`\n❌ 处理失败（${summary.errors.length}）:`);
+    for (const error of summary.errors) {
+      console.log(`  - ${error.gameId}: ${error.message}`);
+    }
+  }
+
+  console.log(apply ? `\n撤回待审核: ${summary.requeued}` : '\n试运行完成，未写入任何数据（使用 --apply 保存结果）');
+  console.log('\n✨ 完成!');
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ 安全复查失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+import RejectionCategoryManager from '@/components/RejectionCategoryManager';
+
+export default function RejectionCategoriesPage() {
+  return (
+    <div className="mx-auto max-w-4xl">
+      <RejectionCategoryManager />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import GameErrorsManager from '@/components/GameErrorsManager';
+
+export default function GameErrorsPage() {
+  return (
+    <div className="mx-auto max-w-4xl">
+      <GameErrorsManager />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import GameVersionHistory from '@/components/GameVersionHistory';
+
+interface GameVersionsPageProps {
+  params: {
+    id: string;
+  };
+  searchParams: {
+    version?: string;
+  };
+}
+
+export default function GameVersionsPage({ params, searchParams }: GameVersionsPageProps) {
+  return (
+    <div className="mx-auto max-w-6xl">
+      <GameVersionHistory gameId={params.id} initialVersionId={searchParams.version} />
+    </div>
+  );
+}
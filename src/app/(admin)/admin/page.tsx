@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import {
   Card,
   CardContent,
@@ -27,36 +28,17 @@ export default function AdminPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  const router = useRouter();
 
   const fetchDashboardStats = async () => {
     try {
       // 获取所有状态的游戏统计
       const [allGames, pendingGames, approvedGames, rejectedGames, reviewStats] = await Promise.all([
-        fetch('/api/admin/review?status=all&limit=1', {
-          headers: {
-            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-          },
-        }),
-        fetch('/api/admin/review?status=pending&limit=1', {
-          headers: {
-            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-          },
-        }),
-        fetch('/api/admin/review?status=approved&limit=1', {
-          headers: {
-            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-          },
-        }),
-        fetch('/api/admin/review?status=rejected&limit=1', {
-          headers: {
-            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-          },
-        }),
-        fetch('/api/admin/review/logs?limit=1', {
-          headers: {
-            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-          },
-        }),
+        fetch('/api/admin/review?status=all&limit=1'),
+        fetch('/api/admin/review?status=pending&limit=1'),
+        fetch('/api/admin/review?status=approved&limit=1'),
+        fetch('/api/admin/review?status=rejected&limit=1'),
+        fetch('/api/admin/review/logs?limit=1'),
       ]);
 
       const [allData, pendingData, approvedData, rejectedData, reviewData] = await Promise.all([
@@ -91,6 +73,15 @@ export default function AdminPage() {
     }
   };
 
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      router.replace('/login');
+      router.refresh();
+    }
+  };
+
   useEffect(() => {
     fetchDashboardStats();
   }, []);
@@ -111,8 +102,15 @@ export default function AdminPage() {
     <div className="mx-auto max-w-4xl space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>管理员仪表板</CardTitle>
-          <CardDescription>管理游戏提交和审核</CardDescription>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>管理员仪表板</CardTitle>
+              <CardDescription>管理游戏提交和审核</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              退出登录
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
@@ -158,6 +156,26 @@ export default function AdminPage() {
                     )}
                   </Button>
                 </Link>
+                <Link href="/admin/versions">
+                  <Button variant="outline" className="w-full justify-start">
+                    审核版本更新
+                  </Button>
+                </Link>
+                <Link href="/admin/categories">
+                  <Button variant="outline" className="w-full justify-start">
+                    拒绝原因分类
+                  </Button>
+                </Link>
+                <Link href="/admin/security">
+                  <Button variant="outline" className="w-full justify-start">
+                    安全策略
+                  </Button>
+                </Link>
+                <Link href="/admin/errors">
+                  <Button variant="outline" className="w-full justify-start">
+                    运行错误
+                  </Button>
+                </Link>
                 <Link href="/games">
                   <Button variant="outline" className="w-full justify-start">
                     查看已发布游戏
@@ -6,16 +6,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
 import { AdminReviewPanel } from '@/components/AdminReviewPanel';
 import { GamePreview } from '@/components/GamePreview';
 import { useToast } from '@/hooks/use-toast';
-import { GameListItem, Game } from '@/lib/schema';
-
-interface ReviewStats {
-  totalReviews: number;
-  approvals: number;
-  rejections: number;
-}
+import { useRejectionCategories } from '@/hooks/use-rejection-categories';
+import { GameListItem, Game, ReviewStats } from '@/lib/schema';
+import type { BatchReviewItemResult } from '@/lib/review-service';
 
 interface ReviewPageData {
   games: GameListItem[];
@@ -26,8 +23,28 @@ interface ReviewPageData {
     totalPages: number;
   };
   stats: ReviewStats;
+  reviewer: string;
 }
 
+const BATCH_RESULT_LABELS: Record<BatchReviewItemResult['status'], string> = {
+  reviewed: '已处理',
+  invalid: 'ID无效',
+  not_found: '不存在',
+  skipped: '已跳过',
+  claimed: '已被认领',
+  conflict: '状态冲突',
+  error: '处理失败',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: '待审核',
+  approved: '已批准',
+  rejected: '已拒绝',
+  withdrawn: '已撤回',
+  unpublished: '已下架',
+  deleted: '已删除',
+};
+
 export default function ReviewPage() {
   const [data, setData] = useState<ReviewPageData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -35,7 +52,15 @@ export default function ReviewPage() {
   const [statusFilter, setStatusFilter] = useState<string>('pending');
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batchReason, setBatchReason] = useState('');
+  const [batchCategory, setBatchCategory] = useState('');
+  const [isBatchProcessing, setIsBatchProcessing] = useState(false);
+  const [batchResults, setBatchResults] = useState<BatchReviewItemResult[]>([]);
+  const [isClaiming, setIsClaiming] = useState(false);
   const { toast } = useToast();
+  const categories = useRejectionCategories(true);
+  const activeCategories = categories.filter((category) => category.isActive);
 
   const fetchReviewData = async () => {
     setLoading(true);
@@ -53,11 +78,7 @@ export default function ReviewPage() {
         params.append('search', searchQuery.trim());
       }
 
-      const response = await fetch(`/api/admin/review?${params}`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-        },
-      });
+      const response = await fetch(`/api/admin/review?${params}`);
 
       if (!response.ok) {
         throw new Error('获取审核数据失败');
@@ -66,6 +87,7 @@ export default function ReviewPage() {
       const result = await response.json();
       if (result.success) {
         setData(result.data);
+        setSelectedIds([]);
       } else {
         throw new Error(result.message || '获取数据失败');
       }
@@ -82,11 +104,7 @@ export default function ReviewPage() {
 
   const fetchGameDetails = async (gameId: string) => {
     try {
-      const response = await fetch(`/api/games/${gameId}`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
-        },
-      });
+      const response = await fetch(`/api/games/${gameId}`);
 
       if (!response.ok) {
         throw new Error('获取游戏详情失败');
@@ -107,7 +125,7 @@ export default function ReviewPage() {
     }
   };
 
-  const handleReviewComplete = (gameId: string, action: 'approve' | 'reject') => {
+  const handleReviewComplete = (gameId: string, action: 'approve' | 'reject' | 'unpublish') => {
     // 刷新数据
     fetchReviewData();
     // 如果当前选中的游戏被审核了，重新加载详情
@@ -116,6 +134,143 @@ export default function ReviewPage() {
     }
   };
 
+  // 认领仍在有效期内时返回认领人
+  const getActiveClaimant = (game: Pick<GameListItem, 'claimedBy' | 'claimExpiresAt'>) => {
+    if (!game.claimedBy || !game.claimExpiresAt || new Date(game.claimExpiresAt) <= new Date()) {
+      return null;
+    }
+    return game.claimedBy;
+  };
+
+  const handleClaim = async (gameId: string, release: boolean = false) => {
+    setIsClaiming(true);
+    try {
+      const response = await fetch('/api/admin/review/claim', {
+        method: release ? 'DELETE' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gameId }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || (release ? '释放认领失败' : '认领失败'));
+      }
+
+      toast({
+        title: result.message,
+      });
+      fetchGameDetails(gameId);
+      fetchReviewData();
+    } catch (error) {
+      toast({
+        title: release ? '释放认领失败' : '认领失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleClaimNext = async () => {
+    setIsClaiming(true);
+    try {
+      const response = await fetch('/api/admin/review/next', {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '认领失败');
+      }
+
+      fetchGameDetails(result.data.game.id);
+      fetchReviewData();
+    } catch (error) {
+      toast({
+        title: '认领失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  // 只有待审核的游戏可以批量处理
+  const pendingGameIds = data?.games.filter((game) => game.status === 'pending').map((game) => game.id) || [];
+  const allPendingSelected = pendingGameIds.length > 0 && pendingGameIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelected = (gameId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(gameId) ? prev.filter((id) => id !== gameId) : [...prev, gameId]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allPendingSelected ? [] : pendingGameIds);
+  };
+
+  const handleBatchReview = async (action: 'approve' | 'reject') => {
+    if (action === 'reject' && !batchCategory) {
+      toast({
+        title: '请选择拒绝原因',
+        description: '批量拒绝时必须选择拒绝原因分类',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!confirm(`确定要${action === 'approve' ? '批准' : '拒绝'}选中的 ${selectedIds.length} 个游戏吗？`)) {
+      return;
+    }
+
+    setIsBatchProcessing(true);
+    try {
+      const response = await fetch('/api/admin/review/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameIds: selectedIds,
+          action,
+          category: action === 'reject' ? batchCategory : undefined,
+          reason: action === 'reject' ? batchReason.trim() || undefined : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '批量审核失败');
+      }
+
+      toast({
+        title: '批量审核完成',
+        description: result.message,
+      });
+      setBatchResults(
+        (result.data.results as BatchReviewItemResult[]).filter((item) => item.status !== 'reviewed')
+      );
+      setBatchReason('');
+      setBatchCategory('');
+      if (selectedGame && selectedIds.includes(selectedGame.id)) {
+        fetchGameDetails(selectedGame.id);
+      }
+      fetchReviewData();
+    } catch (error) {
+      toast({
+        title: '批量审核失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBatchProcessing(false);
+    }
+  };
+
   const handleSearch = () => {
     setCurrentPage(1);
     fetchReviewData();
@@ -129,6 +284,8 @@ export default function ReviewPage() {
     fetchReviewData();
   }, [currentPage, statusFilter]);
 
+  const selectedClaimant = selectedGame ? getActiveClaimant(selectedGame) : null;
+
   if (loading && !data) {
     return (
       <div className="mx-auto max-w-6xl">
@@ -166,6 +323,20 @@ export default function ReviewPage() {
             </div>
           )}
 
+          {data?.stats && data.stats.rejectionsByCategory.length > 0 && (
+            <div className="mb-6 flex flex-wrap gap-2">
+              {data.stats.rejectionsByCategory.map((item) => (
+                <Badge key={item.category ?? 'uncategorized'} variant="outline">
+                  {item.category
+                    ? categories.find((category) => category.code === item.category)?.label || item.category
+                    : '未分类'}
+                  {' · '}
+                  {item.count}
+                </Badge>
+              ))}
+            </div>
+          )}
+
           <div className="flex gap-4 mb-6">
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-40">
@@ -176,6 +347,7 @@ export default function ReviewPage() {
                 <SelectItem value="pending">待审核</SelectItem>
                 <SelectItem value="approved">已批准</SelectItem>
                 <SelectItem value="rejected">已拒绝</SelectItem>
+                <SelectItem value="unpublished">已下架</SelectItem>
               </SelectContent>
             </Select>
 
@@ -188,16 +360,98 @@ export default function ReviewPage() {
               />
               <Button onClick={handleSearch}>搜索</Button>
             </div>
+
+            <Button variant="outline" onClick={handleClaimNext} disabled={isClaiming}>
+              认领下一个
+            </Button>
           </div>
         </CardContent>
       </Card>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">
-            游戏列表 {data?.pagination && `(${data.pagination.total} 个)`}
-          </h3>
-          
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">
+              游戏列表 {data?.pagination && `(${data.pagination.total} 个)`}
+            </h3>
+            {pendingGameIds.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <input type="checkbox" checked={allPendingSelected} onChange={toggleSelectAll} />
+                全选本页待审核
+              </label>
+            )}
+          </div>
+
+          {selectedIds.length > 0 && (
+            <Card>
+              <CardContent className="space-y-3 p-4">
+                <div className="text-sm font-medium">已选择 {selectedIds.length} 个游戏</div>
+                <select
+                  className="w-full rounded-md border px-3 py-2 text-sm"
+                  value={batchCategory}
+                  onChange={(e) => setBatchCategory(e.target.value)}
+                >
+                  <option value="">拒绝原因分类（批量拒绝时必选）</option>
+                  {activeCategories.map((category) => (
+                    <option key={category.code} value={category.code}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+                <Textarea
+                  placeholder="补充说明（可选）..."
+                  value={batchReason}
+                  onChange={(e) => setBatchReason(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleBatchReview('approve')}
+                    disabled={isBatchProcessing}
+                  >
+                    {isBatchProcessing ? '处理中...' : '批量批准'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleBatchReview('reject')}
+                    disabled={isBatchProcessing || !batchCategory}
+                  >
+                    批量拒绝
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedIds([])}>
+                    取消选择
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {batchResults.length > 0 && (
+            <Card>
+              <CardContent className="space-y-2 p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">以下游戏未被处理</span>
+                  <Button size="sm" variant="ghost" onClick={() => setBatchResults([])}>
+                    关闭
+                  </Button>
+                </div>
+                {batchResults.map((item) => (
+                  <div key={item.gameId} className="flex items-center justify-between text-xs">
+                    <span className="font-mono text-muted-foreground">
+                      {data?.games.find((game) => game.id === item.gameId)?.title || item.gameId}
+                    </span>
+                    <span>
+                      {BATCH_RESULT_LABELS[item.status]}
+                      {item.message && ` · ${item.message}`}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {loading ? (
             <div className="text-center py-8">加载中...</div>
           ) : data?.games.length === 0 ? (
@@ -217,23 +471,41 @@ export default function ReviewPage() {
                   >
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
-                        <div>
-                          <h4 className="font-medium">{game.title}</h4>
-                          <p className="text-sm text-muted-foreground">
-                            {game.authorName || '匿名'} • {new Date(game.createdAt).toLocaleDateString('zh-CN')}
-                          </p>
+                        <div className="flex items-center gap-3">
+                          {game.status === 'pending' && (
+                            <input
+                              type="checkbox"
+                              aria-label={`选择 ${game.title}`}
+                              checked={selectedIds.includes(game.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={() => toggleSelected(game.id)}
+                            />
+                          )}
+                          <div>
+                            <h4 className="font-medium">{game.title}</h4>
+                            <p className="text-sm text-muted-foreground">
+                              {game.authorName || '匿名'} • {new Date(game.createdAt).toLocaleDateString('zh-CN')}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getActiveClaimant(game) && (
+                            <Badge variant="outline">
+                              {getActiveClaimant(game) === data?.reviewer ? '我已认领' : `${getActiveClaimant(game)} 审核中`}
+                            </Badge>
+                          )}
+                          <Badge
+                            variant={
+                              game.status === 'pending'
+                                ? 'secondary'
+                                : game.status === 'approved'
+                                ? 'default'
+                                : 'destructive'
+                            }
+                          >
+                            {STATUS_LABELS[game.status] || game.status}
+                          </Badge>
                         </div>
-                        <Badge
-                          variant={
-                            game.status === 'pending'
-                              ? 'secondary'
-                              : game.status === 'approved'
-                              ? 'default'
-                              : 'destructive'
-                          }
-                        >
-                          {game.status === 'pending' ? '待审核' : game.status === 'approved' ? '已批准' : '已拒绝'}
-                        </Badge>
                       </div>
                     </CardContent>
                   </Card>
@@ -273,8 +545,44 @@ export default function ReviewPage() {
           {selectedGame ? (
             <div className="space-y-4">
               <GamePreview game={selectedGame} showHtmlContent={true} />
-              
+
               {selectedGame.status === 'pending' && (
+                <Card>
+                  <CardContent className="flex items-center justify-between p-4 text-sm">
+                    {selectedClaimant ? (
+                      <span>
+                        {selectedClaimant === data?.reviewer ? '你' : selectedClaimant} 已认领，
+                        {new Date(selectedGame.claimExpiresAt!).toLocaleTimeString('zh-CN')} 到期
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">尚未被认领</span>
+                    )}
+                    {selectedClaimant === data?.reviewer ? (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => handleClaim(selectedGame.id)} disabled={isClaiming}>
+                          续期
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleClaim(selectedGame.id, true)}
+                          disabled={isClaiming}
+                        >
+                          释放
+                        </Button>
+                      </div>
+                    ) : (
+                      !selectedClaimant && (
+                        <Button size="sm" onClick={() => handleClaim(selectedGame.id)} disabled={isClaiming}>
+                          认领
+                        </Button>
+                      )
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+              
+              {(selectedGame.status === 'pending' || selectedGame.status === 'approved') && (
                 <AdminReviewPanel
                   game={{
                     id: selectedGame.id,
@@ -284,6 +592,8 @@ export default function ReviewPage() {
                     status: selectedGame.status,
                     createdAt: selectedGame.createdAt,
                     approvedAt: selectedGame.approvedAt,
+                    rejectionReason: selectedGame.rejectionReason,
+                    appealMessage: selectedGame.appealMessage,
                   }}
                   onReviewComplete={handleReviewComplete}
                 />
@@ -0,0 +1,9 @@
+import SecurityPolicyManager from '@/components/SecurityPolicyManager';
+
+export default function SecurityPolicyPage() {
+  return (
+    <div className="mx-auto max-w-4xl">
+      <SecurityPolicyManager />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { PendingGameVersion } from '@/lib/schema';
+
+export default function VersionReviewPage() {
+  const [versions, setVersions] = useState<PendingGameVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchPendingVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/review/versions');
+
+      if (!response.ok) {
+        throw new Error('获取待审核版本失败');
+      }
+
+      const result = await response.json();
+      if (result.success) {
+        setVersions(result.data.versions);
+      } else {
+        throw new Error(result.message || '获取数据失败');
+      }
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPendingVersions();
+  }, [fetchPendingVersions]);
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>版本更新审核</CardTitle>
+          <CardDescription>审核已发布游戏提交的新版本，批准后新版本才会上线</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center">加载中...</div>
+          ) : versions.length === 0 ? (
+            <div className="text-center text-muted-foreground">暂无待审核的版本</div>
+          ) : (
+            <div className="space-y-3">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium">{version.game.title}</h3>
+                      <Badge variant="secondary">v{version.versionNumber}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      作者: {version.game.authorName || '匿名'} · 提交者: {version.submittedBy || '-'} ·{' '}
+                      {version.createdAt ? new Date(version.createdAt).toLocaleString('zh-CN') : '-'}
+                    </p>
+                    {version.changelog && (
+                      <p className="text-sm">更新说明: {version.changelog}</p>
+                    )}
+                  </div>
+                  <Link href={`/admin/games/${version.gameId}/versions?version=${version.id}`}>
+                    <Button size="sm">查看并审核</Button>
+                  </Link>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
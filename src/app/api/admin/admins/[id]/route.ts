@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminDAL } from '@/lib/dal';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { adminUpdateSchema } from '@/lib/validation';
+import { hashPassword } from '@/lib/password';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PATCH /api/admin/admins/[id] - 更新管理员角色、状态或密码
+export const PATCH = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = adminUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { displayName, role, isActive, password } = validationResult.data;
+
+    const existingAdmin = await AdminDAL.getById(params.id);
+    if (!existingAdmin) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '管理员不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 防止所有者降低自己的权限或停用自己，导致无人可以管理账号
+    const adminValidation = await validateAdminAccess(request);
+    if (adminValidation.admin?.id === params.id && ((role && role !== 'owner') || isActive === false)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '不能降低自己的角色或停用自己的账号',
+        },
+        { status: 400 }
+      );
+    }
+
+    const updatedAdmin = await AdminDAL.update(params.id, {
+      ...(displayName !== undefined && { displayName: displayName || null }),
+      ...(role && { role }),
+      ...(isActive !== undefined && { isActive }),
+      ...(password && { passwordHash: await hashPassword(password) }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '管理员信息已更新',
+      data: {
+        admin: updatedAdmin,
+      },
+    });
+  } catch (error) {
+    console.error('更新管理员失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '更新管理员失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'admins:manage');
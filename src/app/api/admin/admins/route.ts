@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { AdminDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { adminCreateSchema } from '@/lib/validation';
+import { hashPassword } from '@/lib/password';
+
+// GET /api/admin/admins - 获取管理员列表
+export const GET = requireAdmin(async () => {
+  try {
+    const admins = await AdminDAL.getAll();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        admins,
+      },
+    });
+  } catch (error) {
+    console.error('获取管理员列表失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取管理员列表失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'admins:manage');
+
+// POST /api/admin/admins - 创建管理员
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = adminCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { username, password, displayName, role } = validationResult.data;
+
+    // 检查用户名是否已存在
+    const existingAdmin = await AdminDAL.getByUsernameWithPassword(username);
+    if (existingAdmin) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '用户名已存在',
+        },
+        { status: 409 }
+      );
+    }
+
+    const admin = await AdminDAL.create({
+      id: uuidv4(),
+      username,
+      passwordHash: await hashPassword(password),
+      displayName: displayName || null,
+      role,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: '管理员已创建',
+        data: {
+          admin,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建管理员失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '创建管理员失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'admins:manage');
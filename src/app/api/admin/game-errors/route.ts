@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameErrorDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { gameErrorSummaryQuerySchema } from '@/lib/validation';
+
+// GET /api/admin/game-errors - 获取最近出现运行错误的游戏（按出现次数排序，days指定统计的天数）
+export const GET = requireAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queryValidation = gameErrorSummaryQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+    });
+    if (!queryValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '查询参数无效',
+          details: queryValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { days } = queryValidation.data;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const summaries = await GameErrorDAL.getSummaries(since);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        days,
+        summaries,
+      },
+    });
+  } catch (error) {
+    console.error('获取游戏运行错误失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取游戏运行错误失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameVersionDAL, ReviewLogDAL } from '@/lib/dal';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { gameRollbackSchema } from '@/lib/validation';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/admin/games/[id]/rollback - 将游戏回滚到之前已批准的版本
+export const POST = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = gameRollbackSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { versionId } = validationResult.data;
+    const adminValidation = await validateAdminAccess(request);
+
+    const game = await GameDAL.getById(params.id);
+    if (!game) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    const version = await GameVersionDAL.getById(versionId);
+    if (!version || version.gameId !== game.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 只能回滚到审核通过的版本
+    if (version.status !== 'approved') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '只能回滚到已批准的版本',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (game.currentVersionId === version.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `版本 v${version.versionNumber} 已经是线上版本`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const updatedGame = await GameDAL.applyVersion(game.id, version);
+
+    // 记录回滚操作
+    await ReviewLogDAL.create({
+      gameId: game.id,
+      action: 'rollback',
+      reason: `回滚到版本 v${version.versionNumber}`,
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+      versionId: version.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `已回滚到版本 v${version.versionNumber}`,
+      data: {
+        gameId: game.id,
+        currentVersionId: updatedGame?.currentVersionId,
+        versionNumber: version.versionNumber,
+      },
+    });
+  } catch (error) {
+    console.error('回滚游戏版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '回滚游戏版本失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'games:edit');
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RejectionCategoryDAL } from '@/lib/dal';
+import { ReviewService } from '@/lib/review-service';
+import { batchReviewSchema } from '@/lib/validation';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+
+// POST /api/admin/review/batch - 批量批准或拒绝待审核的游戏
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = batchReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { gameIds, action, reason, category: categoryCode } = validationResult.data;
+
+    // 验证管理员权限并获取管理员身份
+    const adminValidation = await validateAdminAccess(request);
+    if (!adminValidation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: adminValidation.error,
+        },
+        { status: 401 }
+      );
+    }
+
+    // 批量拒绝使用同一个拒绝原因分类
+    const category = action === 'reject' && categoryCode ? await RejectionCategoryDAL.getByCode(categoryCode) : null;
+    if (action === 'reject' && (!category || !category.isActive)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '拒绝原因分类不存在或已停用',
+        },
+        { status: 400 }
+      );
+    }
+
+    const results = await ReviewService.batchReview({
+      gameIds,
+      action,
+      reason: reason || undefined,
+      category,
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    });
+
+    const reviewed = results.filter((item) => item.status === 'reviewed').length;
+
+    return NextResponse.json({
+      success: true,
+      message: `已${action === 'approve' ? '批准' : '拒绝'} ${reviewed} 个游戏，${results.length - reviewed} 个未处理`,
+      data: {
+        action,
+        reviewer: adminValidation.adminId,
+        summary: {
+          total: results.length,
+          reviewed,
+          failed: results.length - reviewed,
+        },
+        results,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('批量审核游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '批量审核游戏失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:write');
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RejectionCategoryDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { rejectionCategoryUpdateSchema } from '@/lib/validation';
+
+interface RouteParams {
+  params: {
+    code: string;
+  };
+}
+
+// PATCH /api/admin/review/categories/[code] - 修改拒绝原因分类的名称、模板、排序或启用状态
+export const PATCH = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = rejectionCategoryUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { label, template, sortOrder, isActive } = validationResult.data;
+
+    const existingCategory = await RejectionCategoryDAL.getByCode(params.code);
+    if (!existingCategory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '拒绝原因分类不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 分类被历史审核日志引用，只能停用不能删除
+    const updatedCategory = await RejectionCategoryDAL.update(params.code, {
+      ...(label !== undefined && { label }),
+      ...(template !== undefined && { template }),
+      ...(sortOrder !== undefined && { sortOrder }),
+      ...(isActive !== undefined && { isActive }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '拒绝原因分类已更新',
+      data: {
+        category: updatedCategory,
+      },
+    });
+  } catch (error) {
+    console.error('更新拒绝原因分类失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '更新拒绝原因分类失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:manage');
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RejectionCategoryDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { rejectionCategoryCreateSchema } from '@/lib/validation';
+
+// GET /api/admin/review/categories - 获取拒绝原因分类（?all=true时包含已停用的分类）
+export const GET = requireAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const categories = await RejectionCategoryDAL.getAll(searchParams.get('all') === 'true');
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        categories,
+      },
+    });
+  } catch (error) {
+    console.error('获取拒绝原因分类失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取拒绝原因分类失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
+
+// POST /api/admin/review/categories - 创建拒绝原因分类
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = rejectionCategoryCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { code, label, template, sortOrder } = validationResult.data;
+
+    // 检查分类代码是否已存在（包括已停用的分类）
+    const existingCategory = await RejectionCategoryDAL.getByCode(code);
+    if (existingCategory) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '分类代码已存在',
+        },
+        { status: 409 }
+      );
+    }
+
+    const category = await RejectionCategoryDAL.create({
+      code,
+      label,
+      template,
+      sortOrder: sortOrder ?? 0,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: '拒绝原因分类已创建',
+        data: {
+          category,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建拒绝原因分类失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '创建拒绝原因分类失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:manage');
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL } from '@/lib/dal';
+import { ReviewService, getOtherClaimant, type ClaimActor } from '@/lib/review-service';
+import { reviewClaimSchema } from '@/lib/validation';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import type { Game } from '@/lib/schema';
+
+// 认领信息（不返回游戏内容）
+function toClaimView(game: Game) {
+  return {
+    id: game.id,
+    title: game.title,
+    status: game.status,
+    claimedBy: game.claimedBy,
+    claimExpiresAt: game.claimExpiresAt,
+  };
+}
+
+// 解析请求中的游戏ID和当前审核员
+async function parseClaimRequest(
+  request: NextRequest
+): Promise<{ game: Game; actor: ClaimActor } | { response: NextResponse }> {
+  const body = await request.json().catch(() => ({}));
+  const validation = reviewClaimSchema.safeParse(body);
+  if (!validation.success) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const adminValidation = await validateAdminAccess(request);
+  if (!adminValidation.isValid) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: adminValidation.error,
+        },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const game = await GameDAL.getById(validation.data.gameId);
+  if (!game) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: '游戏不存在',
+        },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return {
+    game,
+    actor: {
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    },
+  };
+}
+
+// POST /api/admin/review/claim - 认领待审核的游戏（已认领时续期）
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const parsed = await parseClaimRequest(request);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+
+    const { game, actor } = parsed;
+
+    if (game.status !== 'pending') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '只能认领待审核的游戏',
+        },
+        { status: 400 }
+      );
+    }
+
+    const claimant = getOtherClaimant(game, actor.reviewer);
+    if (claimant) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `游戏已被 ${claimant} 认领`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const claimed = await ReviewService.claim(game.id, actor);
+    if (!claimed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏已被其他审核员认领，请刷新后重试',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '认领成功',
+      data: {
+        game: toClaimView(claimed),
+      },
+    });
+  } catch (error) {
+    console.error('认领游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '认领游戏失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:write');
+
+// DELETE /api/admin/review/claim - 释放自己的认领
+export const DELETE = requireAdmin(async (request: NextRequest) => {
+  try {
+    const parsed = await parseClaimRequest(request);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+
+    const released = await ReviewService.release(parsed.game.id, parsed.actor);
+    if (!released) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '该游戏不是由你认领的',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '已释放认领',
+      data: {
+        game: toClaimView(released),
+      },
+    });
+  } catch (error) {
+    console.error('释放认领失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '释放认领失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:write');
@@ -50,4 +50,4 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, 'review:read');
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReviewService } from '@/lib/review-service';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+
+// POST /api/admin/review/next - 认领下一个未被认领的待审核游戏
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const adminValidation = await validateAdminAccess(request);
+    if (!adminValidation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: adminValidation.error,
+        },
+        { status: 401 }
+      );
+    }
+
+    const game = await ReviewService.claimNext({
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    });
+
+    if (!game) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '没有可认领的待审核游戏',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '已认领下一个待审核游戏',
+      data: {
+        game: {
+          id: game.id,
+          title: game.title,
+          status: game.status,
+          claimedBy: game.claimedBy,
+          claimExpiresAt: game.claimExpiresAt,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('认领下一个游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '认领下一个游戏失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:write');
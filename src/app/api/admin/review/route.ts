@@ -1,22 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { GameDAL, ReviewLogDAL } from '@/lib/dal';
-import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { GameDAL, RejectionCategoryDAL, ReviewLogDAL } from '@/lib/dal';
+import { ReviewService, getOtherClaimant } from '@/lib/review-service';
+import { identityHasPermission, requireAdmin, validateAdminAccess } from '@/lib/auth';
 
 // 审核请求的验证schema
 const reviewRequestSchema = z.object({
   gameId: z.string().min(1, '游戏ID不能为空'),
-  action: z.enum(['approve', 'reject'], {
-    errorMap: () => ({ message: '操作必须是approve或reject' }),
+  action: z.enum(['approve', 'reject', 'unpublish'], {
+    errorMap: () => ({ message: '操作必须是approve、reject或unpublish' }),
   }),
-  reason: z.string().optional(),
+  reason: z.string().max(500, '原因不能超过500个字符').optional(),
+  category: z.string().max(50, '拒绝原因分类代码不能超过50个字符').optional(),
 });
 
 // GET /api/admin/review - 获取待审核游戏列表
 export const GET = requireAdmin(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status') as 'pending' | 'approved' | 'rejected' | null;
+    const status = searchParams.get('status') as 'pending' | 'approved' | 'rejected' | 'unpublished' | null;
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const search = searchParams.get('search') || '';
@@ -30,6 +32,9 @@ export const GET = requireAdmin(async (request: NextRequest) => {
     // 获取审核统计信息
     const stats = await ReviewLogDAL.getReviewStats();
 
+    // 当前审核员，用于区分自己和他人的认领
+    const adminValidation = await validateAdminAccess(request);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -41,6 +46,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
           totalPages: Math.ceil(total / limit),
         },
         stats,
+        reviewer: adminValidation.adminId,
       },
     });
   } catch (error) {
@@ -54,7 +60,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}, 'review:read');
 
 // POST /api/admin/review - 审核游戏
 export const POST = requireAdmin(async (request: NextRequest) => {
@@ -74,10 +80,10 @@ export const POST = requireAdmin(async (request: NextRequest) => {
       );
     }
 
-    const { gameId, action, reason } = validationResult.data;
+    const { gameId, action, reason, category: categoryCode } = validationResult.data;
 
     // 验证管理员权限并获取管理员身份
-    const adminValidation = validateAdminAccess(request);
+    const adminValidation = await validateAdminAccess(request);
     if (!adminValidation.isValid) {
       return NextResponse.json(
         {
@@ -100,8 +106,30 @@ export const POST = requireAdmin(async (request: NextRequest) => {
       );
     }
 
-    // 检查游戏是否已经被审核过
-    if (existingGame.status !== 'pending') {
+    if (action === 'unpublish') {
+      // 下架需要单独的权限
+      if (!adminValidation.admin || !identityHasPermission(adminValidation.admin, 'games:unpublish')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: '当前角色没有下架游戏的权限',
+          },
+          { status: 403 }
+        );
+      }
+
+      // 只能下架已发布的游戏
+      if (existingGame.status !== 'approved') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: '只能下架已发布的游戏',
+          },
+          { status: 400 }
+        );
+      }
+    } else if (existingGame.status !== 'pending') {
+      // 检查游戏是否已经被审核过
       return NextResponse.json(
         {
           success: false,
@@ -111,46 +139,65 @@ export const POST = requireAdmin(async (request: NextRequest) => {
       );
     }
 
-    // 验证拒绝操作必须提供原因
-    if (action === 'reject' && (!reason || reason.trim().length === 0)) {
+    // 其他审核员认领期间不能审核
+    const claimant = getOtherClaimant(existingGame, adminValidation.adminId);
+    if (claimant) {
       return NextResponse.json(
         {
           success: false,
-          error: '拒绝游戏时必须提供拒绝原因',
+          error: `游戏已被 ${claimant} 认领，请等待其完成审核或认领过期`,
         },
-        { status: 400 }
+        { status: 409 }
       );
     }
 
-    // 更新游戏状态
-    const updatedGame = await GameDAL.updateStatus(
-      gameId,
-      action,
-      adminValidation.adminId,
-      reason
-    );
+    // 下架操作必须提供原因
+    if (action === 'unpublish' && (!reason || reason.trim().length === 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '下架游戏时必须提供下架原因',
+        },
+        { status: 400 }
+      );
+    }
 
-    if (!updatedGame) {
+    // 拒绝操作必须选择启用中的拒绝原因分类，原因作为补充说明
+    const category = action === 'reject' && categoryCode ? await RejectionCategoryDAL.getByCode(categoryCode) : null;
+    if (action === 'reject' && (!category || !category.isActive)) {
       return NextResponse.json(
         {
           success: false,
-          error: '更新游戏状态失败',
+          error: categoryCode ? '拒绝原因分类不存在或已停用' : '拒绝游戏时必须选择拒绝原因分类',
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // 记录审核日志
-    await ReviewLogDAL.create({
+    // 在同一事务中更新游戏状态并记录审核日志
+    const updatedGame = await ReviewService.review({
       gameId,
       action,
-      reason: reason || null,
+      reason,
+      category,
       reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
     });
 
+    // 其他审核员已在此期间处理了该游戏
+    if (!updatedGame) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏状态已被其他审核员变更，请刷新后重试',
+        },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
-      message: `游戏已${action === 'approve' ? '批准' : '拒绝'}`,
+      message: `游戏已${action === 'approve' ? '批准' : action === 'reject' ? '拒绝' : '下架'}`,
       data: {
         game: updatedGame,
         action,
@@ -169,4 +216,4 @@ export const POST = requireAdmin(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
+}, 'review:write');
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameVersionDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { diffLines, getDiffStats } from '@/lib/diff';
+
+interface RouteParams {
+  params: {
+    versionId: string;
+  };
+}
+
+// GET /api/admin/review/versions/[versionId]/diff?base=<versionId> - 对比两个版本的HTML内容
+// 未指定base时与当前线上内容对比
+export const GET = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const version = await GameVersionDAL.getById(params.versionId);
+    if (!version) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    const baseId = new URL(request.url).searchParams.get('base');
+    let base: { id: string | null; versionNumber: number | null; title: string; htmlContent: string };
+
+    if (baseId) {
+      const baseVersion = await GameVersionDAL.getById(baseId);
+      if (!baseVersion || baseVersion.gameId !== version.gameId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: '对比版本不存在',
+          },
+          { status: 404 }
+        );
+      }
+      base = baseVersion;
+    } else {
+      const game = await GameDAL.getById(version.gameId);
+      if (!game) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: '游戏不存在',
+          },
+          { status: 404 }
+        );
+      }
+      base = {
+        id: game.currentVersionId,
+        versionNumber: null,
+        title: game.title,
+        htmlContent: game.htmlContent,
+      };
+    }
+
+    const diff = diffLines(base.htmlContent, version.htmlContent);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        base: {
+          id: base.id,
+          versionNumber: base.versionNumber,
+          title: base.title,
+          isLive: !baseId,
+        },
+        target: {
+          id: version.id,
+          versionNumber: version.versionNumber,
+          title: version.title,
+        },
+        stats: getDiffStats(diff),
+        diff,
+      },
+    });
+  } catch (error) {
+    console.error('获取版本差异失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取版本差异失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameVersionDAL } from '@/lib/dal';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { ReviewService } from '@/lib/review-service';
+import { versionReviewSchema } from '@/lib/validation';
+
+interface RouteParams {
+  params: {
+    versionId: string;
+  };
+}
+
+// GET /api/admin/review/versions/[versionId] - 获取版本详情（含HTML内容）
+export const GET = requireAdmin(async (_request: NextRequest, { params }: RouteParams) => {
+  try {
+    const version = await GameVersionDAL.getById(params.versionId);
+    if (!version) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        version,
+      },
+    });
+  } catch (error) {
+    console.error('获取版本详情失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取版本详情失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
+
+// POST /api/admin/review/versions/[versionId] - 审核游戏版本（批准后替换线上版本）
+export const POST = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = versionReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, reason } = validationResult.data;
+    const adminValidation = await validateAdminAccess(request);
+
+    const version = await GameVersionDAL.getById(params.versionId);
+    if (!version) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (version.status !== 'pending') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `版本 v${version.versionNumber} 已经被审核过，无法重复审核`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 验证拒绝操作必须提供原因
+    if (action === 'reject' && (!reason || reason.trim().length === 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '拒绝版本时必须提供拒绝原因',
+        },
+        { status: 400 }
+      );
+    }
+
+    // 在同一事务中更新版本状态、替换线上版本（批准时）并记录审核日志
+    const result = await ReviewService.reviewVersion({
+      version,
+      action,
+      reason,
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    });
+
+    // 其他审核员已在此期间审核了该版本
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本状态已被其他审核员变更，请刷新后重试',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `版本 v${version.versionNumber} 已${action === 'approve' ? '批准并上线' : '拒绝'}`,
+      data: {
+        version: result.version,
+        currentVersionId: result.game?.currentVersionId,
+        action,
+        reviewer: adminValidation.adminId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('审核游戏版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '审核游戏版本失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:write');
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameVersionDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+
+// GET /api/admin/review/versions - 获取待审核的游戏版本
+export const GET = requireAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const versions = await GameVersionDAL.getPending(limit, offset);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        versions,
+      },
+    });
+  } catch (error) {
+    console.error('获取待审核版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取待审核版本失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
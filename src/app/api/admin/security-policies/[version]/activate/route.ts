@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityPolicyDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { securityPolicyVersionSchema } from '@/lib/validation';
+
+interface RouteParams {
+  params: {
+    version: string;
+  };
+}
+
+// POST /api/admin/security-policies/[version]/activate - 启用指定版本的安全策略（可用于回退到旧版本）
+export const POST = requireAdmin(async (_request: NextRequest, { params }: RouteParams) => {
+  try {
+    const paramValidation = securityPolicyVersionSchema.safeParse(params);
+    if (!paramValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本号无效',
+          details: paramValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { version } = paramValidation.data;
+    const existingPolicy = await SecurityPolicyDAL.getByVersion(version);
+    if (!existingPolicy) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '安全策略不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (existingPolicy.isActive) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `安全策略 v${version} 已是当前生效的版本`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const policy = await SecurityPolicyDAL.activate(version);
+
+    return NextResponse.json({
+      success: true,
+      message: `安全策略 v${version} 已启用`,
+      data: {
+        policy,
+      },
+    });
+  } catch (error) {
+    console.error('启用安全策略失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '启用安全策略失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
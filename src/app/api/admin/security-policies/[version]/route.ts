@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityPolicyDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+import { securityPolicyVersionSchema } from '@/lib/validation';
+
+interface RouteParams {
+  params: {
+    version: string;
+  };
+}
+
+// GET /api/admin/security-policies/[version] - 获取指定版本的安全策略
+export const GET = requireAdmin(async (_request: NextRequest, { params }: RouteParams) => {
+  try {
+    const paramValidation = securityPolicyVersionSchema.safeParse(params);
+    if (!paramValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '版本号无效',
+          details: paramValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const policy = await SecurityPolicyDAL.getByVersion(paramValidation.data.version);
+    if (!policy) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '安全策略不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        policy,
+      },
+    });
+  } catch (error) {
+    console.error('获取安全策略失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取安全策略失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
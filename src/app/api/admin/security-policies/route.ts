@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityPolicyDAL } from '@/lib/dal';
+import { getAdminIdentity, requireAdmin } from '@/lib/auth';
+import { securityPolicyCreateSchema } from '@/lib/validation';
+
+// GET /api/admin/security-policies - 获取安全策略版本列表
+export const GET = requireAdmin(async () => {
+  try {
+    const policies = await SecurityPolicyDAL.getAll();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        policies,
+        activeVersion: policies.find((policy) => policy.isActive)?.version ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('获取安全策略列表失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取安全策略列表失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
+
+// POST /api/admin/security-policies - 修改安全策略（保存为新版本，activate=true时立即启用）
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = securityPolicyCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { config, note, activate } = validationResult.data;
+
+    const createdPolicy = await SecurityPolicyDAL.create({
+      config,
+      note: note || null,
+      createdBy: await getAdminIdentity(request),
+    });
+    const policy = activate ? await SecurityPolicyDAL.activate(createdPolicy.version) : createdPolicy;
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: activate ? `安全策略 v${createdPolicy.version} 已创建并启用` : `安全策略 v${createdPolicy.version} 已创建`,
+        data: {
+          policy,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建安全策略失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '创建安全策略失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityScanDAL } from '@/lib/dal';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { SecurityRescanService } from '@/lib/security-rescan';
+import { securityRescanSchema } from '@/lib/validation';
+
+// GET /api/admin/security-rescan - 获取最近一次复查中被标记的游戏
+export const GET = requireAdmin(async () => {
+  try {
+    const scans = await SecurityScanDAL.getFlagged();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scans,
+      },
+    });
+  } catch (error) {
+    console.error('获取安全复查结果失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取安全复查结果失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
+
+// POST /api/admin/security-rescan - 按当前安全策略复查所有游戏（默认试运行，dryRun=false时保存结果，requeue=true时撤回被标记的游戏）
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    // 验证请求数据
+    const validationResult = securityRescanSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dryRun, requeue } = validationResult.data;
+    const adminValidation = await validateAdminAccess(request);
+
+    const summary = await SecurityRescanService.run({
+      dryRun,
+      requeue,
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    });
+
+    const message = dryRun
+      ? `试运行完成：共检查 ${summary.scanned} 个游戏，${summary.flagged.length} 个已发布的游戏不符合当前安全策略`
+      : `复查完成：共检查 ${summary.scanned} 个游戏，标记 ${summary.flagged.length} 个，撤回待审核 ${summary.requeued} 个`;
+
+    return NextResponse.json({
+      success: true,
+      message,
+      data: {
+        summary,
+      },
+    });
+  } catch (error) {
+    console.error('安全复查失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '安全复查失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'security:manage');
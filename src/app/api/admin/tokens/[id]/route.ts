@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenDAL } from '@/lib/dal';
+import { requireAdmin } from '@/lib/auth';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// DELETE /api/admin/tokens/[id] - 吊销API令牌
+export const DELETE = requireAdmin(async (_request: NextRequest, { params }: RouteParams) => {
+  try {
+    const existingToken = await ApiTokenDAL.getById(params.id);
+    if (!existingToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'API令牌不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (existingToken.revokedAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'API令牌已被吊销',
+        },
+        { status: 400 }
+      );
+    }
+
+    const revokedToken = await ApiTokenDAL.revoke(params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'API令牌已吊销',
+      data: {
+        tokenInfo: revokedToken,
+      },
+    });
+  } catch (error) {
+    console.error('吊销API令牌失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '吊销API令牌失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'tokens:manage');
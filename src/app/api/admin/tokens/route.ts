@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiTokenDAL } from '@/lib/dal';
+import { requireAdmin, validateAdminAccess } from '@/lib/auth';
+import { apiTokenCreateSchema } from '@/lib/validation';
+import { generateApiToken, isApiTokenActive } from '@/lib/api-tokens';
+
+// GET /api/admin/tokens - 获取API令牌列表
+export const GET = requireAdmin(async () => {
+  try {
+    const tokens = await ApiTokenDAL.getAll();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokens: tokens.map((token) => ({
+          ...token,
+          isActive: isApiTokenActive(token),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('获取API令牌列表失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取API令牌列表失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'tokens:manage');
+
+// POST /api/admin/tokens - 创建API令牌（明文令牌只返回这一次）
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validationResult = apiTokenCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据无效',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, scopes, expiresAt } = validationResult.data;
+
+    // 令牌名称用于审核日志，必须唯一
+    const existingToken = await ApiTokenDAL.getByName(name);
+    if (existingToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '令牌名称已存在',
+        },
+        { status: 409 }
+      );
+    }
+
+    const adminValidation = await validateAdminAccess(request);
+    const { token, prefix, hash } = generateApiToken();
+
+    const createdToken = await ApiTokenDAL.create({
+      id: uuidv4(),
+      name,
+      tokenPrefix: prefix,
+      tokenHash: hash,
+      scopes: Array.from(new Set(scopes)),
+      createdBy: adminValidation.adminId,
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'API令牌已创建，请立即保存，令牌不会再次显示',
+        data: {
+          token,
+          tokenInfo: createdToken,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('创建API令牌失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '创建API令牌失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'tokens:manage');
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminDAL } from '@/lib/dal';
+import { adminLoginSchema } from '@/lib/validation';
+import { getDummyPasswordHash, verifyPassword } from '@/lib/password';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  createSessionToken,
+} from '@/lib/session';
+
+// POST /api/auth/login - 管理员登录
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = adminLoginSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '登录数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { username, password } = validation.data;
+
+    // 校验账号和密码（统一返回相同的错误信息；账号不存在时校验占位哈希，响应时间同样不泄露账号是否存在）
+    const admin = await AdminDAL.getByUsernameWithPassword(username);
+    const isValidPassword = await verifyPassword(password, admin?.passwordHash ?? (await getDummyPasswordHash()));
+
+    if (!admin || !isValidPassword || !admin.isActive) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'UNAUTHORIZED',
+          message: '用户名或密码错误',
+        },
+        { status: 401 }
+      );
+    }
+
+    await AdminDAL.updateLastLogin(admin.id);
+
+    // 签发会话令牌
+    const token = await createSessionToken({
+      sub: admin.id,
+      name: admin.username,
+      kind: 'admin',
+      ver: admin.sessionVersion,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message: '登录成功',
+      data: {
+        admin: {
+          id: admin.id,
+          username: admin.username,
+          displayName: admin.displayName,
+        },
+        expiresAt: new Date(Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000).toISOString(),
+      },
+    });
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: ADMIN_SESSION_TTL_SECONDS,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('管理员登录失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: '服务器内部错误',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE } from '@/lib/session';
+
+// POST /api/auth/logout - 管理员退出登录
+export async function POST() {
+  const response = NextResponse.json({
+    success: true,
+    message: '已退出登录',
+  });
+
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+
+  return response;
+}
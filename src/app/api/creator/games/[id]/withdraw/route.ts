@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, ReviewLogDAL } from '@/lib/dal';
+import { requireCreator } from '@/lib/auth';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/creator/games/[id]/withdraw - 撤回待审核的游戏
+export const POST = requireCreator(async (_request: NextRequest, { params }: RouteParams, creator) => {
+  try {
+    const game = await GameDAL.getById(params.id);
+
+    // 不是自己的游戏时同样返回404，避免泄露游戏是否存在
+    if (!game || game.ownerId !== creator.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (game.status !== 'pending') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '只能撤回待审核的游戏',
+        },
+        { status: 400 }
+      );
+    }
+
+    const withdrawnGame = await GameDAL.withdraw(params.id, creator.id);
+    if (!withdrawnGame) {
+      // 审核员可能已在此期间完成审核
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏状态已变更，无法撤回',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 记录撤回操作，便于在审核历史中查看
+    const reviewLog = await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'withdraw',
+      reviewer: `creator:${creator.username}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '游戏已撤回',
+      data: {
+        game: {
+          id: withdrawnGame.id,
+          title: withdrawnGame.title,
+          status: withdrawnGame.status,
+          updatedAt: withdrawnGame.updatedAt,
+        },
+        reviewLog,
+      },
+    });
+  } catch (error) {
+    console.error('撤回游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '撤回游戏失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameErrorDAL, ReviewLogDAL } from '@/lib/dal';
+import { requireCreator } from '@/lib/auth';
+import type { CreatorGame } from '@/lib/schema';
+
+// GET /api/creator/games - 获取当前创作者提交的游戏、审核记录及运行错误次数
+export const GET = requireCreator(async (_request: NextRequest, _context, creator) => {
+  try {
+    const ownedGames = await GameDAL.getByOwner(creator.id);
+
+    // 审核记录只返回操作、原因和时间，不向创作者暴露审核员账号
+    const gamesWithLogs: CreatorGame[] = await Promise.all(
+      ownedGames.map(async (game) => {
+        const [logs, errorCount] = await Promise.all([
+          ReviewLogDAL.getByGameId(game.id, true),
+          GameErrorDAL.countOccurrences(game.id),
+        ]);
+        return {
+          ...game,
+          reviewLogs: logs.map(({ reviewer: _reviewer, reviewerRole: _reviewerRole, ...log }) => log),
+          errorCount,
+        };
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        creator,
+        games: gamesWithLogs,
+      },
+    });
+  } catch (error) {
+    console.error('获取创作者游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取游戏列表失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+});
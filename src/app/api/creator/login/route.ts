@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CreatorDAL } from '@/lib/dal';
+import { creatorLoginSchema } from '@/lib/validation';
+import { getDummyPasswordHash, verifyPassword } from '@/lib/password';
+import {
+  CREATOR_SESSION_COOKIE,
+  CREATOR_SESSION_TTL_SECONDS,
+  createSessionToken,
+  getSessionCookieOptions,
+} from '@/lib/session';
+
+// POST /api/creator/login - 创作者登录
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = creatorLoginSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '登录数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { username, password } = validation.data;
+
+    // 校验账号和密码（统一返回相同的错误信息；账号不存在时校验占位哈希，响应时间同样不泄露账号是否存在）
+    const creator = await CreatorDAL.getByUsernameWithPassword(username);
+    const isValidPassword = await verifyPassword(password, creator?.passwordHash ?? (await getDummyPasswordHash()));
+
+    if (!creator || !isValidPassword) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'UNAUTHORIZED',
+          message: '用户名或密码错误',
+        },
+        { status: 401 }
+      );
+    }
+
+    await CreatorDAL.updateLastLogin(creator.id);
+
+    // 签发会话令牌
+    const token = await createSessionToken(
+      {
+        sub: creator.id,
+        name: creator.username,
+        kind: 'creator',
+      },
+      CREATOR_SESSION_TTL_SECONDS
+    );
+
+    const response = NextResponse.json({
+      success: true,
+      message: '登录成功',
+      data: {
+        creator: {
+          id: creator.id,
+          username: creator.username,
+          displayName: creator.displayName,
+        },
+      },
+    });
+
+    response.cookies.set(CREATOR_SESSION_COOKIE, token, getSessionCookieOptions(CREATOR_SESSION_TTL_SECONDS));
+
+    return response;
+  } catch (error) {
+    console.error('创作者登录失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: '服务器内部错误',
+      },
+      { status: 500 }
+    );
+  }
+}
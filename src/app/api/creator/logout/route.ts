@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { CREATOR_SESSION_COOKIE, getSessionCookieOptions } from '@/lib/session';
+
+// POST /api/creator/logout - 创作者退出登录
+export async function POST() {
+  const response = NextResponse.json({
+    success: true,
+    message: '已退出登录',
+  });
+
+  response.cookies.set(CREATOR_SESSION_COOKIE, '', getSessionCookieOptions(0));
+
+  return response;
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { CreatorDAL } from '@/lib/dal';
+import { creatorRegisterSchema } from '@/lib/validation';
+import { hashPassword } from '@/lib/password';
+import {
+  CREATOR_SESSION_COOKIE,
+  CREATOR_SESSION_TTL_SECONDS,
+  createSessionToken,
+  getSessionCookieOptions,
+} from '@/lib/session';
+
+// POST /api/creator/register - 注册创作者账号（注册成功后自动登录）
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = creatorRegisterSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '注册数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { username, password, displayName } = validation.data;
+
+    const existingCreator = await CreatorDAL.getByUsernameWithPassword(username);
+    if (existingCreator) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '用户名已被注册',
+        },
+        { status: 409 }
+      );
+    }
+
+    const creator = await CreatorDAL.create({
+      id: uuidv4(),
+      username,
+      passwordHash: await hashPassword(password),
+      displayName: displayName || null,
+    });
+
+    // 签发会话令牌
+    const token = await createSessionToken(
+      {
+        sub: creator.id,
+        name: creator.username,
+        kind: 'creator',
+      },
+      CREATOR_SESSION_TTL_SECONDS
+    );
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: '注册成功',
+        data: {
+          creator,
+        },
+      },
+      { status: 201 }
+    );
+
+    response.cookies.set(CREATOR_SESSION_COOKIE, token, getSessionCookieOptions(CREATOR_SESSION_TTL_SECONDS));
+
+    return response;
+  } catch (error) {
+    console.error('创作者注册失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: '服务器内部错误',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, ReviewLogDAL, SubmissionReceiptDAL } from '@/lib/dal';
+import { gameAppealSchema, gameIdSchema } from '@/lib/validation';
+import { RECEIPT_TOKEN_HEADER, verifyReceiptToken } from '@/lib/receipts';
+import { getCreatorSession } from '@/lib/auth';
+import type { Game } from '@/lib/schema';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 解析申诉人：游戏所有者或持有回执令牌的匿名提交者
+async function resolveAppellant(request: NextRequest, game: Game): Promise<string | null> {
+  const creator = await getCreatorSession(request).catch(() => null);
+  if (creator && game.ownerId === creator.id) {
+    return `creator:${creator.username}`;
+  }
+
+  const receiptToken = request.headers.get(RECEIPT_TOKEN_HEADER);
+  if (receiptToken) {
+    const receipt = await SubmissionReceiptDAL.getByGameId(game.id);
+    if (receipt && verifyReceiptToken(receiptToken, receipt.tokenHash)) {
+      return 'receipt';
+    }
+  }
+
+  return null;
+}
+
+// POST /api/games/[id]/appeal - 对被拒绝的游戏提出申诉，游戏重新进入审核队列
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = gameIdSchema.safeParse({ id: params.id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        },
+        { status: 400 }
+      );
+    }
+
+    // 游戏不存在和无权申诉返回相同的错误，避免探测游戏
+    const game = await GameDAL.getById(params.id);
+    const appellant = game ? await resolveAppellant(request, game) : null;
+    if (!game || !appellant) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在或没有申诉权限',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (game.status !== 'rejected') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: '只能对已拒绝的游戏提出申诉',
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = gameAppealSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '申诉数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { message } = validation.data;
+
+    const appealedGame = await GameDAL.appeal(params.id, message);
+    if (!appealedGame) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '游戏状态已变更，无法申诉',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 记录申诉，审核员可在审核历史中查看
+    await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'appeal',
+      reason: message,
+      reviewer: appellant,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '申诉已提交，游戏将重新审核',
+      data: {
+        game: {
+          id: appealedGame.id,
+          title: appealedGame.title,
+          status: appealedGame.status,
+          rejectionReason: appealedGame.rejectionReason,
+          appealMessage: appealedGame.appealMessage,
+          updatedAt: appealedGame.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('提交申诉失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '提交申诉失败，请稍后重试',
+      },
+      { status: 500 }
+    );
+  }
+}
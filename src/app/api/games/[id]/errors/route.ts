@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameErrorDAL } from '@/lib/dal';
+import { gameErrorReportSchema, gameIdSchema } from '@/lib/validation';
+import { identityHasPermission, resolveAdminIdentity, resolveGameEditor } from '@/lib/auth';
+import { GAME_ERROR_RATE_LIMIT, type GameErrorReport } from '@/lib/game-errors';
+import { checkRateLimit, getRateLimitClient, hashRateLimitClient } from '@/lib/rate-limit';
+import { ApiResponse } from '@/types/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 错误特征：类型、信息和堆栈首个调用位置相同的错误视为同一分组
+function getErrorFingerprint(report: GameErrorReport): string {
+  const frame = report.stack
+    ?.split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.startsWith('at ') || line.includes('@'));
+  return createHash('sha256').update(`${report.kind}\n${report.message}\n${frame ?? ''}`).digest('hex');
+}
+
+// 读取游戏，游戏ID无效或游戏不存在时返回错误响应
+async function getGame(id: string) {
+  const idValidation = gameIdSchema.safeParse({ id });
+  if (!idValidation.success) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        } as ApiResponse,
+        { status: 400 }
+      ),
+    };
+  }
+
+  const game = await GameDAL.getById(id);
+  if (!game || game.status === 'deleted') {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在',
+        } as ApiResponse,
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { game };
+}
+
+// POST /api/games/[id]/errors - 上报游戏运行错误（由游戏页面在游戏报告错误或无响应时调用）
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { game, error } = await getGame(params.id);
+    if (error) {
+      return error;
+    }
+
+    // 只记录已发布游戏的错误，预览和审核中的游戏不计入
+    if (game.status !== 'approved') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在或未发布',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    // 上报接口无需登录，按客户端IP或玩家标识限制每个时间窗口内的上报次数
+    const client = await getRateLimitClient(request);
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'UNAUTHORIZED',
+          message: '缺少玩家标识，请刷新游戏页面后重试',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    const clientHash = hashRateLimitClient(params.id, client);
+    const { allowed, retryAfter } = await checkRateLimit(`errors:${params.id}`, clientHash, GAME_ERROR_RATE_LIMIT);
+    if (!allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'RATE_LIMITED',
+          message: '错误上报过于频繁，请稍后再试',
+        } as ApiResponse,
+        {
+          status: 429,
+          headers: { 'Retry-After': String(retryAfter) },
+        }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = gameErrorReportSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '错误报告验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const recorded = await GameErrorDAL.record(params.id, getErrorFingerprint(validation.data), validation.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { recorded },
+      } as ApiResponse,
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error recording game error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '记录游戏错误失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/games/[id]/errors - 获取游戏的运行错误（游戏所有者或拥有review:read权限的管理员）
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { game, error } = await getGame(params.id);
+    if (error) {
+      return error;
+    }
+
+    const admin = await resolveAdminIdentity(request).catch(() => null);
+    const canView =
+      (admin && identityHasPermission(admin, 'review:read')) || (await resolveGameEditor(request, game)) !== null;
+    if (!canView) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FORBIDDEN',
+          message: '没有查看该游戏错误的权限',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+
+    const errors = await GameErrorDAL.getByGameId(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { errors },
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching game errors:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '获取游戏错误失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/games/[id]/errors - 清除游戏的运行错误（游戏所有者或拥有games:edit权限的管理员）
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { game, error } = await getGame(params.id);
+    if (error) {
+      return error;
+    }
+
+    const editor = await resolveGameEditor(request, game);
+    if (!editor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FORBIDDEN',
+          message: '没有修改该游戏的权限',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+
+    await GameErrorDAL.clear(params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: '游戏错误记录已清除',
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error clearing game errors:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '清除游戏错误失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
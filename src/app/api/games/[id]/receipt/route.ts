@@ -0,0 +1,324 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, ReviewLogDAL, SecurityPolicyDAL, SubmissionReceiptDAL } from '@/lib/dal';
+import { gameIdSchema, gameUpdateSchema } from '@/lib/validation';
+import { validateHtmlContent, validateStringContent } from '@/lib/security';
+import { RECEIPT_TOKEN_HEADER, verifyReceiptToken } from '@/lib/receipts';
+import type { Game } from '@/lib/schema';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 校验回执令牌，成功时返回对应的游戏
+async function authorizeReceipt(
+  request: NextRequest,
+  gameId: string
+): Promise<{ game: Game } | { response: NextResponse }> {
+  const validationResult = gameIdSchema.safeParse({ id: gameId });
+  if (!validationResult.success) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const token = request.headers.get(RECEIPT_TOKEN_HEADER);
+  if (!token) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: 'UNAUTHORIZED',
+          message: '缺少回执令牌',
+        },
+        { status: 401 }
+      ),
+    };
+  }
+
+  // 游戏不存在和令牌不匹配返回相同的错误，避免通过回执接口探测游戏
+  const receipt = await SubmissionReceiptDAL.getByGameId(gameId);
+  const game = receipt && verifyReceiptToken(token, receipt.tokenHash)
+    ? await GameDAL.getById(gameId)
+    : null;
+
+  if (!game) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在或回执令牌无效',
+        },
+        { status: 404 }
+      ),
+    };
+  }
+
+  // 记录回执使用时间，失败不影响本次请求
+  await SubmissionReceiptDAL.touchLastUsed(gameId).catch((error) => {
+    console.error('更新回执使用时间失败:', error);
+  });
+
+  return { game };
+}
+
+// 返回给提交者的游戏状态信息
+function toReceiptView(game: Game) {
+  return {
+    id: game.id,
+    title: game.title,
+    description: game.description,
+    authorName: game.authorName,
+    status: game.status,
+    rejectionReason: game.rejectionReason,
+    appealMessage: game.appealMessage,
+    unpublishReason: game.unpublishReason,
+    createdAt: game.createdAt,
+    updatedAt: game.updatedAt,
+    approvedAt: game.approvedAt,
+  };
+}
+
+// GET /api/games/[id]/receipt - 凭回执令牌查看审核状态
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const result = await authorizeReceipt(request, params.id);
+    if ('response' in result) {
+      return result.response;
+    }
+
+    // 审核记录只返回操作、原因和时间，不暴露审核员账号
+    const logs = await ReviewLogDAL.getByGameId(params.id, true);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        game: toReceiptView(result.game),
+        reviewLogs: logs.map(({ reviewer: _reviewer, reviewerRole: _reviewerRole, ...log }) => log),
+      },
+    });
+  } catch (error) {
+    console.error('查询提交回执失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '查询提交状态失败',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/games/[id]/receipt - 凭回执令牌修改游戏（已拒绝的游戏修改HTML内容后重新进入审核）
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const result = await authorizeReceipt(request, params.id);
+    if ('response' in result) {
+      return result.response;
+    }
+
+    const { game } = result;
+
+    // 已发布的游戏不能匿名修改，否则可以绕过审核
+    if (game.status !== 'pending' && game.status !== 'rejected') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: '只能修改待审核或已拒绝的游戏',
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = gameUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { title, description, htmlContent, authorName } = validation.data;
+    const metadata = {
+      ...(title !== undefined && { title: title.trim() }),
+      ...(description !== undefined && { description: description.trim() || null }),
+      ...(authorName !== undefined && { authorName: authorName.trim() || null }),
+    };
+    const contentChanged = htmlContent !== undefined && htmlContent !== game.htmlContent;
+    const changedFields = [...Object.keys(metadata), ...(contentChanged ? ['htmlContent'] : [])];
+    // 已拒绝的游戏只有修改HTML内容才重新提交审核，只修改元数据时应通过申诉说明
+    const resubmit = contentChanged && game.status === 'rejected';
+
+    if (changedFields.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '没有需要修改的内容',
+        },
+        { status: 400 }
+      );
+    }
+
+    let securityPolicyVersion: number | null = null;
+    if (contentChanged) {
+      // 按当前生效的安全策略检查内容
+      const securityPolicy = await SecurityPolicyDAL.getActiveConfig();
+      securityPolicyVersion = securityPolicy.version;
+
+      // 验证HTML内容大小
+      const contentValidation = validateStringContent(htmlContent, securityPolicy.config.maxFileSize);
+      if (!contentValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'FILE_TOO_LARGE',
+            message: '内容验证失败',
+            details: contentValidation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      // 验证HTML内容安全性
+      const securityValidation = validateHtmlContent(htmlContent, securityPolicy.config);
+      if (!securityValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'MALICIOUS_CONTENT',
+            message: 'HTML内容包含不安全的元素',
+            details: {
+              findings: securityValidation.findings,
+              violations: securityValidation.violations,
+              warnings: securityValidation.warnings,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 以检查时的状态作为更新条件，审核员在此期间完成审核时不覆盖审核后的内容
+    const updatedGame = await GameDAL.updateIfStatus(params.id, game.status, {
+      ...metadata,
+      ...(contentChanged && { htmlContent, securityPolicyVersion }),
+      ...(resubmit && { status: 'pending' as const, rejectionReason: null }),
+    });
+
+    if (!updatedGame) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '游戏状态已变更，请刷新后重试',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 记录修改操作
+    await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'edit',
+      reason: `修改字段: ${changedFields.join(', ')}`,
+      reviewer: 'receipt',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: resubmit ? '游戏已修改并重新提交审核' : '游戏已修改',
+      data: {
+        game: toReceiptView(updatedGame),
+      },
+    });
+  } catch (error) {
+    console.error('修改游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '修改游戏失败',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/games/[id]/receipt - 凭回执令牌撤回待审核的游戏
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const result = await authorizeReceipt(request, params.id);
+    if ('response' in result) {
+      return result.response;
+    }
+
+    if (result.game.status !== 'pending') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: '只能撤回待审核的游戏',
+        },
+        { status: 400 }
+      );
+    }
+
+    const withdrawnGame = await GameDAL.withdraw(params.id);
+    if (!withdrawnGame) {
+      // 审核员可能已在此期间完成审核
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '游戏状态已变更，无法撤回',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 记录撤回操作，便于在审核历史中查看
+    await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'withdraw',
+      reviewer: 'receipt',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '游戏已撤回',
+      data: {
+        game: toReceiptView(withdrawnGame),
+      },
+    });
+  } catch (error) {
+    console.error('撤回游戏失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '撤回游戏失败',
+      },
+      { status: 500 }
+    );
+  }
+}
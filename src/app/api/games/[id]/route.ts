@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GameDAL } from '@/lib/dal';
-import { gameIdSchema } from '@/lib/validation';
+import { v4 as uuidv4 } from 'uuid';
+import { GameDAL, GameVersionDAL, ReviewLogDAL, SecurityPolicyDAL } from '@/lib/dal';
+import { gameDeleteSchema, gameIdSchema, gameUpdateSchema } from '@/lib/validation';
+import { validateHtmlContent, validateStringContent } from '@/lib/security';
 import { ApiResponse } from '@/types/database';
-import { isAdminAuthenticated } from '@/lib/auth';
+import { isAdminAuthenticated, requireAdmin, resolveGameEditor, validateAdminAccess } from '@/lib/auth';
 
 interface RouteParams {
   params: {
@@ -27,7 +29,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // 检查是否是管理员请求
-    const isAdmin = isAdminAuthenticated(request);
+    const isAdmin = await isAdminAuthenticated(request, 'review:read');
 
     // 获取游戏数据
     const game = await GameDAL.getByIdWithMetadata(params.id);
@@ -43,6 +45,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // 已下架的游戏对普通用户返回410，告知游戏曾经存在但已被移除
+    if (!isAdmin && game.status === 'unpublished') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_UNPUBLISHED',
+          message: '游戏已下架',
+        } as ApiResponse,
+        { status: 410 }
+      );
+    }
+
     // 管理员可以查看任何状态的游戏，普通用户只能查看已发布的游戏
     if (!isAdmin && game.status !== 'approved') {
       return NextResponse.json(
@@ -88,3 +102,322 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
+
+// PATCH /api/games/[id] - 修改游戏（HTML内容变更后需要重新审核）
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = gameIdSchema.safeParse({ id: params.id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const game = await GameDAL.getById(params.id);
+    if (!game || game.status === 'deleted') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    const editor = await resolveGameEditor(request, game);
+    if (!editor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FORBIDDEN',
+          message: '没有修改该游戏的权限',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = gameUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { title, description, htmlContent, authorName } = validation.data;
+    const metadata = {
+      ...(title !== undefined && { title: title.trim() }),
+      ...(description !== undefined && { description: description.trim() || null }),
+      ...(authorName !== undefined && { authorName: authorName.trim() || null }),
+    };
+    const contentChanged = htmlContent !== undefined && htmlContent !== game.htmlContent;
+    const changedFields = [...Object.keys(metadata), ...(contentChanged ? ['htmlContent'] : [])];
+    const resubmit = game.status === 'rejected' || game.status === 'unpublished';
+
+    if (changedFields.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '没有需要修改的内容',
+        },
+        { status: 400 }
+      );
+    }
+
+    let warnings: string[] = [];
+    let securityPolicyVersion: number | null = null;
+    if (contentChanged) {
+      // 按当前生效的安全策略检查内容
+      const securityPolicy = await SecurityPolicyDAL.getActiveConfig();
+      securityPolicyVersion = securityPolicy.version;
+
+      // 验证HTML内容大小
+      const contentValidation = validateStringContent(htmlContent, securityPolicy.config.maxFileSize);
+      if (!contentValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'FILE_TOO_LARGE',
+            message: '内容验证失败',
+            details: contentValidation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      // 验证HTML内容安全性
+      const securityValidation = validateHtmlContent(htmlContent, securityPolicy.config);
+      if (!securityValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'MALICIOUS_CONTENT',
+            message: 'HTML内容包含不安全的元素',
+            details: {
+              findings: securityValidation.findings,
+              violations: securityValidation.violations,
+              warnings: securityValidation.warnings,
+            },
+          },
+          { status: 400 }
+        );
+      }
+      warnings = securityValidation.warnings;
+    }
+
+    // 已发布游戏的HTML内容变更作为新版本提交审核，审核通过前线上仍为当前版本
+    const submitsVersion = contentChanged && game.status === 'approved';
+    const pendingVersion =
+      game.status === 'approved' ? await GameVersionDAL.getPendingByGameId(params.id) : null;
+    if (submitsVersion && pendingVersion) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: `版本 v${pendingVersion.versionNumber} 正在审核中，请等待审核完成后再修改内容`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // 标题和简介随版本上线：提交新版本时只保存在新版本上，线上仍为当前版本的标题和简介
+    const { authorName: authorNameUpdate, ...versionMetadata } = metadata;
+    const liveMetadata = submitsVersion
+      ? { ...(authorNameUpdate !== undefined && { authorName: authorNameUpdate }) }
+      : metadata;
+
+    // 有版本在审核中时同步修改该版本，避免审核通过时覆盖这次修改
+    if (pendingVersion && Object.keys(versionMetadata).length > 0) {
+      const synced = await GameVersionDAL.updatePendingMetadata(pendingVersion.id, versionMetadata);
+      if (!synced) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'CONFLICT',
+            message: '版本审核状态已变更，请刷新后重试',
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // 以检查时的状态作为更新条件，期间被审核或下架时不覆盖新的状态
+    const updatedGame = await GameDAL.updateIfStatus(params.id, game.status!, {
+      ...liveMetadata,
+      // 未发布的游戏直接修改内容；已拒绝或已下架的游戏修改内容后重新进入审核
+      ...(contentChanged && game.status !== 'approved' && { htmlContent, securityPolicyVersion }),
+      ...(contentChanged && resubmit && { status: 'pending' as const, rejectionReason: null }),
+    });
+
+    if (!updatedGame) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '游戏状态已变更，请刷新后重试',
+        },
+        { status: 409 }
+      );
+    }
+
+    let pendingVersionId: string | null = null;
+    if (submitsVersion) {
+      // 新版本沿用线上的标题和简介，基线版本可能早于之后的元数据修改
+      await GameVersionDAL.ensureBaseline(game);
+      const version = await GameVersionDAL.create({
+        id: uuidv4(),
+        gameId: params.id,
+        versionNumber: (await GameVersionDAL.getLatestVersionNumber(params.id)) + 1,
+        title: versionMetadata.title ?? game.title,
+        description: versionMetadata.description !== undefined ? versionMetadata.description : game.description,
+        htmlContent: htmlContent!,
+        securityPolicyVersion,
+        status: 'pending',
+        submittedBy: editor.reviewer,
+      });
+      pendingVersionId = version.id;
+    }
+
+    // 记录修改操作
+    await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'edit',
+      reason: `修改字段: ${changedFields.join(', ')}`,
+      reviewer: editor.reviewer,
+      reviewerRole: editor.reviewerRole,
+      versionId: pendingVersionId,
+    });
+
+    const message = pendingVersionId
+      ? '游戏已修改，新的HTML内容将在审核通过后上线'
+      : contentChanged && resubmit
+        ? '游戏已修改并重新提交审核'
+        : '游戏已修改';
+
+    return NextResponse.json({
+      success: true,
+      message,
+      data: {
+        game: updatedGame,
+        pendingVersionId,
+        requiresReview: contentChanged,
+      },
+      warnings: warnings.length > 0 ? warnings : undefined,
+    });
+  } catch (error) {
+    console.error('Error updating game:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '修改游戏失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/games/[id] - 删除游戏（软删除，保留数据和审核记录）
+export const DELETE = requireAdmin(async (request: NextRequest, { params }: RouteParams) => {
+  try {
+    const idValidation = gameIdSchema.safeParse({ id: params.id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    // 删除原因为可选项，请求体可以为空
+    const body = await request.json().catch(() => ({}));
+    const validation = gameDeleteSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '请求数据无效',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const game = await GameDAL.getById(params.id);
+    if (!game || game.status === 'deleted') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    const deletedGame = await GameDAL.softDelete(params.id);
+    if (!deletedGame) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: '游戏状态已变更，请刷新后重试',
+        } as ApiResponse,
+        { status: 409 }
+      );
+    }
+
+    const adminValidation = await validateAdminAccess(request);
+
+    // 记录删除操作
+    await ReviewLogDAL.create({
+      gameId: params.id,
+      action: 'delete',
+      reason: validation.data.reason || null,
+      reviewer: adminValidation.adminId,
+      reviewerRole: adminValidation.admin?.role ?? null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: '游戏已删除',
+      data: {
+        game: {
+          id: deletedGame.id,
+          title: deletedGame.title,
+          status: deletedGame.status,
+          deletedAt: deletedGame.deletedAt,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error deleting game:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '删除游戏失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}, 'games:delete');
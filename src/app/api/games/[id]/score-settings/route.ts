@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameScoreSettingsDAL } from '@/lib/dal';
+import { gameIdSchema, scoreSettingsSchema } from '@/lib/validation';
+import { resolveGameEditor } from '@/lib/auth';
+import { ApiResponse } from '@/types/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// PUT /api/games/[id]/score-settings - 修改游戏的排行榜设置（游戏所有者或拥有games:edit权限的管理员）
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = gameIdSchema.safeParse({ id: params.id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+
+    const game = await GameDAL.getById(params.id);
+    if (!game || game.status === 'deleted') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    const editor = await resolveGameEditor(request, game);
+    if (!editor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FORBIDDEN',
+          message: '没有修改该游戏的权限',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    const validation = scoreSettingsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '排行榜设置验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    await GameScoreSettingsDAL.upsert(params.id, validation.data, editor.reviewer);
+
+    return NextResponse.json({
+      success: true,
+      data: { settings: validation.data },
+      message: '排行榜设置已保存',
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error saving score settings:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '保存排行榜设置失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameScoreSettingsDAL, ScoreDAL } from '@/lib/dal';
+import { gameIdSchema, leaderboardQuerySchema, scoreSubmitSchema } from '@/lib/validation';
+import { isScorePlausible } from '@/lib/scores';
+import { getRateLimitClient, hashRateLimitClient } from '@/lib/rate-limit';
+import { ApiResponse } from '@/types/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 读取已发布的游戏，游戏不存在或未发布时返回错误响应
+async function getPublishedGame(id: string) {
+  const idValidation = gameIdSchema.safeParse({ id });
+  if (!idValidation.success) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        } as ApiResponse,
+        { status: 400 }
+      ),
+    };
+  }
+
+  const game = await GameDAL.getById(id);
+  if (!game || game.status !== 'approved') {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在或未发布',
+        } as ApiResponse,
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { game };
+}
+
+// GET /api/games/[id]/scores - 获取游戏排行榜
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error } = await getPublishedGame(params.id);
+    if (error) {
+      return error;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryValidation = leaderboardQuerySchema.safeParse({
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!queryValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '查询参数验证失败',
+          details: queryValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const settings = await GameScoreSettingsDAL.get(params.id);
+    const entries = await ScoreDAL.getLeaderboard(params.id, settings.sortOrder, queryValidation.data.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        settings,
+        entries,
+      },
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '获取排行榜失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/games/[id]/scores - 提交分数
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error } = await getPublishedGame(params.id);
+    if (error) {
+      return error;
+    }
+
+    const body = await request.json();
+
+    const validation = scoreSubmitSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '分数数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { playerName, score } = validation.data;
+    const settings = await GameScoreSettingsDAL.get(params.id);
+
+    // 超出合理范围的分数视为作弊或游戏错误，不记录
+    if (!isScorePlausible(score, settings)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'SCORE_OUT_OF_RANGE',
+          message: '分数超出了该游戏的合理范围',
+        } as ApiResponse,
+        { status: 422 }
+      );
+    }
+
+    // 按提交者限流
+    const client = await getRateLimitClient(request);
+    if (!client) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'UNAUTHORIZED',
+          message: '缺少玩家标识，请刷新游戏页面后重试',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    const clientHash = hashRateLimitClient(params.id, client);
+    const since = new Date(Date.now() - settings.rateLimitWindowSeconds * 1000);
+    const recentCount = await ScoreDAL.countRecent(params.id, clientHash, since);
+    if (recentCount >= settings.rateLimitCount) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'RATE_LIMITED',
+          message: '提交过于频繁，请稍后再试',
+        } as ApiResponse,
+        {
+          status: 429,
+          headers: { 'Retry-After': String(settings.rateLimitWindowSeconds) },
+        }
+      );
+    }
+
+    const created = await ScoreDAL.create({ gameId: params.id, playerName, score, clientHash });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          score: {
+            playerName: created.playerName,
+            score: created.score,
+            createdAt: created.createdAt,
+          },
+        },
+        message: '分数已提交',
+      } as ApiResponse,
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error submitting score:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '提交分数失败',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL, GameSaveDAL } from '@/lib/dal';
+import {
+  gameIdSchema,
+  gameStorageKeyParamSchema,
+  gameStorageQuerySchema,
+  gameStorageSetSchema,
+} from '@/lib/validation';
+import { getCreatorSession } from '@/lib/auth';
+import { verifySessionToken } from '@/lib/session';
+import { checkRateLimit, getRateLimitClient, hashRateLimitClient } from '@/lib/rate-limit';
+import {
+  GAME_STORAGE_LIMITS,
+  GAME_STORAGE_RATE_LIMIT,
+  PLAYER_ID_COOKIE,
+  getStorageValueSize,
+} from '@/lib/game-storage';
+import { ApiResponse } from '@/types/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 解析存档所有者：登录的创作者按账号，其他玩家按游戏页面签发的玩家Cookie；都没有时返回null
+async function resolveSaveOwner(request: NextRequest): Promise<string | null> {
+  const creator = await getCreatorSession(request).catch(() => null);
+  if (creator) {
+    return `creator:${creator.id}`;
+  }
+
+  const player = await verifySessionToken(request.cookies.get(PLAYER_ID_COOKIE)?.value);
+  return player && player.kind === 'player' ? `player:${player.sub}` : null;
+}
+
+// 检查写入频率，超过限制时返回错误响应；获取不到客户端标识时按存档所有者计数
+async function checkWriteRateLimit(request: NextRequest, gameId: string, owner: string): Promise<NextResponse | null> {
+  const clientHash = hashRateLimitClient(gameId, (await getRateLimitClient(request)) ?? owner);
+  const { allowed, retryAfter } = await checkRateLimit(`storage:${gameId}`, clientHash, GAME_STORAGE_RATE_LIMIT);
+  if (allowed) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'RATE_LIMITED',
+      message: '存档操作过于频繁，请稍后再试',
+    } as ApiResponse,
+    {
+      status: 429,
+      headers: { 'Retry-After': String(retryAfter) },
+    }
+  );
+}
+
+const ownerRequired = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: 'UNAUTHORIZED',
+      message: '缺少玩家标识，请刷新游戏页面后重试',
+    } as ApiResponse,
+    { status: 401 }
+  );
+
+// 检查游戏已发布，游戏不存在或未发布时返回错误响应
+async function checkPublishedGame(id: string): Promise<NextResponse | null> {
+  if (!gameIdSchema.safeParse({ id }).success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: '游戏ID格式不正确',
+      } as ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  const game = await GameDAL.getById(id);
+  if (!game || game.status !== 'approved') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'GAME_NOT_FOUND',
+        message: '游戏不存在或未发布',
+      } as ApiResponse,
+      { status: 404 }
+    );
+  }
+
+  return null;
+}
+
+const validationError = (message: string, details: unknown) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: 'VALIDATION_ERROR',
+      message,
+      details,
+    },
+    { status: 400 }
+  );
+
+const databaseError = (message: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: 'DATABASE_ERROR',
+      message,
+    } as ApiResponse,
+    { status: 500 }
+  );
+
+// GET /api/games/[id]/storage - 读取存档值（?key=），不指定key时列出所有存档键
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const gameError = await checkPublishedGame(params.id);
+    if (gameError) {
+      return gameError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryValidation = gameStorageQuerySchema.safeParse({ key: searchParams.get('key') ?? undefined });
+    if (!queryValidation.success) {
+      return validationError('存档键格式不正确', queryValidation.error.errors);
+    }
+
+    const { key } = queryValidation.data;
+    const owner = await resolveSaveOwner(request);
+
+    if (key) {
+      const value = owner ? await GameSaveDAL.get(params.id, owner, key) : null;
+      return NextResponse.json({ success: true, data: { key, value } } as ApiResponse);
+    }
+
+    const keys = owner ? await GameSaveDAL.listKeys(params.id, owner) : [];
+    return NextResponse.json({
+      success: true,
+      data: {
+        keys,
+        usage: {
+          keys: keys.length,
+          bytes: keys.reduce((total, item) => total + item.size, 0),
+        },
+        limits: GAME_STORAGE_LIMITS,
+      },
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error reading game save:', error);
+    return databaseError('读取存档失败');
+  }
+}
+
+// PUT /api/games/[id]/storage - 写入存档值
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const gameError = await checkPublishedGame(params.id);
+    if (gameError) {
+      return gameError;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = gameStorageSetSchema.safeParse(body);
+    if (!validation.success) {
+      return validationError('存档数据验证失败', validation.error.errors);
+    }
+
+    const { key, value } = validation.data;
+    const size = getStorageValueSize(value);
+    if (size > GAME_STORAGE_LIMITS.maxValueBytes) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'QUOTA_EXCEEDED',
+          message: `单个存档不能超过${GAME_STORAGE_LIMITS.maxValueBytes / 1024}KB`,
+        } as ApiResponse,
+        { status: 413 }
+      );
+    }
+
+    const owner = await resolveSaveOwner(request);
+    if (!owner) {
+      return ownerRequired();
+    }
+
+    const rateLimitError = await checkWriteRateLimit(request, params.id, owner);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    // 配额检查和写入在同一事务中完成，按覆盖后的结果计算
+    const saved = await GameSaveDAL.set(params.id, owner, key, value, size);
+    if (!saved) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'QUOTA_EXCEEDED',
+          message: '存档空间已满，请先删除不需要的存档',
+        } as ApiResponse,
+        { status: 413 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { key, size },
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error writing game save:', error);
+    return databaseError('保存存档失败');
+  }
+}
+
+// DELETE /api/games/[id]/storage?key= - 删除存档值
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const gameError = await checkPublishedGame(params.id);
+    if (gameError) {
+      return gameError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const keyValidation = gameStorageKeyParamSchema.safeParse({ key: searchParams.get('key') ?? undefined });
+    if (!keyValidation.success) {
+      return validationError('存档键格式不正确', keyValidation.error.errors);
+    }
+
+    const owner = await resolveSaveOwner(request);
+    if (!owner) {
+      return ownerRequired();
+    }
+
+    const rateLimitError = await checkWriteRateLimit(request, params.id, owner);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    await GameSaveDAL.remove(params.id, owner, keyValidation.data.key);
+
+    return NextResponse.json({ success: true, data: { key: keyValidation.data.key } } as ApiResponse);
+  } catch (error) {
+    console.error('Error removing game save:', error);
+    return databaseError('删除存档失败');
+  }
+}
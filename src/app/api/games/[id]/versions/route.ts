@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { GameDAL, GameVersionDAL, SecurityPolicyDAL, SubmissionReceiptDAL } from '@/lib/dal';
+import { gameIdSchema, gameVersionSubmitSchema } from '@/lib/validation';
+import { validateHtmlContent, validateStringContent } from '@/lib/security';
+import { RECEIPT_TOKEN_HEADER, verifyReceiptToken } from '@/lib/receipts';
+import {
+  getCreatorSession,
+  identityHasPermission,
+  requireAdmin,
+  resolveAdminIdentity,
+} from '@/lib/auth';
+import type { Game } from '@/lib/schema';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 解析新版本的提交者：拥有games:edit权限的管理员/API令牌、游戏所有者或持有回执令牌的匿名提交者
+async function resolveVersionSubmitter(request: NextRequest, game: Game): Promise<string | null> {
+  const admin = await resolveAdminIdentity(request).catch(() => null);
+  if (admin && identityHasPermission(admin, 'games:edit')) {
+    return admin.username;
+  }
+
+  const creator = await getCreatorSession(request).catch(() => null);
+  if (creator && game.ownerId === creator.id) {
+    return `creator:${creator.username}`;
+  }
+
+  const receiptToken = request.headers.get(RECEIPT_TOKEN_HEADER);
+  if (receiptToken) {
+    const receipt = await SubmissionReceiptDAL.getByGameId(game.id);
+    if (receipt && verifyReceiptToken(receiptToken, receipt.tokenHash)) {
+      return 'receipt';
+    }
+  }
+
+  return null;
+}
+
+// GET /api/games/[id]/versions - 获取游戏的版本列表
+export const GET = requireAdmin(async (_request: NextRequest, { params }: RouteParams) => {
+  try {
+    const game = await GameDAL.getById(params.id);
+    if (!game) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '游戏不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    const versions = await GameVersionDAL.getByGameId(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        game: {
+          id: game.id,
+          title: game.title,
+          status: game.status,
+          currentVersionId: game.currentVersionId,
+        },
+        versions,
+      },
+    });
+  } catch (error) {
+    console.error('获取游戏版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取游戏版本失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}, 'review:read');
+
+// POST /api/games/[id]/versions - 为已发布的游戏提交新版本（审核通过前线上仍为当前版本）
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = gameIdSchema.safeParse({ id: params.id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '游戏ID格式不正确',
+        },
+        { status: 400 }
+      );
+    }
+
+    const game = await GameDAL.getById(params.id);
+    if (!game) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GAME_NOT_FOUND',
+          message: '游戏不存在',
+        },
+        { status: 404 }
+      );
+    }
+
+    const submittedBy = await resolveVersionSubmitter(request, game);
+    if (!submittedBy) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FORBIDDEN',
+          message: '没有为该游戏提交新版本的权限',
+        },
+        { status: 403 }
+      );
+    }
+
+    // 未发布的游戏直接修改即可，不需要走版本审核
+    if (game.status !== 'approved') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: '只能为已发布的游戏提交新版本',
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // 验证请求数据
+    const validation = gameVersionSubmitSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: '版本数据验证失败',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { title, description, htmlContent, changelog } = validation.data;
+
+    // 按当前生效的安全策略检查内容
+    const securityPolicy = await SecurityPolicyDAL.getActiveConfig();
+
+    // 验证HTML内容大小
+    const contentValidation = validateStringContent(htmlContent, securityPolicy.config.maxFileSize);
+    if (!contentValidation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'FILE_TOO_LARGE',
+          message: '内容验证失败',
+          details: contentValidation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // 验证HTML内容安全性
+    const securityValidation = validateHtmlContent(htmlContent, securityPolicy.config);
+    if (!securityValidation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'MALICIOUS_CONTENT',
+          message: 'HTML内容包含不安全的元素',
+          details: {
+            findings: securityValidation.findings,
+            violations: securityValidation.violations,
+            warnings: securityValidation.warnings,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 同一时间只允许一个待审核的版本
+    const pendingVersion = await GameVersionDAL.getPendingByGameId(params.id);
+    if (pendingVersion) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: `版本 v${pendingVersion.versionNumber} 正在审核中，请等待审核完成后再提交`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // 首次提交新版本时，将当前线上内容记录为基线版本，以便对比和回滚
+    await GameVersionDAL.ensureBaseline(game);
+
+    const version = await GameVersionDAL.create({
+      id: uuidv4(),
+      gameId: params.id,
+      versionNumber: (await GameVersionDAL.getLatestVersionNumber(params.id)) + 1,
+      title: title?.trim() || game.title,
+      description: description !== undefined ? description.trim() || null : game.description,
+      htmlContent,
+      changelog: changelog?.trim() || null,
+      securityPolicyVersion: securityPolicy.version,
+      status: 'pending',
+      submittedBy,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: '新版本已提交，等待审核',
+        data: {
+          version: {
+            id: version.id,
+            gameId: version.gameId,
+            versionNumber: version.versionNumber,
+            status: version.status,
+            createdAt: version.createdAt,
+          },
+        },
+        warnings: securityValidation.warnings.length > 0 ? securityValidation.warnings : undefined,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('提交游戏新版本失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'DATABASE_ERROR',
+        message: '提交新版本失败，请稍后重试',
+      },
+      { status: 500 }
+    );
+  }
+}
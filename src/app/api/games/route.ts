@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { GameDAL } from '@/lib/dal';
+import { GameDAL, SecurityPolicyDAL, SubmissionReceiptDAL } from '@/lib/dal';
 import { gameSubmissionSchema, gameListQuerySchema } from '@/lib/validation';
 import { validateHtmlContent, validateStringContent } from '@/lib/security';
+import { getApiTokenIdentity, getCreatorSession, identityHasPermission } from '@/lib/auth';
+import { generateReceiptToken } from '@/lib/receipts';
 
 // GET /api/games - 获取游戏列表
 export async function GET(request: NextRequest) {
@@ -64,9 +66,39 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/games - 提交新游戏
+// POST /api/games - 提交新游戏（可携带games:submit权限的API令牌用于批量导入）
 export async function POST(request: NextRequest) {
   try {
+    // 携带Authorization header时必须是有效的API令牌
+    let submittedBy: string | null = null;
+    if (request.headers.get('authorization')) {
+      const tokenIdentity = await getApiTokenIdentity(request);
+      if (!tokenIdentity) {
+        return NextResponse.json(
+          {
+            error: 'UNAUTHORIZED',
+            message: 'API令牌无效、已过期或已被吊销',
+          },
+          { status: 401 }
+        );
+      }
+
+      if (!identityHasPermission(tokenIdentity, 'games:submit')) {
+        return NextResponse.json(
+          {
+            error: 'FORBIDDEN',
+            message: 'API令牌的权限范围不包含games:submit',
+          },
+          { status: 403 }
+        );
+      }
+
+      submittedBy = tokenIdentity.username;
+    }
+
+    // 已登录的创作者提交时记录游戏所有者，以便在"我的游戏"中查看审核进度
+    const creator = await getCreatorSession(request).catch(() => null);
+
     const body = await request.json();
 
     // 验证请求数据
@@ -84,8 +116,11 @@ export async function POST(request: NextRequest) {
 
     const { title, description, htmlContent, authorName } = validation.data;
 
+    // 按当前生效的安全策略检查内容
+    const securityPolicy = await SecurityPolicyDAL.getActiveConfig();
+
     // 验证HTML内容大小
-    const contentValidation = validateStringContent(htmlContent);
+    const contentValidation = validateStringContent(htmlContent, securityPolicy.config.maxFileSize);
     if (!contentValidation.isValid) {
       return NextResponse.json(
         {
@@ -98,13 +133,14 @@ export async function POST(request: NextRequest) {
     }
 
     // 验证HTML内容安全性
-    const securityValidation = validateHtmlContent(htmlContent);
+    const securityValidation = validateHtmlContent(htmlContent, securityPolicy.config);
     if (!securityValidation.isValid) {
       return NextResponse.json(
         {
           error: 'MALICIOUS_CONTENT',
           message: 'HTML内容包含不安全的元素',
           details: {
+            findings: securityValidation.findings,
             violations: securityValidation.violations,
             warnings: securityValidation.warnings,
           },
@@ -120,12 +156,22 @@ export async function POST(request: NextRequest) {
       title: title.trim(),
       description: description?.trim() || null,
       htmlContent,
-      authorName: authorName?.trim() || null,
+      authorName: authorName?.trim() || creator?.displayName || creator?.username || null,
       status: 'pending' as const,
+      submittedBy,
+      ownerId: creator?.id ?? null,
+      securityPolicyVersion: securityPolicy.version,
     };
 
     const createdGame = await GameDAL.create(newGame);
 
+    // 生成回执令牌，匿名提交者凭此查看审核状态、修改或撤回游戏
+    const receipt = generateReceiptToken();
+    await SubmissionReceiptDAL.create({
+      gameId: createdGame.id,
+      tokenHash: receipt.hash,
+    });
+
     return NextResponse.json(
       {
         message: '游戏提交成功，等待审核',
@@ -137,7 +183,12 @@ export async function POST(request: NextRequest) {
           status: createdGame.status,
           createdAt: createdGame.createdAt,
         },
+        receipt: {
+          token: receipt.token,
+          statusUrl: `/api/games/${createdGame.id}/receipt`,
+        },
         warnings: securityValidation.warnings.length > 0 ? securityValidation.warnings : undefined,
+        findings: securityValidation.findings.length > 0 ? securityValidation.findings : undefined,
       },
       { status: 201 }
     );
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { SecurityPolicyDAL } from '@/lib/dal';
+import { DEFAULT_STORED_SECURITY_CONFIG } from '@/lib/security-policy';
+
+// GET /api/security-policy - 获取当前生效的安全策略，供提交表单在提交前做相同的检查
+export async function GET() {
+  try {
+    const policy = await SecurityPolicyDAL.getActive();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        version: policy?.version ?? null,
+        config: policy?.config ?? DEFAULT_STORED_SECURITY_CONFIG,
+      },
+    });
+  } catch (error) {
+    console.error('获取安全策略失败:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '获取安全策略失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import CreatorAuthForm from '@/components/CreatorAuthForm';
+import { getSafeRedirectPath } from '@/lib/utils';
+
+interface CreatorLoginPageProps {
+  searchParams: {
+    from?: string;
+  };
+}
+
+export default function CreatorLoginPage({ searchParams }: CreatorLoginPageProps) {
+  const redirectTo = getSafeRedirectPath(searchParams.from, '/my-games');
+
+  return (
+    <div className="py-8">
+      <CreatorAuthForm redirectTo={redirectTo} />
+    </div>
+  );
+}
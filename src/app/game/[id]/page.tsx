@@ -1,8 +1,9 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
-import { GameRenderer } from '@/components/GameRenderer';
+import { GamePlayArea } from '@/components/GamePlayArea';
 import { GameMetadata } from '@/components/GameMetadata';
 import { ShareButton } from '@/components/ShareButton';
+import { GameUnpublished } from '@/components/GameUnpublished';
 import { GameDAL } from '@/lib/dal';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
@@ -18,6 +19,14 @@ interface GamePageProps {
 export async function generateMetadata({ params }: GamePageProps): Promise<Metadata> {
   try {
     const game = await GameDAL.getByIdWithMetadata(params.id);
+
+    if (game?.status === 'unpublished') {
+      return {
+        title: '游戏已下架 - HTML小游戏平台',
+        description: '您访问的游戏已被下架',
+        robots: { index: false },
+      };
+    }
     
     if (!game || game.status !== 'approved') {
       return {
@@ -60,6 +69,11 @@ export default async function GamePage({ params }: GamePageProps) {
     notFound();
   }
 
+  // 已下架的游戏显示下架提示（类似410），而不是404
+  if (game?.status === 'unpublished') {
+    return <GameUnpublished reason={game.unpublishReason} />;
+  }
+
   // 如果游戏不存在或未发布，返回404
   if (!game || game.status !== 'approved') {
     notFound();
@@ -82,24 +96,11 @@ export default async function GamePage({ params }: GamePageProps) {
       </div>
 
       {/* 游戏内容区域 */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* 游戏渲染器 - 占据主要空间 */}
-        <div className="lg:col-span-2">
-          <GameRenderer 
-            htmlContent={game.htmlContent}
-            title={game.title}
-            className="w-full"
-          />
-        </div>
-
-        {/* 游戏元数据 - 侧边栏 */}
-        <div className="lg:col-span-1">
-          <GameMetadata 
-            game={game}
-            className="sticky top-6"
-          />
-        </div>
-      </div>
+      <GamePlayArea
+        gameId={game.id}
+        title={game.title}
+        sidebar={<GameMetadata game={game} />}
+      />
     </div>
   );
 }
@@ -48,6 +48,12 @@ export default function RootLayout({
                   >
                     提交游戏
                   </Link>
+                  <Link
+                    href="/my-games"
+                    className="text-sm font-medium transition-colors hover:text-primary"
+                  >
+                    我的游戏
+                  </Link>
                   <Link
                     href="/admin"
                     className="text-sm font-medium transition-colors hover:text-primary"
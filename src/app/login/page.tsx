@@ -0,0 +1,18 @@
+import AdminLoginForm from '@/components/AdminLoginForm';
+import { getSafeRedirectPath } from '@/lib/utils';
+
+interface LoginPageProps {
+  searchParams: {
+    from?: string;
+  };
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const redirectTo = getSafeRedirectPath(searchParams.from, '/admin');
+
+  return (
+    <div className="py-8">
+      <AdminLoginForm redirectTo={redirectTo} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import MyGamesList from '@/components/MyGamesList';
+
+export default function MyGamesPage() {
+  return (
+    <div className="py-8">
+      <MyGamesList />
+    </div>
+  );
+}
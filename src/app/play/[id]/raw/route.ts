@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameDAL } from '@/lib/dal';
+import { gameIdSchema } from '@/lib/validation';
+import { createSecureContent, getAppOrigin, isGameSandboxIsolated } from '@/lib/game-sandbox';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// 游戏内容以HTML页面返回，错误信息也使用纯文本而不是JSON
+const textResponse = (message: string, status: number) =>
+  new NextResponse(message, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+
+// GET /play/[id]/raw - 获取已发布游戏的HTML页面（沙箱CSP由中间件设置）
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const validationResult = gameIdSchema.safeParse({ id: params.id });
+    if (!validationResult.success) {
+      return textResponse('游戏ID格式不正确', 400);
+    }
+
+    const game = await GameDAL.getById(params.id);
+
+    if (game?.status === 'unpublished') {
+      return textResponse('游戏已下架', 410);
+    }
+
+    // 只提供已发布的游戏
+    if (!game || game.status !== 'approved') {
+      return textResponse('游戏不存在或未发布', 404);
+    }
+
+    // 隔离部署时只向主站发送桥接消息
+    const parentOrigin = isGameSandboxIsolated() ? getAppOrigin() : null;
+
+    return new NextResponse(createSecureContent(game.htmlContent, game.title, parentOrigin), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'public, max-age=300, s-maxage=600',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving game content:', error);
+    return textResponse('获取游戏内容失败', 500);
+  }
+}
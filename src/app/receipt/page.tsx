@@ -0,0 +1,15 @@
+import ReceiptLookup from '@/components/ReceiptLookup';
+
+interface ReceiptPageProps {
+  searchParams: {
+    game?: string;
+  };
+}
+
+export default function ReceiptPage({ searchParams }: ReceiptPageProps) {
+  return (
+    <div className="py-8">
+      <ReceiptLookup initialGameId={searchParams.game} />
+    </div>
+  );
+}
@@ -1,24 +1,32 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { GameListItem } from '@/lib/schema';
+import { useRejectionCategories } from '@/hooks/use-rejection-categories';
+import { formatRejectionReason } from '@/lib/rejection-categories';
+import { Game, GameListItem } from '@/lib/schema';
 
 interface AdminReviewPanelProps {
-  game: GameListItem;
-  onReviewComplete: (gameId: string, action: 'approve' | 'reject') => void;
+  game: GameListItem & Partial<Pick<Game, 'rejectionReason' | 'appealMessage'>>;
+  onReviewComplete: (gameId: string, action: 'approve' | 'reject' | 'unpublish') => void;
 }
 
 export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelProps) {
   const [isReviewing, setIsReviewing] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [rejectionCategory, setRejectionCategory] = useState('');
   const [showRejectForm, setShowRejectForm] = useState(false);
+  const [unpublishReason, setUnpublishReason] = useState('');
+  const [showUnpublishForm, setShowUnpublishForm] = useState(false);
   const { toast } = useToast();
+  const categories = useRejectionCategories();
+  const selectedCategory = categories.find((category) => category.code === rejectionCategory);
 
   const handleApprove = async () => {
     setIsReviewing(true);
@@ -27,7 +35,6 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
         },
         body: JSON.stringify({
           gameId: game.id,
@@ -58,10 +65,10 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
   };
 
   const handleReject = async () => {
-    if (!rejectionReason.trim()) {
+    if (!rejectionCategory) {
       toast({
-        title: '请填写拒绝原因',
-        description: '拒绝游戏时必须提供拒绝原因',
+        title: '请选择拒绝原因',
+        description: '拒绝游戏时必须选择拒绝原因分类',
         variant: 'destructive',
       });
       return;
@@ -73,12 +80,12 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_ADMIN_SECRET || 'admin-secret-key'}`,
         },
         body: JSON.stringify({
           gameId: game.id,
           action: 'reject',
-          reason: rejectionReason,
+          category: rejectionCategory,
+          reason: rejectionReason.trim() || undefined,
         }),
       });
 
@@ -92,8 +99,9 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
         onReviewComplete(game.id, 'reject');
         setShowRejectForm(false);
         setRejectionReason('');
+        setRejectionCategory('');
       } else {
-        throw new Error(result.message || '审核失败');
+        throw new Error(result.error || result.message || '审核失败');
       }
     } catch (error) {
       toast({
@@ -106,6 +114,55 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
     }
   };
 
+  // 下架已发布的游戏（例如收到违规举报后）
+  const handleUnpublish = async () => {
+    if (!unpublishReason.trim()) {
+      toast({
+        title: '请填写下架原因',
+        description: '下架游戏时必须提供下架原因',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsReviewing(true);
+    try {
+      const response = await fetch('/api/admin/review', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: game.id,
+          action: 'unpublish',
+          reason: unpublishReason,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: '操作成功',
+          description: '游戏已下架',
+        });
+        onReviewComplete(game.id, 'unpublish');
+        setShowUnpublishForm(false);
+        setUnpublishReason('');
+      } else {
+        throw new Error(result.error || result.message || '下架失败');
+      }
+    } catch (error) {
+      toast({
+        title: '下架失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -114,6 +171,12 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
         return <Badge variant="default">已批准</Badge>;
       case 'rejected':
         return <Badge variant="destructive">已拒绝</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">已撤回</Badge>;
+      case 'unpublished':
+        return <Badge variant="destructive">已下架</Badge>;
+      case 'deleted':
+        return <Badge variant="outline">已删除</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -124,7 +187,10 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">{game.title}</CardTitle>
-          {getStatusBadge(game.status)}
+          <div className="flex gap-2">
+            {game.status === 'pending' && game.appealMessage && <Badge variant="outline">申诉</Badge>}
+            {getStatusBadge(game.status)}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -146,6 +212,19 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
           </div>
         )}
 
+        {game.status === 'pending' && game.appealMessage && (
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+              <p className="text-sm font-medium text-red-800">原拒绝原因</p>
+              <p className="mt-1 whitespace-pre-wrap text-sm text-red-700">{game.rejectionReason || '-'}</p>
+            </div>
+            <div className="rounded-lg border border-blue-200 bg-blue-50 p-3">
+              <p className="text-sm font-medium text-blue-800">提交者申诉</p>
+              <p className="mt-1 whitespace-pre-wrap text-sm text-blue-700">{game.appealMessage}</p>
+            </div>
+          </div>
+        )}
+
         {game.status === 'pending' && (
           <div className="flex gap-2 pt-4">
             <Button
@@ -168,18 +247,39 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
 
         {showRejectForm && (
           <div className="space-y-3 border-t pt-4">
-            <Label htmlFor="rejection-reason">拒绝原因</Label>
+            <Label htmlFor="rejection-category">拒绝原因</Label>
+            <select
+              id="rejection-category"
+              className="w-full rounded-md border px-3 py-2 text-sm"
+              value={rejectionCategory}
+              onChange={(e) => setRejectionCategory(e.target.value)}
+            >
+              <option value="">请选择拒绝原因分类</option>
+              {categories.map((category) => (
+                <option key={category.code} value={category.code}>
+                  {category.label}
+                </option>
+              ))}
+            </select>
             <Textarea
               id="rejection-reason"
-              placeholder="请输入拒绝原因..."
+              placeholder="补充说明（可选）..."
               value={rejectionReason}
               onChange={(e) => setRejectionReason(e.target.value)}
               rows={3}
             />
+            {selectedCategory && (
+              <div className="rounded-md bg-muted p-3">
+                <p className="text-xs text-muted-foreground">提交者将看到：</p>
+                <p className="mt-1 whitespace-pre-wrap text-sm">
+                  {formatRejectionReason(selectedCategory.template, rejectionReason)}
+                </p>
+              </div>
+            )}
             <div className="flex gap-2">
               <Button
                 onClick={handleReject}
-                disabled={isReviewing || !rejectionReason.trim()}
+                disabled={isReviewing || !rejectionCategory}
                 variant="destructive"
                 size="sm"
               >
@@ -189,6 +289,7 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
                 onClick={() => {
                   setShowRejectForm(false);
                   setRejectionReason('');
+                  setRejectionCategory('');
                 }}
                 variant="outline"
                 size="sm"
@@ -200,8 +301,54 @@ export function AdminReviewPanel({ game, onReviewComplete }: AdminReviewPanelPro
         )}
 
         {game.status === 'approved' && game.approvedAt && (
-          <div className="text-sm text-muted-foreground border-t pt-4">
-            批准时间: {new Date(game.approvedAt).toLocaleString('zh-CN')}
+          <div className="flex items-center justify-between text-sm text-muted-foreground border-t pt-4">
+            <span>批准时间: {new Date(game.approvedAt).toLocaleString('zh-CN')}</span>
+            <div className="flex gap-2">
+              <Link href={`/admin/games/${game.id}/versions`}>
+                <Button variant="outline" size="sm">版本历史</Button>
+              </Link>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setShowUnpublishForm(!showUnpublishForm)}
+                disabled={isReviewing}
+              >
+                下架
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {showUnpublishForm && game.status === 'approved' && (
+          <div className="space-y-3 border-t pt-4">
+            <Label htmlFor="unpublish-reason">下架原因</Label>
+            <Textarea
+              id="unpublish-reason"
+              placeholder="请输入下架原因，例如收到的违规举报内容..."
+              value={unpublishReason}
+              onChange={(e) => setUnpublishReason(e.target.value)}
+              rows={3}
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={handleUnpublish}
+                disabled={isReviewing || !unpublishReason.trim()}
+                variant="destructive"
+                size="sm"
+              >
+                确认下架
+              </Button>
+              <Button
+                onClick={() => {
+                  setShowUnpublishForm(false);
+                  setUnpublishReason('');
+                }}
+                variant="outline"
+                size="sm"
+              >
+                取消
+              </Button>
+            </div>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface AppealFormProps {
+  gameId: string;
+  onSubmit: (message: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// 对被拒绝的游戏提出申诉，提交后游戏重新进入审核队列
+export function AppealForm({ gameId, onSubmit, onCancel }: AppealFormProps) {
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(message.trim());
+      setMessage('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <Label htmlFor={`appeal-message-${gameId}`}>申诉说明</Label>
+      <Textarea
+        id={`appeal-message-${gameId}`}
+        placeholder="请说明为什么认为拒绝有误，审核员会对照原拒绝原因重新审核..."
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        maxLength={1000}
+        rows={4}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !message.trim()}>
+          {isSubmitting ? '提交中...' : '提交申诉'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { creatorRegisterSchema, type CreatorRegisterInput } from '@/lib/validation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+
+interface CreatorAuthFormProps {
+  redirectTo?: string;
+}
+
+type AuthMode = 'login' | 'register';
+
+export default function CreatorAuthForm({ redirectTo = '/my-games' }: CreatorAuthFormProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 登录时不校验用户名格式和密码长度，由服务端统一返回错误
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CreatorRegisterInput>({
+    resolver: mode === 'register' ? zodResolver(creatorRegisterSchema) : undefined,
+    defaultValues: {
+      username: '',
+      password: '',
+      displayName: '',
+    },
+  });
+
+  // 提交登录或注册表单
+  const onSubmit = async (data: CreatorRegisterInput) => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(mode === 'register' ? '/api/creator/register' : '/api/creator/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          mode === 'register'
+            ? data
+            : { username: data.username, password: data.password }
+        ),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || (mode === 'register' ? '注册失败' : '登录失败'));
+      }
+
+      toast({
+        title: mode === 'register' ? '注册成功' : '登录成功',
+        description: `欢迎，${result.data.creator.displayName || result.data.creator.username}`,
+        variant: 'success',
+      });
+
+      router.replace(redirectTo);
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: mode === 'register' ? '注册失败' : '登录失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>{mode === 'register' ? '注册创作者账号' : '创作者登录'}</CardTitle>
+        <CardDescription>
+          登录后提交的游戏可以在“我的游戏”中查看审核进度和拒绝原因
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="username">用户名</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              {...register('username', { required: '用户名不能为空' })}
+              className={errors.username ? 'border-red-500' : ''}
+            />
+            {errors.username && (
+              <p className="text-sm text-red-500">{errors.username.message}</p>
+            )}
+          </div>
+
+          {mode === 'register' && (
+            <div className="space-y-2">
+              <Label htmlFor="displayName">显示名称 (可选)</Label>
+              <Input
+                id="displayName"
+                placeholder="将作为提交游戏时的默认作者名称"
+                {...register('displayName')}
+                className={errors.displayName ? 'border-red-500' : ''}
+              />
+              {errors.displayName && (
+                <p className="text-sm text-red-500">{errors.displayName.message}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="password">密码</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+              {...register('password', { required: '密码不能为空' })}
+              className={errors.password ? 'border-red-500' : ''}
+            />
+            {errors.password && (
+              <p className="text-sm text-red-500">{errors.password.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting
+              ? (mode === 'register' ? '注册中...' : '登录中...')
+              : (mode === 'register' ? '注册' : '登录')}
+          </Button>
+
+          <Button
+            type="button"
+            variant="link"
+            className="w-full"
+            onClick={() => setMode(mode === 'register' ? 'login' : 'register')}
+          >
+            {mode === 'register' ? '已有账号？立即登录' : '还没有账号？立即注册'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
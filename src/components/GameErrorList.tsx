@@ -0,0 +1,125 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { GAME_ERROR_KIND_LABELS } from '@/lib/game-errors';
+import type { GameError } from '@/lib/schema';
+
+interface GameErrorListProps {
+  gameId: string;
+  // 是否显示清除按钮（游戏所有者或拥有games:edit权限的管理员）
+  canClear?: boolean;
+  onCleared?: () => void;
+}
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString('zh-CN') : '-');
+
+export function GameErrorList({ gameId, canClear = false, onCleared }: GameErrorListProps) {
+  const [errors, setErrors] = useState<GameError[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClearing, setIsClearing] = useState(false);
+  const { toast } = useToast();
+
+  const fetchErrors = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/errors`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.message || '获取运行错误失败');
+      }
+      setErrors(result.data.errors);
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '获取运行错误失败',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId, toast]);
+
+  useEffect(() => {
+    fetchErrors();
+  }, [fetchErrors]);
+
+  const handleClear = async () => {
+    if (!confirm('确定要清除该游戏的全部运行错误记录吗？建议在修复问题并发布新版本后再清除。')) {
+      return;
+    }
+
+    setIsClearing(true);
+    try {
+      const response = await fetch(`/api/games/${gameId}/errors`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.message || '清除运行错误失败');
+      }
+      setErrors([]);
+      onCleared?.();
+      toast({
+        title: '已清除',
+        description: '运行错误记录已清除',
+      });
+    } catch (error) {
+      toast({
+        title: '清除失败',
+        description: error instanceof Error ? error.message : '清除运行错误失败',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (errors.length === 0) {
+    return <p className="text-sm text-muted-foreground">没有记录到运行错误</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {errors.map((error) => (
+          <li key={error.fingerprint} className="rounded-md border p-3 text-sm space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                <Badge variant={error.kind === 'freeze' ? 'secondary' : 'destructive'}>
+                  {GAME_ERROR_KIND_LABELS[error.kind]}
+                </Badge>
+                <span className="font-medium truncate">{error.message}</span>
+              </span>
+              <span className="flex-shrink-0 text-muted-foreground">{error.count} 次</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              首次出现：{formatTime(error.firstSeenAt)} · 最近出现：{formatTime(error.lastSeenAt)}
+            </p>
+            {error.stack && (
+              <details>
+                <summary className="cursor-pointer text-xs text-muted-foreground">错误堆栈</summary>
+                <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+                  {error.stack}
+                </pre>
+              </details>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canClear && (
+        <Button variant="outline" size="sm" onClick={handleClear} disabled={isClearing}>
+          {isClearing ? '清除中...' : '清除错误记录'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GameErrorList } from '@/components/GameErrorList';
+import { useToast } from '@/hooks/use-toast';
+import type { GameErrorSummary } from '@/lib/schema';
+
+// 可选的统计时间范围（天）
+const DAY_OPTIONS = [1, 7, 30];
+
+export default function GameErrorsManager() {
+  const [days, setDays] = useState(7);
+  const [summaries, setSummaries] = useState<GameErrorSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // 展开查看错误详情的游戏
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchSummaries = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/game-errors?days=${days}`);
+        const result = await response.json();
+
+        if (!result.success) {
+          throw new Error(result.error || result.message || '获取游戏运行错误失败');
+        }
+
+        setSummaries(result.data.summaries);
+      } catch (error) {
+        toast({
+          title: '加载失败',
+          description: error instanceof Error ? error.message : '未知错误',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSummaries();
+  }, [days, toast]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>运行错误</CardTitle>
+            <CardDescription>玩家游玩时自动上报的脚本错误和无响应，按出现次数排序</CardDescription>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline" size="sm">返回管理后台</Button>
+          </Link>
+        </div>
+        <div className="flex gap-2 pt-2">
+          {DAY_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              最近{option}天
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">加载中...</p>
+        ) : summaries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">最近{days}天没有游戏上报运行错误</p>
+        ) : (
+          summaries.map((summary) => (
+            <div key={summary.gameId} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={`/admin/games/${summary.gameId}`} className="font-medium hover:underline">
+                      {summary.title}
+                    </Link>
+                    {summary.status !== 'approved' && <Badge variant="outline">未发布</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {summary.authorName || '匿名作者'} · {summary.groups} 种错误，共 {summary.occurrences} 次 · 最近出现于{' '}
+                    {summary.lastSeenAt ? new Date(summary.lastSeenAt).toLocaleString('zh-CN') : '-'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setExpandedId(expandedId === summary.gameId ? null : summary.gameId)}
+                >
+                  {expandedId === summary.gameId ? '收起' : '查看详情'}
+                </Button>
+              </div>
+              {expandedId === summary.gameId && <GameErrorList gameId={summary.gameId} />}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Trophy } from 'lucide-react';
+import type { LeaderboardEntry, ScoreSettings } from '@/lib/scores';
+
+interface GameLeaderboardProps {
+  gameId: string;
+  // 本局结束时游戏报告的分数，尚未提交
+  pendingScore: number | null;
+  onScoreSubmitted: () => void;
+  className?: string;
+}
+
+// 记住玩家上次使用的名称
+const PLAYER_NAME_STORAGE_KEY = 'minigame-player-name';
+
+export function GameLeaderboard({ gameId, pendingScore, onScoreSubmitted, className }: GameLeaderboardProps) {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [settings, setSettings] = useState<ScoreSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [playerName, setPlayerName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/scores`);
+      const result = await response.json();
+      if (result.success) {
+        setEntries(result.data.entries);
+        setSettings(result.data.settings);
+      }
+    } catch (error) {
+      console.error('获取排行榜失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
+  useEffect(() => {
+    setPlayerName(localStorage.getItem(PLAYER_NAME_STORAGE_KEY) || '');
+  }, []);
+
+  const formatScore = (score: number) =>
+    `${score.toLocaleString('zh-CN')}${settings?.unit ? ` ${settings.unit}` : ''}`;
+
+  const handleSubmit = async () => {
+    if (pendingScore === null) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/games/${gameId}/scores`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerName: playerName.trim(), score: pendingScore }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.message || '提交分数失败');
+        return;
+      }
+
+      localStorage.setItem(PLAYER_NAME_STORAGE_KEY, playerName.trim());
+      onScoreSubmitted();
+      await fetchLeaderboard();
+    } catch (error) {
+      console.error('提交分数失败:', error);
+      setError('提交分数失败，请稍后重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Trophy className="h-5 w-5 text-yellow-500" />
+          排行榜
+        </CardTitle>
+        {settings && (
+          <p className="text-sm text-muted-foreground">
+            {settings.sortOrder === 'asc' ? '分数越低越好' : '分数越高越好'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pendingScore !== null && (
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm">
+              本局成绩：<span className="font-semibold">{formatScore(pendingScore)}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor={`player-name-${gameId}`}>玩家名称</Label>
+              <Input
+                id={`player-name-${gameId}`}
+                value={playerName}
+                onChange={(e) => setPlayerName(e.target.value)}
+                maxLength={30}
+                placeholder="输入你的名称"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !playerName.trim()}>
+                {isSubmitting ? '提交中...' : '提交成绩'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={onScoreSubmitted} disabled={isSubmitting}>
+                不提交
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">还没有玩家提交成绩</p>
+        ) : (
+          <ol className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.rank} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="w-6 text-right font-medium text-muted-foreground">{entry.rank}</span>
+                  <span className="truncate">{entry.playerName}</span>
+                </span>
+                <span className="font-medium">{formatScore(entry.score)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback, useRef, useState, type ReactNode } from 'react';
+import { GameRenderer } from '@/components/GameRenderer';
+import { GameLeaderboard } from '@/components/GameLeaderboard';
+import type { GameBridgeMessage } from '@/lib/game-bridge';
+
+interface GamePlayAreaProps {
+  gameId: string;
+  title: string;
+  // 显示在排行榜上方的侧边栏内容（游戏元数据）
+  sidebar: ReactNode;
+}
+
+// 游戏页面的主体：游戏渲染器和侧边栏排行榜，游戏结束时报告的分数可以提交到排行榜
+export function GamePlayArea({ gameId, title, sidebar }: GamePlayAreaProps) {
+  const [pendingScore, setPendingScore] = useState<number | null>(null);
+  // 游戏最近一次报告的分数，game-over消息没有带分数时使用
+  const lastScoreRef = useRef<number | null>(null);
+
+  const handleMessage = useCallback((message: GameBridgeMessage) => {
+    if (message.type === 'score') {
+      lastScoreRef.current = message.score;
+    } else if (message.type === 'game-over') {
+      const score = message.score ?? lastScoreRef.current;
+      lastScoreRef.current = null;
+      if (score !== null) {
+        setPendingScore(score);
+      }
+    }
+  }, []);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* 游戏渲染器 - 占据主要空间 */}
+      <div className="lg:col-span-2">
+        <GameRenderer
+          gameId={gameId}
+          title={title}
+          className="w-full"
+          onMessage={handleMessage}
+        />
+      </div>
+
+      {/* 游戏元数据和排行榜 - 侧边栏 */}
+      <div className="lg:col-span-1">
+        <div className="sticky top-6 space-y-6">
+          {sidebar}
+          <GameLeaderboard
+            gameId={gameId}
+            pendingScore={pendingScore}
+            onScoreSubmitted={() => setPendingScore(null)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -99,10 +99,11 @@ export function GamePreview({ game, showHtmlContent = false }: GamePreviewProps)
           </CardHeader>
           <CardContent>
             <div className="border rounded-md overflow-hidden">
+              {/* srcDoc内容与管理后台同源，不能同时允许allow-same-origin，否则游戏脚本可以访问后台页面 */}
               <iframe
                 srcDoc={game.htmlContent}
                 className="w-full h-96 border-0"
-                sandbox="allow-scripts allow-same-origin"
+                sandbox="allow-scripts"
                 title={`预览: ${game.title}`}
               />
             </div>
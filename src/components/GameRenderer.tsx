@@ -3,88 +3,190 @@
 import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  getGameContentOrigin,
+  getGameRawUrl,
+  getGameSandboxAttribute,
+  isGameSandboxIsolated,
+} from '@/lib/game-sandbox';
+import {
+  GAME_HEARTBEAT_INTERVAL,
+  createGameBridgeReply,
+  parseGameBridgeMessage,
+  type GameBridgeMessage,
+} from '@/lib/game-bridge';
+import { isGameStorageRequest, performGameStorageRequest } from '@/lib/game-storage';
+import {
+  GAME_FREEZE_THRESHOLD_MS,
+  MAX_ERROR_REPORTS_PER_SESSION,
+  reportGameError,
+  type GameErrorKind,
+  type GameErrorReport,
+} from '@/lib/game-errors';
 
 interface GameRendererProps {
-  htmlContent: string;
+  gameId: string;
   title: string;
   className?: string;
+  // 游戏通过桥接SDK发送的消息（已校验来源和格式）
+  onMessage?: (message: GameBridgeMessage) => void;
 }
 
-export function GameRenderer({ htmlContent, title, className }: GameRendererProps) {
+export function GameRenderer({ gameId, title, className, onMessage }: GameRendererProps) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const onMessageRef = useRef(onMessage);
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
+  // 游戏请求的iframe高度
+  const [frameHeight, setFrameHeight] = useState<number | null>(null);
+  // 游戏运行中出现的问题，显示提示但不中断游戏
+  const [runtimeIssue, setRuntimeIssue] = useState<GameErrorKind | null>(null);
+  // 最近一次收到心跳的时间，游戏还没有发送心跳时为null
+  const lastHeartbeatRef = useRef<number | null>(null);
+  // 当前是否处于无响应状态（已上报，恢复心跳前不重复上报）
+  const isFrozenRef = useRef(false);
+  // 本次游戏已上报的错误，同一错误只上报一次
+  const reportedErrorsRef = useRef(new Set<string>());
+
+  // 游戏内容只从沙箱路由加载；沙箱源与主站同源时不允许allow-same-origin，避免游戏脚本访问父页面
+  const isolated = isGameSandboxIsolated();
+  const src = getGameRawUrl(gameId);
+  const sandbox = getGameSandboxAttribute(isolated);
+  const contentOrigin = getGameContentOrigin(isolated);
+
+  // 上报游戏的运行错误（同一错误只上报一次，达到本次游戏的上报上限后不再上报）
+  const reportErrorRef = useRef<(report: GameErrorReport) => void>();
+
+  onMessageRef.current = onMessage;
+  reportErrorRef.current = (report) => {
+    const key = `${report.kind}:${report.message}`;
+    if (reportedErrorsRef.current.has(key)) return;
+    if (reportedErrorsRef.current.size >= MAX_ERROR_REPORTS_PER_SESSION) return;
+    reportedErrorsRef.current.add(key);
+    void reportGameError(gameId, report);
+  };
 
   useEffect(() => {
     const iframe = iframeRef.current;
     if (!iframe) return;
 
-    // 创建安全的iframe内容
-    const createSecureContent = (content: string) => {
-      return `
-        <!DOCTYPE html>
-        <html lang="zh-CN">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>${title}</title>
-          <style>
-            body {
-              margin: 0;
-              padding: 0;
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-              background: #f8f9fa;
-            }
-            * {
-              box-sizing: border-box;
-            }
-          </style>
-        </head>
-        <body>
-          ${content}
-        </body>
-        </html>
-      `;
+    setIsLoading(true);
+    setHasError(false);
+    setRuntimeIssue(null);
+    lastHeartbeatRef.current = null;
+    isFrozenRef.current = false;
+    reportedErrorsRef.current.clear();
+
+    // 监听iframe加载完成
+    const handleLoad = () => {
+      setIsLoading(false);
+      setHasError(false);
     };
 
-    try {
-      // 设置iframe内容
-      const secureContent = createSecureContent(htmlContent);
-      const blob = new Blob([secureContent], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      
-      iframe.src = url;
-      
-      // 监听iframe加载完成
-      const handleLoad = () => {
-        setIsLoading(false);
-        setHasError(false);
-        
-        // 清理blob URL
-        URL.revokeObjectURL(url);
-      };
-
-      const handleError = () => {
-        setIsLoading(false);
-        setHasError(true);
-        URL.revokeObjectURL(url);
-      };
-
-      iframe.addEventListener('load', handleLoad);
-      iframe.addEventListener('error', handleError);
-
-      // 清理函数
-      return () => {
-        iframe.removeEventListener('load', handleLoad);
-        iframe.removeEventListener('error', handleError);
-        URL.revokeObjectURL(url);
-      };
-    } catch (error) {
-      console.error('Error creating game content:', error);
+    const handleError = () => {
       setIsLoading(false);
       setHasError(true);
-    }
-  }, [htmlContent, title]);
+    };
+
+    iframe.addEventListener('load', handleLoad);
+    iframe.addEventListener('error', handleError);
+
+    // 在注册监听后再设置地址，避免错过加载完成事件
+    iframe.src = src;
+
+    // 清理函数
+    return () => {
+      iframe.removeEventListener('load', handleLoad);
+      iframe.removeEventListener('error', handleError);
+    };
+  }, [src]);
+
+  // 接收游戏通过桥接SDK发送的消息，只处理来自本游戏iframe的消息
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const iframe = iframeRef.current;
+      if (!iframe || event.source !== iframe.contentWindow) return;
+
+      const message = parseGameBridgeMessage(event, contentOrigin);
+      if (!message) return;
+
+      // 存档请求由平台页面调用存档API，结果只回复给发起请求的游戏窗口
+      // （不透明源无法作为targetOrigin，此时使用'*'）
+      if (isGameStorageRequest(message)) {
+        const gameWindow = event.source as Window;
+        const targetOrigin = contentOrigin === 'null' ? '*' : contentOrigin;
+        performGameStorageRequest(gameId, message).then((result) => {
+          gameWindow.postMessage(createGameBridgeReply(message.requestId, result), targetOrigin);
+        });
+        return;
+      }
+
+      switch (message.type) {
+        case 'ready':
+          setIsLoading(false);
+          break;
+        case 'resize':
+          setFrameHeight(message.height);
+          break;
+        case 'request-fullscreen':
+          // 全屏需要用户操作触发，游戏内的点击同样有效；失败时忽略
+          iframe.requestFullscreen?.().catch(() => undefined);
+          break;
+        case 'heartbeat':
+          lastHeartbeatRef.current = Date.now();
+          if (isFrozenRef.current) {
+            isFrozenRef.current = false;
+            setRuntimeIssue((issue) => (issue === 'freeze' ? null : issue));
+          }
+          break;
+        case 'error':
+          setRuntimeIssue(message.kind);
+          // 平台已经判定无响应时，游戏恢复后报告的卡死不再重复上报
+          if (message.kind !== 'freeze' || !isFrozenRef.current) {
+            reportErrorRef.current?.({
+              kind: message.kind,
+              message: message.message,
+              stack: message.stack,
+              durationMs: message.durationMs,
+            });
+          }
+          break;
+      }
+
+      onMessageRef.current?.(message);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [contentOrigin, gameId]);
+
+  // 游戏开始发送心跳后，超过阈值没有收到心跳时判定为无响应（游戏卡死时无法自己报告）
+  // 页面不可见时浏览器会节流游戏中的定时器，不做判断
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden && lastHeartbeatRef.current !== null) {
+        lastHeartbeatRef.current = Date.now();
+      }
+    };
+
+    const timer = window.setInterval(() => {
+      const lastHeartbeat = lastHeartbeatRef.current;
+      if (lastHeartbeat === null || document.hidden || isFrozenRef.current) return;
+
+      const elapsed = Date.now() - lastHeartbeat;
+      if (elapsed >= GAME_FREEZE_THRESHOLD_MS) {
+        isFrozenRef.current = true;
+        setRuntimeIssue('freeze');
+        reportErrorRef.current?.({ kind: 'freeze', message: 'Game stopped responding', durationMs: elapsed });
+      }
+    }, GAME_HEARTBEAT_INTERVAL);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
 
   if (hasError) {
     return (
@@ -105,6 +207,16 @@ export function GameRenderer({ htmlContent, title, className }: GameRendererProp
   return (
     <Card className={className}>
       <CardContent className="p-0 relative">
+        {runtimeIssue && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800 rounded-t-lg">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              {runtimeIssue === 'freeze'
+                ? '游戏似乎已无响应，可以稍等片刻或刷新页面重试'
+                : '游戏运行时出现错误，部分功能可能无法正常使用'}
+            </span>
+          </div>
+        )}
         {isLoading && (
           <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10">
             <div className="text-center">
@@ -117,10 +229,10 @@ export function GameRenderer({ htmlContent, title, className }: GameRendererProp
           ref={iframeRef}
           title={`游戏: ${title}`}
           className="w-full h-[600px] border-0 rounded-lg"
-          sandbox="allow-scripts allow-same-origin allow-forms allow-popups-to-escape-sandbox"
+          sandbox={sandbox}
           referrerPolicy="no-referrer"
           loading="lazy"
-          style={{
+          style={frameHeight ? { height: `${frameHeight}px` } : {
             minHeight: '400px',
             maxHeight: '800px',
           }}
@@ -1,15 +1,25 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { gameSubmissionSchema, type GameSubmissionInput } from '@/lib/validation';
-import { validateHtmlContent, validateStringContent, validateFile } from '@/lib/security';
+import {
+  DEFAULT_SECURITY_CONFIG,
+  validateHtmlContent,
+  validateStringContent,
+  validateFile,
+  type SecurityConfig,
+  type SecurityFinding,
+} from '@/lib/security';
+import { toSecurityConfig } from '@/lib/security-policy';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SecurityFindingList from '@/components/SecurityFindingList';
 import { toast } from '@/hooks/use-toast';
 
 interface GameSubmissionFormProps {
@@ -18,11 +28,43 @@ interface GameSubmissionFormProps {
 
 type SubmissionMethod = 'paste' | 'upload';
 
+// 安全检查结果及被检查的内容，用于在内容上标出问题位置
+interface SecurityCheck {
+  content: string;
+  findings: SecurityFinding[];
+}
+
+// 提交成功后返回的回执（令牌只显示这一次）
+interface SubmissionReceipt {
+  gameId: string;
+  token: string;
+}
+
 export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProps) {
   const [submissionMethod, setSubmissionMethod] = useState<SubmissionMethod>('paste');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [securityWarnings, setSecurityWarnings] = useState<string[]>([]);
+  const [securityCheck, setSecurityCheck] = useState<SecurityCheck | null>(null);
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
+  // 当前生效的安全策略，加载完成前使用内置默认配置
+  const [securityConfig, setSecurityConfig] = useState<SecurityConfig>(DEFAULT_SECURITY_CONFIG);
+
+  useEffect(() => {
+    const loadSecurityPolicy = async () => {
+      try {
+        const response = await fetch('/api/security-policy');
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setSecurityConfig(toSecurityConfig(result.data.config));
+        }
+      } catch (error) {
+        // 加载失败时继续使用默认配置，以服务端的检查结果为准
+        console.error('加载安全策略失败:', error);
+      }
+    };
+
+    loadSecurityPolicy();
+  }, []);
 
   const {
     register,
@@ -49,7 +91,7 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
     if (!file) return;
 
     // 验证文件
-    const fileValidation = validateFile(file);
+    const fileValidation = validateFile(file, securityConfig);
     if (!fileValidation.isValid) {
       toast({
         title: '文件验证失败',
@@ -63,7 +105,7 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
       const content = await file.text();
       
       // 验证内容大小
-      const contentValidation = validateStringContent(content);
+      const contentValidation = validateStringContent(content, securityConfig.maxFileSize);
       if (!contentValidation.isValid) {
         toast({
           title: '内容验证失败',
@@ -74,11 +116,12 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
       }
 
       // 验证HTML安全性
-      const securityValidation = validateHtmlContent(content);
+      const securityValidation = validateHtmlContent(content, securityConfig);
+      setSecurityCheck({ content, findings: securityValidation.findings });
       if (!securityValidation.isValid) {
         toast({
           title: 'HTML内容不安全',
-          description: '检测到不安全的内容，请修改后重新上传',
+          description: `检测到 ${securityValidation.violations.length} 个安全问题，请修改后重新上传`,
           variant: 'destructive',
         });
         return;
@@ -86,7 +129,6 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
 
       setUploadedFile(file);
       setValue('htmlContent', content);
-      setSecurityWarnings(securityValidation.warnings);
 
       if (securityValidation.warnings.length > 0) {
         toast({
@@ -110,17 +152,17 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
     
     if (content.trim()) {
       // 验证内容大小
-      const contentValidation = validateStringContent(content);
+      const contentValidation = validateStringContent(content, securityConfig.maxFileSize);
       if (!contentValidation.isValid) {
-        setSecurityWarnings([]);
+        setSecurityCheck(null);
         return;
       }
 
       // 验证HTML安全性
-      const securityValidation = validateHtmlContent(content);
-      setSecurityWarnings(securityValidation.warnings);
+      const securityValidation = validateHtmlContent(content, securityConfig);
+      setSecurityCheck({ content, findings: securityValidation.findings });
     } else {
-      setSecurityWarnings([]);
+      setSecurityCheck(null);
     }
   };
 
@@ -130,8 +172,9 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
     
     try {
       // 最终安全验证
-      const securityValidation = validateHtmlContent(data.htmlContent);
+      const securityValidation = validateHtmlContent(data.htmlContent, securityConfig);
       if (!securityValidation.isValid) {
+        setSecurityCheck({ content: data.htmlContent, findings: securityValidation.findings });
         toast({
           title: '提交失败',
           description: 'HTML内容包含不安全的元素',
@@ -151,6 +194,10 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
       const result = await response.json();
 
       if (!response.ok) {
+        // 服务端安全检查发现的问题同样标注在内容上
+        if (result.details?.findings) {
+          setSecurityCheck({ content: data.htmlContent, findings: result.details.findings });
+        }
         throw new Error(result.message || '提交失败');
       }
 
@@ -163,7 +210,11 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
       // 重置表单
       reset();
       setUploadedFile(null);
-      setSecurityWarnings([]);
+      setSecurityCheck(null);
+
+      if (result.game?.id && result.receipt?.token) {
+        setReceipt({ gameId: result.game.id, token: result.receipt.token });
+      }
 
       // 调用成功回调
       if (onSuccess && result.game?.id) {
@@ -201,6 +252,40 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {/* 提交回执 */}
+        {receipt && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-md space-y-2">
+            <h4 className="text-sm font-medium text-green-800">提交回执</h4>
+            <p className="text-sm text-green-700">
+              请保存以下游戏ID和回执令牌，凭它们可以查看审核状态、修改或撤回游戏。回执令牌只显示这一次。
+            </p>
+            <div className="text-sm font-mono break-all bg-white border rounded p-2 space-y-1">
+              <div>游戏ID: {receipt.gameId}</div>
+              <div>回执令牌: {receipt.token}</div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  try {
+                    await navigator.clipboard.writeText(`游戏ID: ${receipt.gameId}\n回执令牌: ${receipt.token}`);
+                    toast({ title: '已复制', description: '回执信息已复制到剪贴板' });
+                  } catch (error) {
+                    toast({ title: '复制失败', description: '请手动复制回执信息', variant: 'destructive' });
+                  }
+                }}
+              >
+                复制回执
+              </Button>
+              <Link href={`/receipt?game=${receipt.gameId}`}>
+                <Button type="button" variant="outline" size="sm">查看审核状态</Button>
+              </Link>
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* 游戏标题 */}
           <div className="space-y-2">
@@ -305,22 +390,9 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
             </div>
           )}
 
-          {/* 安全警告 */}
-          {securityWarnings.length > 0 && (
-            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md">
-              <h4 className="text-sm font-medium text-yellow-800 mb-2">安全提醒</h4>
-              <ul className="text-sm text-yellow-700 space-y-1">
-                {securityWarnings.map((warning, index) => (
-                  <li key={index} className="flex items-start">
-                    <span className="mr-2">⚠️</span>
-                    <span>{warning}</span>
-                  </li>
-                ))}
-              </ul>
-              <p className="text-xs text-yellow-600 mt-2">
-                这些警告不会阻止提交，但建议您检查代码以确保安全性。
-              </p>
-            </div>
+          {/* 安全检查结果 */}
+          {securityCheck && (
+            <SecurityFindingList findings={securityCheck.findings} content={securityCheck.content} />
           )}
 
           {/* 内容预览信息 */}
@@ -340,7 +412,7 @@ export default function GameSubmissionForm({ onSuccess }: GameSubmissionFormProp
               onClick={() => {
                 reset();
                 setUploadedFile(null);
-                setSecurityWarnings([]);
+                setSecurityCheck(null);
               }}
               disabled={isSubmitting}
             >
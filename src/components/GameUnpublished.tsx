@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Ban, ArrowLeft } from 'lucide-react';
+
+interface GameUnpublishedProps {
+  reason?: string | null;
+}
+
+export function GameUnpublished({ reason }: GameUnpublishedProps) {
+  return (
+    <div className="mx-auto max-w-2xl">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+            <Ban className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <CardTitle className="text-2xl">游戏已下架</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            该游戏因违反平台规则已被管理员下架，暂时无法游玩。
+          </p>
+          {reason && (
+            <p className="text-sm text-muted-foreground">
+              下架原因：{reason}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3 justify-center pt-4">
+            <Link href="/games">
+              <Button>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                浏览其他游戏
+              </Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
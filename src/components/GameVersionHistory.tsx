@@ -0,0 +1,356 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { GameVersionListItem } from '@/lib/schema';
+import type { DiffLine, DiffStats } from '@/lib/diff';
+
+interface GameVersionHistoryProps {
+  gameId: string;
+  initialVersionId?: string;
+}
+
+interface VersionGameInfo {
+  id: string;
+  title: string;
+  status: string | null;
+  currentVersionId: string | null;
+}
+
+interface VersionDiff {
+  base: { id: string | null; versionNumber: number | null; isLive: boolean };
+  target: { id: string; versionNumber: number };
+  stats: DiffStats;
+  diff: DiffLine[];
+}
+
+export default function GameVersionHistory({ gameId, initialVersionId }: GameVersionHistoryProps) {
+  const [game, setGame] = useState<VersionGameInfo | null>(null);
+  const [versions, setVersions] = useState<GameVersionListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialVersionId || null);
+  const [baseId, setBaseId] = useState<string>('');
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const { toast } = useToast();
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/versions`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || '获取版本列表失败');
+      }
+
+      setGame(result.data.game);
+      setVersions(result.data.versions);
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, toast]);
+
+  // 获取选中版本与对比版本（默认为线上版本）的差异
+  const fetchDiff = useCallback(async (versionId: string, compareWith: string) => {
+    try {
+      const query = compareWith ? `?base=${compareWith}` : '';
+      const response = await fetch(`/api/admin/review/versions/${versionId}/diff${query}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || '获取版本差异失败');
+      }
+
+      setDiff(result.data);
+    } catch (error) {
+      setDiff(null);
+      toast({
+        title: '加载差异失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchDiff(selectedId, baseId);
+    }
+  }, [fetchDiff, selectedId, baseId]);
+
+  const handleReview = async (versionId: string, action: 'approve' | 'reject') => {
+    setIsProcessing(true);
+    try {
+      const response = await fetch(`/api/admin/review/versions/${versionId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action,
+          reason: action === 'reject' ? rejectionReason.trim() : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '审核失败');
+      }
+
+      toast({
+        title: '审核完成',
+        description: result.message,
+      });
+      setRejectionReason('');
+      await fetchVersions();
+    } catch (error) {
+      toast({
+        title: '审核失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRollback = async (version: GameVersionListItem) => {
+    if (!confirm(`确定要将线上版本回滚到 v${version.versionNumber} 吗？`)) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const response = await fetch(`/api/admin/games/${gameId}/rollback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ versionId: version.id }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '回滚失败');
+      }
+
+      toast({
+        title: '回滚成功',
+        description: result.message,
+      });
+      await fetchVersions();
+    } catch (error) {
+      toast({
+        title: '回滚失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const getStatusBadge = (status: string | null) => {
+    switch (status) {
+      case 'pending':
+        return <Badge variant="secondary">待审核</Badge>;
+      case 'approved':
+        return <Badge variant="default">已批准</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">已拒绝</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">已撤回</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const getDiffLineClass = (type: DiffLine['type']) => {
+    switch (type) {
+      case 'added':
+        return 'bg-green-50 text-green-800';
+      case 'removed':
+        return 'bg-red-50 text-red-800';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">加载中...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectedVersion = versions.find((version) => version.id === selectedId) || null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>{game?.title || '游戏'} · 版本历史</CardTitle>
+              <CardDescription>审核通过前线上仍为当前版本，可回滚到任意已批准的版本</CardDescription>
+            </div>
+            <Link href="/admin/versions">
+              <Button variant="outline" size="sm">返回版本审核</Button>
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">该游戏还没有提交过新版本</p>
+          ) : (
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className={`flex items-center justify-between rounded-lg border p-3 ${
+                    version.id === selectedId ? 'border-primary' : ''
+                  }`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.versionNumber}</span>
+                      {getStatusBadge(version.status)}
+                      {game?.currentVersionId === version.id && (
+                        <Badge variant="outline" className="border-green-500 text-green-700">线上版本</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.createdAt ? new Date(version.createdAt).toLocaleString('zh-CN') : '-'}
+                      {version.submittedBy && ` · ${version.submittedBy}`}
+                      {version.changelog && ` · ${version.changelog}`}
+                    </p>
+                    {version.status === 'rejected' && version.rejectionReason && (
+                      <p className="text-xs text-red-600">拒绝原因: {version.rejectionReason}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedId(version.id)}>
+                      查看差异
+                    </Button>
+                    {version.status === 'approved' && game?.currentVersionId !== version.id && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRollback(version)}
+                        disabled={isProcessing}
+                      >
+                        回滚到此版本
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedVersion && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">v{selectedVersion.versionNumber} 的内容差异</CardTitle>
+              <select
+                className="rounded-md border px-2 py-1 text-sm"
+                value={baseId}
+                onChange={(e) => setBaseId(e.target.value)}
+              >
+                <option value="">对比线上版本</option>
+                {versions
+                  .filter((version) => version.id !== selectedVersion.id)
+                  .map((version) => (
+                    <option key={version.id} value={version.id}>
+                      对比 v{version.versionNumber}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            {diff && (
+              <CardDescription>
+                <span className="text-green-600">+{diff.stats.added}</span>
+                {' / '}
+                <span className="text-red-600">-{diff.stats.removed}</span>
+                {' 行'}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {diff && (
+              <div className="max-h-[32rem] overflow-auto rounded-md border font-mono text-xs">
+                {diff.diff.map((line, index) => (
+                  <div key={index} className={`flex whitespace-pre ${getDiffLineClass(line.type)}`}>
+                    <span className="w-12 shrink-0 select-none pr-2 text-right text-gray-400">
+                      {line.oldLineNumber ?? ''}
+                    </span>
+                    <span className="w-12 shrink-0 select-none pr-2 text-right text-gray-400">
+                      {line.newLineNumber ?? ''}
+                    </span>
+                    <span className="w-4 shrink-0 select-none">
+                      {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                    </span>
+                    <span>{line.content}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selectedVersion.status === 'pending' && (
+              <div className="space-y-3 border-t pt-4">
+                <Label htmlFor="version-rejection-reason">拒绝原因（拒绝时必填）</Label>
+                <Textarea
+                  id="version-rejection-reason"
+                  placeholder="请输入拒绝原因..."
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={3}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleReview(selectedVersion.id, 'approve')}
+                    disabled={isProcessing}
+                    className="flex-1"
+                  >
+                    {isProcessing ? '处理中...' : '批准并上线'}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleReview(selectedVersion.id, 'reject')}
+                    disabled={isProcessing || !rejectionReason.trim()}
+                    className="flex-1"
+                  >
+                    拒绝
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AppealForm } from '@/components/AppealForm';
+import { ScoreSettingsForm } from '@/components/ScoreSettingsForm';
+import { GameErrorList } from '@/components/GameErrorList';
+import { useToast } from '@/hooks/use-toast';
+import type { CreatorGame } from '@/lib/schema';
+import type { ScoreSettings } from '@/lib/scores';
+
+interface CreatorInfo {
+  id: string;
+  username: string;
+  displayName: string | null;
+}
+
+export default function MyGamesList() {
+  const [creator, setCreator] = useState<CreatorInfo | null>(null);
+  const [games, setGames] = useState<CreatorGame[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const [appealFormId, setAppealFormId] = useState<string | null>(null);
+  const [versionFormId, setVersionFormId] = useState<string | null>(null);
+  const [scoreSettingsFormId, setScoreSettingsFormId] = useState<string | null>(null);
+  const [errorListId, setErrorListId] = useState<string | null>(null);
+  const [versionFile, setVersionFile] = useState<File | null>(null);
+  const [versionChangelog, setVersionChangelog] = useState('');
+  const [isSubmittingVersion, setIsSubmittingVersion] = useState(false);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const fetchMyGames = useCallback(async () => {
+    try {
+      const response = await fetch('/api/creator/games');
+
+      if (response.status === 401) {
+        router.replace('/creator/login?from=/my-games');
+        return;
+      }
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '获取游戏列表失败');
+      }
+
+      setCreator(result.data.creator);
+      setGames(result.data.games);
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [router, toast]);
+
+  // 撤回待审核的游戏
+  const handleWithdraw = async (game: CreatorGame) => {
+    if (!confirm(`确定要撤回《${game.title}》吗？撤回后将不再进入审核队列。`)) {
+      return;
+    }
+
+    setWithdrawingId(game.id);
+    try {
+      const response = await fetch(`/api/creator/games/${game.id}/withdraw`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || '撤回失败');
+      }
+
+      toast({
+        title: '已撤回',
+        description: `《${game.title}》已撤回`,
+      });
+      await fetchMyGames();
+    } catch (error) {
+      toast({
+        title: '撤回失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  // 对被拒绝的游戏提出申诉
+  const handleAppeal = async (game: CreatorGame, message: string) => {
+    try {
+      const response = await fetch(`/api/games/${game.id}/appeal`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.message || '申诉失败');
+      }
+
+      toast({
+        title: '申诉已提交',
+        description: `《${game.title}》已重新进入审核队列`,
+      });
+      setAppealFormId(null);
+      await fetchMyGames();
+    } catch (error) {
+      toast({
+        title: '申诉失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // 为已发布的游戏提交新版本，审核通过前线上仍为当前版本
+  const handleSubmitVersion = async (game: CreatorGame) => {
+    if (!versionFile) {
+      return;
+    }
+
+    setIsSubmittingVersion(true);
+    try {
+      const htmlContent = await versionFile.text();
+      const response = await fetch(`/api/games/${game.id}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          htmlContent,
+          changelog: versionChangelog.trim() || undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.message || '提交新版本失败');
+      }
+
+      toast({
+        title: '已提交新版本',
+        description: `《${game.title}》v${result.data.version.versionNumber} 已进入审核`,
+      });
+      setVersionFormId(null);
+      setVersionFile(null);
+      setVersionChangelog('');
+    } catch (error) {
+      toast({
+        title: '提交失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmittingVersion(false);
+    }
+  };
+
+  // 保存游戏的排行榜设置
+  const handleSaveScoreSettings = async (game: CreatorGame, settings: ScoreSettings) => {
+    try {
+      const response = await fetch(`/api/games/${game.id}/score-settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.message || '保存失败');
+      }
+
+      toast({
+        title: '已保存',
+        description: `《${game.title}》的排行榜设置已更新`,
+      });
+      setScoreSettingsFormId(null);
+    } catch (error) {
+      toast({
+        title: '保存失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/creator/logout', { method: 'POST' });
+    } finally {
+      router.replace('/creator/login');
+      router.refresh();
+    }
+  };
+
+  useEffect(() => {
+    fetchMyGames();
+  }, [fetchMyGames]);
+
+  const getStatusBadge = (status: string | null) => {
+    switch (status) {
+      case 'pending':
+        return <Badge variant="secondary">待审核</Badge>;
+      case 'approved':
+        return <Badge variant="default">已发布</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">已拒绝</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">已撤回</Badge>;
+      case 'unpublished':
+        return <Badge variant="destructive">已下架</Badge>;
+      case 'deleted':
+        return <Badge variant="outline">已删除</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const getActionLabel = (action: string) => {
+    switch (action) {
+      case 'approve':
+        return '批准';
+      case 'reject':
+        return '拒绝';
+      case 'unpublish':
+        return '下架';
+      case 'appeal':
+        return '申诉';
+      case 'withdraw':
+        return '撤回';
+      case 'rollback':
+        return '回滚';
+      case 'edit':
+        return '修改';
+      case 'delete':
+        return '删除';
+      case 'rescan':
+        return '安全复查';
+      default:
+        return action;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-4xl">
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-center">加载中...</div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>我的游戏</CardTitle>
+              <CardDescription>
+                {creator ? `${creator.displayName || creator.username} 提交的游戏及审核进度` : '查看提交的游戏及审核进度'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Link href="/submit">
+                <Button size="sm">提交新游戏</Button>
+              </Link>
+              <Button variant="outline" size="sm" onClick={handleLogout}>
+                退出登录
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {games.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            还没有提交过游戏
+          </CardContent>
+        </Card>
+      ) : (
+        games.map((game) => (
+          <Card key={game.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">{game.title}</CardTitle>
+                {getStatusBadge(game.status)}
+              </div>
+              <CardDescription>
+                提交于 {game.createdAt ? new Date(game.createdAt).toLocaleString('zh-CN') : '-'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {game.status === 'rejected' && game.rejectionReason && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                  <p className="text-sm font-medium text-red-800">拒绝原因</p>
+                  <p className="mt-1 text-sm text-red-700">{game.rejectionReason}</p>
+                </div>
+              )}
+
+              {game.status === 'unpublished' && (
+                <div className="rounded-lg border border-orange-200 bg-orange-50 p-3">
+                  <p className="text-sm font-medium text-orange-800">游戏已被下架</p>
+                  {game.unpublishReason && (
+                    <p className="mt-1 text-sm text-orange-700">{game.unpublishReason}</p>
+                  )}
+                </div>
+              )}
+
+              {game.status === 'approved' && game.errorCount > 0 && (
+                <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                  <p className="text-sm font-medium text-yellow-800">游戏运行时出现错误</p>
+                  <p className="mt-1 text-sm text-yellow-700">
+                    玩家游玩时共记录到 {game.errorCount} 次错误或无响应，请查看错误详情并修复后提交新版本
+                  </p>
+                </div>
+              )}
+
+              {game.reviewLogs.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">审核记录</p>
+                  <ul className="space-y-1 text-sm text-muted-foreground">
+                    {game.reviewLogs.map((log) => (
+                      <li key={log.id}>
+                        {log.createdAt ? new Date(log.createdAt).toLocaleString('zh-CN') : '-'}
+                        {' · '}
+                        {getActionLabel(log.action)}
+                        {log.reason && `：${log.reason}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {game.status === 'approved' && (
+                  <Link href={`/game/${game.id}`}>
+                    <Button variant="outline" size="sm">查看游戏</Button>
+                  </Link>
+                )}
+                {game.status === 'approved' && versionFormId !== game.id && (
+                  <Button variant="outline" size="sm" onClick={() => setVersionFormId(game.id)}>
+                    提交新版本
+                  </Button>
+                )}
+                {game.status === 'approved' && scoreSettingsFormId !== game.id && (
+                  <Button variant="outline" size="sm" onClick={() => setScoreSettingsFormId(game.id)}>
+                    排行榜设置
+                  </Button>
+                )}
+                {game.status === 'approved' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setErrorListId(errorListId === game.id ? null : game.id)}
+                  >
+                    {errorListId === game.id ? '收起运行错误' : '运行错误'}
+                  </Button>
+                )}
+                {game.status === 'rejected' && appealFormId !== game.id && (
+                  <Button variant="outline" size="sm" onClick={() => setAppealFormId(game.id)}>
+                    申诉
+                  </Button>
+                )}
+                {game.status === 'pending' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleWithdraw(game)}
+                    disabled={withdrawingId === game.id}
+                  >
+                    {withdrawingId === game.id ? '撤回中...' : '撤回提交'}
+                  </Button>
+                )}
+              </div>
+
+              {appealFormId === game.id && (
+                <AppealForm
+                  gameId={game.id}
+                  onSubmit={(message) => handleAppeal(game, message)}
+                  onCancel={() => setAppealFormId(null)}
+                />
+              )}
+
+              {scoreSettingsFormId === game.id && (
+                <ScoreSettingsForm
+                  gameId={game.id}
+                  onSubmit={(settings) => handleSaveScoreSettings(game, settings)}
+                  onCancel={() => setScoreSettingsFormId(null)}
+                />
+              )}
+
+              {errorListId === game.id && (
+                <div className="border-t pt-4">
+                  <GameErrorList
+                    gameId={game.id}
+                    canClear
+                    onCleared={() =>
+                      setGames((current) =>
+                        current.map((item) => (item.id === game.id ? { ...item, errorCount: 0 } : item))
+                      )
+                    }
+                  />
+                </div>
+              )}
+
+              {versionFormId === game.id && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`version-file-${game.id}`}>新版本HTML文件</Label>
+                    <Input
+                      id={`version-file-${game.id}`}
+                      type="file"
+                      accept=".html,.htm"
+                      onChange={(e) => setVersionFile(e.target.files?.[0] || null)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`version-changelog-${game.id}`}>更新说明（可选）</Label>
+                    <Input
+                      id={`version-changelog-${game.id}`}
+                      placeholder="简要描述本次更新的内容"
+                      value={versionChangelog}
+                      onChange={(e) => setVersionChangelog(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSubmitVersion(game)}
+                      disabled={!versionFile || isSubmittingVersion}
+                    >
+                      {isSubmittingVersion ? '提交中...' : '提交审核'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setVersionFormId(null);
+                        setVersionFile(null);
+                        setVersionChangelog('');
+                      }}
+                    >
+                      取消
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AppealForm } from '@/components/AppealForm';
+import { toast } from '@/hooks/use-toast';
+
+interface ReceiptGame {
+  id: string;
+  title: string;
+  description: string | null;
+  authorName: string | null;
+  status: string | null;
+  rejectionReason: string | null;
+  unpublishReason: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+interface ReceiptLog {
+  id: number;
+  action: string;
+  reason: string | null;
+  createdAt: string | null;
+}
+
+interface ReceiptLookupProps {
+  initialGameId?: string;
+}
+
+export default function ReceiptLookup({ initialGameId = '' }: ReceiptLookupProps) {
+  const [gameId, setGameId] = useState(initialGameId);
+  const [token, setToken] = useState('');
+  const [game, setGame] = useState<ReceiptGame | null>(null);
+  const [reviewLogs, setReviewLogs] = useState<ReceiptLog[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showAppealForm, setShowAppealForm] = useState(false);
+  const [editData, setEditData] = useState({ title: '', description: '', authorName: '', htmlContent: '' });
+
+  // 调用回执接口
+  const requestReceipt = async (method: 'GET' | 'PATCH' | 'DELETE' | 'POST', body?: unknown, path = 'receipt') => {
+    const response = await fetch(`/api/games/${gameId.trim()}/${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Receipt-Token': token.trim(),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || '请求失败');
+    }
+    return result;
+  };
+
+  const fetchStatus = async () => {
+    setIsLoading(true);
+    try {
+      const result = await requestReceipt('GET');
+      setGame(result.data.game);
+      setReviewLogs(result.data.reviewLogs);
+      setEditData({
+        title: result.data.game.title,
+        description: result.data.game.description || '',
+        authorName: result.data.game.authorName || '',
+        htmlContent: '',
+      });
+    } catch (error) {
+      setGame(null);
+      toast({
+        title: '查询失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm('确定要撤回这个游戏吗？撤回后将不再进入审核队列。')) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await requestReceipt('DELETE');
+      toast({ title: '已撤回', description: result.message });
+      await fetchStatus();
+    } catch (error) {
+      toast({
+        title: '撤回失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = async () => {
+    setIsLoading(true);
+    try {
+      // HTML代码留空时保持不变
+      const result = await requestReceipt('PATCH', {
+        title: editData.title,
+        description: editData.description,
+        authorName: editData.authorName,
+        ...(editData.htmlContent.trim() && { htmlContent: editData.htmlContent }),
+      });
+      toast({ title: '修改成功', description: result.message, variant: 'success' });
+      setShowEditForm(false);
+      await fetchStatus();
+    } catch (error) {
+      toast({
+        title: '修改失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+      setIsLoading(false);
+    }
+  };
+
+  const handleAppeal = async (message: string) => {
+    try {
+      const result = await requestReceipt('POST', { message }, 'appeal');
+      toast({ title: '申诉已提交', description: result.message, variant: 'success' });
+      setShowAppealForm(false);
+      await fetchStatus();
+    } catch (error) {
+      toast({
+        title: '申诉失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getStatusBadge = (status: string | null) => {
+    switch (status) {
+      case 'pending':
+        return <Badge variant="secondary">待审核</Badge>;
+      case 'approved':
+        return <Badge variant="default">已发布</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">已拒绝</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">已撤回</Badge>;
+      case 'unpublished':
+        return <Badge variant="destructive">已下架</Badge>;
+      case 'deleted':
+        return <Badge variant="outline">已删除</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const getActionLabel = (action: string) => {
+    switch (action) {
+      case 'approve':
+        return '批准';
+      case 'reject':
+        return '拒绝';
+      case 'unpublish':
+        return '下架';
+      case 'appeal':
+        return '申诉';
+      case 'withdraw':
+        return '撤回';
+      case 'edit':
+        return '修改';
+      case 'delete':
+        return '删除';
+      case 'rescan':
+        return '安全复查';
+      default:
+        return action;
+    }
+  };
+
+  const canEdit = game?.status === 'pending' || game?.status === 'rejected';
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>查询提交状态</CardTitle>
+          <CardDescription>输入提交游戏时获得的游戏ID和回执令牌</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="receipt-game-id">游戏ID</Label>
+            <Input
+              id="receipt-game-id"
+              value={gameId}
+              onChange={(e) => setGameId(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="receipt-token">回执令牌</Label>
+            <Input
+              id="receipt-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <Button onClick={fetchStatus} disabled={isLoading || !gameId.trim() || !token.trim()}>
+            {isLoading ? '查询中...' : '查询'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {game && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">{game.title}</CardTitle>
+              {getStatusBadge(game.status)}
+            </div>
+            <CardDescription>
+              提交于 {game.createdAt ? new Date(game.createdAt).toLocaleString('zh-CN') : '-'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {game.status === 'rejected' && game.rejectionReason && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+                <p className="text-sm font-medium text-red-800">拒绝原因</p>
+                <p className="mt-1 text-sm text-red-700">{game.rejectionReason}</p>
+              </div>
+            )}
+
+            {game.status === 'unpublished' && (
+              <div className="rounded-lg border border-orange-200 bg-orange-50 p-3">
+                <p className="text-sm font-medium text-orange-800">游戏已被下架</p>
+                {game.unpublishReason && (
+                  <p className="mt-1 text-sm text-orange-700">{game.unpublishReason}</p>
+                )}
+              </div>
+            )}
+
+            {reviewLogs.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">审核记录</p>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {reviewLogs.map((log) => (
+                    <li key={log.id}>
+                      {log.createdAt ? new Date(log.createdAt).toLocaleString('zh-CN') : '-'}
+                      {' · '}
+                      {getActionLabel(log.action)}
+                      {log.reason && `：${log.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {canEdit && (
+                <Button variant="outline" size="sm" onClick={() => setShowEditForm(!showEditForm)}>
+                  {game.status === 'rejected' ? '修改并重新提交' : '修改游戏'}
+                </Button>
+              )}
+              {game.status === 'rejected' && (
+                <Button variant="outline" size="sm" onClick={() => setShowAppealForm(!showAppealForm)}>
+                  申诉
+                </Button>
+              )}
+              {game.status === 'pending' && (
+                <Button variant="outline" size="sm" onClick={handleWithdraw} disabled={isLoading}>
+                  撤回提交
+                </Button>
+              )}
+            </div>
+
+            {game.status === 'rejected' && showAppealForm && (
+              <AppealForm gameId={game.id} onSubmit={handleAppeal} onCancel={() => setShowAppealForm(false)} />
+            )}
+
+            {canEdit && showEditForm && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-title">游戏标题</Label>
+                  <Input
+                    id="edit-title"
+                    value={editData.title}
+                    onChange={(e) => setEditData({ ...editData, title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-description">游戏描述</Label>
+                  <Textarea
+                    id="edit-description"
+                    value={editData.description}
+                    onChange={(e) => setEditData({ ...editData, description: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-author">作者名称</Label>
+                  <Input
+                    id="edit-author"
+                    value={editData.authorName}
+                    onChange={(e) => setEditData({ ...editData, authorName: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-html">
+                    HTML代码（留空则保持不变{game.status === 'rejected' && '；修改后重新提交审核'}）
+                  </Label>
+                  <Textarea
+                    id="edit-html"
+                    value={editData.htmlContent}
+                    onChange={(e) => setEditData({ ...editData, htmlContent: e.target.value })}
+                    rows={8}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <Button size="sm" onClick={handleEdit} disabled={isLoading || !editData.title.trim()}>
+                  保存修改
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
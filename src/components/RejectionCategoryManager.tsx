@@ -0,0 +1,243 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { RejectionCategory } from '@/lib/schema';
+
+interface CategoryForm {
+  code: string;
+  label: string;
+  template: string;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: CategoryForm = {
+  code: '',
+  label: '',
+  template: '',
+  sortOrder: '0',
+};
+
+export default function RejectionCategoryManager() {
+  const [categories, setCategories] = useState<RejectionCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // 正在编辑的分类代码，为null时表单用于新建分类
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/review/categories?all=true');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || '获取拒绝原因分类失败');
+      }
+
+      setCategories(result.data.categories);
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const resetForm = () => {
+    setEditingCode(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const startEditing = (category: RejectionCategory) => {
+    setEditingCode(category.code);
+    setForm({
+      code: category.code,
+      label: category.label,
+      template: category.template,
+      sortOrder: String(category.sortOrder ?? 0),
+    });
+  };
+
+  const saveCategory = async (url: string, method: 'POST' | 'PATCH', body: Record<string, unknown>) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || '保存失败');
+      }
+
+      toast({
+        title: '保存成功',
+        description: result.message,
+      });
+      await fetchCategories();
+      return true;
+    } catch (error) {
+      toast({
+        title: '保存失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const body = {
+      label: form.label.trim(),
+      template: form.template.trim(),
+      sortOrder: parseInt(form.sortOrder, 10) || 0,
+    };
+
+    const saved = editingCode
+      ? await saveCategory(`/api/admin/review/categories/${editingCode}`, 'PATCH', body)
+      : await saveCategory('/api/admin/review/categories', 'POST', { ...body, code: form.code.trim() });
+
+    if (saved) {
+      resetForm();
+    }
+  };
+
+  const toggleActive = (category: RejectionCategory) =>
+    saveCategory(`/api/admin/review/categories/${category.code}`, 'PATCH', { isActive: !category.isActive });
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">加载中...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>拒绝原因分类</CardTitle>
+              <CardDescription>拒绝游戏时选择分类，提交者会看到分类模板和审核员的补充说明</CardDescription>
+            </div>
+            <Link href="/admin/review">
+              <Button variant="outline" size="sm">返回审核</Button>
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">还没有拒绝原因分类</p>
+          ) : (
+            categories.map((category) => (
+              <div key={category.code} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{category.label}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{category.code}</span>
+                    {!category.isActive && <Badge variant="outline">已停用</Badge>}
+                  </div>
+                  <p className="whitespace-pre-wrap text-sm text-muted-foreground">{category.template}</p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(category)} disabled={isSaving}>
+                    编辑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => toggleActive(category)} disabled={isSaving}>
+                    {category.isActive ? '停用' : '启用'}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{editingCode ? `编辑分类 ${editingCode}` : '新建分类'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-code">分类代码</Label>
+              <Input
+                id="category-code"
+                placeholder="例如 missing_assets"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                disabled={!!editingCode}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-label">分类名称</Label>
+              <Input
+                id="category-label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-sort-order">排序</Label>
+              <Input
+                id="category-sort-order"
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-template">模板内容</Label>
+            <Textarea
+              id="category-template"
+              placeholder="提交者看到的拒绝原因..."
+              value={form.template}
+              onChange={(e) => setForm({ ...form, template: e.target.value })}
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={isSaving || !form.label.trim() || !form.template.trim() || (!editingCode && !form.code.trim())}
+            >
+              {isSaving ? '保存中...' : editingCode ? '保存修改' : '创建分类'}
+            </Button>
+            {editingCode && (
+              <Button variant="outline" onClick={resetForm}>
+                取消编辑
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
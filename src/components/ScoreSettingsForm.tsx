@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ScoreSettings } from '@/lib/scores';
+
+interface ScoreSettingsFormProps {
+  gameId: string;
+  onSubmit: (settings: ScoreSettings) => Promise<void>;
+  onCancel: () => void;
+}
+
+// 空字符串表示不限制
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// 设置游戏排行榜的排序方向、合理分数范围和提交频率限制
+export function ScoreSettingsForm({ gameId, onSubmit, onCancel }: ScoreSettingsFormProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortOrder, setSortOrder] = useState<ScoreSettings['sortOrder']>('desc');
+  const [minScore, setMinScore] = useState('');
+  const [maxScore, setMaxScore] = useState('');
+  const [unit, setUnit] = useState('');
+  const [rateLimitCount, setRateLimitCount] = useState('');
+  const [rateLimitWindowSeconds, setRateLimitWindowSeconds] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 读取当前设置
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/scores?limit=1`);
+        const result = await response.json();
+        if (!result.success) return;
+
+        const settings: ScoreSettings = result.data.settings;
+        setSortOrder(settings.sortOrder);
+        setMinScore(settings.minScore === null ? '' : String(settings.minScore));
+        setMaxScore(settings.maxScore === null ? '' : String(settings.maxScore));
+        setUnit(settings.unit || '');
+        setRateLimitCount(String(settings.rateLimitCount));
+        setRateLimitWindowSeconds(String(settings.rateLimitWindowSeconds));
+      } catch (error) {
+        console.error('获取排行榜设置失败:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchSettings();
+  }, [gameId]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        sortOrder,
+        minScore: toOptionalNumber(minScore),
+        maxScore: toOptionalNumber(maxScore),
+        unit: unit.trim() || null,
+        rateLimitCount: Number(rateLimitCount),
+        rateLimitWindowSeconds: Number(rateLimitWindowSeconds),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="border-t pt-4 text-sm text-muted-foreground">加载中...</div>;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>排序方向</Label>
+          <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as ScoreSettings['sortOrder'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">分数越高越好</SelectItem>
+              <SelectItem value="asc">分数越低越好（如用时）</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`score-unit-${gameId}`}>分数单位（可选）</Label>
+          <Input
+            id={`score-unit-${gameId}`}
+            placeholder="如：分、秒"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            maxLength={20}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`score-min-${gameId}`}>最低分（留空不限）</Label>
+          <Input
+            id={`score-min-${gameId}`}
+            type="number"
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`score-max-${gameId}`}>最高分（留空不限）</Label>
+          <Input
+            id={`score-max-${gameId}`}
+            type="number"
+            value={maxScore}
+            onChange={(e) => setMaxScore(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`score-rate-count-${gameId}`}>每位玩家最多提交次数</Label>
+          <Input
+            id={`score-rate-count-${gameId}`}
+            type="number"
+            min={1}
+            value={rateLimitCount}
+            onChange={(e) => setRateLimitCount(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`score-rate-window-${gameId}`}>限流时间窗口（秒）</Label>
+          <Input
+            id={`score-rate-window-${gameId}`}
+            type="number"
+            min={10}
+            value={rateLimitWindowSeconds}
+            onChange={(e) => setRateLimitWindowSeconds(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting ? '保存中...' : '保存设置'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { SecurityFinding } from '@/lib/security';
+
+interface SecurityFindingListProps {
+  findings: SecurityFinding[];
+  // 被检查的HTML内容，用于展示问题所在行的上下文
+  content: string;
+}
+
+// 问题所在行前后各展示的行数
+const CONTEXT_LINES = 1;
+// 单行最多展示的字符数，压缩后的代码只截取问题位置附近的内容
+const MAX_LINE_LENGTH = 120;
+
+interface ExcerptLine {
+  number: number;
+  text: string;
+  highlighted: boolean;
+}
+
+function getExcerpt(lines: string[], finding: SecurityFinding): ExcerptLine[] {
+  if (finding.line === null || !lines[finding.line - 1]) {
+    return [];
+  }
+
+  const start = Math.max(1, finding.line - CONTEXT_LINES);
+  const end = Math.min(lines.length, finding.line + CONTEXT_LINES);
+  const offset = Math.max(0, (finding.column ?? 1) - 1 - MAX_LINE_LENGTH / 2);
+
+  const excerpt: ExcerptLine[] = [];
+  for (let number = start; number <= end; number++) {
+    const line = lines[number - 1];
+    excerpt.push({
+      number,
+      text: line.length > MAX_LINE_LENGTH ? line.slice(offset, offset + MAX_LINE_LENGTH) : line,
+      highlighted: number === finding.line,
+    });
+  }
+  return excerpt;
+}
+
+export default function SecurityFindingList({ findings, content }: SecurityFindingListProps) {
+  if (findings.length === 0) {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  const errors = findings.filter((finding) => finding.severity === 'error');
+  const warnings = findings.filter((finding) => finding.severity === 'warning');
+
+  const renderFinding = (finding: SecurityFinding, index: number) => {
+    const excerpt = getExcerpt(lines, finding);
+    const isError = finding.severity === 'error';
+
+    return (
+      <li key={`${finding.ruleId}-${finding.line}-${finding.column}-${index}`} className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant={isError ? 'destructive' : 'secondary'}>{finding.code}</Badge>
+          <span className={isError ? 'text-red-700' : 'text-yellow-800'}>{finding.message}</span>
+          {finding.line !== null && (
+            <span className="text-xs text-muted-foreground">
+              第{finding.line}行第{finding.column}列
+            </span>
+          )}
+        </div>
+        {excerpt.length > 0 ? (
+          <pre className="overflow-x-auto rounded border bg-white text-xs">
+            {excerpt.map((line) => (
+              <div
+                key={line.number}
+                className={`flex ${line.highlighted ? (isError ? 'bg-red-50' : 'bg-yellow-50') : ''}`}
+              >
+                <span className="w-10 shrink-0 select-none pr-2 text-right text-gray-400">{line.number}</span>
+                <span className="whitespace-pre">{line.text}</span>
+              </div>
+            ))}
+          </pre>
+        ) : (
+          finding.snippet && (
+            <pre className="overflow-x-auto rounded border bg-white p-1 text-xs">{finding.snippet}</pre>
+          )
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {errors.length > 0 && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <h4 className="text-sm font-medium text-red-800 mb-2">安全问题（{errors.length}）</h4>
+          <ul className="space-y-3">{errors.map(renderFinding)}</ul>
+          <p className="text-xs text-red-600 mt-2">请修复以上问题后再提交。</p>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+          <h4 className="text-sm font-medium text-yellow-800 mb-2">安全提醒（{warnings.length}）</h4>
+          <ul className="space-y-3">{warnings.map(renderFinding)}</ul>
+          <p className="text-xs text-yellow-600 mt-2">
+            这些警告不会阻止提交，但建议您检查代码以确保安全性。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
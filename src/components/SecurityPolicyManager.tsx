@@ -0,0 +1,325 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { SecurityPolicy } from '@/lib/schema';
+import type { SecurityRescanSummary } from '@/lib/security-rescan';
+
+// 将策略配置格式化为编辑器中的JSON文本
+const formatConfig = (policy: SecurityPolicy) => JSON.stringify(policy.config, null, 2);
+
+export default function SecurityPolicyManager() {
+  const [policies, setPolicies] = useState<SecurityPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // 编辑器内容基于的版本，保存时生成新版本
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [configText, setConfigText] = useState('');
+  const [note, setNote] = useState('');
+  const [isRescanning, setIsRescanning] = useState(false);
+  const [rescanSummary, setRescanSummary] = useState<SecurityRescanSummary | null>(null);
+  const { toast } = useToast();
+
+  const loadIntoEditor = useCallback((policy: SecurityPolicy) => {
+    setBaseVersion(policy.version);
+    setConfigText(formatConfig(policy));
+    setNote('');
+  }, []);
+
+  const fetchPolicies = useCallback(async (resetEditor: boolean = false) => {
+    try {
+      const response = await fetch('/api/admin/security-policies');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || result.message || '获取安全策略失败');
+      }
+
+      const loadedPolicies: SecurityPolicy[] = result.data.policies;
+      setPolicies(loadedPolicies);
+
+      const activePolicy = loadedPolicies.find((policy) => policy.isActive) ?? loadedPolicies[0];
+      if (resetEditor && activePolicy) {
+        loadIntoEditor(activePolicy);
+      }
+    } catch (error) {
+      toast({
+        title: '加载失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [loadIntoEditor, toast]);
+
+  useEffect(() => {
+    fetchPolicies(true);
+  }, [fetchPolicies]);
+
+  const sendRequest = async (url: string, body?: Record<string, unknown>) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        const detail = result.details?.[0];
+        throw new Error(
+          detail ? `${detail.path?.join('.') || ''} ${detail.message}`.trim() : result.error || result.message || '操作失败'
+        );
+      }
+
+      toast({
+        title: '操作成功',
+        description: result.message,
+      });
+      return result.data.policy as SecurityPolicy;
+    } catch (error) {
+      toast({
+        title: '操作失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savePolicy = async (activate: boolean) => {
+    let config: unknown;
+    try {
+      config = JSON.parse(configText);
+    } catch {
+      toast({
+        title: '配置格式错误',
+        description: '策略配置必须是有效的JSON',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const policy = await sendRequest('/api/admin/security-policies', {
+      config,
+      note: note.trim() || undefined,
+      activate,
+    });
+    if (policy) {
+      loadIntoEditor(policy);
+      await fetchPolicies();
+    }
+  };
+
+  const activatePolicy = async (policy: SecurityPolicy) => {
+    if (await sendRequest(`/api/admin/security-policies/${policy.version}/activate`)) {
+      await fetchPolicies();
+    }
+  };
+
+  // 先试运行查看汇总，确认后再保存结果或撤回被标记的游戏
+  const runRescan = async (dryRun: boolean, requeue: boolean = false) => {
+    if (requeue && !confirm('确定要将不符合安全策略的已发布游戏撤回待审核队列吗？撤回后游戏将不再公开展示。')) {
+      return;
+    }
+
+    setIsRescanning(true);
+    try {
+      const response = await fetch('/api/admin/security-rescan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dryRun, requeue }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || result.message || '安全复查失败');
+      }
+
+      setRescanSummary(result.data.summary);
+      toast({
+        title: dryRun ? '试运行完成' : '复查完成',
+        description: result.message,
+      });
+    } catch (error) {
+      toast({
+        title: '安全复查失败',
+        description: error instanceof Error ? error.message : '未知错误',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRescanning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">加载中...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>安全策略</CardTitle>
+              <CardDescription>提交和修改游戏时按当前生效的策略检查HTML内容，每次修改都会保存为新版本</CardDescription>
+            </div>
+            <Link href="/admin">
+              <Button variant="outline" size="sm">返回管理后台</Button>
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {policies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">还没有安全策略，当前使用内置默认配置</p>
+          ) : (
+            policies.map((policy) => (
+              <div key={policy.version} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{policy.version}</span>
+                    {policy.isActive && <Badge>生效中</Badge>}
+                    {baseVersion === policy.version && <Badge variant="outline">编辑中</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {policy.createdBy} 创建于 {policy.createdAt ? new Date(policy.createdAt).toLocaleString() : '-'}
+                  </p>
+                  {policy.note && <p className="whitespace-pre-wrap text-sm text-muted-foreground">{policy.note}</p>}
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => loadIntoEditor(policy)} disabled={isSaving}>
+                    载入编辑
+                  </Button>
+                  {!policy.isActive && (
+                    <Button variant="outline" size="sm" onClick={() => activatePolicy(policy)} disabled={isSaving}>
+                      启用
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {baseVersion ? `基于 v${baseVersion} 创建新版本` : '创建新版本'}
+          </CardTitle>
+          <CardDescription>
+            禁用模式为正则表达式源码，按不区分大小写匹配；已提交的游戏记录了检查时使用的策略版本
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="policy-config">策略配置（JSON）</Label>
+            <Textarea
+              id="policy-config"
+              className="font-mono text-xs"
+              value={configText}
+              onChange={(e) => setConfigText(e.target.value)}
+              rows={24}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-note">修改说明</Label>
+            <Input
+              id="policy-note"
+              placeholder="例如 允许使用iframe标签"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => savePolicy(true)} disabled={isSaving || !configText.trim()}>
+              {isSaving ? '保存中...' : '保存并启用'}
+            </Button>
+            <Button variant="outline" onClick={() => savePolicy(false)} disabled={isSaving || !configText.trim()}>
+              仅保存
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">安全复查</CardTitle>
+          <CardDescription>
+            按当前生效的策略重新检查所有游戏，标记不再符合策略的已发布游戏；请先试运行查看结果
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rescanSummary && (
+            <div className="space-y-3 rounded-lg border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                {rescanSummary.dryRun && <Badge variant="outline">试运行</Badge>}
+                <span>
+                  策略 {rescanSummary.policyVersion ? `v${rescanSummary.policyVersion}` : '内置默认配置'}：检查{' '}
+                  {rescanSummary.scanned} 个，通过 {rescanSummary.passed} 个，仅有警告 {rescanSummary.withWarnings}{' '}
+                  个，不符合策略 {rescanSummary.violating} 个
+                  {!rescanSummary.dryRun && `，撤回待审核 ${rescanSummary.requeued} 个`}
+                </span>
+              </div>
+              {rescanSummary.flagged.length > 0 ? (
+                <ul className="space-y-1">
+                  {rescanSummary.flagged.map((game) => (
+                    <li key={game.gameId} className="flex flex-wrap items-center gap-2">
+                      <Link href={`/admin/games/${game.gameId}`} className="font-medium hover:underline">
+                        {game.title}
+                      </Link>
+                      <span className="font-mono text-xs text-muted-foreground">{game.ruleIds.join(', ')}</span>
+                      {game.requeued && <Badge variant="secondary">已撤回待审核</Badge>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-muted-foreground">没有不符合策略的已发布游戏</p>
+              )}
+              {rescanSummary.errors.length > 0 && (
+                <p className="text-red-600">{rescanSummary.errors.length} 个游戏处理失败</p>
+              )}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => runRescan(true)} disabled={isRescanning}>
+              {isRescanning ? '复查中...' : '试运行'}
+            </Button>
+            <Button onClick={() => runRescan(false)} disabled={isRescanning || !rescanSummary}>
+              保存复查结果
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => runRescan(false, true)}
+              disabled={isRescanning || !rescanSummary || rescanSummary.flagged.length === 0}
+            >
+              保存并撤回被标记的游戏
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RejectionCategory } from '@/lib/schema';
+
+// 获取拒绝原因分类，供审核时选择；includeInactive为true时包含已停用的分类（用于显示历史统计）
+export function useRejectionCategories(includeInactive: boolean = false) {
+  const [categories, setCategories] = useState<RejectionCategory[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/admin/review/categories${includeInactive ? '?all=true' : ''}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (!cancelled && result.success) {
+          setCategories(result.data.categories);
+        }
+      })
+      .catch(() => {
+        // 加载失败时分类列表为空，拒绝操作会被禁用
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [includeInactive]);
+
+  return categories;
+}
@@ -0,0 +1,53 @@
+/**
+ * API令牌工具
+ * 令牌只在创建时返回一次明文，数据库中仅保存SHA-256哈希
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+// 令牌前缀，用于区分API令牌和会话令牌
+export const API_TOKEN_PREFIX = 'mgs_';
+
+// 列表中展示的令牌前缀长度（含API_TOKEN_PREFIX）
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * 判断字符串是否为API令牌格式
+ */
+export function isApiToken(token: string | null | undefined): token is string {
+  return typeof token === 'string' && token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * 计算令牌哈希
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 生成新的API令牌
+ * @returns 明文令牌、用于展示的前缀和用于存储的哈希
+ */
+export function generateApiToken(): { token: string; prefix: string; hash: string } {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+  return {
+    token,
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiToken(token),
+  };
+}
+
+/**
+ * 检查令牌是否仍然可用（未吊销且未过期）
+ */
+export function isApiTokenActive(
+  token: { revokedAt: Date | null; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (token.revokedAt) {
+    return false;
+  }
+  return !token.expiresAt || new Date(token.expiresAt).getTime() > now.getTime();
+}
@@ -1,28 +1,156 @@
 import { NextRequest } from 'next/server';
+import { AdminDAL, ApiTokenDAL, CreatorDAL } from './dal';
+import { ADMIN_SESSION_COOKIE, CREATOR_SESSION_COOKIE, verifySessionToken } from './session';
+import { hashApiToken, isApiToken, isApiTokenActive } from './api-tokens';
+import {
+  hasPermission,
+  hasScope,
+  type AdminRole,
+  type ApiTokenScope,
+  type Permission,
+} from './permissions';
+import type { Game } from './schema';
 
-// 管理员认证配置
-const ADMIN_SECRET = process.env.ADMIN_SECRET || 'admin-secret-key';
+// 已认证的管理员身份（管理员会话或API令牌）
+export interface AdminIdentity {
+  type: 'admin' | 'token';
+  id: string;
+  username: string; // API令牌为 token:<名称>，用于审核日志
+  displayName: string | null;
+  role: AdminRole | null; // API令牌没有角色，按scopes授权
+  scopes?: ApiTokenScope[];
+}
+
+// 已登录的创作者身份
+export interface CreatorIdentity {
+  id: string;
+  username: string;
+  displayName: string | null;
+}
 
-// 管理员认证中间件
-export function isAdminAuthenticated(request: NextRequest): boolean {
-  // 检查Authorization header
+// 游戏的编辑者（用于审核日志）
+export interface GameEditor {
+  reviewer: string;
+  reviewerRole: AdminRole | null;
+}
+
+// 读取Authorization header中的令牌
+function getBearerToken(request: NextRequest): string | null {
   const authHeader = request.headers.get('authorization');
   if (!authHeader) {
-    return false;
+    return null;
   }
 
   // 支持Bearer token格式
-  const token = authHeader.startsWith('Bearer ') 
-    ? authHeader.slice(7) 
+  return authHeader.startsWith('Bearer ')
+    ? authHeader.slice(7)
     : authHeader;
+}
+
+// 从请求中读取会话令牌（优先使用Cookie，其次为Authorization header）
+function getSessionToken(request: NextRequest): string | null {
+  const cookieToken = request.cookies?.get(ADMIN_SESSION_COOKIE)?.value;
+  if (cookieToken) {
+    return cookieToken;
+  }
 
-  return token === ADMIN_SECRET;
+  const bearerToken = getBearerToken(request);
+  return isApiToken(bearerToken) ? null : bearerToken;
 }
 
-// 管理员认证装饰器函数
-export function requireAdmin(handler: (request: NextRequest) => Promise<Response>) {
-  return async (request: NextRequest): Promise<Response> => {
-    if (!isAdminAuthenticated(request)) {
+// 解析当前请求对应的管理员，会话无效或账号已停用时返回null
+export async function getAdminSession(request: NextRequest): Promise<AdminIdentity | null> {
+  const session = await verifySessionToken(getSessionToken(request));
+  if (!session || session.kind !== 'admin') {
+    return null;
+  }
+
+  // 修改密码后会话版本递增，之前签发的会话不再有效
+  const admin = await AdminDAL.getById(session.sub);
+  if (!admin || !admin.isActive || (session.ver ?? 0) !== admin.sessionVersion) {
+    return null;
+  }
+
+  return {
+    type: 'admin',
+    id: admin.id,
+    username: admin.username,
+    displayName: admin.displayName,
+    role: admin.role,
+  };
+}
+
+// 解析Authorization header中的API令牌，令牌不存在、已吊销或已过期时返回null
+export async function getApiTokenIdentity(request: NextRequest): Promise<AdminIdentity | null> {
+  const bearerToken = getBearerToken(request);
+  if (!isApiToken(bearerToken)) {
+    return null;
+  }
+
+  const apiToken = await ApiTokenDAL.getByHash(hashApiToken(bearerToken));
+  if (!apiToken || !isApiTokenActive(apiToken)) {
+    return null;
+  }
+
+  // 记录令牌使用时间，失败不影响本次请求
+  await ApiTokenDAL.touchLastUsed(apiToken.id).catch((error) => {
+    console.error('更新API令牌使用时间失败:', error);
+  });
+
+  return {
+    type: 'token',
+    id: apiToken.id,
+    username: `token:${apiToken.name}`,
+    displayName: apiToken.name,
+    role: null,
+    scopes: apiToken.scopes,
+  };
+}
+
+// 解析当前请求的管理员身份（API令牌优先，其次为管理员会话）
+export async function resolveAdminIdentity(request: NextRequest): Promise<AdminIdentity | null> {
+  if (isApiToken(getBearerToken(request))) {
+    return getApiTokenIdentity(request);
+  }
+  return getAdminSession(request);
+}
+
+// 检查身份是否拥有指定权限
+export function identityHasPermission(identity: AdminIdentity, permission: Permission): boolean {
+  return identity.type === 'token'
+    ? hasScope(identity.scopes, permission)
+    : hasPermission(identity.role, permission);
+}
+
+// 管理员认证中间件（指定permission时同时校验权限）
+export async function isAdminAuthenticated(
+  request: NextRequest,
+  permission?: Permission
+): Promise<boolean> {
+  try {
+    const identity = await resolveAdminIdentity(request);
+    if (!identity) {
+      return false;
+    }
+    return permission ? identityHasPermission(identity, permission) : true;
+  } catch (error) {
+    console.error('管理员会话校验失败:', error);
+    return false;
+  }
+}
+
+// 管理员认证装饰器函数，同时校验当前角色或API令牌是否拥有所需权限
+export function requireAdmin<TContext = unknown>(
+  handler: (request: NextRequest, context: TContext) => Promise<Response>,
+  permission: Permission
+) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    const admin = await resolveAdminIdentity(request).catch((error) => {
+      console.error('管理员会话校验失败:', error);
+      return null;
+    });
+
+    if (!admin) {
       return new Response(
         JSON.stringify({
           error: 'Unauthorized',
@@ -37,28 +165,41 @@ export function requireAdmin(handler: (request: NextRequest) => Promise<Response
       );
     }
 
-    return handler(request);
+    if (!identityHasPermission(admin, permission)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Forbidden',
+          message: admin.type === 'token' ? 'API令牌的权限范围不包含此操作' : '当前角色没有执行此操作的权限',
+          permission,
+        }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    return handler(request, context);
   };
 }
 
 // 获取当前管理员身份（用于日志记录）
-export function getAdminIdentity(request: NextRequest): string {
-  // 在实际应用中，这里可以从JWT token中解析管理员信息
-  // 目前简化为使用固定的管理员身份
-  const authHeader = request.headers.get('authorization');
-  if (authHeader && isAdminAuthenticated(request)) {
-    return 'admin'; // 可以扩展为从token中解析具体的管理员ID
-  }
-  return 'unknown';
+export async function getAdminIdentity(request: NextRequest): Promise<string> {
+  const admin = await resolveAdminIdentity(request).catch(() => null);
+  return admin ? admin.username : 'unknown';
 }
 
 // 验证管理员权限的工具函数
-export function validateAdminAccess(request: NextRequest): {
+export async function validateAdminAccess(request: NextRequest): Promise<{
   isValid: boolean;
   adminId: string;
+  admin?: AdminIdentity;
   error?: string;
-} {
-  if (!isAdminAuthenticated(request)) {
+}> {
+  const admin = await resolveAdminIdentity(request).catch(() => null);
+  if (!admin) {
     return {
       isValid: false,
       adminId: '',
@@ -66,9 +207,75 @@ export function validateAdminAccess(request: NextRequest): {
     };
   }
 
-  const adminId = getAdminIdentity(request);
   return {
     isValid: true,
-    adminId,
+    adminId: admin.username,
+    admin,
   };
-}
\ No newline at end of file
+}
+
+// 解析当前请求对应的创作者，会话无效或账号不存在时返回null
+export async function getCreatorSession(request: NextRequest): Promise<CreatorIdentity | null> {
+  const session = await verifySessionToken(request.cookies?.get(CREATOR_SESSION_COOKIE)?.value);
+  if (!session || session.kind !== 'creator') {
+    return null;
+  }
+
+  const creator = await CreatorDAL.getById(session.sub);
+  if (!creator) {
+    return null;
+  }
+
+  return {
+    id: creator.id,
+    username: creator.username,
+    displayName: creator.displayName,
+  };
+}
+
+// 创作者认证装饰器函数，将当前创作者传给处理函数
+export function requireCreator<TContext = unknown>(
+  handler: (request: NextRequest, context: TContext, creator: CreatorIdentity) => Promise<Response>
+) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    const creator = await getCreatorSession(request).catch((error) => {
+      console.error('创作者会话校验失败:', error);
+      return null;
+    });
+
+    if (!creator) {
+      return new Response(
+        JSON.stringify({
+          error: 'Unauthorized',
+          message: '请先登录创作者账号',
+        }),
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    return handler(request, context, creator);
+  };
+}
+
+// 解析游戏的编辑者：拥有games:edit权限的管理员/API令牌或游戏所有者
+export async function resolveGameEditor(
+  request: NextRequest,
+  game: Pick<Game, 'ownerId'>
+): Promise<GameEditor | null> {
+  const admin = await resolveAdminIdentity(request).catch(() => null);
+  if (admin && identityHasPermission(admin, 'games:edit')) {
+    return { reviewer: admin.username, reviewerRole: admin.role };
+  }
+
+  const creator = await getCreatorSession(request).catch(() => null);
+  if (creator && game.ownerId === creator.id) {
+    return { reviewer: `creator:${creator.username}`, reviewerRole: null };
+  }
+
+  return null;
+}
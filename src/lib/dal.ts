@@ -1,16 +1,67 @@
-import { eq, desc, and, count, sql } from 'drizzle-orm';
+import { eq, ne, desc, asc, and, or, lt, gt, gte, isNull, notInArray, count, sql, max } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
 import { db } from './db';
 import { 
   games, 
   reviewLogs, 
+  gameVersions,
+  rejectionCategories,
+  securityPolicies,
+  gameSecurityScans,
+  gameScoreSettings,
+  scores,
+  gameSaves,
+  gameErrors,
+  rateLimitCounters,
+  submissionReceipts,
+  admins,
+  creators,
+  apiTokens,
   type Game, 
   type NewGame, 
   type ReviewLog, 
   type NewReviewLog,
+  type GameVersion,
+  type NewGameVersion,
+  type GameVersionListItem,
+  type PendingGameVersion,
+  type SubmissionReceipt,
+  type NewSubmissionReceipt,
+  type Admin,
+  type NewAdmin,
+  type AdminProfile,
+  type Creator,
+  type NewCreator,
+  type CreatorProfile,
+  type CreatorGameItem,
+  type ApiToken,
+  type NewApiToken,
+  type ApiTokenInfo,
   type GameWithMetadata,
   type GameListItem,
-  type ReviewLogWithGame
+  type ReviewedGameStatus,
+  type ReviewLogWithGame,
+  type ReviewStats,
+  type RejectionCategory,
+  type NewRejectionCategory,
+  type SecurityPolicy,
+  type NewGameSecurityScan,
+  type FlaggedGameSecurityScan,
+  type Score,
+  type NewScore,
+  type GameSave,
+  type GameError,
+  type GameErrorSummary,
 } from './schema';
+import {
+  DEFAULT_SECURITY_POLICY,
+  toSecurityConfig,
+  type ActiveSecurityPolicy,
+  type StoredSecurityConfig,
+} from './security-policy';
+import { DEFAULT_SCORE_SETTINGS, type LeaderboardEntry, type ScoreSettings } from './scores';
+import { MAX_ERROR_GROUPS_PER_GAME, type GameErrorReport } from './game-errors';
+import { exceedsGameStorageQuota } from './game-storage';
 import { PaginationInput, GameStatusFilterInput, SearchInput } from './validation';
 
 // 游戏相关的数据访问函数
@@ -72,6 +123,8 @@ export class GameDAL {
           status: games.status,
           createdAt: games.createdAt,
           approvedAt: games.approvedAt,
+          claimedBy: games.claimedBy,
+          claimExpiresAt: games.claimExpiresAt,
         })
         .from(games);
 
@@ -168,28 +221,83 @@ export class GameDAL {
     }
   }
 
+  // 仅在游戏仍为预期状态时更新（避免覆盖并发审核后的内容），状态已变化时返回null
+  static async updateIfStatus(
+    id: string,
+    expectedStatus: NonNullable<Game['status']>,
+    updateData: Partial<NewGame>
+  ): Promise<Game | null> {
+    try {
+      const result = await db
+        .update(games)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(and(eq(games.id, id), eq(games.status, expectedStatus)));
+      if (result.rowsAffected === 0) {
+        return null;
+      }
+      return await this.getById(id);
+    } catch (error) {
+      throw new Error(`Failed to update game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 构造将版本设为线上版本的更新字段（供applyVersion和ReviewService共用）
+  static buildVersionUpdate(version: GameVersion): Partial<Game> {
+    return {
+      title: version.title,
+      description: version.description,
+      htmlContent: version.htmlContent,
+      securityPolicyVersion: version.securityPolicyVersion,
+      currentVersionId: version.id,
+      updatedAt: new Date(),
+    };
+  }
+
+  // 构造审核状态变更的更新字段（供updateStatus和ReviewService共用）
+  static buildStatusUpdate(
+    status: ReviewedGameStatus,
+    approvedBy?: string,
+    reason?: string
+  ): Partial<Game> {
+    const updateData: Partial<Game> = {
+      status,
+      updatedAt: new Date(),
+    };
+
+    if (status === 'approved') {
+      updateData.approvedAt = new Date();
+      updateData.approvedBy = approvedBy;
+      updateData.rejectionReason = null; // Clear rejection reason if approved
+      updateData.appealMessage = null;
+      updateData.unpublishedAt = null;
+      updateData.unpublishReason = null;
+    } else if (status === 'rejected') {
+      updateData.rejectionReason = reason;
+      updateData.appealMessage = null; // 申诉已处理，再次被拒绝后可以重新申诉
+      updateData.approvedAt = null; // Clear approval data if rejected
+      updateData.approvedBy = null;
+    } else if (status === 'unpublished') {
+      // 下架保留原批准信息，便于追溯
+      updateData.unpublishedAt = new Date();
+      updateData.unpublishReason = reason;
+    }
+
+    // 审核完成后释放认领
+    updateData.claimedBy = null;
+    updateData.claimExpiresAt = null;
+
+    return updateData;
+  }
+
   // 更新游戏状态
   static async updateStatus(
     id: string, 
-    status: 'approved' | 'rejected', 
+    status: ReviewedGameStatus, 
     approvedBy?: string,
-    rejectionReason?: string
+    reason?: string
   ): Promise<Game | null> {
     try {
-      const updateData: Partial<Game> = {
-        status,
-        updatedAt: new Date(),
-      };
-
-      if (status === 'approved') {
-        updateData.approvedAt = new Date();
-        updateData.approvedBy = approvedBy;
-        updateData.rejectionReason = null; // Clear rejection reason if approved
-      } else if (status === 'rejected') {
-        updateData.rejectionReason = rejectionReason;
-        updateData.approvedAt = null; // Clear approval data if rejected
-        updateData.approvedBy = null;
-      }
+      const updateData = this.buildStatusUpdate(status, approvedBy, reason);
 
       await db.update(games).set(updateData).where(eq(games.id, id));
       return await this.getById(id);
@@ -198,6 +306,173 @@ export class GameDAL {
     }
   }
 
+  // 获取创作者提交的游戏（不包含HTML内容）
+  static async getByOwner(ownerId: string): Promise<CreatorGameItem[]> {
+    try {
+      return await db
+        .select({
+          id: games.id,
+          title: games.title,
+          description: games.description,
+          authorName: games.authorName,
+          status: games.status,
+          rejectionReason: games.rejectionReason,
+          appealMessage: games.appealMessage,
+          unpublishReason: games.unpublishReason,
+          createdAt: games.createdAt,
+          updatedAt: games.updatedAt,
+          approvedAt: games.approvedAt,
+        })
+        .from(games)
+        .where(eq(games.ownerId, ownerId))
+        .orderBy(desc(games.createdAt));
+    } catch (error) {
+      throw new Error(`Failed to get games by owner: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 撤回待审核的游戏（指定ownerId时仅限游戏所有者，且游戏仍处于待审核状态）
+  static async withdraw(id: string, ownerId?: string): Promise<Game | null> {
+    try {
+      const conditions = [eq(games.id, id), eq(games.status, 'pending')];
+      if (ownerId) {
+        conditions.push(eq(games.ownerId, ownerId));
+      }
+
+      await db
+        .update(games)
+        .set({ status: 'withdrawn', updatedAt: new Date() })
+        .where(and(...conditions));
+
+      const game = await this.getById(id);
+      return game && game.status === 'withdrawn' ? game : null;
+    } catch (error) {
+      throw new Error(`Failed to withdraw game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 对已拒绝的游戏提出申诉，游戏重新进入待审核状态（保留原拒绝原因供审核员对照）
+  static async appeal(id: string, message: string): Promise<Game | null> {
+    try {
+      await db
+        .update(games)
+        .set({ status: 'pending', appealMessage: message, updatedAt: new Date() })
+        .where(and(eq(games.id, id), eq(games.status, 'rejected')));
+
+      const game = await this.getById(id);
+      return game && game.status === 'pending' && game.appealMessage === message ? game : null;
+    } catch (error) {
+      throw new Error(`Failed to appeal game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 认领待审核的游戏：未被认领、认领已过期或由同一审核员续期时才会成功
+  static async claim(id: string, reviewer: string, expiresAt: Date): Promise<Game | null> {
+    try {
+      const now = new Date();
+      await db
+        .update(games)
+        .set({ claimedBy: reviewer, claimExpiresAt: expiresAt })
+        .where(
+          and(
+            eq(games.id, id),
+            eq(games.status, 'pending'),
+            or(isNull(games.claimedBy), lt(games.claimExpiresAt, now), eq(games.claimedBy, reviewer))
+          )
+        );
+
+      const game = await this.getById(id);
+      return game && game.claimedBy === reviewer ? game : null;
+    } catch (error) {
+      throw new Error(`Failed to claim game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 释放认领（只能释放自己的认领）
+  static async releaseClaim(id: string, reviewer: string): Promise<Game | null> {
+    try {
+      await db
+        .update(games)
+        .set({ claimedBy: null, claimExpiresAt: null })
+        .where(and(eq(games.id, id), eq(games.claimedBy, reviewer)));
+
+      const game = await this.getById(id);
+      return game && game.claimedBy === null ? game : null;
+    } catch (error) {
+      throw new Error(`Failed to release game claim: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 按ID顺序分批获取未删除的游戏（用于安全复查），afterId为上一批最后一个游戏的ID
+  static async getBatchForSecurityScan(
+    afterId: string | null,
+    limit: number = 50
+  ): Promise<Pick<Game, 'id' | 'title' | 'status' | 'htmlContent'>[]> {
+    try {
+      return await db
+        .select({
+          id: games.id,
+          title: games.title,
+          status: games.status,
+          htmlContent: games.htmlContent,
+        })
+        .from(games)
+        .where(and(ne(games.status, 'deleted'), afterId ? gt(games.id, afterId) : undefined))
+        .orderBy(asc(games.id))
+        .limit(limit);
+    } catch (error) {
+      throw new Error(`Failed to get games for security scan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取未被认领（或认领已过期）的待审核游戏，先提交的排在前面
+  static async getUnclaimedPending(limit: number = 5): Promise<Pick<Game, 'id' | 'title' | 'createdAt'>[]> {
+    try {
+      return await db
+        .select({
+          id: games.id,
+          title: games.title,
+          createdAt: games.createdAt,
+        })
+        .from(games)
+        .where(
+          and(
+            eq(games.status, 'pending'),
+            or(isNull(games.claimedBy), lt(games.claimExpiresAt, new Date()))
+          )
+        )
+        .orderBy(asc(games.createdAt))
+        .limit(limit);
+    } catch (error) {
+      throw new Error(`Failed to get unclaimed games: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 将指定版本的内容设为线上版本（用于版本审核通过和回滚）
+  static async applyVersion(id: string, version: GameVersion): Promise<Game | null> {
+    try {
+      await db.update(games).set(this.buildVersionUpdate(version)).where(eq(games.id, id));
+      return await this.getById(id);
+    } catch (error) {
+      throw new Error(`Failed to apply game version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 软删除游戏（保留数据和审核记录，游戏不再对外展示）
+  static async softDelete(id: string): Promise<Game | null> {
+    try {
+      await db
+        .update(games)
+        .set({ status: 'deleted', deletedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(games.id, id), ne(games.status, 'deleted')));
+
+      const game = await this.getById(id);
+      return game && game.status === 'deleted' ? game : null;
+    } catch (error) {
+      throw new Error(`Failed to soft delete game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // 删除游戏
   static async delete(id: string): Promise<boolean> {
     try {
@@ -209,7 +484,7 @@ export class GameDAL {
   }
 
   // 统计游戏数量
-  static async count(status?: 'pending' | 'approved' | 'rejected', search?: string): Promise<number> {
+  static async count(status?: GameStatusFilterInput['status'], search?: string): Promise<number> {
     try {
       let query = db.select({ count: count() }).from(games);
       
@@ -247,38 +522,6 @@ export class GameDAL {
     }
   }
 
-  // 批量更新游戏状态（用于管理员批量操作）
-  static async batchUpdateStatus(
-    ids: string[],
-    status: 'approved' | 'rejected',
-    approvedBy?: string,
-    rejectionReason?: string
-  ): Promise<number> {
-    try {
-      const updateData: Partial<Game> = {
-        status,
-        updatedAt: new Date(),
-      };
-
-      if (status === 'approved') {
-        updateData.approvedAt = new Date();
-        updateData.approvedBy = approvedBy;
-        updateData.rejectionReason = null;
-      } else if (status === 'rejected') {
-        updateData.rejectionReason = rejectionReason;
-        updateData.approvedAt = null;
-        updateData.approvedBy = null;
-      }
-
-      const results = await Promise.all(
-        ids.map(id => db.update(games).set(updateData).where(eq(games.id, id)))
-      );
-
-      return results.reduce((total, result) => total + result.affectedRows, 0);
-    } catch (error) {
-      throw new Error(`Failed to batch update games: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
 
 // 审核日志相关的数据访问函数
@@ -297,13 +540,17 @@ export class ReviewLogDAL {
     }
   }
 
-  // 获取游戏的审核日志
-  static async getByGameId(gameId: string): Promise<ReviewLog[]> {
+  // 获取游戏的审核日志，excludeClaims为true时不返回认领/释放记录（对提交者展示时使用）
+  static async getByGameId(gameId: string, excludeClaims: boolean = false): Promise<ReviewLog[]> {
     try {
+      const condition = excludeClaims
+        ? and(eq(reviewLogs.gameId, gameId), notInArray(reviewLogs.action, ['claim', 'release']))
+        : eq(reviewLogs.gameId, gameId);
+
       return await db
         .select()
         .from(reviewLogs)
-        .where(eq(reviewLogs.gameId, gameId))
+        .where(condition)
         .orderBy(desc(reviewLogs.createdAt));
     } catch (error) {
       throw new Error(`Failed to get review logs by game ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -319,7 +566,10 @@ export class ReviewLogDAL {
           gameId: reviewLogs.gameId,
           action: reviewLogs.action,
           reason: reviewLogs.reason,
+          category: reviewLogs.category,
           reviewer: reviewLogs.reviewer,
+          reviewerRole: reviewLogs.reviewerRole,
+          versionId: reviewLogs.versionId,
           createdAt: reviewLogs.createdAt,
           game: {
             id: games.id,
@@ -365,7 +615,10 @@ export class ReviewLogDAL {
           gameId: reviewLogs.gameId,
           action: reviewLogs.action,
           reason: reviewLogs.reason,
+          category: reviewLogs.category,
           reviewer: reviewLogs.reviewer,
+          reviewerRole: reviewLogs.reviewerRole,
+          versionId: reviewLogs.versionId,
           createdAt: reviewLogs.createdAt,
           game: {
             id: games.id,
@@ -403,15 +656,12 @@ export class ReviewLogDAL {
   }
 
   // 获取审核统计信息
-  static async getReviewStats(reviewer?: string): Promise<{
-    totalReviews: number;
-    approvals: number;
-    rejections: number;
-  }> {
+  static async getReviewStats(reviewer?: string): Promise<ReviewStats> {
     try {
       let query = db
         .select({
           action: reviewLogs.action,
+          category: reviewLogs.category,
           count: count(),
         })
         .from(reviewLogs);
@@ -420,25 +670,32 @@ export class ReviewLogDAL {
         query = query.where(eq(reviewLogs.reviewer, reviewer));
       }
 
-      const results = await query.groupBy(reviewLogs.action);
+      const results = await query.groupBy(reviewLogs.action, reviewLogs.category);
 
-      const stats = {
+      const stats: ReviewStats = {
         totalReviews: 0,
         approvals: 0,
         rejections: 0,
+        rejectionsByCategory: [],
       };
 
+      // 撤回和回滚不属于审核操作，不计入统计
       results.forEach((result) => {
         const reviewCount = Number(result.count);
-        stats.totalReviews += reviewCount;
         
         if (result.action === 'approve') {
-          stats.approvals = reviewCount;
+          stats.approvals += reviewCount;
+          stats.totalReviews += reviewCount;
         } else if (result.action === 'reject') {
-          stats.rejections = reviewCount;
+          stats.rejections += reviewCount;
+          stats.totalReviews += reviewCount;
+          // 未分类的拒绝（例如引入分类之前的记录）归为null
+          stats.rejectionsByCategory.push({ category: result.category ?? null, count: reviewCount });
         }
       });
 
+      stats.rejectionsByCategory.sort((a, b) => b.count - a.count);
+
       return stats;
     } catch (error) {
       throw new Error(`Failed to get review stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -474,4 +731,931 @@ export class ReviewLogDAL {
       throw new Error(`Failed to count review logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+}
+
+// 游戏版本相关的数据访问函数
+export class GameVersionDAL {
+  // 列表查询时排除HTML内容的字段集合
+  private static readonly listColumns = {
+    id: gameVersions.id,
+    gameId: gameVersions.gameId,
+    versionNumber: gameVersions.versionNumber,
+    title: gameVersions.title,
+    description: gameVersions.description,
+    changelog: gameVersions.changelog,
+    status: gameVersions.status,
+    rejectionReason: gameVersions.rejectionReason,
+    submittedBy: gameVersions.submittedBy,
+    reviewedBy: gameVersions.reviewedBy,
+    reviewedAt: gameVersions.reviewedAt,
+    securityPolicyVersion: gameVersions.securityPolicyVersion,
+    createdAt: gameVersions.createdAt,
+  };
+
+  // 创建版本
+  static async create(versionData: NewGameVersion): Promise<GameVersion> {
+    try {
+      await db.insert(gameVersions).values(versionData);
+      const version = await this.getById(versionData.id!);
+      if (!version) {
+        throw new Error('Failed to create game version');
+      }
+      return version;
+    } catch (error) {
+      throw new Error(`Failed to create game version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据ID获取版本（含HTML内容）
+  static async getById(id: string): Promise<GameVersion | null> {
+    try {
+      const [version] = await db.select().from(gameVersions).where(eq(gameVersions.id, id));
+      return version || null;
+    } catch (error) {
+      throw new Error(`Failed to get game version by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取游戏的所有版本（不含HTML内容，按版本号倒序）
+  static async getByGameId(gameId: string): Promise<GameVersionListItem[]> {
+    try {
+      return await db
+        .select(this.listColumns)
+        .from(gameVersions)
+        .where(eq(gameVersions.gameId, gameId))
+        .orderBy(desc(gameVersions.versionNumber));
+    } catch (error) {
+      throw new Error(`Failed to get game versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取游戏当前最大的版本号，没有版本时返回0
+  static async getLatestVersionNumber(gameId: string): Promise<number> {
+    try {
+      const [result] = await db
+        .select({ latest: max(gameVersions.versionNumber) })
+        .from(gameVersions)
+        .where(eq(gameVersions.gameId, gameId));
+      return Number(result?.latest ?? 0);
+    } catch (error) {
+      throw new Error(`Failed to get latest version number: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取游戏待审核的版本
+  static async getPendingByGameId(gameId: string): Promise<GameVersionListItem | null> {
+    try {
+      const [version] = await db
+        .select(this.listColumns)
+        .from(gameVersions)
+        .where(and(eq(gameVersions.gameId, gameId), eq(gameVersions.status, 'pending')));
+      return version || null;
+    } catch (error) {
+      throw new Error(`Failed to get pending game version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 修改待审核版本的标题和简介，版本已被审核时返回false
+  static async updatePendingMetadata(
+    id: string,
+    metadata: Pick<Partial<NewGameVersion>, 'title' | 'description'>
+  ): Promise<boolean> {
+    try {
+      const result = await db
+        .update(gameVersions)
+        .set(metadata)
+        .where(and(eq(gameVersions.id, id), eq(gameVersions.status, 'pending')));
+      return result.rowsAffected > 0;
+    } catch (error) {
+      throw new Error(`Failed to update pending game version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取所有待审核的版本（带游戏信息）
+  static async getPending(limit: number = 50, offset: number = 0): Promise<PendingGameVersion[]> {
+    try {
+      return await db
+        .select({
+          ...this.listColumns,
+          game: {
+            id: games.id,
+            title: games.title,
+            authorName: games.authorName,
+            currentVersionId: games.currentVersionId,
+          },
+        })
+        .from(gameVersions)
+        .innerJoin(games, eq(gameVersions.gameId, games.id))
+        .where(eq(gameVersions.status, 'pending'))
+        .orderBy(gameVersions.createdAt)
+        .limit(limit)
+        .offset(offset);
+    } catch (error) {
+      throw new Error(`Failed to get pending game versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 为尚无版本记录的游戏创建基线版本（以当前线上内容作为已批准的版本1）
+  static async ensureBaseline(game: Game): Promise<GameVersion> {
+    try {
+      if (game.currentVersionId) {
+        const current = await this.getById(game.currentVersionId);
+        if (current) {
+          return current;
+        }
+      }
+
+      const baseline = await this.create({
+        id: uuidv4(),
+        gameId: game.id,
+        versionNumber: (await this.getLatestVersionNumber(game.id)) + 1,
+        title: game.title,
+        description: game.description,
+        htmlContent: game.htmlContent,
+        securityPolicyVersion: game.securityPolicyVersion,
+        status: 'approved',
+        submittedBy: game.submittedBy,
+        reviewedBy: game.approvedBy,
+        reviewedAt: game.approvedAt,
+      });
+
+      await db.update(games).set({ currentVersionId: baseline.id }).where(eq(games.id, game.id));
+      return baseline;
+    } catch (error) {
+      throw new Error(`Failed to create baseline version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 匿名提交回执相关的数据访问函数
+export class SubmissionReceiptDAL {
+  // 创建回执
+  static async create(receiptData: NewSubmissionReceipt): Promise<SubmissionReceipt> {
+    try {
+      await db.insert(submissionReceipts).values(receiptData);
+      const receipt = await this.getByGameId(receiptData.gameId);
+      if (!receipt) {
+        throw new Error('Failed to create submission receipt');
+      }
+      return receipt;
+    } catch (error) {
+      throw new Error(`Failed to create submission receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据游戏ID获取回执
+  static async getByGameId(gameId: string): Promise<SubmissionReceipt | null> {
+    try {
+      const [receipt] = await db
+        .select()
+        .from(submissionReceipts)
+        .where(eq(submissionReceipts.gameId, gameId));
+      return receipt || null;
+    } catch (error) {
+      throw new Error(`Failed to get submission receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 记录最近使用时间
+  static async touchLastUsed(gameId: string): Promise<void> {
+    try {
+      await db
+        .update(submissionReceipts)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(submissionReceipts.gameId, gameId));
+    } catch (error) {
+      throw new Error(`Failed to update submission receipt last used: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 管理员账号相关的数据访问函数
+export class AdminDAL {
+  // 查询时排除密码哈希的字段集合
+  private static readonly profileColumns = {
+    id: admins.id,
+    username: admins.username,
+    displayName: admins.displayName,
+    role: admins.role,
+    isActive: admins.isActive,
+    sessionVersion: admins.sessionVersion,
+    lastLoginAt: admins.lastLoginAt,
+    createdAt: admins.createdAt,
+    updatedAt: admins.updatedAt,
+  };
+
+  // 创建管理员
+  static async create(adminData: NewAdmin): Promise<AdminProfile> {
+    try {
+      await db.insert(admins).values(adminData);
+      const admin = await this.getById(adminData.id!);
+      if (!admin) {
+        throw new Error('Failed to create admin');
+      }
+      return admin;
+    } catch (error) {
+      throw new Error(`Failed to create admin: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据ID获取管理员（不含密码哈希）
+  static async getById(id: string): Promise<AdminProfile | null> {
+    try {
+      const [admin] = await db.select(this.profileColumns).from(admins).where(eq(admins.id, id));
+      return admin || null;
+    } catch (error) {
+      throw new Error(`Failed to get admin by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据用户名获取管理员（含密码哈希，仅用于登录校验）
+  static async getByUsernameWithPassword(username: string): Promise<Admin | null> {
+    try {
+      const [admin] = await db.select().from(admins).where(eq(admins.username, username));
+      return admin || null;
+    } catch (error) {
+      throw new Error(`Failed to get admin by username: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取所有管理员
+  static async getAll(): Promise<AdminProfile[]> {
+    try {
+      return await db.select(this.profileColumns).from(admins).orderBy(desc(admins.createdAt));
+    } catch (error) {
+      throw new Error(`Failed to get all admins: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 记录最近登录时间
+  static async updateLastLogin(id: string): Promise<void> {
+    try {
+      await db.update(admins).set({ lastLoginAt: new Date() }).where(eq(admins.id, id));
+    } catch (error) {
+      throw new Error(`Failed to update admin last login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 更新管理员信息（角色、显示名称、启用状态等），修改密码时递增会话版本使已登录的会话失效
+  static async update(
+    id: string,
+    updateData: Partial<Pick<NewAdmin, 'displayName' | 'role' | 'isActive' | 'passwordHash'>>
+  ): Promise<AdminProfile | null> {
+    try {
+      await db
+        .update(admins)
+        .set({
+          ...updateData,
+          ...(updateData.passwordHash && { sessionVersion: sql`${admins.sessionVersion} + 1` }),
+          updatedAt: new Date(),
+        })
+        .where(eq(admins.id, id));
+      return await this.getById(id);
+    } catch (error) {
+      throw new Error(`Failed to update admin: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 创作者账号相关的数据访问函数
+export class CreatorDAL {
+  // 查询时排除密码哈希的字段集合
+  private static readonly profileColumns = {
+    id: creators.id,
+    username: creators.username,
+    displayName: creators.displayName,
+    lastLoginAt: creators.lastLoginAt,
+    createdAt: creators.createdAt,
+    updatedAt: creators.updatedAt,
+  };
+
+  // 创建创作者
+  static async create(creatorData: NewCreator): Promise<CreatorProfile> {
+    try {
+      await db.insert(creators).values(creatorData);
+      const creator = await this.getById(creatorData.id!);
+      if (!creator) {
+        throw new Error('Failed to create creator');
+      }
+      return creator;
+    } catch (error) {
+      throw new Error(`Failed to create creator: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据ID获取创作者（不含密码哈希）
+  static async getById(id: string): Promise<CreatorProfile | null> {
+    try {
+      const [creator] = await db.select(this.profileColumns).from(creators).where(eq(creators.id, id));
+      return creator || null;
+    } catch (error) {
+      throw new Error(`Failed to get creator by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据用户名获取创作者（含密码哈希，仅用于登录校验）
+  static async getByUsernameWithPassword(username: string): Promise<Creator | null> {
+    try {
+      const [creator] = await db.select().from(creators).where(eq(creators.username, username));
+      return creator || null;
+    } catch (error) {
+      throw new Error(`Failed to get creator by username: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 记录最近登录时间
+  static async updateLastLogin(id: string): Promise<void> {
+    try {
+      await db.update(creators).set({ lastLoginAt: new Date() }).where(eq(creators.id, id));
+    } catch (error) {
+      throw new Error(`Failed to update creator last login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 拒绝原因分类相关的数据访问函数
+export class RejectionCategoryDAL {
+  // 获取分类列表，默认只返回启用的分类
+  static async getAll(includeInactive: boolean = false): Promise<RejectionCategory[]> {
+    try {
+      return await db
+        .select()
+        .from(rejectionCategories)
+        .where(includeInactive ? undefined : eq(rejectionCategories.isActive, true))
+        .orderBy(asc(rejectionCategories.sortOrder), asc(rejectionCategories.code));
+    } catch (error) {
+      throw new Error(`Failed to get rejection categories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据代码获取分类
+  static async getByCode(code: string): Promise<RejectionCategory | null> {
+    try {
+      const [category] = await db.select().from(rejectionCategories).where(eq(rejectionCategories.code, code));
+      return category || null;
+    } catch (error) {
+      throw new Error(`Failed to get rejection category: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 创建分类
+  static async create(categoryData: NewRejectionCategory): Promise<RejectionCategory> {
+    try {
+      await db.insert(rejectionCategories).values(categoryData);
+      const category = await this.getByCode(categoryData.code);
+      if (!category) {
+        throw new Error('Failed to create rejection category');
+      }
+      return category;
+    } catch (error) {
+      throw new Error(`Failed to create rejection category: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 更新分类名称、模板、排序或启用状态（代码不可修改，历史日志依赖它）
+  static async update(
+    code: string,
+    updateData: Partial<Pick<NewRejectionCategory, 'label' | 'template' | 'isActive' | 'sortOrder'>>
+  ): Promise<RejectionCategory | null> {
+    try {
+      await db
+        .update(rejectionCategories)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(rejectionCategories.code, code));
+      return await this.getByCode(code);
+    } catch (error) {
+      throw new Error(`Failed to update rejection category: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 安全策略相关的数据访问函数
+export class SecurityPolicyDAL {
+  // 获取所有策略版本（新版本在前）
+  static async getAll(): Promise<SecurityPolicy[]> {
+    try {
+      return await db.select().from(securityPolicies).orderBy(desc(securityPolicies.version));
+    } catch (error) {
+      throw new Error(`Failed to get security policies: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据版本号获取策略
+  static async getByVersion(version: number): Promise<SecurityPolicy | null> {
+    try {
+      const [policy] = await db.select().from(securityPolicies).where(eq(securityPolicies.version, version));
+      return policy || null;
+    } catch (error) {
+      throw new Error(`Failed to get security policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取当前生效的策略
+  static async getActive(): Promise<SecurityPolicy | null> {
+    try {
+      const [policy] = await db
+        .select()
+        .from(securityPolicies)
+        .where(eq(securityPolicies.isActive, true))
+        .orderBy(desc(securityPolicies.version))
+        .limit(1);
+      return policy || null;
+    } catch (error) {
+      throw new Error(`Failed to get active security policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取安全检查使用的生效配置，数据库中没有生效的策略时使用内置默认配置
+  static async getActiveConfig(): Promise<ActiveSecurityPolicy> {
+    const policy = await this.getActive();
+    if (!policy) {
+      return DEFAULT_SECURITY_POLICY;
+    }
+    return { version: policy.version, config: toSecurityConfig(policy.config) };
+  }
+
+  // 创建新版本（版本号为当前最大版本号加1），新版本默认不生效
+  static async create(policyData: { config: StoredSecurityConfig; note?: string | null; createdBy: string }): Promise<SecurityPolicy> {
+    try {
+      const [result] = await db.select({ latest: max(securityPolicies.version) }).from(securityPolicies);
+      const version = (result?.latest ?? 0) + 1;
+
+      await db.insert(securityPolicies).values({
+        version,
+        config: policyData.config,
+        note: policyData.note ?? null,
+        createdBy: policyData.createdBy,
+        isActive: false,
+      });
+
+      const policy = await this.getByVersion(version);
+      if (!policy) {
+        throw new Error('Failed to create security policy');
+      }
+      return policy;
+    } catch (error) {
+      throw new Error(`Failed to create security policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 启用指定版本，同时停用其他版本
+  static async activate(version: number): Promise<SecurityPolicy | null> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx
+          .update(securityPolicies)
+          .set({ isActive: false })
+          .where(and(eq(securityPolicies.isActive, true), ne(securityPolicies.version, version)));
+        await tx
+          .update(securityPolicies)
+          .set({ isActive: true, activatedAt: new Date() })
+          .where(eq(securityPolicies.version, version));
+      });
+      return await this.getByVersion(version);
+    } catch (error) {
+      throw new Error(`Failed to activate security policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 游戏安全复查结果相关的数据访问函数
+export class SecurityScanDAL {
+  // 保存复查结果，覆盖该游戏上一次的结果
+  static async upsert(scanData: NewGameSecurityScan): Promise<void> {
+    try {
+      const scannedAt = new Date();
+      await db
+        .insert(gameSecurityScans)
+        .values({ ...scanData, scannedAt })
+        .onDuplicateKeyUpdate({
+          set: {
+            policyVersion: scanData.policyVersion,
+            gameStatus: scanData.gameStatus,
+            errorCount: scanData.errorCount,
+            warningCount: scanData.warningCount,
+            findings: scanData.findings,
+            flagged: scanData.flagged,
+            scannedAt,
+          },
+        });
+    } catch (error) {
+      throw new Error(`Failed to save security scan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取被标记的游戏（已发布但不再符合安全策略），包含游戏当前的状态
+  static async getFlagged(limit: number = 100): Promise<FlaggedGameSecurityScan[]> {
+    try {
+      return await db
+        .select({
+          gameId: gameSecurityScans.gameId,
+          policyVersion: gameSecurityScans.policyVersion,
+          gameStatus: gameSecurityScans.gameStatus,
+          errorCount: gameSecurityScans.errorCount,
+          warningCount: gameSecurityScans.warningCount,
+          findings: gameSecurityScans.findings,
+          flagged: gameSecurityScans.flagged,
+          scannedAt: gameSecurityScans.scannedAt,
+          game: {
+            id: games.id,
+            title: games.title,
+            authorName: games.authorName,
+            status: games.status,
+          },
+        })
+        .from(gameSecurityScans)
+        .innerJoin(games, eq(gameSecurityScans.gameId, games.id))
+        .where(eq(gameSecurityScans.flagged, true))
+        .orderBy(desc(gameSecurityScans.errorCount))
+        .limit(limit);
+    } catch (error) {
+      throw new Error(`Failed to get flagged security scans: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 排行榜设置相关的数据访问函数
+export class GameScoreSettingsDAL {
+  // 获取游戏的排行榜设置，没有单独设置时返回默认设置
+  static async get(gameId: string): Promise<ScoreSettings> {
+    try {
+      const [settings] = await db
+        .select({
+          sortOrder: gameScoreSettings.sortOrder,
+          minScore: gameScoreSettings.minScore,
+          maxScore: gameScoreSettings.maxScore,
+          unit: gameScoreSettings.unit,
+          rateLimitCount: gameScoreSettings.rateLimitCount,
+          rateLimitWindowSeconds: gameScoreSettings.rateLimitWindowSeconds,
+        })
+        .from(gameScoreSettings)
+        .where(eq(gameScoreSettings.gameId, gameId));
+      return settings || DEFAULT_SCORE_SETTINGS;
+    } catch (error) {
+      throw new Error(`Failed to get score settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 保存游戏的排行榜设置
+  static async upsert(gameId: string, settings: ScoreSettings, updatedBy: string): Promise<void> {
+    try {
+      await db
+        .insert(gameScoreSettings)
+        .values({ gameId, ...settings, updatedBy })
+        .onDuplicateKeyUpdate({
+          set: {
+            sortOrder: settings.sortOrder,
+            minScore: settings.minScore,
+            maxScore: settings.maxScore,
+            unit: settings.unit,
+            rateLimitCount: settings.rateLimitCount,
+            rateLimitWindowSeconds: settings.rateLimitWindowSeconds,
+            updatedBy,
+          },
+        });
+    } catch (error) {
+      throw new Error(`Failed to save score settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 分数相关的数据访问函数
+export class ScoreDAL {
+  // 记录分数
+  static async create(scoreData: Omit<NewScore, 'id'>): Promise<Score> {
+    try {
+      const id = uuidv4();
+      await db.insert(scores).values({ ...scoreData, id });
+      const [score] = await db.select().from(scores).where(eq(scores.id, id));
+      if (!score) {
+        throw new Error('Failed to create score');
+      }
+      return score;
+    } catch (error) {
+      throw new Error(`Failed to create score: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 统计提交者在指定时间之后提交的次数（用于限流）
+  static async countRecent(gameId: string, clientHash: string, since: Date): Promise<number> {
+    try {
+      const [result] = await db
+        .select({ count: count() })
+        .from(scores)
+        .where(and(eq(scores.gameId, gameId), eq(scores.clientHash, clientHash), gte(scores.createdAt, since)));
+      return result?.count ?? 0;
+    } catch (error) {
+      throw new Error(`Failed to count recent scores: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取排行榜（按设置的方向排序，同分时先提交的在前）
+  static async getLeaderboard(
+    gameId: string,
+    sortOrder: ScoreSettings['sortOrder'],
+    limit: number = 10
+  ): Promise<LeaderboardEntry[]> {
+    try {
+      const rows = await db
+        .select({
+          playerName: scores.playerName,
+          score: scores.score,
+          createdAt: scores.createdAt,
+        })
+        .from(scores)
+        .where(eq(scores.gameId, gameId))
+        .orderBy(sortOrder === 'asc' ? asc(scores.score) : desc(scores.score), asc(scores.createdAt))
+        .limit(limit);
+      return rows.map((row, index) => ({ rank: index + 1, ...row }));
+    } catch (error) {
+      throw new Error(`Failed to get leaderboard: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 游戏存档相关的数据访问函数
+export class GameSaveDAL {
+  // 读取一个存档值
+  static async get(gameId: string, ownerKey: string, key: string): Promise<string | null> {
+    try {
+      const [save] = await db
+        .select({ value: gameSaves.value })
+        .from(gameSaves)
+        .where(and(eq(gameSaves.gameId, gameId), eq(gameSaves.ownerKey, ownerKey), eq(gameSaves.key, key)));
+      return save ? save.value : null;
+    } catch (error) {
+      throw new Error(`Failed to get game save: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 列出玩家在游戏中的所有存档键（不包含值）
+  static async listKeys(gameId: string, ownerKey: string): Promise<Pick<GameSave, 'key' | 'size' | 'updatedAt'>[]> {
+    try {
+      return await db
+        .select({ key: gameSaves.key, size: gameSaves.size, updatedAt: gameSaves.updatedAt })
+        .from(gameSaves)
+        .where(and(eq(gameSaves.gameId, gameId), eq(gameSaves.ownerKey, ownerKey)))
+        .orderBy(asc(gameSaves.key));
+    } catch (error) {
+      throw new Error(`Failed to list game saves: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 在配额内写入存档值（已存在时覆盖），超出配额时不写入并返回false
+  // 先锁定玩家已有的存档再检查配额，并发写入不会同时通过检查
+  static async set(gameId: string, ownerKey: string, key: string, value: string, size: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const existing = await tx
+          .select({ key: gameSaves.key, size: gameSaves.size })
+          .from(gameSaves)
+          .where(and(eq(gameSaves.gameId, gameId), eq(gameSaves.ownerKey, ownerKey)))
+          .for('update');
+        if (exceedsGameStorageQuota(existing, key, size)) {
+          return false;
+        }
+
+        await tx
+          .insert(gameSaves)
+          .values({ gameId, ownerKey, key, value, size })
+          .onDuplicateKeyUpdate({ set: { value, size, updatedAt: new Date() } });
+        return true;
+      });
+    } catch (error) {
+      throw new Error(`Failed to save game data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 删除存档值
+  static async remove(gameId: string, ownerKey: string, key: string): Promise<void> {
+    try {
+      await db
+        .delete(gameSaves)
+        .where(and(eq(gameSaves.gameId, gameId), eq(gameSaves.ownerKey, ownerKey), eq(gameSaves.key, key)));
+    } catch (error) {
+      throw new Error(`Failed to remove game save: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 请求频率计数相关的数据访问函数
+export class RateLimitDAL {
+  // 在时间窗口中计数一次，返回计数后的次数
+  static async increment(scope: string, clientHash: string, windowStart: Date): Promise<number> {
+    try {
+      await db
+        .insert(rateLimitCounters)
+        .values({ scope, clientHash, windowStart, count: 1 })
+        .onDuplicateKeyUpdate({ set: { count: sql`${rateLimitCounters.count} + 1` } });
+      const [counter] = await db
+        .select({ count: rateLimitCounters.count })
+        .from(rateLimitCounters)
+        .where(
+          and(
+            eq(rateLimitCounters.scope, scope),
+            eq(rateLimitCounters.clientHash, clientHash),
+            eq(rateLimitCounters.windowStart, windowStart)
+          )
+        );
+      return counter?.count ?? 1;
+    } catch (error) {
+      throw new Error(`Failed to increment rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 删除指定时间之前的时间窗口
+  static async deleteBefore(before: Date): Promise<void> {
+    try {
+      await db.delete(rateLimitCounters).where(lt(rateLimitCounters.windowStart, before));
+    } catch (error) {
+      throw new Error(`Failed to delete rate limit counters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// 游戏运行错误相关的数据访问函数
+export class GameErrorDAL {
+  // 记录一次运行错误，相同特征的错误累计次数
+  // 游戏的错误分组已达上限时不再新增分组，返回false
+  static async record(
+    gameId: string,
+    fingerprint: string,
+    report: Pick<GameErrorReport, 'kind' | 'message' | 'stack'>
+  ): Promise<boolean> {
+    try {
+      const now = new Date();
+      const stack = report.stack ?? null;
+      const [existing] = await db
+        .select({ count: gameErrors.count })
+        .from(gameErrors)
+        .where(and(eq(gameErrors.gameId, gameId), eq(gameErrors.fingerprint, fingerprint)));
+
+      if (!existing) {
+        const [groups] = await db
+          .select({ count: count() })
+          .from(gameErrors)
+          .where(eq(gameErrors.gameId, gameId));
+        if ((groups?.count ?? 0) >= MAX_ERROR_GROUPS_PER_GAME) {
+          return false;
+        }
+      }
+
+      // 并发插入同一分组时按重复键累计
+      await db
+        .insert(gameErrors)
+        .values({ gameId, fingerprint, kind: report.kind, message: report.message, stack, firstSeenAt: now, lastSeenAt: now })
+        .onDuplicateKeyUpdate({ set: { count: sql`${gameErrors.count} + 1`, stack, lastSeenAt: now } });
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to record game error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取游戏的错误分组（最近出现的在前）
+  static async getByGameId(gameId: string, limit: number = 50): Promise<GameError[]> {
+    try {
+      return await db
+        .select()
+        .from(gameErrors)
+        .where(eq(gameErrors.gameId, gameId))
+        .orderBy(desc(gameErrors.lastSeenAt))
+        .limit(limit);
+    } catch (error) {
+      throw new Error(`Failed to get game errors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 按游戏汇总指定时间之后出现过的错误（出现次数多的在前）
+  static async getSummaries(since: Date, limit: number = 50): Promise<GameErrorSummary[]> {
+    try {
+      return await db
+        .select({
+          gameId: gameErrors.gameId,
+          title: games.title,
+          authorName: games.authorName,
+          status: games.status,
+          groups: count(),
+          occurrences: sql<number>`sum(${gameErrors.count})`.mapWith(Number),
+          lastSeenAt: max(gameErrors.lastSeenAt),
+        })
+        .from(gameErrors)
+        .innerJoin(games, eq(gameErrors.gameId, games.id))
+        .where(gte(gameErrors.lastSeenAt, since))
+        .groupBy(gameErrors.gameId, games.title, games.authorName, games.status)
+        .orderBy(desc(sql`sum(${gameErrors.count})`))
+        .limit(limit);
+    } catch (error) {
+      throw new Error(`Failed to get game error summaries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 统计游戏已记录的运行错误总次数
+  static async countOccurrences(gameId: string): Promise<number> {
+    try {
+      const [result] = await db
+        .select({ occurrences: sql<number>`coalesce(sum(${gameErrors.count}), 0)`.mapWith(Number) })
+        .from(gameErrors)
+        .where(eq(gameErrors.gameId, gameId));
+      return result?.occurrences ?? 0;
+    } catch (error) {
+      throw new Error(`Failed to count game errors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 清除游戏的全部错误记录（游戏修复后由所有者或管理员操作）
+  static async clear(gameId: string): Promise<void> {
+    try {
+      await db.delete(gameErrors).where(eq(gameErrors.gameId, gameId));
+    } catch (error) {
+      throw new Error(`Failed to clear game errors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// API令牌相关的数据访问函数
+export class ApiTokenDAL {
+  // 查询时排除令牌哈希的字段集合
+  private static readonly infoColumns = {
+    id: apiTokens.id,
+    name: apiTokens.name,
+    tokenPrefix: apiTokens.tokenPrefix,
+    scopes: apiTokens.scopes,
+    createdBy: apiTokens.createdBy,
+    expiresAt: apiTokens.expiresAt,
+    revokedAt: apiTokens.revokedAt,
+    lastUsedAt: apiTokens.lastUsedAt,
+    createdAt: apiTokens.createdAt,
+  };
+
+  // 创建API令牌
+  static async create(tokenData: NewApiToken): Promise<ApiTokenInfo> {
+    try {
+      await db.insert(apiTokens).values(tokenData);
+      const token = await this.getById(tokenData.id!);
+      if (!token) {
+        throw new Error('Failed to create API token');
+      }
+      return token;
+    } catch (error) {
+      throw new Error(`Failed to create API token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据ID获取API令牌
+  static async getById(id: string): Promise<ApiTokenInfo | null> {
+    try {
+      const [token] = await db.select(this.infoColumns).from(apiTokens).where(eq(apiTokens.id, id));
+      return token || null;
+    } catch (error) {
+      throw new Error(`Failed to get API token by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据名称获取API令牌
+  static async getByName(name: string): Promise<ApiTokenInfo | null> {
+    try {
+      const [token] = await db.select(this.infoColumns).from(apiTokens).where(eq(apiTokens.name, name));
+      return token || null;
+    } catch (error) {
+      throw new Error(`Failed to get API token by name: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 根据令牌哈希获取API令牌（用于请求认证）
+  static async getByHash(tokenHash: string): Promise<ApiToken | null> {
+    try {
+      const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return token || null;
+    } catch (error) {
+      throw new Error(`Failed to get API token by hash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 获取所有API令牌
+  static async getAll(): Promise<ApiTokenInfo[]> {
+    try {
+      return await db.select(this.infoColumns).from(apiTokens).orderBy(desc(apiTokens.createdAt));
+    } catch (error) {
+      throw new Error(`Failed to get all API tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 吊销API令牌
+  static async revoke(id: string): Promise<ApiTokenInfo | null> {
+    try {
+      await db.update(apiTokens).set({ revokedAt: new Date() }).where(eq(apiTokens.id, id));
+      return await this.getById(id);
+    } catch (error) {
+      throw new Error(`Failed to revoke API token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 记录最近使用时间
+  static async touchLastUsed(id: string): Promise<void> {
+    try {
+      await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+    } catch (error) {
+      throw new Error(`Failed to update API token last used: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * 文本行级差异比较
+ * 基于Myers差异算法，用于在审核时对比游戏版本之间的HTML内容
+ */
+
+// 差异行类型
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+// 差异行
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber: number | null; // 在旧版本中的行号（从1开始）
+  newLineNumber: number | null; // 在新版本中的行号（从1开始）
+}
+
+// 差异统计
+export interface DiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// 差异超过该编辑距离时放弃逐行比较，直接按整体替换处理
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * 将文本拆分为行（统一换行符）
+ */
+export function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * 计算两段文本之间的行级差异
+ * @param oldText 旧版本内容
+ * @param newText 新版本内容
+ * @returns 按顺序排列的差异行
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+
+  // v[k]记录对角线k上能到达的最远x，trace保存每一步[-d, d]范围内的快照用于回溯
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // 差异过大时按整体删除+新增处理
+  if (!found) {
+    return [
+      ...oldLines.map((content, index) => ({
+        type: 'removed' as const,
+        content,
+        oldLineNumber: index + 1,
+        newLineNumber: null,
+      })),
+      ...newLines.map((content, index) => ({
+        type: 'added' as const,
+        content,
+        oldLineNumber: null,
+        newLineNumber: index + 1,
+      })),
+    ];
+  }
+
+  // 回溯编辑路径
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && snapshot[d + k - 1] < snapshot[d + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = d > 0 ? snapshot[d + prevK] : 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', content: oldLines[x - 1], oldLineNumber: x, newLineNumber: y });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'added', content: newLines[y - 1], oldLineNumber: null, newLineNumber: y });
+      } else {
+        result.push({ type: 'removed', content: oldLines[x - 1], oldLineNumber: x, newLineNumber: null });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * 统计差异行数
+ */
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  return diff.reduce<DiffStats>(
+    (stats, line) => {
+      if (line.type === 'added') {
+        stats.added++;
+      } else if (line.type === 'removed') {
+        stats.removed++;
+      } else {
+        stats.unchanged++;
+      }
+      return stats;
+    },
+    { added: 0, removed: 0, unchanged: 0 }
+  );
+}
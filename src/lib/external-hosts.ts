@@ -0,0 +1,108 @@
+/**
+ * 外部资源白名单
+ * 游戏只能从这里列出的CDN主机加载脚本、样式表和字体；安全检查、游戏页面的CSP
+ * 以及游戏iframe内的CSP都以这份白名单为准，保证三者放行的主机完全一致。
+ * 不依赖数据库和HTML解析器，可在中间件和客户端使用
+ */
+
+// 外部资源类型，分别对应CSP的script-src、style-src和font-src
+export type ExternalResourceType = 'script' | 'style' | 'font';
+
+export interface AllowedExternalHost {
+  // 主机名（不含协议和端口），只允许通过https访问
+  host: string;
+  types: ExternalResourceType[];
+  // 允许的SRI哈希（如 sha384-...），设置后引用该主机资源的标签必须带有匹配的integrity属性
+  integrity?: string[];
+}
+
+// 允许游戏加载资源的CDN主机
+export const ALLOWED_EXTERNAL_HOSTS: AllowedExternalHost[] = [
+  { host: 'cdn.tailwindcss.com', types: ['script'] },
+  { host: 'fonts.googleapis.com', types: ['style'] },
+  { host: 'fonts.gstatic.com', types: ['font'] },
+];
+
+// 外部URL的检查结果
+export type ExternalUrlCheck =
+  | { allowed: true; host: AllowedExternalHost }
+  | {
+      allowed: false;
+      reason: 'invalid_url' | 'inline_source' | 'insecure_protocol' | 'host_not_allowed' | 'type_not_allowed';
+    };
+
+/**
+ * 检查外部URL是否指向允许加载指定类型资源的主机
+ * type为null时只要求主机在白名单中（用于preconnect等不加载资源的引用）
+ */
+export function checkExternalUrl(
+  value: string,
+  type: ExternalResourceType | null,
+  hosts: AllowedExternalHost[] = ALLOWED_EXTERNAL_HOSTS
+): ExternalUrlCheck {
+  let url: URL;
+  try {
+    // 协议相对地址在https页面中按https加载
+    url = new URL(value.trim(), 'https://localhost');
+  } catch {
+    return { allowed: false, reason: 'invalid_url' };
+  }
+
+  // data:和blob:地址的内容不经过白名单检查，一律拒绝
+  if (url.protocol === 'data:' || url.protocol === 'blob:') {
+    return { allowed: false, reason: 'inline_source' };
+  }
+
+  if (url.protocol !== 'https:' || url.port !== '') {
+    return { allowed: false, reason: 'insecure_protocol' };
+  }
+
+  const host = hosts.find((entry) => entry.host.toLowerCase() === url.hostname);
+  if (!host) {
+    return { allowed: false, reason: 'host_not_allowed' };
+  }
+
+  if (type && !host.types.includes(type)) {
+    return { allowed: false, reason: 'type_not_allowed' };
+  }
+
+  return { allowed: true, host };
+}
+
+/**
+ * 检查integrity属性是否满足主机的SRI要求（主机未设置哈希时不要求）
+ */
+export function hasRequiredIntegrity(host: AllowedExternalHost, integrity: string | null | undefined): boolean {
+  if (!host.integrity || host.integrity.length === 0) {
+    return true;
+  }
+  // integrity属性可以包含多个以空白分隔的哈希，命中任意一个即可
+  const hashes = (integrity || '').trim().split(/\s+/);
+  return hashes.some((hash) => host.integrity!.includes(hash));
+}
+
+// 指定资源类型允许的CSP来源
+function getHostSources(hosts: AllowedExternalHost[], type: ExternalResourceType): string {
+  return hosts
+    .filter((entry) => entry.types.includes(type))
+    .map((entry) => ` https://${entry.host}`)
+    .join('');
+}
+
+/**
+ * 游戏内容的CSP指令（不含只能通过响应头设置的frame-ancestors等指令）
+ */
+export function getGameCspDirectives(hosts: AllowedExternalHost[] = ALLOWED_EXTERNAL_HOSTS): string[] {
+  return [
+    "default-src 'self'",
+    `script-src 'self' 'unsafe-inline' 'unsafe-eval' blob:${getHostSources(hosts, 'script')}`,
+    `style-src 'self' 'unsafe-inline' blob:${getHostSources(hosts, 'style')}`,
+    "img-src 'self' data: blob: https:",
+    `font-src 'self' data:${getHostSources(hosts, 'font')}`,
+    "connect-src 'self'",
+    "media-src 'self' blob:",
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'self'",
+  ];
+}
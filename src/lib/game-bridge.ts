@@ -0,0 +1,199 @@
+/**
+ * 游戏桥接协议
+ * 游戏在沙箱iframe中运行，无法与平台同源通信；平台在每个游戏页面中注入一个小型SDK（window.MiniGame），
+ * 游戏通过它以postMessage向平台报告状态（就绪、分数、结束、错误）、请求全屏或调整高度，
+ * 以及读写存档（MiniGame.storage，平台执行后把结果回复给游戏）。
+ * SDK还会自动报告未处理的异常和Promise拒绝，并定时发送心跳、检测主线程卡死。
+ * 平台只接受来自游戏iframe、来源正确且符合协议版本和schema的消息
+ */
+
+import { gameBridgeEnvelopeSchema, gameBridgeMessageSchema, type GameBridgeMessage } from './validation';
+import type { GameStorageResult } from './game-storage';
+import { GAME_FREEZE_THRESHOLD_MS } from './game-errors';
+
+// 消息来源标识，用于区分游戏中其他用途的postMessage
+export const GAME_BRIDGE_SOURCE = 'minigame-bridge';
+
+// 协议版本，消息格式发生不兼容变化时递增
+export const GAME_BRIDGE_VERSION = 1;
+
+export type { GameBridgeMessage };
+
+// 平台回复给游戏的消息（对应游戏请求的requestId）
+export interface GameBridgeReply {
+  source: typeof GAME_BRIDGE_SOURCE;
+  version: typeof GAME_BRIDGE_VERSION;
+  message: { type: 'storage-result'; requestId: string } & GameStorageResult;
+}
+
+// 存档请求的超时时间（毫秒）
+const STORAGE_REQUEST_TIMEOUT = 10000;
+
+// 心跳间隔（毫秒），平台超过GAME_FREEZE_THRESHOLD_MS未收到心跳时判定游戏无响应
+export const GAME_HEARTBEAT_INTERVAL = 1000;
+
+/**
+ * 生成注入到游戏页面中的SDK脚本
+ * @param targetOrigin 平台页面的源，未知时为null（消息不含敏感信息，使用'*'发送）
+ */
+export function getGameBridgeSdk(targetOrigin: string | null): string {
+  return `(function (window) {
+  var SOURCE = ${JSON.stringify(GAME_BRIDGE_SOURCE)};
+  var VERSION = ${GAME_BRIDGE_VERSION};
+  var TARGET_ORIGIN = ${JSON.stringify(targetOrigin ?? '*')};
+  var isReady = false;
+  var nextRequestId = 1;
+  var pendingRequests = {};
+  function send(message) {
+    if (!window.parent || window.parent === window) return false;
+    window.parent.postMessage({ source: SOURCE, version: VERSION, message: message }, TARGET_ORIGIN);
+    return true;
+  }
+  function request(message) {
+    return new Promise(function (resolve, reject) {
+      var requestId = String(nextRequestId++);
+      message.requestId = requestId;
+      if (!send(message)) {
+        reject(new Error('MiniGame storage is only available inside the platform'));
+        return;
+      }
+      var timer = setTimeout(function () {
+        delete pendingRequests[requestId];
+        reject(new Error('MiniGame storage request timed out'));
+      }, ${STORAGE_REQUEST_TIMEOUT});
+      pendingRequests[requestId] = function (result) {
+        clearTimeout(timer);
+        if (result.ok) resolve(result.value);
+        else reject(new Error(result.error));
+      };
+    });
+  }
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== SOURCE || !data.message) return;
+    var handler = pendingRequests[data.message.requestId];
+    if (data.message.type !== 'storage-result' || !handler) return;
+    delete pendingRequests[data.message.requestId];
+    handler(data.message);
+  });
+  function sendError(kind, message, stack, durationMs) {
+    var error = { type: 'error', kind: kind, message: String(message || 'Unknown error').slice(0, 1000) };
+    if (stack) error.stack = String(stack).slice(0, 5000);
+    if (durationMs !== undefined) error.durationMs = durationMs;
+    send(error);
+  }
+  function toScore(value) {
+    var score = Number(value);
+    return isFinite(score) && score >= 0 ? score : undefined;
+  }
+  var MiniGame = {
+    version: VERSION,
+    ready: function () {
+      if (isReady) return;
+      isReady = true;
+      send({ type: 'ready' });
+    },
+    reportScore: function (score) {
+      var value = toScore(score);
+      if (value !== undefined) send({ type: 'score', score: value });
+    },
+    gameOver: function (score) {
+      var value = toScore(score);
+      send(value === undefined ? { type: 'game-over' } : { type: 'game-over', score: value });
+    },
+    requestFullscreen: function () {
+      send({ type: 'request-fullscreen' });
+    },
+    resize: function (height) {
+      send({ type: 'resize', height: Math.round(Number(height)) });
+    },
+    reportError: function (message, stack) {
+      sendError('error', message, stack);
+    },
+    storage: Object.freeze({
+      get: function (key) {
+        return request({ type: 'storage-get', key: String(key) }).then(function (value) {
+          return value === null || value === undefined ? null : JSON.parse(value);
+        });
+      },
+      set: function (key, value) {
+        var json = JSON.stringify(value);
+        if (json === undefined) return Promise.reject(new Error('MiniGame storage values must be JSON-serializable'));
+        return request({ type: 'storage-set', key: String(key), value: json }).then(function () {});
+      },
+      remove: function (key) {
+        return request({ type: 'storage-remove', key: String(key) }).then(function () {});
+      },
+      keys: function () {
+        return request({ type: 'storage-keys' });
+      }
+    })
+  };
+  window.MiniGame = Object.freeze(MiniGame);
+  window.addEventListener('error', function (event) {
+    sendError('error', event.message || 'Script error', event.error && event.error.stack);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    sendError('unhandledrejection', reason && reason.message ? reason.message : String(reason), reason && reason.stack);
+  });
+  // 主线程卡死时定时器无法执行，恢复后根据间隔判断卡死时长；页面不可见时定时器会被浏览器节流，不做判断
+  var lastTick = Date.now();
+  function isHidden() {
+    return !!(window.document && window.document.hidden);
+  }
+  if (window.document) {
+    window.document.addEventListener('visibilitychange', function () {
+      lastTick = Date.now();
+    });
+  }
+  setInterval(function () {
+    var now = Date.now();
+    var elapsed = now - lastTick;
+    lastTick = now;
+    if (isHidden()) return;
+    if (elapsed >= ${GAME_FREEZE_THRESHOLD_MS}) {
+      sendError('freeze', 'Game was unresponsive', undefined, elapsed);
+    }
+    send({ type: 'heartbeat' });
+  }, ${GAME_HEARTBEAT_INTERVAL});
+})(window);`;
+}
+
+/**
+ * 解析游戏iframe发送的消息
+ * @param event postMessage事件（只需要origin和data）
+ * @param expectedOrigin 游戏内容的源，游戏以不透明源运行时为'null'
+ * @returns 来源不符、协议版本不支持或格式不正确时返回null
+ */
+export function parseGameBridgeMessage(
+  event: { origin: string; data: unknown },
+  expectedOrigin: string
+): GameBridgeMessage | null {
+  if (event.origin !== expectedOrigin) {
+    return null;
+  }
+
+  const envelope = gameBridgeEnvelopeSchema.safeParse(event.data);
+  if (
+    !envelope.success ||
+    envelope.data.source !== GAME_BRIDGE_SOURCE ||
+    envelope.data.version !== GAME_BRIDGE_VERSION
+  ) {
+    return null;
+  }
+
+  const message = gameBridgeMessageSchema.safeParse(envelope.data.message);
+  return message.success ? message.data : null;
+}
+
+/**
+ * 生成回复给游戏的存档请求结果
+ */
+export function createGameBridgeReply(requestId: string, result: GameStorageResult): GameBridgeReply {
+  return {
+    source: GAME_BRIDGE_SOURCE,
+    version: GAME_BRIDGE_VERSION,
+    message: { type: 'storage-result', requestId, ...result },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * 游戏运行错误
+ * 桥接SDK在游戏中捕获未处理的异常、未处理的Promise拒绝以及主线程长时间阻塞（卡死），
+ * 平台页面还会在游戏停止发送心跳时判定游戏无响应。错误按游戏和错误特征聚合保存，
+ * 供游戏所有者和管理员查看，出问题的游戏不需要等玩家反馈就能被发现。
+ * 不依赖数据库，可同时在服务端和客户端使用
+ */
+
+import type { RateLimitRule } from './rate-limit';
+
+// 错误类型：脚本错误、未处理的Promise拒绝、无响应
+export const GAME_ERROR_KINDS = ['error', 'unhandledrejection', 'freeze'] as const;
+export type GameErrorKind = (typeof GAME_ERROR_KINDS)[number];
+
+export const GAME_ERROR_KIND_LABELS: Record<GameErrorKind, string> = {
+  error: '脚本错误',
+  unhandledrejection: '未处理的Promise拒绝',
+  freeze: '无响应',
+};
+
+// 游戏主线程阻塞超过该时长视为无响应（毫秒）
+export const GAME_FREEZE_THRESHOLD_MS = 10000;
+
+// 每个游戏最多保存的错误分组数，超出后只累计已有分组的次数
+export const MAX_ERROR_GROUPS_PER_GAME = 100;
+
+// 每次游戏会话（页面加载一次游戏）最多上报的错误数，每帧变化的错误消息不会被去重，需要单独限制总数
+export const MAX_ERROR_REPORTS_PER_SESSION = 20;
+
+// 错误上报的频率限制（每个游戏、每个客户端IP），超出的报告直接丢弃，避免刷高错误次数
+export const GAME_ERROR_RATE_LIMIT: RateLimitRule = {
+  limit: 10,
+  windowSeconds: 60,
+};
+
+// 游戏报告的一次运行错误
+export interface GameErrorReport {
+  kind: GameErrorKind;
+  message: string;
+  stack?: string;
+  // 无响应的时长（毫秒）
+  durationMs?: number;
+}
+
+/**
+ * 在平台页面中上报游戏的运行错误（失败时忽略）
+ */
+export async function reportGameError(gameId: string, report: GameErrorReport): Promise<void> {
+  try {
+    await fetch(`/api/games/${gameId}/errors`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(report),
+      keepalive: true,
+    });
+  } catch (error) {
+    console.error('上报游戏错误失败:', error);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * 游戏沙箱
+ * 游戏内容通过 /play/[id]/raw 路由提供，并尽量部署在与主站不同的源上（NEXT_PUBLIC_GAME_SANDBOX_ORIGIN）。
+ * 游戏脚本与主站同源时可以直接访问父页面，因此只有沙箱源与主站不同时才允许allow-same-origin，
+ * 否则游戏以不透明源运行（无法使用Cookie和localStorage，但无法触及主站）。
+ * 不依赖数据库，可在中间件、路由和客户端使用
+ */
+
+import { getGameCspDirectives } from './external-hosts';
+import { getGameBridgeSdk } from './game-bridge';
+
+// 游戏内容的原始HTML路由
+export const GAME_RAW_PATH_PATTERN = /^\/play\/[^/]+\/raw\/?$/;
+
+// 游戏iframe的基础沙箱权限（永远不包含allow-same-origin）
+const BASE_SANDBOX_PERMISSIONS = ['allow-scripts', 'allow-forms', 'allow-popups', 'allow-popups-to-escape-sandbox'];
+
+// 去掉末尾斜杠并校验格式，无效的源视为未配置
+function normalizeOrigin(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return null;
+    }
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 游戏沙箱源，未配置时返回null（游戏内容由主站源提供）
+ */
+export function getGameSandboxOrigin(): string | null {
+  return normalizeOrigin(process.env.NEXT_PUBLIC_GAME_SANDBOX_ORIGIN);
+}
+
+/**
+ * 主站源，未配置时返回null
+ */
+export function getAppOrigin(): string | null {
+  return normalizeOrigin(process.env.NEXT_PUBLIC_APP_URL);
+}
+
+/**
+ * 沙箱源是否与主站隔离（已配置且与主站不同源）
+ * @param appOrigin 主站源，浏览器中为当前页面的源
+ */
+export function isGameSandboxIsolated(appOrigin: string | null = getAppOrigin()): boolean {
+  const sandboxOrigin = getGameSandboxOrigin();
+  return sandboxOrigin !== null && appOrigin !== null && sandboxOrigin !== appOrigin;
+}
+
+/**
+ * 游戏原始HTML的地址，配置了沙箱源时为绝对地址
+ */
+export function getGameRawUrl(gameId: string): string {
+  return `${getGameSandboxOrigin() ?? ''}/play/${encodeURIComponent(gameId)}/raw`;
+}
+
+/**
+ * 游戏内容的源，用于校验游戏iframe发送的消息（游戏以不透明源运行时为'null'）
+ */
+export function getGameContentOrigin(isolated: boolean): string {
+  return isolated ? getGameSandboxOrigin() ?? 'null' : 'null';
+}
+
+/**
+ * 游戏iframe的sandbox属性
+ * @param isolated 游戏内容是否由隔离的沙箱源提供
+ */
+export function getGameSandboxAttribute(isolated: boolean): string {
+  return (isolated ? [...BASE_SANDBOX_PERMISSIONS, 'allow-same-origin'] : BASE_SANDBOX_PERMISSIONS).join(' ');
+}
+
+/**
+ * 游戏原始HTML响应的CSP
+ * 同时通过sandbox指令沙箱化，直接打开原始地址时游戏也无法获得主站源
+ */
+export function getGameRawCsp(isolated: boolean, appOrigin: string | null = getAppOrigin()): string {
+  return [
+    ...getGameCspDirectives(),
+    `frame-ancestors ${isolated && appOrigin ? appOrigin : "'self'"}`,
+    `sandbox ${getGameSandboxAttribute(isolated)}`,
+  ].join('; ');
+}
+
+// 转义插入到HTML中的文本
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 将游戏HTML包装为完整的页面，并在游戏脚本之前注入桥接SDK
+ * @param parentOrigin 嵌入游戏的平台页面的源，未知时为null（frame-ancestors已限制了可嵌入的页面）
+ */
+export function createSecureContent(content: string, title: string, parentOrigin: string | null = null): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${getGameCspDirectives().join('; ')}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <script>${getGameBridgeSdk(parentOrigin)}</script>
+  <style>
+    body {
+      margin: 0;
+      padding: 0;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f8f9fa;
+    }
+    * {
+      box-sizing: border-box;
+    }
+  </style>
+</head>
+<body>
+  ${content}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,120 @@
+/**
+ * 游戏存档
+ * 安全策略禁止游戏直接使用localStorage等浏览器存储，游戏改为通过桥接SDK（MiniGame.storage）
+ * 读写存档：平台页面收到请求后调用存档API，数据保存在服务端，按游戏和玩家隔离。
+ * 登录的创作者按账号保存，其他玩家按浏览器保存（游戏页面签发的玩家Cookie，没有时不能写入）。
+ * 写入和删除按客户端IP限制频率。
+ * 不依赖数据库，可同时在服务端和客户端使用
+ */
+
+import type { GameBridgeMessage } from './validation';
+import type { RateLimitRule } from './rate-limit';
+
+// 存档配额（每个游戏、每个玩家）
+export const GAME_STORAGE_LIMITS = {
+  maxKeyLength: 100,
+  // 单个值的最大字节数（UTF-8）
+  maxValueBytes: 64 * 1024,
+  maxKeys: 50,
+  maxTotalBytes: 256 * 1024,
+};
+
+// 写入和删除的频率限制（每个游戏、每个客户端IP）
+export const GAME_STORAGE_RATE_LIMIT: RateLimitRule = {
+  limit: 60,
+  windowSeconds: 60,
+};
+
+// 存档键只允许字母、数字和 _ . : -
+export const GAME_STORAGE_KEY_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+
+// 未登录玩家的浏览器标识Cookie（签名的玩家会话令牌）
+export const PLAYER_ID_COOKIE = 'player-id';
+
+// 游戏发起的存档请求
+export type GameStorageRequest = Extract<
+  GameBridgeMessage,
+  { type: 'storage-get' | 'storage-set' | 'storage-remove' | 'storage-keys' }
+>;
+
+// 存档请求的结果，通过桥接回复给游戏
+export type GameStorageResult = { ok: true; value?: unknown } | { ok: false; error: string };
+
+/**
+ * 计算值的UTF-8字节数
+ */
+export function getStorageValueSize(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * 检查写入后是否超出存档配额（按覆盖后的结果计算）
+ * @param existing 玩家在游戏中已有的存档
+ * @param key 本次写入的键
+ * @param size 本次写入的值的字节数
+ */
+export function exceedsGameStorageQuota(
+  existing: { key: string; size: number }[],
+  key: string,
+  size: number
+): boolean {
+  const others = existing.filter((item) => item.key !== key);
+  const totalBytes = others.reduce((total, item) => total + item.size, 0) + size;
+  return others.length + 1 > GAME_STORAGE_LIMITS.maxKeys || totalBytes > GAME_STORAGE_LIMITS.maxTotalBytes;
+}
+
+/**
+ * 是否为存档请求
+ */
+export function isGameStorageRequest(message: GameBridgeMessage): message is GameStorageRequest {
+  return message.type.startsWith('storage-');
+}
+
+/**
+ * 在平台页面中执行游戏的存档请求
+ */
+export async function performGameStorageRequest(
+  gameId: string,
+  request: GameStorageRequest
+): Promise<GameStorageResult> {
+  const url = `/api/games/${gameId}/storage`;
+
+  try {
+    let response: Response;
+    switch (request.type) {
+      case 'storage-get':
+        response = await fetch(`${url}?key=${encodeURIComponent(request.key)}`);
+        break;
+      case 'storage-keys':
+        response = await fetch(url);
+        break;
+      case 'storage-set':
+        response = await fetch(url, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ key: request.key, value: request.value }),
+        });
+        break;
+      case 'storage-remove':
+        response = await fetch(`${url}?key=${encodeURIComponent(request.key)}`, { method: 'DELETE' });
+        break;
+    }
+
+    const result = await response.json();
+    if (!result.success) {
+      return { ok: false, error: result.message || '存档操作失败' };
+    }
+
+    switch (request.type) {
+      case 'storage-get':
+        return { ok: true, value: result.data.value };
+      case 'storage-keys':
+        return { ok: true, value: result.data.keys.map((item: { key: string }) => item.key) };
+      default:
+        return { ok: true };
+    }
+  } catch (error) {
+    console.error('存档操作失败:', error);
+    return { ok: false, error: '存档操作失败' };
+  }
+}
@@ -1,5 +1,39 @@
 import { sql } from 'drizzle-orm';
 import { db } from './db';
+import { DEFAULT_REJECTION_CATEGORIES } from './rejection-categories';
+import { DEFAULT_STORED_SECURITY_CONFIG } from './security-policy';
+
+// 为已存在的表补充新增的列（CREATE TABLE IF NOT EXISTS不会修改已有的表），列已存在时跳过
+async function addColumnIfMissing(table: string, column: string, definition: string) {
+  const result = await db.execute(sql`
+    SELECT COUNT(*) as count
+    FROM information_schema.columns
+    WHERE table_schema = DATABASE()
+    AND table_name = ${table}
+    AND column_name = ${column}
+  `);
+  const [row] = result.rows as { count: number | string }[];
+  if (Number(row?.count) > 0) {
+    return;
+  }
+  await db.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`));
+}
+
+// 为已存在的表补充新增的索引，索引已存在时跳过
+async function addIndexIfMissing(table: string, index: string, columns: string) {
+  const result = await db.execute(sql`
+    SELECT COUNT(*) as count
+    FROM information_schema.statistics
+    WHERE table_schema = DATABASE()
+    AND table_name = ${table}
+    AND index_name = ${index}
+  `);
+  const [row] = result.rows as { count: number | string }[];
+  if (Number(row?.count) > 0) {
+    return;
+  }
+  await db.execute(sql.raw(`ALTER TABLE ${table} ADD INDEX ${index} (${columns})`));
+}
 
 // 数据库迁移脚本
 export async function createTables() {
@@ -12,35 +46,302 @@ export async function createTables() {
         description TEXT,
         html_content LONGTEXT NOT NULL,
         author_name VARCHAR(100),
-        status ENUM('pending', 'approved', 'rejected') DEFAULT 'pending',
+        status ENUM('pending', 'approved', 'rejected', 'withdrawn', 'unpublished', 'deleted') DEFAULT 'pending',
         rejection_reason TEXT,
+        appeal_message TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         approved_at TIMESTAMP NULL,
         approved_by VARCHAR(100),
+        unpublished_at TIMESTAMP NULL,
+        unpublish_reason TEXT,
+        submitted_by VARCHAR(100),
+        owner_id VARCHAR(36),
+        current_version_id VARCHAR(36),
+        deleted_at TIMESTAMP NULL,
+        claimed_by VARCHAR(100),
+        claim_expires_at TIMESTAMP NULL,
+        security_policy_version INT,
         
         INDEX idx_status (status),
+        INDEX idx_owner_id (owner_id),
         INDEX idx_created_at (created_at),
         INDEX idx_approved_at (approved_at)
       )
     `);
 
+    // 升级已有的games表
+    await addColumnIfMissing('games', 'submitted_by', 'VARCHAR(100) AFTER approved_by');
+    await addColumnIfMissing('games', 'unpublished_at', 'TIMESTAMP NULL AFTER approved_by');
+    await addColumnIfMissing('games', 'unpublish_reason', 'TEXT AFTER unpublished_at');
+    await addColumnIfMissing('games', 'appeal_message', 'TEXT AFTER rejection_reason');
+    await addColumnIfMissing('games', 'owner_id', 'VARCHAR(36) AFTER submitted_by');
+    await addColumnIfMissing('games', 'current_version_id', 'VARCHAR(36) AFTER owner_id');
+    await addColumnIfMissing('games', 'deleted_at', 'TIMESTAMP NULL AFTER current_version_id');
+    await addColumnIfMissing('games', 'claimed_by', 'VARCHAR(100) AFTER deleted_at');
+    await addColumnIfMissing('games', 'claim_expires_at', 'TIMESTAMP NULL AFTER claimed_by');
+    await addColumnIfMissing('games', 'security_policy_version', 'INT AFTER claim_expires_at');
+    await addIndexIfMissing('games', 'idx_owner_id', 'owner_id');
+    // 已有表的ENUM只包含早期的取值，按完整的取值列表重新定义（重复执行不受影响）
+    await db.execute(sql`
+      ALTER TABLE games MODIFY COLUMN status ENUM('pending', 'approved', 'rejected', 'withdrawn', 'unpublished', 'deleted') DEFAULT 'pending'
+    `);
+
     // 创建review_logs表
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS review_logs (
         id INT AUTO_INCREMENT PRIMARY KEY,
         game_id VARCHAR(36) NOT NULL,
-        action ENUM('approve', 'reject') NOT NULL,
+        action ENUM('approve', 'reject', 'unpublish', 'appeal', 'withdraw', 'rollback', 'edit', 'delete', 'claim', 'release', 'rescan') NOT NULL,
         reason TEXT,
+        category VARCHAR(50),
         reviewer VARCHAR(100) NOT NULL,
+        reviewer_role ENUM('reviewer', 'moderator', 'owner'),
+        version_id VARCHAR(36),
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         
         FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
         INDEX idx_game_id (game_id),
+        INDEX idx_category (category),
         INDEX idx_created_at (created_at)
       )
     `);
 
+    // 升级已有的review_logs表
+    await addColumnIfMissing('review_logs', 'reviewer_role', "ENUM('reviewer', 'moderator', 'owner') AFTER reviewer");
+    await addColumnIfMissing('review_logs', 'version_id', 'VARCHAR(36) AFTER reviewer_role');
+    await addColumnIfMissing('review_logs', 'category', 'VARCHAR(50) AFTER reason');
+    await addIndexIfMissing('review_logs', 'idx_category', 'category');
+    await db.execute(sql`
+      ALTER TABLE review_logs MODIFY COLUMN action ENUM('approve', 'reject', 'unpublish', 'appeal', 'withdraw', 'rollback', 'edit', 'delete', 'claim', 'release', 'rescan') NOT NULL
+    `);
+
+    // 创建rejection_categories表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS rejection_categories (
+        code VARCHAR(50) PRIMARY KEY,
+        label VARCHAR(100) NOT NULL,
+        template TEXT NOT NULL,
+        is_active BOOLEAN DEFAULT TRUE,
+        sort_order INT DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+
+    // 写入默认拒绝原因分类（已存在的分类保留管理员的修改）
+    for (const category of DEFAULT_REJECTION_CATEGORIES) {
+      await db.execute(sql`
+        INSERT IGNORE INTO rejection_categories (code, label, template, sort_order)
+        VALUES (${category.code}, ${category.label}, ${category.template}, ${category.sortOrder})
+      `);
+    }
+
+    // 创建game_versions表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS game_versions (
+        id VARCHAR(36) PRIMARY KEY,
+        game_id VARCHAR(36) NOT NULL,
+        version_number INT NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        html_content LONGTEXT NOT NULL,
+        changelog TEXT,
+        status ENUM('pending', 'approved', 'rejected', 'withdrawn') DEFAULT 'pending',
+        rejection_reason TEXT,
+        submitted_by VARCHAR(100),
+        reviewed_by VARCHAR(100),
+        reviewed_at TIMESTAMP NULL,
+        security_policy_version INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
+        UNIQUE KEY uniq_game_version (game_id, version_number),
+        INDEX idx_status (status)
+      )
+    `);
+
+    // 升级已有的game_versions表
+    await addColumnIfMissing('game_versions', 'security_policy_version', 'INT AFTER reviewed_at');
+
+    // 创建security_policies表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS security_policies (
+        version INT PRIMARY KEY,
+        config JSON NOT NULL,
+        is_active BOOLEAN DEFAULT FALSE,
+        note TEXT,
+        created_by VARCHAR(100) NOT NULL,
+        activated_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        INDEX idx_is_active (is_active)
+      )
+    `);
+
+    // 写入内置默认配置作为版本1并启用（已有策略时保留管理员的修改）
+    await db.execute(sql`
+      INSERT IGNORE INTO security_policies (version, config, is_active, note, created_by, activated_at)
+      VALUES (1, ${JSON.stringify(DEFAULT_STORED_SECURITY_CONFIG)}, TRUE, '内置默认策略', 'system', CURRENT_TIMESTAMP)
+    `);
+
+    // 创建game_security_scans表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS game_security_scans (
+        game_id VARCHAR(36) PRIMARY KEY,
+        policy_version INT,
+        game_status ENUM('pending', 'approved', 'rejected', 'withdrawn', 'unpublished', 'deleted') NOT NULL,
+        error_count INT NOT NULL DEFAULT 0,
+        warning_count INT NOT NULL DEFAULT 0,
+        findings JSON NOT NULL,
+        flagged BOOLEAN DEFAULT FALSE,
+        scanned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
+        INDEX idx_flagged (flagged)
+      )
+    `);
+
+    // 创建game_score_settings表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS game_score_settings (
+        game_id VARCHAR(36) PRIMARY KEY,
+        sort_order ENUM('desc', 'asc') NOT NULL DEFAULT 'desc',
+        min_score DOUBLE NULL,
+        max_score DOUBLE NULL,
+        unit VARCHAR(20),
+        rate_limit_count INT NOT NULL DEFAULT 5,
+        rate_limit_window_seconds INT NOT NULL DEFAULT 60,
+        updated_by VARCHAR(100),
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 创建scores表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS scores (
+        id VARCHAR(36) PRIMARY KEY,
+        game_id VARCHAR(36) NOT NULL,
+        player_name VARCHAR(30) NOT NULL,
+        score DOUBLE NOT NULL,
+        client_hash VARCHAR(64) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE,
+        INDEX idx_game_score (game_id, score),
+        INDEX idx_game_client (game_id, client_hash, created_at)
+      )
+    `);
+
+    // 创建game_saves表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS game_saves (
+        game_id VARCHAR(36) NOT NULL,
+        owner_key VARCHAR(64) NOT NULL,
+        save_key VARCHAR(100) NOT NULL,
+        value MEDIUMTEXT NOT NULL,
+        size INT NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        
+        PRIMARY KEY (game_id, owner_key, save_key),
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 创建rate_limit_counters表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS rate_limit_counters (
+        scope VARCHAR(100) NOT NULL,
+        client_hash VARCHAR(64) NOT NULL,
+        window_start TIMESTAMP NOT NULL,
+        count INT NOT NULL DEFAULT 1,
+        
+        PRIMARY KEY (scope, client_hash, window_start),
+        INDEX idx_window_start (window_start)
+      )
+    `);
+
+    // 创建game_errors表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS game_errors (
+        game_id VARCHAR(36) NOT NULL,
+        fingerprint VARCHAR(64) NOT NULL,
+        kind ENUM('error', 'unhandledrejection', 'freeze') NOT NULL,
+        message VARCHAR(1000) NOT NULL,
+        stack TEXT,
+        count INT NOT NULL DEFAULT 1,
+        first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        PRIMARY KEY (game_id, fingerprint),
+        INDEX idx_last_seen_at (last_seen_at),
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 创建submission_receipts表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS submission_receipts (
+        game_id VARCHAR(36) PRIMARY KEY,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        last_used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        FOREIGN KEY (game_id) REFERENCES games(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 创建admins表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS admins (
+        id VARCHAR(36) PRIMARY KEY,
+        username VARCHAR(100) NOT NULL UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        display_name VARCHAR(100),
+        role ENUM('reviewer', 'moderator', 'owner') NOT NULL DEFAULT 'reviewer',
+        is_active BOOLEAN DEFAULT TRUE,
+        session_version INT NOT NULL DEFAULT 0,
+        last_login_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+
+    // 升级已有的admins表
+    await addColumnIfMissing('admins', 'role', "ENUM('reviewer', 'moderator', 'owner') NOT NULL DEFAULT 'reviewer' AFTER display_name");
+    await addColumnIfMissing('admins', 'session_version', 'INT NOT NULL DEFAULT 0 AFTER is_active');
+
+    // 创建creators表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS creators (
+        id VARCHAR(36) PRIMARY KEY,
+        username VARCHAR(100) NOT NULL UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        display_name VARCHAR(100),
+        last_login_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+
+    // 创建api_tokens表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id VARCHAR(36) PRIMARY KEY,
+        name VARCHAR(100) NOT NULL UNIQUE,
+        token_prefix VARCHAR(16) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes JSON NOT NULL,
+        created_by VARCHAR(100) NOT NULL,
+        expires_at TIMESTAMP NULL,
+        revoked_at TIMESTAMP NULL,
+        last_used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     console.log('数据库表创建成功');
   } catch (error) {
     console.error('数据库表创建失败:', error);
@@ -51,6 +352,19 @@ export async function createTables() {
 // 删除所有表（用于开发环境重置）
 export async function dropTables() {
   try {
+    await db.execute(sql`DROP TABLE IF EXISTS api_tokens`);
+    await db.execute(sql`DROP TABLE IF EXISTS creators`);
+    await db.execute(sql`DROP TABLE IF EXISTS admins`);
+    await db.execute(sql`DROP TABLE IF EXISTS submission_receipts`);
+    await db.execute(sql`DROP TABLE IF EXISTS game_errors`);
+    await db.execute(sql`DROP TABLE IF EXISTS rate_limit_counters`);
+    await db.execute(sql`DROP TABLE IF EXISTS game_saves`);
+    await db.execute(sql`DROP TABLE IF EXISTS scores`);
+    await db.execute(sql`DROP TABLE IF EXISTS game_score_settings`);
+    await db.execute(sql`DROP TABLE IF EXISTS game_security_scans`);
+    await db.execute(sql`DROP TABLE IF EXISTS security_policies`);
+    await db.execute(sql`DROP TABLE IF EXISTS rejection_categories`);
+    await db.execute(sql`DROP TABLE IF EXISTS game_versions`);
     await db.execute(sql`DROP TABLE IF EXISTS review_logs`);
     await db.execute(sql`DROP TABLE IF EXISTS games`);
     console.log('数据库表删除成功');
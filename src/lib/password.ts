@@ -0,0 +1,94 @@
+/**
+ * 密码哈希工具
+ * 使用Node.js内置的scrypt算法，仅在服务端（Node运行时）使用
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// scrypt参数
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  n: number,
+  r: number,
+  p: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: n, r, p }, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+/**
+ * 生成密码哈希
+ * @param password 明文密码
+ * @returns 格式为 scrypt$N$r$p$salt$hash 的哈希字符串
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    derivedKey.toString('base64'),
+  ].join('$');
+}
+
+// 账号不存在时用于校验的哈希（首次使用时生成）
+let dummyPasswordHash: Promise<string> | null = null;
+
+/**
+ * 获取用于占位校验的密码哈希
+ * 账号不存在时同样执行一次完整的密码校验，避免通过响应时间判断账号是否存在
+ */
+export function getDummyPasswordHash(): Promise<string> {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword(randomBytes(SALT_LENGTH).toString('base64'));
+  }
+  return dummyPasswordHash;
+}
+
+/**
+ * 校验密码是否与哈希匹配
+ * @param password 明文密码
+ * @param storedHash hashPassword生成的哈希字符串
+ * @returns 是否匹配
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [, n, r, p, saltBase64, hashBase64] = parts;
+  const expected = Buffer.from(hashBase64, 'base64');
+
+  try {
+    const derivedKey = await deriveKey(
+      password,
+      Buffer.from(saltBase64, 'base64'),
+      Number(n),
+      Number(r),
+      Number(p)
+    );
+
+    return derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * 管理员角色与权限定义
+ * 不依赖数据库，可同时在服务端和客户端使用
+ */
+
+// 管理员角色
+export const ADMIN_ROLES = ['reviewer', 'moderator', 'owner'] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// 权限列表
+export const PERMISSIONS = [
+  'games:submit', // 提交游戏（用于API令牌批量导入）
+  'review:read', // 查看审核队列和审核日志
+  'review:write', // 批准/拒绝游戏
+  'review:manage', // 维护拒绝原因分类
+  'games:edit', // 编辑游戏元数据
+  'games:unpublish', // 下架已发布的游戏
+  'games:delete', // 删除游戏
+  'admins:manage', // 管理管理员账号
+  'tokens:manage', // 管理API令牌
+  'security:manage', // 修改安全配置
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// API令牌可申请的权限范围（账号和令牌管理只能由管理员本人操作）
+export const API_TOKEN_SCOPES = [
+  'games:submit',
+  'review:read',
+  'review:write',
+  'games:edit',
+  'games:unpublish',
+  'games:delete',
+  'security:manage',
+] as const satisfies readonly Permission[];
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// 各角色拥有的权限
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  reviewer: ['games:submit', 'review:read', 'review:write'],
+  moderator: ['games:submit', 'review:read', 'review:write', 'review:manage', 'games:edit', 'games:unpublish'],
+  owner: PERMISSIONS,
+};
+
+// 角色显示名称
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  reviewer: '审核员',
+  moderator: '版主',
+  owner: '所有者',
+};
+
+/**
+ * 检查角色是否拥有指定权限
+ */
+export function hasPermission(role: AdminRole | null | undefined, permission: Permission): boolean {
+  if (!role || !ROLE_PERMISSIONS[role]) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * 检查API令牌的权限范围是否包含指定权限
+ */
+export function hasScope(scopes: readonly string[] | null | undefined, permission: Permission): boolean {
+  return Array.isArray(scopes) && scopes.includes(permission);
+}
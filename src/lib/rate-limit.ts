@@ -0,0 +1,98 @@
+/**
+ * 请求频率限制
+ * 按客户端IP的HMAC哈希计数（按范围区分，同一IP在不同游戏中的标识不同），数据库中不保存原始IP；
+ * 获取不到IP时按游戏页面签发的玩家标识计数，避免所有客户端共用同一个计数。
+ * 排行榜按提交记录计数；存档写入、错误上报等没有对应记录的操作按固定时间窗口在rate_limit_counters表中计数
+ */
+
+import { createHmac } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { RateLimitDAL } from './dal';
+import { PLAYER_ID_COOKIE } from './game-storage';
+import { getSessionSecret, verifySessionToken } from './session';
+
+// 频率限制规则：每个时间窗口内最多允许的次数
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // 距离当前时间窗口结束的秒数，用于Retry-After
+  retryAfter: number;
+}
+
+// 过期计数的保留时长，超过后按一定概率在计数时顺带清理
+const COUNTER_RETENTION_MS = 24 * 60 * 60 * 1000;
+const COUNTER_CLEANUP_PROBABILITY = 0.01;
+
+/**
+ * 读取请求的客户端IP
+ * 默认只使用平台提供的IP；代理header可被客户端伪造，仅在通过TRUSTED_PROXY_HEADER显式配置时读取，
+ * 并按TRUSTED_PROXY_HOPS（可信代理层数，默认1）从右侧取最后一个由可信代理写入的地址
+ */
+export function getClientIp(request: NextRequest): string | null {
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const proxyHeader = process.env.TRUSTED_PROXY_HEADER;
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS) || 1;
+  const addresses = proxyHeader
+    ? (request.headers.get(proxyHeader) ?? '')
+        .split(',')
+        .map((address) => address.trim())
+        .filter(Boolean)
+    : [];
+  return addresses[Math.max(0, addresses.length - hops)] || null;
+}
+
+/**
+ * 读取频率限制使用的客户端标识：优先使用客户端IP，其次为游戏页面签发的玩家标识
+ * 都没有时返回null，调用方应拒绝请求
+ */
+export async function getRateLimitClient(request: NextRequest): Promise<string | null> {
+  const clientIp = getClientIp(request);
+  if (clientIp) {
+    return `ip:${clientIp}`;
+  }
+
+  const player = await verifySessionToken(request.cookies.get(PLAYER_ID_COOKIE)?.value);
+  return player && player.kind === 'player' ? `player:${player.sub}` : null;
+}
+
+/**
+ * 计算客户端标识的哈希
+ * @param scope 标识的范围（如游戏ID）
+ */
+export function hashRateLimitClient(scope: string, client: string): string {
+  return createHmac('sha256', getSessionSecret()).update(`${scope}:${client}`).digest('hex');
+}
+
+/**
+ * 计数一次请求并检查是否超过限制
+ * @param scope 限制的操作范围（如 storage:<游戏ID>）
+ * @param clientHash 客户端标识的哈希
+ */
+export async function checkRateLimit(
+  scope: string,
+  clientHash: string,
+  rule: RateLimitRule,
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000;
+  const windowStart = new Date(Math.floor(now.getTime() / windowMs) * windowMs);
+
+  if (Math.random() < COUNTER_CLEANUP_PROBABILITY) {
+    await RateLimitDAL.deleteBefore(new Date(now.getTime() - COUNTER_RETENTION_MS)).catch((error) => {
+      console.error('清理频率计数失败:', error);
+    });
+  }
+
+  const count = await RateLimitDAL.increment(scope, clientHash, windowStart);
+  return {
+    allowed: count <= rule.limit,
+    retryAfter: Math.max(1, Math.ceil((windowStart.getTime() + windowMs - now.getTime()) / 1000)),
+  };
+}
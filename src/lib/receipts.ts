@@ -0,0 +1,46 @@
+/**
+ * 匿名提交回执令牌
+ * 提交游戏时生成一次性明文令牌，数据库中仅保存SHA-256哈希
+ * 提交者凭令牌查看审核状态、修改或撤回游戏
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// 回执令牌前缀，用于和API令牌区分
+export const RECEIPT_TOKEN_PREFIX = 'mgr_';
+
+// 请求中携带回执令牌的header名称（不放在URL中，避免出现在访问日志和浏览历史里）
+export const RECEIPT_TOKEN_HEADER = 'x-receipt-token';
+
+/**
+ * 计算回执令牌哈希
+ */
+export function hashReceiptToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 生成新的回执令牌
+ * @returns 明文令牌和用于存储的哈希
+ */
+export function generateReceiptToken(): { token: string; hash: string } {
+  const token = RECEIPT_TOKEN_PREFIX + randomBytes(24).toString('base64url');
+
+  return {
+    token,
+    hash: hashReceiptToken(token),
+  };
+}
+
+/**
+ * 校验回执令牌是否与存储的哈希匹配
+ */
+export function verifyReceiptToken(token: string | null | undefined, storedHash: string): boolean {
+  if (!token || !token.startsWith(RECEIPT_TOKEN_PREFIX)) {
+    return false;
+  }
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashReceiptToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,60 @@
+/**
+ * 拒绝原因分类
+ * 分类目录保存在数据库中，由管理员维护；这里定义初始分类和拒绝原因的拼接方式。
+ * 不依赖数据库，可同时在服务端和客户端使用
+ */
+
+export interface RejectionCategoryTemplate {
+  code: string;
+  label: string;
+  template: string;
+  sortOrder: number;
+}
+
+// 初始化数据库时写入的默认分类
+export const DEFAULT_REJECTION_CATEGORIES: readonly RejectionCategoryTemplate[] = [
+  {
+    code: 'security_violation',
+    label: '安全违规',
+    template: '游戏包含不安全的代码（例如访问Cookie、存储或发起外部请求），请移除相关代码后重新提交。',
+    sortOrder: 10,
+  },
+  {
+    code: 'broken_game',
+    label: '无法运行',
+    template: '游戏无法正常加载或运行，请在本地测试后重新提交。',
+    sortOrder: 20,
+  },
+  {
+    code: 'inappropriate_content',
+    label: '内容不当',
+    template: '游戏包含不适宜公开展示的内容，请修改后重新提交。',
+    sortOrder: 30,
+  },
+  {
+    code: 'duplicate',
+    label: '重复提交',
+    template: '该游戏与已有游戏重复，请勿重复提交。',
+    sortOrder: 40,
+  },
+  {
+    code: 'low_quality',
+    label: '内容不完整',
+    template: '游戏内容过于简单或不完整，请补充后重新提交。',
+    sortOrder: 50,
+  },
+  {
+    code: 'other',
+    label: '其他',
+    template: '游戏未通过审核。',
+    sortOrder: 100,
+  },
+];
+
+/**
+ * 将分类模板和审核员的补充说明拼接为展示给提交者的拒绝原因
+ */
+export function formatRejectionReason(template: string, notes?: string | null): string {
+  const trimmedNotes = notes?.trim();
+  return trimmedNotes ? `${template}\n\n补充说明：${trimmedNotes}` : template;
+}
@@ -0,0 +1,285 @@
+/**
+ * 游戏审核服务
+ * 在同一个事务中完成游戏状态变更和审核日志写入，避免两者不一致；
+ * 状态变更以“预期的当前状态”作为乐观锁条件，并发审核时只有一个请求能成功。
+ * 版本审核同样在一个事务中完成版本状态变更、线上内容替换和日志写入。
+ * 审核员可以认领待审核的游戏，认领在租约到期前对其他审核员生效
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { GameDAL, ReviewLogDAL } from './dal';
+import { formatRejectionReason } from './rejection-categories';
+import {
+  games,
+  gameVersions,
+  reviewLogs,
+  type Game,
+  type GameVersion,
+  type RejectionCategory,
+  type ReviewedGameStatus,
+} from './schema';
+import type { AdminRole } from './permissions';
+
+// 审核操作
+export type ReviewAction = 'approve' | 'reject' | 'unpublish';
+
+// 各审核操作要求的当前状态和变更后的状态
+export const REVIEW_TRANSITIONS: Record<
+  ReviewAction,
+  { from: NonNullable<Game['status']>; to: ReviewedGameStatus }
+> = {
+  approve: { from: 'pending', to: 'approved' },
+  reject: { from: 'pending', to: 'rejected' },
+  unpublish: { from: 'approved', to: 'unpublished' },
+};
+
+export interface ReviewInput {
+  gameId: string;
+  action: ReviewAction;
+  // 拒绝时为审核员的补充说明，会拼接在分类模板之后
+  reason?: string;
+  category?: RejectionCategory | null;
+  reviewer: string;
+  reviewerRole?: AdminRole | null;
+}
+
+export interface VersionReviewInput extends Omit<ReviewInput, 'gameId' | 'action' | 'category'> {
+  version: GameVersion;
+  action: Exclude<ReviewAction, 'unpublish'>;
+}
+
+// 版本审核结果，批准时game为替换内容后的游戏
+export interface VersionReviewResult {
+  version: GameVersion;
+  game: Game | null;
+}
+
+// 认领租约时长
+export const REVIEW_CLAIM_LEASE_MS = 30 * 60 * 1000;
+
+// 获取其他审核员仍在有效期内的认领，没有时返回null
+export function getOtherClaimant(
+  game: Pick<Game, 'claimedBy' | 'claimExpiresAt'>,
+  reviewer: string,
+  now: Date = new Date()
+): string | null {
+  if (!game.claimedBy || game.claimedBy === reviewer) {
+    return null;
+  }
+  return game.claimExpiresAt && game.claimExpiresAt > now ? game.claimedBy : null;
+}
+
+// 认领/释放操作的审核员信息
+export type ClaimActor = Pick<ReviewInput, 'reviewer' | 'reviewerRole'>;
+
+// 批量审核中单个游戏的处理结果
+export type BatchReviewItemStatus =
+  | 'reviewed'
+  | 'invalid'
+  | 'not_found'
+  | 'skipped'
+  | 'claimed'
+  | 'conflict'
+  | 'error';
+
+export interface BatchReviewItemResult {
+  gameId: string;
+  status: BatchReviewItemStatus;
+  message?: string;
+}
+
+export interface BatchReviewInput extends Omit<ReviewInput, 'gameId' | 'action'> {
+  gameIds: string[];
+  action: Exclude<ReviewAction, 'unpublish'>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class ReviewService {
+  /**
+   * 执行审核操作
+   * @returns 审核后的游戏；游戏状态已被其他请求变更（或游戏不存在）时返回null
+   */
+  static async review({ gameId, action, reason, category, reviewer, reviewerRole }: ReviewInput): Promise<Game | null> {
+    const transition = REVIEW_TRANSITIONS[action];
+    const statusReason = action === 'reject' && category ? formatRejectionReason(category.template, reason) : reason;
+
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx
+          .update(games)
+          .set(GameDAL.buildStatusUpdate(transition.to, reviewer, statusReason))
+          .where(and(eq(games.id, gameId), eq(games.status, transition.from)));
+
+        // 没有行被更新说明状态已经变化，不写日志直接结束
+        if (result.rowsAffected === 0) {
+          return null;
+        }
+
+        await tx.insert(reviewLogs).values({
+          gameId,
+          action,
+          reason: reason || null,
+          category: category?.code ?? null,
+          reviewer,
+          reviewerRole: reviewerRole ?? null,
+        });
+
+        const [game] = await tx.select().from(games).where(eq(games.id, gameId));
+        return game || null;
+      });
+    } catch (error) {
+      throw new Error(`Failed to review game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 审核游戏版本，批准时将版本内容设为线上版本
+   * @returns 审核结果；版本已被其他请求审核时返回null
+   */
+  static async reviewVersion({
+    version,
+    action,
+    reason,
+    reviewer,
+    reviewerRole,
+  }: VersionReviewInput): Promise<VersionReviewResult | null> {
+    const status = action === 'approve' ? 'approved' : 'rejected';
+
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx
+          .update(gameVersions)
+          .set({
+            status,
+            reviewedBy: reviewer,
+            reviewedAt: new Date(),
+            rejectionReason: status === 'rejected' ? reason : null,
+          })
+          .where(and(eq(gameVersions.id, version.id), eq(gameVersions.status, 'pending')));
+
+        // 没有行被更新说明版本已经被审核，不替换内容也不写日志
+        if (result.rowsAffected === 0) {
+          return null;
+        }
+
+        if (action === 'approve') {
+          await tx.update(games).set(GameDAL.buildVersionUpdate(version)).where(eq(games.id, version.gameId));
+        }
+
+        await tx.insert(reviewLogs).values({
+          gameId: version.gameId,
+          action,
+          reason: reason || null,
+          reviewer,
+          reviewerRole: reviewerRole ?? null,
+          versionId: version.id,
+        });
+
+        const [reviewedVersion] = await tx.select().from(gameVersions).where(eq(gameVersions.id, version.id));
+        const [game] = action === 'approve' ? await tx.select().from(games).where(eq(games.id, version.gameId)) : [];
+        return { version: reviewedVersion, game: game || null };
+      });
+    } catch (error) {
+      throw new Error(`Failed to review game version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * 批量审核待审核的游戏
+   * 每个游戏单独开启事务并写入审核日志，某一项失败不影响其他游戏
+   */
+  static async batchReview({ gameIds, action, ...rest }: BatchReviewInput): Promise<BatchReviewItemResult[]> {
+    const results: BatchReviewItemResult[] = [];
+
+    for (const gameId of Array.from(new Set(gameIds))) {
+      if (!UUID_PATTERN.test(gameId)) {
+        results.push({ gameId, status: 'invalid', message: '游戏ID格式不正确' });
+        continue;
+      }
+
+      try {
+        const game = await GameDAL.getById(gameId);
+        if (!game) {
+          results.push({ gameId, status: 'not_found', message: '游戏不存在' });
+          continue;
+        }
+
+        if (game.status !== REVIEW_TRANSITIONS[action].from) {
+          results.push({ gameId, status: 'skipped', message: '游戏不是待审核状态' });
+          continue;
+        }
+
+        const claimant = getOtherClaimant(game, rest.reviewer);
+        if (claimant) {
+          results.push({ gameId, status: 'claimed', message: `游戏已被 ${claimant} 认领` });
+          continue;
+        }
+
+        const reviewed = await this.review({ gameId, action, ...rest });
+        results.push(
+          reviewed
+            ? { gameId, status: 'reviewed' }
+            : { gameId, status: 'conflict', message: '游戏状态已被其他审核员变更' }
+        );
+      } catch (error) {
+        results.push({
+          gameId,
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 认领待审核的游戏，已由自己认领时续期租约
+   * @returns 认领后的游戏；游戏不是待审核状态或已被其他审核员认领时返回null
+   */
+  static async claim(gameId: string, { reviewer, reviewerRole }: ClaimActor): Promise<Game | null> {
+    const existing = await GameDAL.getById(gameId);
+    const expiresAt = new Date(Date.now() + REVIEW_CLAIM_LEASE_MS);
+    const game = await GameDAL.claim(gameId, reviewer, expiresAt);
+
+    // 续期不重复记录日志
+    const renewed =
+      existing?.claimedBy === reviewer && !!existing.claimExpiresAt && existing.claimExpiresAt > new Date();
+    if (game && !renewed) {
+      await ReviewLogDAL.create({ gameId, action: 'claim', reviewer, reviewerRole: reviewerRole ?? null });
+    }
+
+    return game;
+  }
+
+  /**
+   * 释放自己的认领
+   * @returns 释放后的游戏；游戏不是由该审核员认领时返回null
+   */
+  static async release(gameId: string, { reviewer, reviewerRole }: ClaimActor): Promise<Game | null> {
+    const game = await GameDAL.releaseClaim(gameId, reviewer);
+    if (game) {
+      await ReviewLogDAL.create({ gameId, action: 'release', reviewer, reviewerRole: reviewerRole ?? null });
+    }
+    return game;
+  }
+
+  /**
+   * 认领下一个未被认领的待审核游戏（按提交时间先后）
+   * 候选游戏被其他审核员抢先认领时继续尝试下一个
+   */
+  static async claimNext(actor: ClaimActor): Promise<Game | null> {
+    const candidates = await GameDAL.getUnclaimedPending();
+
+    for (const candidate of candidates) {
+      const game = await this.claim(candidate.id, actor);
+      if (game) {
+        return game;
+      }
+    }
+
+    return null;
+  }
+}
@@ -1,4 +1,8 @@
-import { mysqlTable, varchar, text, longtext, timestamp, int, mysqlEnum } from 'drizzle-orm/mysql-core';
+import { ADMIN_ROLES, type ApiTokenScope } from './permissions';
+import type { StoredSecurityConfig } from './security-policy';
+import type { SecurityFinding } from './security';
+import { GAME_ERROR_KINDS } from './game-errors';
+import { mysqlTable, varchar, text, mediumtext, longtext, timestamp, int, mysqlEnum, boolean, json, double, primaryKey } from 'drizzle-orm/mysql-core';
 
 // 游戏表
 export const games = mysqlTable('games', {
@@ -7,29 +11,235 @@ export const games = mysqlTable('games', {
   description: text('description'),
   htmlContent: longtext('html_content').notNull(),
   authorName: varchar('author_name', { length: 100 }),
-  status: mysqlEnum('status', ['pending', 'approved', 'rejected']).default('pending'),
+  status: mysqlEnum('status', ['pending', 'approved', 'rejected', 'withdrawn', 'unpublished', 'deleted']).default('pending'),
   rejectionReason: text('rejection_reason'),
+  appealMessage: text('appeal_message'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
   approvedAt: timestamp('approved_at'),
   approvedBy: varchar('approved_by', { length: 100 }),
+  unpublishedAt: timestamp('unpublished_at'),
+  unpublishReason: text('unpublish_reason'),
+  submittedBy: varchar('submitted_by', { length: 100 }),
+  ownerId: varchar('owner_id', { length: 36 }),
+  currentVersionId: varchar('current_version_id', { length: 36 }),
+  deletedAt: timestamp('deleted_at'),
+  claimedBy: varchar('claimed_by', { length: 100 }),
+  claimExpiresAt: timestamp('claim_expires_at'),
+  securityPolicyVersion: int('security_policy_version'),
+});
+
+// 游戏版本表（已发布游戏的每次更新作为一个修订版本，单独审核）
+export const gameVersions = mysqlTable('game_versions', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  gameId: varchar('game_id', { length: 36 }).notNull(),
+  versionNumber: int('version_number').notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  description: text('description'),
+  htmlContent: longtext('html_content').notNull(),
+  changelog: text('changelog'),
+  status: mysqlEnum('status', ['pending', 'approved', 'rejected', 'withdrawn']).default('pending'),
+  rejectionReason: text('rejection_reason'),
+  submittedBy: varchar('submitted_by', { length: 100 }),
+  reviewedBy: varchar('reviewed_by', { length: 100 }),
+  reviewedAt: timestamp('reviewed_at'),
+  securityPolicyVersion: int('security_policy_version'),
+  createdAt: timestamp('created_at').defaultNow(),
 });
 
 // 审核日志表
 export const reviewLogs = mysqlTable('review_logs', {
   id: int('id').primaryKey().autoincrement(),
   gameId: varchar('game_id', { length: 36 }).notNull(),
-  action: mysqlEnum('action', ['approve', 'reject']).notNull(),
+  action: mysqlEnum('action', ['approve', 'reject', 'unpublish', 'appeal', 'withdraw', 'rollback', 'edit', 'delete', 'claim', 'release', 'rescan']).notNull(),
   reason: text('reason'),
+  category: varchar('category', { length: 50 }),
   reviewer: varchar('reviewer', { length: 100 }).notNull(),
+  reviewerRole: mysqlEnum('reviewer_role', ADMIN_ROLES),
+  versionId: varchar('version_id', { length: 36 }),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// 拒绝原因分类表（停用的分类保留，以便历史审核日志仍能显示分类名称）
+export const rejectionCategories = mysqlTable('rejection_categories', {
+  code: varchar('code', { length: 50 }).primaryKey(),
+  label: varchar('label', { length: 100 }).notNull(),
+  template: text('template').notNull(),
+  isActive: boolean('is_active').default(true),
+  sortOrder: int('sort_order').default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// 安全策略表（每次修改生成新版本，同一时间只有一个版本生效）
+export const securityPolicies = mysqlTable('security_policies', {
+  version: int('version').primaryKey(),
+  config: json('config').$type<StoredSecurityConfig>().notNull(),
+  isActive: boolean('is_active').default(false),
+  note: text('note'),
+  createdBy: varchar('created_by', { length: 100 }).notNull(),
+  activatedAt: timestamp('activated_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// 游戏安全复查结果表（每个游戏保留最近一次复查的结果）
+export const gameSecurityScans = mysqlTable('game_security_scans', {
+  gameId: varchar('game_id', { length: 36 }).primaryKey(),
+  policyVersion: int('policy_version'),
+  gameStatus: mysqlEnum('game_status', ['pending', 'approved', 'rejected', 'withdrawn', 'unpublished', 'deleted']).notNull(),
+  errorCount: int('error_count').notNull().default(0),
+  warningCount: int('warning_count').notNull().default(0),
+  findings: json('findings').$type<SecurityFinding[]>().notNull(),
+  // 已发布但不再符合安全策略的游戏
+  flagged: boolean('flagged').default(false),
+  scannedAt: timestamp('scanned_at').defaultNow(),
+});
+
+// 游戏排行榜设置表（没有设置的游戏使用默认设置）
+export const gameScoreSettings = mysqlTable('game_score_settings', {
+  gameId: varchar('game_id', { length: 36 }).primaryKey(),
+  // desc表示分数越高越好，asc表示越低越好（如用时）
+  sortOrder: mysqlEnum('sort_order', ['desc', 'asc']).notNull().default('desc'),
+  // 合理分数范围，超出范围的分数不会被记录
+  minScore: double('min_score'),
+  maxScore: double('max_score'),
+  // 分数单位，如"分"、"秒"
+  unit: varchar('unit', { length: 20 }),
+  // 同一玩家在时间窗口内最多提交的次数
+  rateLimitCount: int('rate_limit_count').notNull().default(5),
+  rateLimitWindowSeconds: int('rate_limit_window_seconds').notNull().default(60),
+  updatedBy: varchar('updated_by', { length: 100 }),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// 游戏分数表
+export const scores = mysqlTable('scores', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  gameId: varchar('game_id', { length: 36 }).notNull(),
+  playerName: varchar('player_name', { length: 30 }).notNull(),
+  score: double('score').notNull(),
+  // 提交者标识的哈希（用于限流，不保存原始IP）
+  clientHash: varchar('client_hash', { length: 64 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// 游戏存档表（按游戏和玩家隔离的键值存储）
+export const gameSaves = mysqlTable('game_saves', {
+  gameId: varchar('game_id', { length: 36 }).notNull(),
+  // 存档所有者：creator:<创作者ID> 或 player:<浏览器标识>
+  ownerKey: varchar('owner_key', { length: 64 }).notNull(),
+  key: varchar('save_key', { length: 100 }).notNull(),
+  value: mediumtext('value').notNull(),
+  // 值的UTF-8字节数，用于配额检查
+  size: int('size').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.gameId, table.ownerKey, table.key] }),
+}));
+
+// 请求频率计数表（按操作范围、客户端哈希和固定时间窗口计数）
+export const rateLimitCounters = mysqlTable('rate_limit_counters', {
+  scope: varchar('scope', { length: 100 }).notNull(),
+  clientHash: varchar('client_hash', { length: 64 }).notNull(),
+  windowStart: timestamp('window_start').notNull(),
+  count: int('count').notNull().default(1),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.scope, table.clientHash, table.windowStart] }),
+}));
+
+// 游戏运行错误表（按错误特征聚合）
+export const gameErrors = mysqlTable('game_errors', {
+  gameId: varchar('game_id', { length: 36 }).notNull(),
+  // 错误类型、信息和堆栈首行的SHA-256哈希
+  fingerprint: varchar('fingerprint', { length: 64 }).notNull(),
+  kind: mysqlEnum('kind', GAME_ERROR_KINDS).notNull(),
+  message: varchar('message', { length: 1000 }).notNull(),
+  // 最近一次出现时的堆栈
+  stack: text('stack'),
+  count: int('count').notNull().default(1),
+  firstSeenAt: timestamp('first_seen_at').defaultNow(),
+  lastSeenAt: timestamp('last_seen_at').defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.gameId, table.fingerprint] }),
+}));
+
+// 匿名提交回执表（仅保存回执令牌哈希）
+export const submissionReceipts = mysqlTable('submission_receipts', {
+  gameId: varchar('game_id', { length: 36 }).primaryKey(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// 管理员表
+export const admins = mysqlTable('admins', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  username: varchar('username', { length: 100 }).notNull().unique(),
+  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  displayName: varchar('display_name', { length: 100 }),
+  role: mysqlEnum('role', ADMIN_ROLES).notNull().default('reviewer'),
+  isActive: boolean('is_active').default(true),
+  sessionVersion: int('session_version').notNull().default(0), // 修改密码时递增，使已签发的会话失效
+  lastLoginAt: timestamp('last_login_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// 创作者表（游戏提交者账号）
+export const creators = mysqlTable('creators', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  username: varchar('username', { length: 100 }).notNull().unique(),
+  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  displayName: varchar('display_name', { length: 100 }),
+  lastLoginAt: timestamp('last_login_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// API令牌表（仅保存令牌哈希）
+export const apiTokens = mysqlTable('api_tokens', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  scopes: json('scopes').$type<ApiTokenScope[]>().notNull(),
+  createdBy: varchar('created_by', { length: 100 }).notNull(),
+  expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
+  lastUsedAt: timestamp('last_used_at'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
 // TypeScript类型定义
 export type Game = typeof games.$inferSelect;
 export type NewGame = typeof games.$inferInsert;
+export type GameVersion = typeof gameVersions.$inferSelect;
+export type NewGameVersion = typeof gameVersions.$inferInsert;
 export type ReviewLog = typeof reviewLogs.$inferSelect;
 export type NewReviewLog = typeof reviewLogs.$inferInsert;
+export type RejectionCategory = typeof rejectionCategories.$inferSelect;
+export type NewRejectionCategory = typeof rejectionCategories.$inferInsert;
+export type SecurityPolicy = typeof securityPolicies.$inferSelect;
+export type NewSecurityPolicy = typeof securityPolicies.$inferInsert;
+export type GameSecurityScan = typeof gameSecurityScans.$inferSelect;
+export type NewGameSecurityScan = typeof gameSecurityScans.$inferInsert;
+export type GameScoreSettings = typeof gameScoreSettings.$inferSelect;
+export type NewGameScoreSettings = typeof gameScoreSettings.$inferInsert;
+export type Score = typeof scores.$inferSelect;
+export type NewScore = typeof scores.$inferInsert;
+export type GameSave = typeof gameSaves.$inferSelect;
+export type NewGameSave = typeof gameSaves.$inferInsert;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+export type GameError = typeof gameErrors.$inferSelect;
+export type NewGameError = typeof gameErrors.$inferInsert;
+export type SubmissionReceipt = typeof submissionReceipts.$inferSelect;
+export type NewSubmissionReceipt = typeof submissionReceipts.$inferInsert;
+export type Admin = typeof admins.$inferSelect;
+export type NewAdmin = typeof admins.$inferInsert;
+export type Creator = typeof creators.$inferSelect;
+export type NewCreator = typeof creators.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
 
 // 扩展的接口定义，包含业务逻辑相关的类型
 export interface GameWithMetadata extends Game {
@@ -39,14 +249,32 @@ export interface GameWithMetadata extends Game {
   canBeShared: boolean;
 }
 
+// 管理员查看的游戏运行错误汇总
+export interface GameErrorSummary {
+  gameId: string;
+  title: string;
+  authorName: string | null;
+  status: Game['status'];
+  // 错误分组数和总出现次数
+  groups: number;
+  occurrences: number;
+  lastSeenAt: Date | null;
+}
+
+// 审核操作可以将游戏变更到的状态
+export type ReviewedGameStatus = 'approved' | 'rejected' | 'unpublished';
+
 export interface GameListItem {
   id: string;
   title: string;
   description: string | null;
   authorName: string | null;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn' | 'unpublished' | 'deleted';
   createdAt: Date;
   approvedAt: Date | null;
+  // 仅审核列表返回认领信息
+  claimedBy?: string | null;
+  claimExpiresAt?: Date | null;
 }
 
 export interface GameSubmission {
@@ -58,4 +286,61 @@ export interface GameSubmission {
 
 export interface ReviewLogWithGame extends ReviewLog {
   game: GameListItem;
-}
\ No newline at end of file
+}
+
+// 审核统计（按分类统计拒绝数，category为null表示未分类）
+export interface ReviewStats {
+  totalReviews: number;
+  approvals: number;
+  rejections: number;
+  rejectionsByCategory: { category: string | null; count: number }[];
+}
+
+// 游戏版本列表项（不包含HTML内容）
+export type GameVersionListItem = Omit<GameVersion, 'htmlContent'>;
+
+// 待审核的游戏版本（带游戏信息）
+export interface PendingGameVersion extends GameVersionListItem {
+  game: {
+    id: string;
+    title: string;
+    authorName: string | null;
+    currentVersionId: string | null;
+  };
+}
+
+// 管理员公开信息（不包含密码哈希）
+export type AdminProfile = Omit<Admin, 'passwordHash'>;
+
+// 创作者公开信息（不包含密码哈希）
+export type CreatorProfile = Omit<Creator, 'passwordHash'>;
+
+// 创作者的游戏（含拒绝原因和审核记录，审核记录不包含审核员信息）
+export type CreatorGameItem = Pick<
+  Game,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'authorName'
+  | 'status'
+  | 'rejectionReason'
+  | 'appealMessage'
+  | 'unpublishReason'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'approvedAt'
+>;
+
+export interface CreatorGame extends CreatorGameItem {
+  reviewLogs: Omit<ReviewLog, 'reviewer' | 'reviewerRole'>[];
+  // 已记录的运行错误总次数
+  errorCount: number;
+}
+
+// 被安全复查标记的游戏（带游戏当前的信息）
+export interface FlaggedGameSecurityScan extends GameSecurityScan {
+  game: Pick<Game, 'id' | 'title' | 'authorName' | 'status'>;
+}
+
+// API令牌公开信息（不包含令牌哈希）
+export type ApiTokenInfo = Omit<ApiToken, 'tokenHash'>;
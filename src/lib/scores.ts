@@ -0,0 +1,48 @@
+/**
+ * 游戏排行榜
+ * 玩家在游戏结束时通过桥接SDK报告分数，由平台页面提交到排行榜。
+ * 每个游戏可以设置排序方向、合理分数范围和提交频率限制；
+ * 限流按提交者IP的HMAC哈希（见rate-limit）计数，数据库中不保存原始IP
+ */
+
+import type { GameScoreSettings } from './schema';
+
+// 排行榜设置（不含更新信息）
+export type ScoreSettings = Pick<
+  GameScoreSettings,
+  'sortOrder' | 'minScore' | 'maxScore' | 'unit' | 'rateLimitCount' | 'rateLimitWindowSeconds'
+>;
+
+// 排行榜中的一条记录（不包含提交者标识）
+export interface LeaderboardEntry {
+  rank: number;
+  playerName: string;
+  score: number;
+  createdAt: Date | null;
+}
+
+// 没有单独设置的游戏使用的默认设置
+export const DEFAULT_SCORE_SETTINGS: ScoreSettings = {
+  sortOrder: 'desc',
+  minScore: 0,
+  maxScore: null,
+  unit: null,
+  rateLimitCount: 5,
+  rateLimitWindowSeconds: 60,
+};
+
+/**
+ * 检查分数是否在游戏设置的合理范围内
+ */
+export function isScorePlausible(score: number, settings: Pick<ScoreSettings, 'minScore' | 'maxScore'>): boolean {
+  if (!Number.isFinite(score)) {
+    return false;
+  }
+  if (settings.minScore !== null && score < settings.minScore) {
+    return false;
+  }
+  if (settings.maxScore !== null && score > settings.maxScore) {
+    return false;
+  }
+  return true;
+}
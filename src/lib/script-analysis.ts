@@ -0,0 +1,817 @@
+/**
+ * 游戏脚本静态分析
+ * 将<script>内容解析为JavaScript语法树，检测对网络、存储、页面跳转等全局API的访问。
+ * 通过作用域跟踪区分局部变量和全局对象，能识别 window['fe' + 'tch']、别名和解构等写法
+ */
+
+import { parse, type AnyNode, type Expression, type Pattern } from 'acorn';
+
+// 受限API的类别
+export const FORBIDDEN_API_CATEGORIES = ['network', 'storage', 'navigation', 'code_execution', 'file'] as const;
+export type ForbiddenApiCategory = (typeof FORBIDDEN_API_CATEGORIES)[number];
+
+// 受限的全局API，api为以点分隔的全局路径（如 document.cookie）
+export interface ForbiddenApi {
+  api: string;
+  category: ForbiddenApiCategory;
+  // 允许只读访问的成员（如 location.reload）
+  allowedMembers?: string[];
+}
+
+export type ScriptFindingCode = 'FORBIDDEN_API' | 'DYNAMIC_GLOBAL_ACCESS' | 'SCRIPT_PARSE_ERROR';
+
+// 分析结果，行列号相对于脚本内容（均从1开始）
+export interface ScriptFinding {
+  code: ScriptFindingCode;
+  severity: 'error' | 'warning';
+  message: string;
+  // 命中的规则，如 api:fetch
+  ruleId: string;
+  line: number;
+  column: number;
+}
+
+export interface ScriptAnalysisOptions {
+  forbiddenApis: ForbiddenApi[];
+  sourceType?: 'script' | 'module';
+}
+
+const CATEGORY_LABELS: Record<ForbiddenApiCategory, string> = {
+  network: '网络请求',
+  storage: '存储',
+  navigation: '页面跳转',
+  code_execution: '动态代码执行',
+  file: '文件',
+};
+
+// 指向全局对象本身的名称
+const GLOBAL_OBJECT_NAMES = ['window', 'self', 'globalThis', 'top', 'parent', 'frames'];
+
+// 以字符串为参数时会执行代码的定时器
+const STRING_TIMERS = ['setTimeout', 'setInterval'];
+
+interface Binding {
+  // 指向的全局路径（如 const w = window 时为 []）
+  alias?: string[];
+  // 常量字符串的值，用于解析计算属性名
+  value?: string;
+}
+
+interface Scope {
+  bindings: Map<string, Binding>;
+  parent: Scope | null;
+  // 顶层、非严格模式下的普通函数和其中的箭头函数中，this指向全局对象
+  thisIsGlobal: boolean;
+  strict: boolean;
+}
+
+// 解析出的全局路径，[] 表示全局对象本身；dynamic表示最后一级成员无法静态确定
+interface ResolvedPath {
+  segments: string[];
+  dynamic: boolean;
+}
+
+interface AnalysisContext {
+  apis: ForbiddenApi[];
+  findings: ScriptFinding[];
+}
+
+function createScope(
+  parent: Scope | null,
+  names: string[],
+  thisIsGlobal = parent?.thisIsGlobal ?? true,
+  strict = parent?.strict ?? false
+): Scope {
+  return {
+    bindings: new Map(names.map((name) => [name, {}])),
+    parent,
+    thisIsGlobal,
+    strict,
+  };
+}
+
+// 语句列表开头是否有 'use strict' 指令
+function hasUseStrict(statements: AnyNode[]): boolean {
+  for (const statement of statements) {
+    if (statement.type !== 'ExpressionStatement' || statement.directive === undefined) {
+      return false;
+    }
+    if (statement.directive === 'use strict') {
+      return true;
+    }
+  }
+  return false;
+}
+
+function lookupBinding(scope: Scope | null, name: string): Binding | null {
+  for (let current = scope; current; current = current.parent) {
+    const binding = current.bindings.get(name);
+    if (binding) {
+      return binding;
+    }
+  }
+  return null;
+}
+
+// 获取解构模式中声明的变量名
+function getPatternNames(pattern: Pattern | null | undefined): string[] {
+  if (!pattern) {
+    return [];
+  }
+
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap((property) =>
+        getPatternNames(property.type === 'RestElement' ? property.argument : property.value)
+      );
+    case 'ArrayPattern':
+      return pattern.elements.flatMap((element) => getPatternNames(element));
+    case 'RestElement':
+      return getPatternNames(pattern.argument);
+    case 'AssignmentPattern':
+      return getPatternNames(pattern.left);
+    default:
+      return [];
+  }
+}
+
+// 收集var声明和函数声明（会提升到函数作用域），不进入嵌套函数
+function collectVarNames(statement: AnyNode | null | undefined, names: string[]): void {
+  if (!statement) {
+    return;
+  }
+
+  switch (statement.type) {
+    case 'VariableDeclaration':
+      if (statement.kind === 'var') {
+        names.push(...statement.declarations.flatMap((declarator) => getPatternNames(declarator.id)));
+      }
+      break;
+    case 'FunctionDeclaration':
+      if (statement.id) {
+        names.push(statement.id.name);
+      }
+      break;
+    case 'ExportNamedDeclaration':
+      collectVarNames(statement.declaration, names);
+      break;
+    case 'BlockStatement':
+      statement.body.forEach((child) => collectVarNames(child, names));
+      break;
+    case 'IfStatement':
+      collectVarNames(statement.consequent, names);
+      collectVarNames(statement.alternate, names);
+      break;
+    case 'ForStatement':
+      if (statement.init?.type === 'VariableDeclaration') {
+        collectVarNames(statement.init, names);
+      }
+      collectVarNames(statement.body, names);
+      break;
+    case 'ForInStatement':
+    case 'ForOfStatement':
+      if (statement.left.type === 'VariableDeclaration') {
+        collectVarNames(statement.left, names);
+      }
+      collectVarNames(statement.body, names);
+      break;
+    case 'WhileStatement':
+    case 'DoWhileStatement':
+    case 'LabeledStatement':
+    case 'WithStatement':
+      collectVarNames(statement.body, names);
+      break;
+    case 'TryStatement':
+      collectVarNames(statement.block, names);
+      collectVarNames(statement.handler?.body, names);
+      collectVarNames(statement.finalizer, names);
+      break;
+    case 'SwitchStatement':
+      statement.cases.forEach((switchCase) => switchCase.consequent.forEach((child) => collectVarNames(child, names)));
+      break;
+  }
+}
+
+// 收集块级作用域中直接声明的let/const/class/function
+function collectLexicalNames(statements: AnyNode[]): string[] {
+  return statements.flatMap((statement) => {
+    const declaration =
+      statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+        ? statement.declaration
+        : statement;
+
+    switch (declaration?.type) {
+      case 'VariableDeclaration':
+        return declaration.kind === 'var' ? [] : declaration.declarations.flatMap((d) => getPatternNames(d.id));
+      case 'ClassDeclaration':
+      case 'FunctionDeclaration':
+        return declaration.id ? [declaration.id.name] : [];
+      case 'ImportDeclaration':
+        return declaration.specifiers.map((specifier) => specifier.local.name);
+      default:
+        return [];
+    }
+  });
+}
+
+// 计算可静态确定的字符串（字面量、无插值的模板、字符串拼接和字符串常量）
+function evaluateString(node: AnyNode, scope: Scope): string | null {
+  switch (node.type) {
+    case 'Literal':
+      return typeof node.value === 'string' || typeof node.value === 'number' ? String(node.value) : null;
+    case 'TemplateLiteral': {
+      let result = node.quasis[0]?.value.cooked ?? '';
+      for (let i = 0; i < node.expressions.length; i++) {
+        const value = evaluateString(node.expressions[i], scope);
+        if (value === null) {
+          return null;
+        }
+        result += value + (node.quasis[i + 1]?.value.cooked ?? '');
+      }
+      return result;
+    }
+    case 'BinaryExpression': {
+      if (node.operator !== '+' || node.left.type === 'PrivateIdentifier') {
+        return null;
+      }
+      const left = evaluateString(node.left, scope);
+      const right = left === null ? null : evaluateString(node.right, scope);
+      return left === null || right === null ? null : left + right;
+    }
+    case 'Identifier':
+      return lookupBinding(scope, node.name)?.value ?? null;
+    default:
+      return null;
+  }
+}
+
+// 获取成员表达式的成员名，计算属性无法静态确定时返回null
+function getMemberKey(node: Extract<AnyNode, { type: 'MemberExpression' }>, scope: Scope): string | null {
+  if (node.computed) {
+    return evaluateString(node.property, scope);
+  }
+  return node.property.type === 'Identifier' ? node.property.name : null;
+}
+
+// 表达式的值是否为函数（其constructor即为Function）
+function reachesFunctionPrototype(node: AnyNode, scope: Scope): boolean {
+  switch (node.type) {
+    case 'FunctionExpression':
+    case 'ArrowFunctionExpression':
+    case 'ClassExpression':
+      return true;
+    case 'MemberExpression':
+      return getMemberKey(node, scope) === 'constructor';
+    default:
+      return false;
+  }
+}
+
+// 解析表达式指向的全局路径，局部变量或无法确定时返回null
+function resolvePath(node: AnyNode, scope: Scope): ResolvedPath | null {
+  switch (node.type) {
+    case 'Identifier': {
+      const binding = lookupBinding(scope, node.name);
+      if (binding) {
+        return binding.alias ? { segments: binding.alias, dynamic: false } : null;
+      }
+      return { segments: GLOBAL_OBJECT_NAMES.includes(node.name) ? [] : [node.name], dynamic: false };
+    }
+    case 'ThisExpression':
+      return scope.thisIsGlobal ? { segments: [], dynamic: false } : null;
+    case 'ChainExpression':
+      return resolvePath(node.expression, scope);
+    case 'SequenceExpression':
+      return resolvePath(node.expressions[node.expressions.length - 1], scope);
+    case 'MemberExpression': {
+      const key = getMemberKey(node, scope);
+      // x.constructor.constructor 和函数字面量的constructor都指向Function构造函数
+      if (key === 'constructor' && reachesFunctionPrototype(node.object, scope)) {
+        return { segments: ['Function'], dynamic: false };
+      }
+      // 任意节点的ownerDocument都是当前文档（如 el.ownerDocument.defaultView 即全局对象）
+      if (key === 'ownerDocument') {
+        return { segments: ['document'], dynamic: false };
+      }
+
+      const base = resolvePath(node.object, scope);
+      if (!base || base.dynamic) {
+        return null;
+      }
+
+      if (key === null) {
+        return { segments: base.segments, dynamic: true };
+      }
+
+      // window.window、window.top、document.defaultView 等仍指向全局对象
+      const isGlobalObject =
+        (base.segments.length === 0 && GLOBAL_OBJECT_NAMES.includes(key)) ||
+        (base.segments.length === 1 && base.segments[0] === 'document' && key === 'defaultView');
+      return { segments: isGlobalObject ? [] : [...base.segments, key], dynamic: false };
+    }
+    default:
+      return null;
+  }
+}
+
+// 查找路径命中的受限API；strict为true时忽略只读成员白名单（写入或成员名无法确定时）
+function matchApi(segments: string[], apis: ForbiddenApi[], strict: boolean): ForbiddenApi | null {
+  return (
+    apis.find((api) => {
+      const parts = api.api.split('.');
+      if (segments.length < parts.length || parts.some((part, i) => segments[i] !== part)) {
+        return false;
+      }
+      const member = segments[parts.length];
+      return strict || member === undefined || !api.allowedMembers?.includes(member);
+    }) || null
+  );
+}
+
+function report(
+  context: AnalysisContext,
+  node: AnyNode,
+  code: ScriptFindingCode,
+  severity: ScriptFinding['severity'],
+  message: string,
+  ruleId: string
+): void {
+  context.findings.push({
+    code,
+    severity,
+    message,
+    ruleId,
+    line: node.loc?.start.line ?? 1,
+    column: (node.loc?.start.column ?? 0) + 1,
+  });
+}
+
+function reportApi(context: AnalysisContext, node: AnyNode, api: ForbiddenApi): void {
+  report(context, node, 'FORBIDDEN_API', 'error', `检测到${CATEGORY_LABELS[api.category]}API "${api.api}"`, `api:${api.api}`);
+}
+
+// 检查访问的全局路径，返回是否已报告
+function checkPath(context: AnalysisContext, node: AnyNode, resolved: ResolvedPath, write = false): boolean {
+  const api = matchApi(resolved.segments, context.apis, write || resolved.dynamic);
+  if (api) {
+    reportApi(context, node, api);
+    return true;
+  }
+
+  // 无法确定的成员访问：全局对象或受限API的上级对象（如 document[name]）给出警告
+  if (resolved.dynamic) {
+    const prefix = resolved.segments.join('.');
+    const isSensitive =
+      resolved.segments.length === 0 || context.apis.some((api) => api.api.startsWith(`${prefix}.`));
+    if (isSensitive) {
+      report(
+        context,
+        node,
+        'DYNAMIC_GLOBAL_ACCESS',
+        'warning',
+        `无法静态确定对 "${prefix || 'window'}" 的成员访问`,
+        'api:dynamic-member'
+      );
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// 记录变量指向的全局路径或常量值，用于跟踪别名
+function bindValue(name: string, value: Expression, scope: Scope): void {
+  const binding = lookupBinding(scope, name);
+  if (!binding) {
+    return;
+  }
+
+  const resolved = resolvePath(value, scope);
+  binding.alias = resolved && !resolved.dynamic ? resolved.segments : undefined;
+  binding.value = evaluateString(value, scope) ?? undefined;
+}
+
+// 从全局对象解构时检查每个解构出的成员（如 const { fetch } = window）
+function checkDestructuring(context: AnalysisContext, pattern: Pattern, value: Expression, scope: Scope): void {
+  if (pattern.type !== 'ObjectPattern') {
+    return;
+  }
+
+  const resolved = resolvePath(value, scope);
+  if (!resolved || resolved.dynamic) {
+    return;
+  }
+
+  for (const property of pattern.properties) {
+    if (property.type === 'RestElement') {
+      continue;
+    }
+    const key = property.computed
+      ? evaluateString(property.key, scope)
+      : property.key.type === 'Identifier'
+        ? property.key.name
+        : evaluateString(property.key, scope);
+    checkPath(
+      context,
+      property,
+      key === null ? { segments: resolved.segments, dynamic: true } : { segments: [...resolved.segments, key], dynamic: false }
+    );
+  }
+}
+
+// 访问解构模式中的默认值和计算属性名
+function visitPattern(context: AnalysisContext, pattern: Pattern | null | undefined, scope: Scope): void {
+  if (!pattern) {
+    return;
+  }
+
+  switch (pattern.type) {
+    case 'ObjectPattern':
+      for (const property of pattern.properties) {
+        if (property.type === 'RestElement') {
+          visitPattern(context, property.argument, scope);
+        } else {
+          if (property.computed) {
+            visit(context, property.key, scope);
+          }
+          visitPattern(context, property.value, scope);
+        }
+      }
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element) => visitPattern(context, element, scope));
+      break;
+    case 'RestElement':
+      visitPattern(context, pattern.argument, scope);
+      break;
+    case 'AssignmentPattern':
+      visitPattern(context, pattern.left, scope);
+      visit(context, pattern.right, scope);
+      break;
+    case 'MemberExpression':
+      visitMember(context, pattern, scope, true);
+      break;
+  }
+}
+
+// 访问成员表达式；能解析为全局路径时不再逐级访问对象，避免重复报告
+function visitMember(context: AnalysisContext, node: AnyNode, scope: Scope, write = false): void {
+  if (node.type !== 'MemberExpression') {
+    visit(context, node, scope);
+    return;
+  }
+
+  const resolved = resolvePath(node, scope);
+  if (!resolved) {
+    visit(context, node.object, scope);
+    if (node.computed) {
+      visit(context, node.property, scope);
+    }
+    return;
+  }
+
+  checkPath(context, node, resolved, write);
+
+  // 继续访问成员链中的计算属性表达式和非标识符的基础表达式
+  let current: AnyNode = node;
+  while (current.type === 'MemberExpression') {
+    if (current.computed) {
+      visit(context, current.property, scope);
+    }
+    current = current.object;
+  }
+  if (current.type !== 'Identifier' && current.type !== 'ThisExpression') {
+    visit(context, current, scope);
+  }
+}
+
+// for循环中let/const声明的变量只在循环内有效
+function createLoopScope(init: AnyNode | null | undefined, scope: Scope): Scope {
+  return init?.type === 'VariableDeclaration' && init.kind !== 'var'
+    ? createScope(scope, collectLexicalNames([init]))
+    : scope;
+}
+
+// 任意函数的constructor都是Function构造函数（如 Math.max.constructor、f.constructor），
+// 无法静态确定对象是否为函数，因此constructor被调用、传递或保存时按Function处理
+function checkConstructorEscape(context: AnalysisContext, node: AnyNode | null | undefined, scope: Scope): void {
+  let target = node;
+  while (target?.type === 'ChainExpression' || target?.type === 'SequenceExpression') {
+    target = target.type === 'ChainExpression' ? target.expression : target.expressions[target.expressions.length - 1];
+  }
+  if (
+    target?.type !== 'MemberExpression' ||
+    target.object.type === 'ThisExpression' ||
+    getMemberKey(target, scope) !== 'constructor' ||
+    // 已解析为Function路径的访问由checkPath报告
+    resolvePath(target, scope)?.segments[0] === 'Function'
+  ) {
+    return;
+  }
+
+  const api = matchApi(['Function'], context.apis, false);
+  if (api) {
+    reportApi(context, target, api);
+  }
+}
+
+// 全局对象作为返回值传出后无法跟踪其用法（如 function f() { return this } f().fetch()）
+function checkGlobalReturn(context: AnalysisContext, node: AnyNode | null | undefined, scope: Scope): void {
+  const resolved = node ? resolvePath(node, scope) : null;
+  if (node && resolved && !resolved.dynamic && resolved.segments.length === 0) {
+    report(
+      context,
+      node,
+      'DYNAMIC_GLOBAL_ACCESS',
+      'warning',
+      '全局对象被作为返回值传递，无法静态分析其用法',
+      'api:global-return'
+    );
+  }
+}
+
+// isMethod为true时函数是对象或类的方法，其中的this指向所属对象
+function visitFunction(
+  context: AnalysisContext,
+  node: Extract<AnyNode, { type: 'FunctionDeclaration' | 'FunctionExpression' | 'ArrowFunctionExpression' }>,
+  scope: Scope,
+  isMethod = false
+): void {
+  const names = node.params.flatMap((param) => getPatternNames(param));
+  if (node.type === 'FunctionExpression' && node.id) {
+    names.push(node.id.name);
+  }
+  if (node.body.type === 'BlockStatement') {
+    collectVarNames(node.body, names);
+    names.push(...collectLexicalNames(node.body.body));
+  }
+
+  // 非严格模式下直接调用普通函数时this为全局对象
+  const strict = scope.strict || (node.body.type === 'BlockStatement' && hasUseStrict(node.body.body));
+  const functionScope = createScope(
+    scope,
+    names,
+    node.type === 'ArrowFunctionExpression' ? scope.thisIsGlobal : !strict && !isMethod,
+    strict
+  );
+  node.params.forEach((param) => visitPattern(context, param, functionScope));
+  if (node.body.type === 'BlockStatement') {
+    node.body.body.forEach((statement) => visit(context, statement, functionScope));
+  } else {
+    checkGlobalReturn(context, node.body, functionScope);
+    visit(context, node.body, functionScope);
+  }
+}
+
+// 通用访问：按子节点递归
+function visitChildren(context: AnalysisContext, node: AnyNode, scope: Scope): void {
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc') {
+      continue;
+    }
+    const children = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (child && typeof child === 'object' && typeof child.type === 'string') {
+        visit(context, child as AnyNode, scope);
+      }
+    }
+  }
+}
+
+function visit(context: AnalysisContext, node: AnyNode | null | undefined, scope: Scope): void {
+  if (!node) {
+    return;
+  }
+
+  switch (node.type) {
+    case 'Identifier': {
+      const resolved = resolvePath(node, scope);
+      if (resolved) {
+        checkPath(context, node, resolved);
+      }
+      return;
+    }
+    case 'MemberExpression':
+      visitMember(context, node, scope);
+      return;
+    case 'UnaryExpression':
+      // typeof fetch 等特性检测不算访问
+      if (node.operator === 'typeof' && (node.argument.type === 'Identifier' || node.argument.type === 'MemberExpression')) {
+        return;
+      }
+      visit(context, node.argument, scope);
+      return;
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ArrowFunctionExpression':
+      visitFunction(context, node, scope);
+      return;
+    case 'BlockStatement':
+    case 'StaticBlock': {
+      const blockScope = createScope(scope, collectLexicalNames(node.body));
+      node.body.forEach((statement) => visit(context, statement, blockScope));
+      return;
+    }
+    case 'ForStatement': {
+      const loopScope = createLoopScope(node.init, scope);
+      visit(context, node.init, loopScope);
+      visit(context, node.test, loopScope);
+      visit(context, node.update, loopScope);
+      visit(context, node.body, loopScope);
+      return;
+    }
+    case 'ForInStatement':
+    case 'ForOfStatement': {
+      const loopScope = createLoopScope(node.left, scope);
+      if (node.left.type === 'VariableDeclaration') {
+        visit(context, node.left, loopScope);
+      } else {
+        visitPattern(context, node.left, loopScope);
+      }
+      visit(context, node.right, loopScope);
+      visit(context, node.body, loopScope);
+      return;
+    }
+    case 'SwitchStatement': {
+      visit(context, node.discriminant, scope);
+      const switchScope = createScope(
+        scope,
+        collectLexicalNames(node.cases.flatMap((switchCase) => switchCase.consequent))
+      );
+      node.cases.forEach((switchCase) => visitChildren(context, switchCase, switchScope));
+      return;
+    }
+    case 'CatchClause': {
+      const catchScope = createScope(scope, getPatternNames(node.param));
+      visitPattern(context, node.param, catchScope);
+      visit(context, node.body, catchScope);
+      return;
+    }
+    case 'VariableDeclarator':
+      visitPattern(context, node.id, scope);
+      if (node.init) {
+        checkConstructorEscape(context, node.init, scope);
+        visit(context, node.init, scope);
+        if (node.id.type === 'Identifier') {
+          bindValue(node.id.name, node.init, scope);
+        } else {
+          checkDestructuring(context, node.id, node.init, scope);
+        }
+      }
+      return;
+    case 'AssignmentExpression':
+      if (node.left.type === 'Identifier') {
+        const resolved = resolvePath(node.left, scope);
+        if (resolved) {
+          checkPath(context, node.left, resolved, true);
+        } else if (node.operator === '=') {
+          bindValue(node.left.name, node.right, scope);
+        }
+      } else {
+        visitPattern(context, node.left, scope);
+        if (node.operator === '=') {
+          checkDestructuring(context, node.left, node.right, scope);
+        }
+      }
+      checkConstructorEscape(context, node.right, scope);
+      visit(context, node.right, scope);
+      return;
+    case 'UpdateExpression':
+      visitMember(context, node.argument, scope, true);
+      return;
+    case 'CallExpression':
+    case 'NewExpression': {
+      // 以字符串形式调用 setTimeout/setInterval 等同于eval
+      const callee = resolvePath(node.callee, scope);
+      const [firstArgument] = node.arguments;
+      if (
+        callee &&
+        !callee.dynamic &&
+        callee.segments.length === 1 &&
+        STRING_TIMERS.includes(callee.segments[0]) &&
+        firstArgument &&
+        firstArgument.type !== 'SpreadElement' &&
+        evaluateString(firstArgument, scope) !== null
+      ) {
+        report(
+          context,
+          node,
+          'FORBIDDEN_API',
+          'error',
+          `检测到${CATEGORY_LABELS.code_execution}API "${callee.segments[0]}"（以字符串作为参数）`,
+          `api:${callee.segments[0]}`
+        );
+      }
+      // 直接调用constructor，或通过call/apply/bind调用
+      checkConstructorEscape(context, node.callee, scope);
+      if (node.callee.type === 'MemberExpression' && ['call', 'apply', 'bind'].includes(getMemberKey(node.callee, scope) ?? '')) {
+        checkConstructorEscape(context, node.callee.object, scope);
+      }
+      // 全局对象作为参数传入函数后无法跟踪其用法
+      for (const argument of node.arguments) {
+        checkConstructorEscape(context, argument, scope);
+        const resolved = argument.type === 'SpreadElement' ? null : resolvePath(argument, scope);
+        if (resolved && !resolved.dynamic && resolved.segments.length === 0) {
+          report(
+            context,
+            argument,
+            'DYNAMIC_GLOBAL_ACCESS',
+            'warning',
+            '全局对象被作为参数传递，无法静态分析其用法',
+            'api:global-argument'
+          );
+        }
+      }
+      visitChildren(context, node, scope);
+      return;
+    }
+    case 'TaggedTemplateExpression':
+      checkConstructorEscape(context, node.tag, scope);
+      visitChildren(context, node, scope);
+      return;
+    case 'ImportExpression':
+    case 'ImportDeclaration':
+      report(context, node, 'FORBIDDEN_API', 'error', `检测到${CATEGORY_LABELS.network}API "import"`, 'api:import');
+      if (node.type === 'ImportExpression') {
+        visit(context, node.source, scope);
+      }
+      return;
+    case 'Property':
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+      // 非计算属性名不是变量引用
+      if (node.computed) {
+        visit(context, node.key, scope);
+      }
+      // 作为对象属性或类成员的函数按方法调用
+      if (node.value?.type === 'FunctionExpression') {
+        visitFunction(context, node.value, scope, true);
+      } else {
+        visit(context, node.value, scope);
+      }
+      return;
+    case 'ClassBody': {
+      // 类体始终为严格模式，字段初始化和静态块中的this指向类或实例
+      const classScope = createScope(scope, [], false, true);
+      node.body.forEach((member) => visit(context, member, classScope));
+      return;
+    }
+    case 'ReturnStatement':
+      checkGlobalReturn(context, node.argument, scope);
+      visit(context, node.argument, scope);
+      return;
+    case 'ExportNamedDeclaration':
+      visit(context, node.declaration, scope);
+      return;
+    case 'LabeledStatement':
+      visit(context, node.body, scope);
+      return;
+    case 'BreakStatement':
+    case 'ContinueStatement':
+    case 'MetaProperty':
+    case 'PrivateIdentifier':
+      return;
+    default:
+      visitChildren(context, node, scope);
+  }
+}
+
+/**
+ * 分析脚本对受限全局API的访问
+ * 无法解析的脚本返回 SCRIPT_PARSE_ERROR，避免未经检查的代码被放行
+ */
+export function analyzeScript(code: string, { forbiddenApis, sourceType = 'script' }: ScriptAnalysisOptions): ScriptFinding[] {
+  let program;
+  try {
+    program = parse(code, { ecmaVersion: 'latest', sourceType, locations: true });
+  } catch (error) {
+    const location = (error as { loc?: { line: number; column: number } }).loc;
+    return [
+      {
+        code: 'SCRIPT_PARSE_ERROR',
+        severity: 'error',
+        message: `无法解析脚本: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ruleId: 'script:parse',
+        line: location?.line ?? 1,
+        column: (location?.column ?? 0) + 1,
+      },
+    ];
+  }
+
+  const names: string[] = [];
+  program.body.forEach((statement) => collectVarNames(statement, names));
+  names.push(...collectLexicalNames(program.body));
+
+  const context: AnalysisContext = { apis: forbiddenApis, findings: [] };
+  const programScope = createScope(
+    null,
+    names,
+    sourceType === 'script',
+    sourceType === 'module' || hasUseStrict(program.body)
+  );
+  program.body.forEach((statement) => visit(context, statement, programScope));
+
+  return context.findings;
+}
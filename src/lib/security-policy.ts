@@ -0,0 +1,58 @@
+/**
+ * 安全策略
+ * 安全检查配置保存在数据库中，由管理员维护；每次修改生成新版本，同一时间只有一个版本生效。
+ * 这里定义策略在数据库中的存储格式及其与SecurityConfig之间的转换，
+ * 不依赖数据库，可同时在服务端和客户端使用
+ */
+
+import { DEFAULT_SECURITY_CONFIG, type SecurityConfig } from './security';
+import { ALLOWED_EXTERNAL_HOSTS } from './external-hosts';
+
+// 存储格式的安全配置（正则表达式以源码字符串保存）
+// 外部资源白名单同时决定游戏页面的CSP，只在external-hosts中配置，不随策略版本变化
+export interface StoredSecurityConfig extends Omit<SecurityConfig, 'forbiddenPatterns' | 'allowedExternalHosts'> {
+  forbiddenPatterns: string[];
+}
+
+// 当前生效的安全策略，version为null表示数据库中没有生效的策略，使用内置默认配置
+export interface ActiveSecurityPolicy {
+  version: number | null;
+  config: SecurityConfig;
+}
+
+// 禁用模式按全局、不区分大小写匹配
+const FORBIDDEN_PATTERN_FLAGS = 'gi';
+
+/**
+ * 将存储格式的配置转换为安全检查使用的配置
+ */
+export function toSecurityConfig(stored: StoredSecurityConfig): SecurityConfig {
+  return {
+    ...stored,
+    forbiddenPatterns: stored.forbiddenPatterns.map((source) => new RegExp(source, FORBIDDEN_PATTERN_FLAGS)),
+    allowedExternalHosts: ALLOWED_EXTERNAL_HOSTS,
+  };
+}
+
+/**
+ * 将安全检查使用的配置转换为存储格式
+ */
+export function toStoredConfig(config: SecurityConfig): StoredSecurityConfig {
+  return {
+    allowedTags: config.allowedTags,
+    allowedAttributes: config.allowedAttributes,
+    forbiddenApis: config.forbiddenApis,
+    forbiddenPatterns: config.forbiddenPatterns.map((pattern) => pattern.source),
+    maxFileSize: config.maxFileSize,
+    allowedFileTypes: config.allowedFileTypes,
+  };
+}
+
+// 初始化数据库时写入的版本1策略
+export const DEFAULT_STORED_SECURITY_CONFIG: StoredSecurityConfig = toStoredConfig(DEFAULT_SECURITY_CONFIG);
+
+// 数据库中没有生效的策略时使用的默认策略
+export const DEFAULT_SECURITY_POLICY: ActiveSecurityPolicy = {
+  version: null,
+  config: DEFAULT_SECURITY_CONFIG,
+};
@@ -0,0 +1,203 @@
+/**
+ * 游戏安全复查
+ * 安全策略收紧后，按当前生效的策略重新检查所有已保存的游戏并保存每个游戏的检查结果。
+ * 已发布但不再符合策略的游戏会被标记，可选择将其撤回待审核队列重新审核；
+ * 默认只做试运行，返回汇总结果而不写入数据库
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { GameDAL, SecurityPolicyDAL, SecurityScanDAL } from './dal';
+import { validateHtmlContent, type SecurityFinding } from './security';
+import { games, reviewLogs, type Game } from './schema';
+import type { AdminRole } from './permissions';
+
+export interface SecurityRescanOptions {
+  // 为true时只检查并返回汇总，不保存结果也不变更游戏状态
+  dryRun: boolean;
+  // 将被标记的游戏撤回待审核队列
+  requeue: boolean;
+  reviewer: string;
+  reviewerRole?: AdminRole | null;
+  // 每批读取的游戏数量
+  batchSize?: number;
+}
+
+// 被标记的游戏（已发布但不再符合安全策略）
+export interface SecurityRescanFlaggedGame {
+  gameId: string;
+  title: string;
+  errorCount: number;
+  // 命中的规则（去重）
+  ruleIds: string[];
+  // 是否已撤回待审核队列
+  requeued: boolean;
+}
+
+export interface SecurityRescanSummary {
+  dryRun: boolean;
+  policyVersion: number | null;
+  scanned: number;
+  passed: number;
+  // 没有错误但存在警告的游戏数
+  withWarnings: number;
+  violating: number;
+  flagged: SecurityRescanFlaggedGame[];
+  requeued: number;
+  // 处理失败的游戏，某一项失败不影响其他游戏
+  errors: { gameId: string; message: string }[];
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+export class SecurityRescanService {
+  /**
+   * 按当前生效的安全策略复查所有未删除的游戏
+   */
+  static async run({
+    dryRun,
+    requeue,
+    reviewer,
+    reviewerRole,
+    batchSize = DEFAULT_BATCH_SIZE,
+  }: SecurityRescanOptions): Promise<SecurityRescanSummary> {
+    const policy = await SecurityPolicyDAL.getActiveConfig();
+    const summary: SecurityRescanSummary = {
+      dryRun,
+      policyVersion: policy.version,
+      scanned: 0,
+      passed: 0,
+      withWarnings: 0,
+      violating: 0,
+      flagged: [],
+      requeued: 0,
+      errors: [],
+    };
+
+    let afterId: string | null = null;
+    for (;;) {
+      const batch = await GameDAL.getBatchForSecurityScan(afterId, batchSize);
+      if (batch.length === 0) {
+        break;
+      }
+      afterId = batch[batch.length - 1].id;
+
+      for (const game of batch) {
+        try {
+          const result = validateHtmlContent(game.htmlContent, policy.config);
+          const errorCount = result.findings.filter((finding) => finding.severity === 'error').length;
+          const warningCount = result.findings.length - errorCount;
+          const flagged = game.status === 'approved' && errorCount > 0;
+
+          summary.scanned++;
+          if (errorCount > 0) {
+            summary.violating++;
+          } else if (warningCount > 0) {
+            summary.withWarnings++;
+          } else {
+            summary.passed++;
+          }
+
+          if (dryRun) {
+            if (flagged) {
+              summary.flagged.push(this.toFlaggedGame(game, result.findings, false));
+            }
+            continue;
+          }
+
+          await SecurityScanDAL.upsert({
+            gameId: game.id,
+            policyVersion: policy.version,
+            gameStatus: game.status ?? 'pending',
+            errorCount,
+            warningCount,
+            findings: result.findings,
+            flagged,
+          });
+
+          if (flagged) {
+            const reason = this.formatReason(result.findings, policy.version);
+            const requeued = requeue && (await this.requeue(game.id, reason, reviewer, reviewerRole));
+            if (requeued) {
+              summary.requeued++;
+            }
+            summary.flagged.push(this.toFlaggedGame(game, result.findings, requeued));
+          }
+        } catch (error) {
+          summary.errors.push({
+            gameId: game.id,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      if (batch.length < batchSize) {
+        break;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * 将已发布的游戏撤回待审核队列并记录审核日志
+   * @returns 游戏状态已被其他请求变更时返回false
+   */
+  static async requeue(
+    gameId: string,
+    reason: string,
+    reviewer: string,
+    reviewerRole?: AdminRole | null
+  ): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx
+          .update(games)
+          .set({ status: 'pending', claimedBy: null, claimExpiresAt: null, updatedAt: new Date() })
+          .where(and(eq(games.id, gameId), eq(games.status, 'approved')));
+
+        if (result.rowsAffected === 0) {
+          return false;
+        }
+
+        await tx.insert(reviewLogs).values({
+          gameId,
+          action: 'rescan',
+          reason,
+          reviewer,
+          reviewerRole: reviewerRole ?? null,
+        });
+        return true;
+      });
+    } catch (error) {
+      throw new Error(`Failed to requeue game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // 命中的错误规则（去重）
+  private static getRuleIds(findings: SecurityFinding[]): string[] {
+    return Array.from(
+      new Set(findings.filter((finding) => finding.severity === 'error').map((finding) => finding.ruleId))
+    );
+  }
+
+  private static toFlaggedGame(
+    game: Pick<Game, 'id' | 'title'>,
+    findings: SecurityFinding[],
+    requeued: boolean
+  ): SecurityRescanFlaggedGame {
+    return {
+      gameId: game.id,
+      title: game.title,
+      errorCount: findings.filter((finding) => finding.severity === 'error').length,
+      ruleIds: this.getRuleIds(findings),
+      requeued,
+    };
+  }
+
+  // 审核日志中记录的撤回原因
+  private static formatReason(findings: SecurityFinding[], policyVersion: number | null): string {
+    const policy = policyVersion ? `安全策略 v${policyVersion}` : '默认安全策略';
+    return `游戏不符合${policy}，需要重新审核（${this.getRuleIds(findings).join(', ')}）`;
+  }
+}
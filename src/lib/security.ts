@@ -3,18 +3,78 @@
  * 用于检测和过滤恶意HTML内容，确保游戏提交的安全性
  */
 
+import {
+  defaultTreeAdapter,
+  ErrorCodes,
+  parse,
+  serialize,
+  serializeOuter,
+  type DefaultTreeAdapterTypes,
+  type ParserErrorHandler,
+} from 'parse5';
+import { analyzeScript, type ForbiddenApi, type ScriptFindingCode } from './script-analysis';
+import {
+  ALLOWED_EXTERNAL_HOSTS,
+  checkExternalUrl,
+  hasRequiredIntegrity,
+  type AllowedExternalHost,
+  type ExternalResourceType,
+  type ExternalUrlCheck,
+} from './external-hosts';
+
 // 安全配置接口
 export interface SecurityConfig {
   allowedTags: string[];
   allowedAttributes: Record<string, string[]>;
+  // 脚本中禁止访问的全局API，通过语法树分析检测
+  forbiddenApis: ForbiddenApi[];
+  // 额外的文本匹配规则，对整个内容生效
   forbiddenPatterns: RegExp[];
   maxFileSize: number; // bytes
   allowedFileTypes: string[];
+  // 允许加载外部脚本、样式表和字体的CDN主机
+  allowedExternalHosts: AllowedExternalHost[];
+}
+
+// 安全检查项的类型
+export type SecurityFindingCode =
+  | 'FILE_TOO_LARGE'
+  | 'FORBIDDEN_PATTERN'
+  | 'MALFORMED_HTML'
+  | 'DISALLOWED_TAG'
+  | 'DISALLOWED_ATTRIBUTE'
+  | 'DANGEROUS_ATTRIBUTE'
+  | 'JAVASCRIPT_PROTOCOL'
+  | 'EXTERNAL_FORM_ACTION'
+  | 'EXTERNAL_SCRIPT'
+  | 'EXTERNAL_RESOURCE'
+  | 'INTEGRITY_MISMATCH'
+  | 'CSS_JAVASCRIPT'
+  | 'CSS_EXPRESSION'
+  | 'CSS_EXTERNAL_IMPORT'
+  | ScriptFindingCode;
+
+// error会阻止提交，warning仅作提示
+export type SecuritySeverity = 'error' | 'warning';
+
+// 安全检查发现的问题，行列号从1开始，与位置无关的问题（如文件过大）为null
+export interface SecurityFinding {
+  code: SecurityFindingCode;
+  severity: SecuritySeverity;
+  message: string;
+  line: number | null;
+  column: number | null;
+  // 问题所在的源码行
+  snippet: string | null;
+  // 具体命中的规则，如 api:fetch、tag:iframe
+  ruleId: string;
 }
 
 // 安全验证结果接口
 export interface SecurityValidationResult {
   isValid: boolean;
+  findings: SecurityFinding[];
+  // 由findings格式化而来的可读文本，供只需要展示文本的调用方使用
   violations: string[];
   sanitizedContent?: string;
   warnings: string[];
@@ -28,9 +88,18 @@ export interface FileValidationResult {
   type: string;
 }
 
+// location上只读取地址信息或重新加载页面的成员
+const SAFE_LOCATION_MEMBERS = ['reload', 'hash', 'search', 'pathname', 'origin', 'host', 'hostname', 'protocol', 'port'];
+
 // 默认安全配置
 export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   allowedTags: [
+    'html',
+    'head',
+    'body',
+    'title',
+    'meta',
+    'link',
     'div',
     'span',
     'canvas',
@@ -73,6 +142,10 @@ export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   ],
   allowedAttributes: {
     '*': ['class', 'id', 'style', 'data-*'],
+    html: ['lang'],
+    meta: ['charset', 'name', 'content'],
+    script: ['src', 'type', 'integrity', 'crossorigin'],
+    link: ['rel', 'href', 'as', 'integrity', 'crossorigin'],
     canvas: ['width', 'height'],
     input: ['type', 'value', 'placeholder', 'name', 'required', 'disabled'],
     button: ['type', 'disabled'],
@@ -85,166 +158,517 @@ export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
     option: ['value', 'selected'],
     textarea: ['name', 'placeholder', 'rows', 'cols', 'required', 'disabled'],
   },
-  forbiddenPatterns: [
+  forbiddenApis: [
     // 网络请求相关
-    /fetch\s*\(/gi,
-    /XMLHttpRequest/gi,
-    /axios\./gi,
-    /\$\.ajax/gi,
-    /\$\.get/gi,
-    /\$\.post/gi,
+    { api: 'fetch', category: 'network' },
+    { api: 'XMLHttpRequest', category: 'network' },
+    { api: 'WebSocket', category: 'network' },
+    { api: 'EventSource', category: 'network' },
+    { api: 'RTCPeerConnection', category: 'network' },
+    { api: 'Worker', category: 'network' },
+    { api: 'SharedWorker', category: 'network' },
+    { api: 'importScripts', category: 'network' },
+    { api: 'navigator.sendBeacon', category: 'network' },
+    { api: 'axios', category: 'network' },
+    { api: '$.ajax', category: 'network' },
+    { api: '$.get', category: 'network' },
+    { api: '$.post', category: 'network' },
+    { api: '$.getJSON', category: 'network' },
+    { api: 'jQuery.ajax', category: 'network' },
+    { api: 'jQuery.get', category: 'network' },
+    { api: 'jQuery.post', category: 'network' },
+    { api: 'jQuery.getJSON', category: 'network' },
     
     // 存储访问
-    /document\.cookie/gi,
-    /localStorage/gi,
-    /sessionStorage/gi,
-    /indexedDB/gi,
-    
-    // 危险函数
-    /eval\s*\(/gi,
-    /Function\s*\(/gi,
-    /setTimeout\s*\(\s*["'`][^"'`]*["'`]/gi, // 字符串形式的setTimeout
-    /setInterval\s*\(\s*["'`][^"'`]*["'`]/gi, // 字符串形式的setInterval
-    
-    // DOM操作风险
-    /document\.write/gi,
-    /document\.writeln/gi,
-    /innerHTML\s*=\s*["'`][^"'`]*<script/gi,
-    
-    // 外部资源加载
-    /import\s*\(/gi,
-    /require\s*\(/gi,
-    /loadScript/gi,
+    { api: 'document.cookie', category: 'storage' },
+    { api: 'localStorage', category: 'storage' },
+    { api: 'sessionStorage', category: 'storage' },
+    { api: 'indexedDB', category: 'storage' },
+    { api: 'caches', category: 'storage' },
+    { api: 'cookieStore', category: 'storage' },
     
-    // 窗口操作
-    /window\.open/gi,
-    /window\.location/gi,
-    /location\.href/gi,
-    /location\.replace/gi,
+    // 页面跳转（允许读取地址信息和重新加载）
+    { api: 'location', category: 'navigation', allowedMembers: SAFE_LOCATION_MEMBERS },
+    { api: 'document.location', category: 'navigation', allowedMembers: SAFE_LOCATION_MEMBERS },
+    { api: 'open', category: 'navigation' },
     
-    // 表单提交到外部
-    /action\s*=\s*["'`]https?:\/\//gi,
-    
-    // WebSocket连接
-    /WebSocket/gi,
-    /EventSource/gi,
+    // 动态执行代码
+    { api: 'eval', category: 'code_execution' },
+    { api: 'Function', category: 'code_execution' },
+    { api: 'document.write', category: 'code_execution' },
+    { api: 'document.writeln', category: 'code_execution' },
+    { api: 'require', category: 'code_execution' },
     
     // 文件API
-    /FileReader/gi,
-    /FormData/gi,
-    /Blob/gi,
-    /URL\.createObjectURL/gi,
+    { api: 'FileReader', category: 'file' },
+    { api: 'FormData', category: 'file' },
+    { api: 'Blob', category: 'file' },
+    { api: 'URL.createObjectURL', category: 'file' },
   ],
+  forbiddenPatterns: [],
   maxFileSize: 5 * 1024 * 1024, // 5MB
   allowedFileTypes: ['text/html', 'text/plain'],
+  allowedExternalHosts: ALLOWED_EXTERNAL_HOSTS,
 };
 
+// 源码中的位置（行号和列号均从1开始）
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+type HtmlDocument = DefaultTreeAdapterTypes.Document;
+type HtmlElement = DefaultTreeAdapterTypes.Element;
+type HtmlParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+// 以<!DOCTYPE>或<html>开头的内容按完整文档处理，否则按片段处理
+const FULL_DOCUMENT_PATTERN = /^\s*(?:<!--[\s\S]*?-->\s*)*<(?:!doctype|html[\s>])/i;
+
+// 值为URL的属性，需要检查javascript:协议
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'data', 'poster', 'background', 'xlink:href'];
+
+// 浏览器会作为JavaScript执行的脚本类型
+const JAVASCRIPT_MIME_TYPES = [
+  'text/javascript',
+  'application/javascript',
+  'application/x-javascript',
+  'text/ecmascript',
+  'application/ecmascript',
+  'text/jscript',
+];
+
+// 清理时整体移除（不保留子内容）的标签
+const DROP_CONTENT_TAGS = ['iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template', 'noscript', 'noembed', 'noframes', 'svg', 'math'];
+
+// 作为警告提示的解析错误，通常意味着标签或属性被刻意构造成畸形以绕过检查
+const SUSPICIOUS_PARSE_ERRORS: string[] = [
+  ErrorCodes.duplicateAttribute,
+  ErrorCodes.unexpectedNullCharacter,
+  ErrorCodes.unexpectedCharacterInAttributeName,
+  ErrorCodes.unexpectedEqualsSignBeforeAttributeName,
+  ErrorCodes.missingWhitespaceBetweenAttributes,
+  ErrorCodes.unexpectedSolidusInTag,
+  ErrorCodes.endTagWithAttributes,
+  ErrorCodes.eofInTag,
+];
+
+const MAX_SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+// 根据字符偏移量计算行列号
+export function getLineColumn(content: string, offset: number): SourceLocation {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+  };
+}
+
+// 格式化为 “CODE: 消息（第N行第M列）” 形式的文本
+export function formatFinding(finding: SecurityFinding): string {
+  const location = finding.line !== null ? `（第${finding.line}行第${finding.column}列）` : '';
+  return `${finding.code}: ${finding.message}${location}`;
+}
+
+// 获取问题所在的源码行，过长时（如压缩后的代码）截取问题位置附近的内容
+function getSnippet(lines: string[], location: SourceLocation): string | null {
+  const text = lines[location.line - 1];
+  if (!text?.trim()) {
+    return null;
+  }
+  if (text.length <= MAX_SNIPPET_LENGTH) {
+    return text.trim();
+  }
+
+  const start = Math.max(0, location.column - 1 - SNIPPET_CONTEXT_LENGTH);
+  const end = start + MAX_SNIPPET_LENGTH;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+// 解析HTML，始终按完整文档解析，与浏览器渲染游戏时的解析方式保持一致
+function parseHtml(htmlContent: string, onParseError?: ParserErrorHandler): HtmlDocument {
+  return parse(htmlContent, { sourceCodeLocationInfo: true, onParseError });
+}
+
+// 解析器自动补全的html/head/body等元素没有源码位置
+function getElementLocation(element: HtmlElement): SourceLocation | null {
+  const location = element.sourceCodeLocation;
+  return location ? { line: location.startLine, column: location.startCol } : null;
+}
+
+function getAttributeLocation(element: HtmlElement, name: string): SourceLocation | null {
+  const location = element.sourceCodeLocation?.attrs?.[name];
+  return location ? { line: location.startLine, column: location.startCol } : getElementLocation(element);
+}
+
+// 获取子节点（template元素的内容位于独立的文档片段中）
+function getChildNodes(node: HtmlParentNode): DefaultTreeAdapterTypes.ChildNode[] {
+  if (defaultTreeAdapter.isElementNode(node) && node.tagName === 'template') {
+    return defaultTreeAdapter.getTemplateContent(node as DefaultTreeAdapterTypes.Template).childNodes;
+  }
+  return node.childNodes;
+}
+
+// 深度优先遍历所有元素
+function walkElements(node: HtmlParentNode, visit: (element: HtmlElement) => void): void {
+  for (const child of getChildNodes(node)) {
+    if (defaultTreeAdapter.isElementNode(child)) {
+      visit(child);
+      walkElements(child, visit);
+    }
+  }
+}
+
+function isTagAllowed(tagName: string, config: SecurityConfig): boolean {
+  return config.allowedTags.includes(tagName);
+}
+
+// 检查属性是否在允许列表中，支持 data-* 形式的前缀通配
+function isAttributeAllowed(tagName: string, attrName: string, config: SecurityConfig): boolean {
+  const patterns = [...(config.allowedAttributes['*'] || []), ...(config.allowedAttributes[tagName] || [])];
+  return patterns.some((pattern) =>
+    pattern.endsWith('*') ? attrName.startsWith(pattern.slice(0, -1)) : attrName === pattern
+  );
+}
+
+// 带命名空间前缀的属性（如xlink:href）按完整名称检查
+function getAttributeName(attr: HtmlElement['attrs'][number]): string {
+  return attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name;
+}
+
+function isEventHandlerAttribute(attrName: string): boolean {
+  return attrName.startsWith('on');
+}
+
+// 属性值已由解析器解码实体，浏览器解析URL时会忽略其中的空白和控制字符
+function isJavascriptUrl(value: string): boolean {
+  return value.replace(/[\u0000- ]/g, '').toLowerCase().startsWith('javascript:');
+}
+
+// 判断地址是否指向站外：按浏览器的规则解析（反斜杠、协议中的空白等），与占位源不同源的即为外部地址，
+// 无法解析的地址同样按外部地址处理；javascript:协议由isJavascriptUrl单独检查
+const PLACEHOLDER_ORIGIN = 'https://placeholder.invalid';
+
+function isExternalUrl(value: string): boolean {
+  if (isJavascriptUrl(value)) {
+    return false;
+  }
+  try {
+    return new URL(value, PLACEHOLDER_ORIGIN).origin !== PLACEHOLDER_ORIGIN;
+  } catch {
+    return true;
+  }
+}
+
+// 检查CSS中的危险内容，返回违规项及其在CSS文本中的偏移量
+function findCssViolations(
+  css: string,
+  config: SecurityConfig
+): { code: SecurityFindingCode; message: string; ruleId: string; index: number }[] {
+  const checks: { code: SecurityFindingCode; message: string; ruleId: string; pattern: RegExp }[] = [
+    { code: 'CSS_JAVASCRIPT', message: '检测到javascript协议', ruleId: 'css:javascript', pattern: /javascript\s*:/i },
+    { code: 'CSS_EXPRESSION', message: '检测到expression表达式', ruleId: 'css:expression', pattern: /expression\s*\(/i },
+  ];
+
+  const violations = checks.flatMap(({ code, message, ruleId, pattern }) => {
+    const index = css.search(pattern);
+    return index === -1 ? [] : [{ code, message, ruleId, index }];
+  });
+
+  // @import无法附带integrity，只允许导入白名单中未要求SRI的样式表主机
+  for (const match of Array.from(css.matchAll(CSS_EXTERNAL_IMPORT_PATTERN))) {
+    const check = checkExternalUrl(match[1], 'style', config.allowedExternalHosts);
+    if (!check.allowed || !hasRequiredIntegrity(check.host, null)) {
+      violations.push({ code: 'CSS_EXTERNAL_IMPORT', message: `检测到外部资源导入 "${match[1]}"`, ruleId: 'css:import', index: match.index ?? 0 });
+      break;
+    }
+  }
+
+  return violations;
+}
+
+const CSS_EXTERNAL_IMPORT_PATTERN = /@import\s+(?:url\s*\(\s*)?["'`]?((?:https?:)?\/\/[^"'`)\s;]*)/gi;
+
+const EXTERNAL_RESOURCE_LABELS: Record<ExternalResourceType, string> = {
+  script: '脚本',
+  style: '样式表',
+  font: '字体',
+};
+
+// 外部地址不被允许的原因
+function describeExternalUrlCheck(
+  check: Exclude<ExternalUrlCheck, { allowed: true }>,
+  type: ExternalResourceType | null
+): string {
+  switch (check.reason) {
+    case 'invalid_url':
+      return '地址无效';
+    case 'inline_source':
+      return '不允许通过data:或blob:地址加载';
+    case 'insecure_protocol':
+      return '外部资源必须通过https加载且不能指定端口';
+    case 'host_not_allowed':
+      return '主机不在外部资源白名单中';
+    case 'type_not_allowed':
+      return `该主机不允许加载${type ? EXTERNAL_RESOURCE_LABELS[type] : '资源'}`;
+  }
+}
+
+// link标签引用的资源类型：null表示只建立连接不加载资源，undefined表示不检查（如图标），false表示不支持
+function getLinkResourceType(element: HtmlElement): ExternalResourceType | null | undefined | false {
+  const attrs = defaultTreeAdapter.getAttrList(element);
+  const rels = (attrs.find((attr) => attr.name === 'rel')?.value || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const as = attrs.find((attr) => attr.name === 'as')?.value.toLowerCase();
+
+  if (rels.includes('stylesheet')) {
+    return 'style';
+  }
+  if (rels.includes('modulepreload')) {
+    return 'script';
+  }
+  if (rels.includes('preload') || rels.includes('prefetch')) {
+    return as === 'script' || as === 'style' || as === 'font' ? as : false;
+  }
+  if (rels.length > 0 && rels.every((rel) => rel === 'preconnect' || rel === 'dns-prefetch')) {
+    return null;
+  }
+  // 图标按图片处理，图片来源不受白名单限制
+  if (rels.length > 0 && rels.every((rel) => rel === 'icon' || rel === 'shortcut' || rel === 'apple-touch-icon')) {
+    return undefined;
+  }
+  return false;
+}
+
+// 获取元素的文本内容及其起始位置（用于script/style）
+function getTextContent(element: HtmlElement): {
+  text: string;
+  offset: number | null;
+  location: SourceLocation | null;
+} {
+  let text = '';
+  let start: DefaultTreeAdapterTypes.TextNode['sourceCodeLocation'] = null;
+
+  for (const child of element.childNodes) {
+    if (defaultTreeAdapter.isTextNode(child)) {
+      start = start || child.sourceCodeLocation;
+      text += child.value;
+    }
+  }
+
+  return {
+    text,
+    offset: start ? start.startOffset : null,
+    location: start ? { line: start.startLine, column: start.startCol } : null,
+  };
+}
+
+function getScriptType(element: HtmlElement): string {
+  const type = element.attrs.find((attr) => attr.name === 'type');
+  return type ? type.value.trim().toLowerCase() : '';
+}
+
+function isJavaScriptType(type: string): boolean {
+  return type === '' || type === 'module' || JAVASCRIPT_MIME_TYPES.includes(type);
+}
+
 /**
  * 验证HTML内容的安全性
+ * 基于解析树检查标签、属性、内联脚本和样式，每项违规都附带源码中的行列号
  */
 export function validateHtmlContent(
   htmlContent: string,
   config: SecurityConfig = DEFAULT_SECURITY_CONFIG
 ): SecurityValidationResult {
-  const violations: string[] = [];
-  const warnings: string[] = [];
+  const findings: SecurityFinding[] = [];
+  const lines = htmlContent.split('\n');
   
+  const addFinding = (
+    code: SecurityFindingCode,
+    message: string,
+    ruleId: string,
+    location: SourceLocation | null,
+    severity: SecuritySeverity = 'error'
+  ) => {
+    findings.push({
+      code,
+      severity,
+      message,
+      line: location?.line ?? null,
+      column: location?.column ?? null,
+      snippet: location ? getSnippet(lines, location) : null,
+      ruleId,
+    });
+  };
+
+  // 检查外部资源引用：主机必须在白名单中且允许加载该类型的资源，主机要求SRI时必须带有匹配的integrity属性
+  const checkExternalReference = (
+    element: HtmlElement,
+    attrName: string,
+    type: ExternalResourceType | null,
+    code: SecurityFindingCode,
+    ruleId: string,
+    label: string
+  ) => {
+    const attrs = defaultTreeAdapter.getAttrList(element);
+    const url = attrs.find((attr) => attr.name === attrName)!.value;
+    const location = getAttributeLocation(element, attrName);
+    const check = checkExternalUrl(url, type, config.allowedExternalHosts);
+
+    if (!check.allowed) {
+      addFinding(code, `检测到${label}引用 "${url}"：${describeExternalUrlCheck(check, type)}`, ruleId, location);
+    } else if (!hasRequiredIntegrity(check.host, attrs.find((attr) => attr.name === 'integrity')?.value)) {
+      addFinding(
+        'INTEGRITY_MISMATCH',
+        `${label} "${url}" 缺少与白名单匹配的integrity属性`,
+        `integrity:${check.host.host}`,
+        getAttributeLocation(element, 'integrity') || location
+      );
+    }
+  };
+
   // 检查文件大小
   const contentSize = new Blob([htmlContent]).size;
   if (contentSize > config.maxFileSize) {
-    violations.push(`FILE_TOO_LARGE: 内容大小 ${contentSize} 字节超过限制 ${config.maxFileSize} 字节`);
+    addFinding('FILE_TOO_LARGE', `内容大小 ${contentSize} 字节超过限制 ${config.maxFileSize} 字节`, 'size:max', null);
   }
   
   // 检查禁用模式
   for (const pattern of config.forbiddenPatterns) {
     const matches = htmlContent.match(pattern);
     if (matches) {
-      violations.push(`FORBIDDEN_PATTERN: 检测到禁用模式 "${pattern.source}" - 匹配: ${matches.slice(0, 3).join(', ')}`);
+      addFinding(
+        'FORBIDDEN_PATTERN',
+        `检测到禁用模式 "${pattern.source}" - 匹配: ${matches.slice(0, 3).join(', ')}`,
+        `pattern:${pattern.source}`,
+        getLineColumn(htmlContent, htmlContent.search(pattern))
+      );
     }
   }
   
-  // 检查标签使用
-  const tagRegex = /<(\/?[a-zA-Z][a-zA-Z0-9]*)[^>]*>/g;
-  let tagMatch;
-  const usedTags = new Set<string>();
-  
-  while ((tagMatch = tagRegex.exec(htmlContent)) !== null) {
-    const tagName = tagMatch[1].toLowerCase().replace('/', '');
-    usedTags.add(tagName);
-    
-    if (!config.allowedTags.includes(tagName)) {
-      warnings.push(`SUSPICIOUS_TAG: 使用了可能不安全的标签 <${tagName}>`);
+  const document = parseHtml(htmlContent, (error) => {
+    if (SUSPICIOUS_PARSE_ERRORS.includes(error.code)) {
+      addFinding(
+        'MALFORMED_HTML',
+        `HTML结构异常 "${error.code}"`,
+        `parse:${error.code}`,
+        { line: error.startLine, column: error.startCol },
+        'warning'
+      );
     }
-  }
+  });
   
-  // 检查属性使用
-  const attrRegex = /<[^>]+\s+([a-zA-Z-]+)\s*=/g;
-  let attrMatch;
-  
-  while ((attrMatch = attrRegex.exec(htmlContent)) !== null) {
-    const attrName = attrMatch[1].toLowerCase();
+  walkElements(document, (element) => {
+    const { tagName } = element;
+    const elementLocation = getElementLocation(element);
     
-    // 检查事件处理器
-    if (attrName.startsWith('on')) {
-      violations.push(`DANGEROUS_ATTRIBUTE: 检测到事件处理器属性 "${attrName}"`);
+    // 检查标签使用（跳过解析器自动补全的元素）
+    const tagAllowed = !elementLocation || isTagAllowed(tagName, config);
+    if (!tagAllowed) {
+      addFinding('DISALLOWED_TAG', `使用了不允许的标签 <${tagName}>`, `tag:${tagName}`, elementLocation);
     }
     
-    // 检查javascript: 协议
-    if (htmlContent.includes(`${attrName}="javascript:`)) {
-      violations.push(`JAVASCRIPT_PROTOCOL: 检测到javascript:协议在属性 "${attrName}" 中`);
-    }
-  }
-  
-  // 检查内联脚本内容
-  const scriptRegex = /<script[^>]*>([\s\S]*?)<\/script>/gi;
-  let scriptMatch;
-  
-  while ((scriptMatch = scriptRegex.exec(htmlContent)) !== null) {
-    const scriptContent = scriptMatch[1];
-    
-    // 检查脚本内容中的危险模式
-    for (const pattern of config.forbiddenPatterns) {
-      if (pattern.test(scriptContent)) {
-        violations.push(`MALICIOUS_SCRIPT: 脚本中检测到危险模式 "${pattern.source}"`);
+    // 检查属性使用
+    for (const attr of element.attrs) {
+      const attrName = getAttributeName(attr);
+      const location = getAttributeLocation(element, attrName);
+      
+      // 检查事件处理器
+      if (isEventHandlerAttribute(attrName)) {
+        addFinding('DANGEROUS_ATTRIBUTE', `检测到事件处理器属性 "${attrName}"`, `attribute:${attrName}`, location);
+        continue;
       }
-    }
-    
-    // 检查外部脚本引用
-    if (scriptMatch[0].includes('src=')) {
-      const srcMatch = scriptMatch[0].match(/src\s*=\s*["'`]([^"'`]+)["'`]/i);
-      if (srcMatch && srcMatch[1].startsWith('http')) {
-        violations.push(`EXTERNAL_SCRIPT: 检测到外部脚本引用 "${srcMatch[1]}"`);
+      
+      // 不允许的标签已整体报告，不再逐个报告其属性
+      if (tagAllowed && !isAttributeAllowed(tagName, attrName, config)) {
+        addFinding(
+          'DISALLOWED_ATTRIBUTE',
+          `标签 <${tagName}> 使用了不允许的属性 "${attrName}"`,
+          `attribute:${attrName}`,
+          location
+        );
+      }
+      
+      // 检查javascript: 协议
+      if (URL_ATTRIBUTES.includes(attrName) && isJavascriptUrl(attr.value)) {
+        addFinding('JAVASCRIPT_PROTOCOL', `检测到javascript:协议在属性 "${attrName}" 中`, 'url:javascript', location);
+      }
+      
+      // 检查提交到外部地址的表单
+      if ((attrName === 'action' || attrName === 'formaction') && isExternalUrl(attr.value)) {
+        addFinding('EXTERNAL_FORM_ACTION', `检测到表单提交到外部地址 "${attr.value}"`, 'url:external-form', location);
+      }
+      
+      // 检查内联样式
+      if (attrName === 'style') {
+        for (const { code, message, ruleId } of findCssViolations(attr.value, config)) {
+          addFinding(code, `内联样式中${message}`, ruleId, location);
+        }
       }
     }
-  }
-  
-  // 检查CSS中的危险内容
-  const styleRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
-  let styleMatch;
-  
-  while ((styleMatch = styleRegex.exec(htmlContent)) !== null) {
-    const styleContent = styleMatch[1];
     
-    // 检查CSS中的javascript
-    if (/javascript\s*:/gi.test(styleContent)) {
-      violations.push(`CSS_JAVASCRIPT: CSS中检测到javascript协议`);
+    // 检查内联脚本内容
+    if (tagName === 'script') {
+      const src = defaultTreeAdapter.getAttrList(element).find((attr) => attr.name === 'src');
+      if (src && isExternalUrl(src.value)) {
+        checkExternalReference(element, 'src', 'script', 'EXTERNAL_SCRIPT', 'url:external-script', '外部脚本');
+      }
+      
+      // 非JavaScript类型的脚本（如模板、着色器）不会被执行
+      const type = getScriptType(element);
+      if (isJavaScriptType(type)) {
+        const { text, location: textLocation } = getTextContent(element);
+        const scriptFindings = analyzeScript(text, {
+          forbiddenApis: config.forbiddenApis,
+          sourceType: type === 'module' ? 'module' : 'script',
+        });
+        
+        // 脚本内的行列号换算为HTML中的行列号
+        for (const finding of scriptFindings) {
+          const location = textLocation && {
+            line: textLocation.line + finding.line - 1,
+            column: finding.line === 1 ? textLocation.column + finding.column - 1 : finding.column,
+          };
+          addFinding(finding.code, finding.message, finding.ruleId, location, finding.severity);
+        }
+      }
     }
     
-    // 检查CSS中的表达式
-    if (/expression\s*\(/gi.test(styleContent)) {
-      violations.push(`CSS_EXPRESSION: CSS中检测到expression表达式`);
+    // 检查link标签引用的外部资源
+    if (tagName === 'link') {
+      const href = defaultTreeAdapter.getAttrList(element).find((attr) => attr.name === 'href');
+      const type = getLinkResourceType(element);
+      if (href && isExternalUrl(href.value) && type !== undefined) {
+        if (type === false) {
+          addFinding(
+            'EXTERNAL_RESOURCE',
+            `检测到不支持的外部资源引用 "${href.value}"`,
+            'url:external-resource',
+            getAttributeLocation(element, 'href')
+          );
+        } else {
+          checkExternalReference(element, 'href', type, 'EXTERNAL_RESOURCE', 'url:external-resource', '外部资源');
+        }
+      }
     }
     
-    // 检查CSS中的外部资源
-    if (/@import\s+url\s*\(\s*["'`]?https?:/gi.test(styleContent)) {
-      violations.push(`CSS_EXTERNAL_IMPORT: CSS中检测到外部资源导入`);
+    // 检查CSS中的危险内容
+    if (tagName === 'style') {
+      const { text, offset } = getTextContent(element);
+      for (const { code, message, ruleId, index } of findCssViolations(text, config)) {
+        const location = offset !== null ? getLineColumn(htmlContent, offset + index) : elementLocation;
+        addFinding(code, `CSS中${message}`, ruleId, location);
+      }
     }
-  }
+  });
+  
+  const violations = findings.filter((finding) => finding.severity === 'error');
   
   return {
     isValid: violations.length === 0,
-    violations,
-    warnings,
+    findings,
+    violations: violations.map(formatFinding),
+    warnings: findings.filter((finding) => finding.severity === 'warning').map(formatFinding),
     sanitizedContent: violations.length === 0 ? htmlContent : undefined,
   };
 }
@@ -314,24 +738,73 @@ export function validateStringContent(
 }
 
 /**
- * 清理HTML内容中的危险元素（基础版本）
+ * 清理HTML内容中的危险元素
+ * 基于解析树移除不允许的标签和属性：不允许的标签保留其子内容，
+ * 嵌入类标签连同内容一并移除；javascript:协议的URL会被清空
  */
 export function sanitizeHtmlContent(
   htmlContent: string,
   config: SecurityConfig = DEFAULT_SECURITY_CONFIG
 ): string {
-  let sanitized = htmlContent;
-  
-  // 移除所有事件处理器属性
-  sanitized = sanitized.replace(/\s+on\w+\s*=\s*["'][^"']*["']/gi, '');
-  
-  // 移除javascript:协议
-  sanitized = sanitized.replace(/javascript\s*:/gi, '');
+  const document = parseHtml(htmlContent);
+  sanitizeChildren(document, config);
   
-  // 移除危险的内联样式
-  sanitized = sanitized.replace(/style\s*=\s*["'][^"']*expression\s*\([^"']*["']/gi, '');
+  if (FULL_DOCUMENT_PATTERN.test(htmlContent)) {
+    return serialize(document);
+  }
   
-  return sanitized;
+  // 片段只输出head和body中的内容，不附加解析器补全的文档结构
+  const html = document.childNodes.find(defaultTreeAdapter.isElementNode);
+  return (html?.childNodes || [])
+    .flatMap((node) => (defaultTreeAdapter.isElementNode(node) ? node.childNodes : []))
+    .map((node) => serializeOuter(node))
+    .join('');
+}
+
+function sanitizeChildren(node: HtmlParentNode, config: SecurityConfig): void {
+  for (const child of [...getChildNodes(node)]) {
+    if (!defaultTreeAdapter.isElementNode(child)) {
+      continue;
+    }
+    
+    // 包含危险内容的样式表整体移除
+    if (child.tagName === 'style' && findCssViolations(getTextContent(child).text, config).length > 0) {
+      defaultTreeAdapter.detachNode(child);
+      continue;
+    }
+    
+    // 解析器自动补全的元素没有源码位置，始终保留
+    if (!child.sourceCodeLocation || isTagAllowed(child.tagName, config)) {
+      child.attrs = sanitizeAttributes(child, config);
+      sanitizeChildren(child, config);
+      continue;
+    }
+    
+    // 不允许的标签保留清理后的子内容
+    const parent = child.parentNode;
+    if (parent && !DROP_CONTENT_TAGS.includes(child.tagName)) {
+      sanitizeChildren(child, config);
+      for (const grandchild of [...child.childNodes]) {
+        defaultTreeAdapter.detachNode(grandchild);
+        defaultTreeAdapter.insertBefore(parent, grandchild, child);
+      }
+    }
+    defaultTreeAdapter.detachNode(child);
+  }
+}
+
+// 移除不允许的属性和危险的内联样式，javascript:协议的URL会被清空
+function sanitizeAttributes(element: HtmlElement, config: SecurityConfig): HtmlElement['attrs'] {
+  return element.attrs
+    .filter((attr) => {
+      const attrName = getAttributeName(attr);
+      return (
+        !isEventHandlerAttribute(attrName) &&
+        isAttributeAllowed(element.tagName, attrName, config) &&
+        !(attrName === 'style' && findCssViolations(attr.value, config).length > 0)
+      );
+    })
+    .map((attr) => (URL_ATTRIBUTES.includes(getAttributeName(attr)) && isJavascriptUrl(attr.value) ? { ...attr, value: '' } : attr));
 }
 
 /**
@@ -0,0 +1,159 @@
+/**
+ * 签名会话令牌
+ * 基于Web Crypto的HMAC-SHA256签名，可同时在Node运行时和Edge中间件中使用
+ */
+
+// 开发环境未配置密钥时使用的默认值
+const DEVELOPMENT_SESSION_SECRET = 'session-secret-key';
+
+/**
+ * 读取会话签名密钥
+ * 生产环境未配置时直接抛出错误，避免使用公开的默认密钥签发可被伪造的会话
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return DEVELOPMENT_SESSION_SECRET;
+}
+
+export const ADMIN_SESSION_COOKIE = 'admin-auth';
+export const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60; // 8小时
+
+export const CREATOR_SESSION_COOKIE = 'creator-auth';
+export const CREATOR_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7天
+
+// 未登录玩家的存档标识（由游戏页面签发）
+export const PLAYER_SESSION_TTL_SECONDS = 365 * 24 * 60 * 60; // 1年
+
+// 会话类型，管理员、创作者和玩家会话互不通用
+export type SessionKind = 'admin' | 'creator' | 'player';
+
+// 会话令牌中携带的信息
+export interface SessionPayload {
+  sub: string; // 用户ID
+  name: string; // 用户名
+  kind: SessionKind;
+  ver?: number; // 管理员会话版本，修改密码后旧会话失效
+  iat: number; // 签发时间（秒）
+  exp: number; // 过期时间（秒）
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * 会话Cookie的通用选项
+ * @param maxAge Cookie有效期（秒），为0时表示清除Cookie
+ */
+export function getSessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// 签名密钥在使用时读取，构建和导入模块时不要求已配置SESSION_SECRET
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * 生成签名会话令牌
+ * @param subject 会话主体信息
+ * @param ttlSeconds 有效期（秒）
+ * @returns 格式为 payload.signature 的令牌
+ */
+export async function createSessionToken(
+  subject: Pick<SessionPayload, 'sub' | 'name' | 'kind' | 'ver'>,
+  ttlSeconds: number = ADMIN_SESSION_TTL_SECONDS
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    ...subject,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(),
+    encoder.encode(encodedPayload)
+  );
+
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * 校验会话令牌的签名和有效期
+ * @param token 会话令牌
+ * @returns 有效时返回会话信息，否则返回null
+ */
+export async function verifySessionToken(token: string | null | undefined): Promise<SessionPayload | null> {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const isValidSignature = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!isValidSignature) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SessionPayload;
+    if (!payload.sub || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    // 检查是否过期
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
@@ -4,3 +4,18 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// 只允许跳转回站内路径，避免开放重定向（浏览器会将 /\evil.com 等路径解析为其他站点）
+export function getSafeRedirectPath(from: string | undefined, fallback: string): string {
+  if (!from || !from.startsWith('/')) {
+    return fallback;
+  }
+
+  const base = 'http://localhost';
+  try {
+    const url = new URL(from, base);
+    return url.origin === base ? url.pathname + url.search + url.hash : fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { ADMIN_ROLES, API_TOKEN_SCOPES } from './permissions';
+import { FORBIDDEN_API_CATEGORIES } from './script-analysis';
+import { GAME_STORAGE_KEY_PATTERN, GAME_STORAGE_LIMITS } from './game-storage';
+import { GAME_ERROR_KINDS } from './game-errors';
 
 // 游戏提交验证schema
 export const gameSubmissionSchema = z.object({
@@ -50,6 +54,72 @@ export const gameUpdateSchema = z.object({
     .optional(),
 });
 
+// 提交游戏新版本验证schema（标题和描述留空时沿用当前线上版本）
+export const gameVersionSubmitSchema = z.object({
+  title: z
+    .string()
+    .min(1, '游戏标题不能为空')
+    .max(255, '游戏标题不能超过255个字符')
+    .trim()
+    .optional(),
+  description: z
+    .string()
+    .max(1000, '游戏描述不能超过1000个字符')
+    .trim()
+    .optional(),
+  htmlContent: z
+    .string()
+    .min(1, 'HTML内容不能为空')
+    .max(5 * 1024 * 1024, 'HTML内容不能超过5MB'),
+  changelog: z
+    .string()
+    .max(1000, '更新说明不能超过1000个字符')
+    .trim()
+    .optional()
+    .or(z.literal('')),
+});
+
+// 游戏版本审核验证schema
+export const versionReviewSchema = z.object({
+  action: z.enum(['approve', 'reject'], {
+    required_error: '必须选择审核操作',
+    invalid_type_error: '审核操作必须是approve或reject',
+  }),
+  reason: z
+    .string()
+    .max(500, '审核原因不能超过500个字符')
+    .trim()
+    .optional()
+    .or(z.literal('')),
+});
+
+// 游戏版本回滚验证schema
+export const gameRollbackSchema = z.object({
+  versionId: z
+    .string()
+    .min(1, '版本ID不能为空')
+    .uuid('版本ID格式不正确'),
+});
+
+// 申诉验证schema
+export const gameAppealSchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(1, '申诉内容不能为空')
+    .max(1000, '申诉内容不能超过1000个字符'),
+});
+
+// 删除游戏验证schema
+export const gameDeleteSchema = z.object({
+  reason: z
+    .string()
+    .max(500, '删除原因不能超过500个字符')
+    .trim()
+    .optional()
+    .or(z.literal('')),
+});
+
 // 游戏审核验证schema
 export const reviewGameSchema = z.object({
   action: z.enum(['approve', 'reject'], {
@@ -62,6 +132,10 @@ export const reviewGameSchema = z.object({
     .trim()
     .optional()
     .or(z.literal('')),
+  category: z
+    .string()
+    .max(50, '拒绝原因分类代码不能超过50个字符')
+    .optional(),
   reviewer: z
     .string()
     .min(1, '审核员名称不能为空')
@@ -69,6 +143,75 @@ export const reviewGameSchema = z.object({
     .trim(),
 });
 
+// 批量审核验证schema，游戏ID在接口中逐个校验以便返回每一项的结果
+export const batchReviewSchema = z.object({
+  gameIds: z
+    .array(z.string(), {
+      required_error: '必须选择要审核的游戏',
+      invalid_type_error: '游戏ID列表格式不正确',
+    })
+    .min(1, '至少需要选择一个游戏')
+    .max(100, '单次最多批量审核100个游戏'),
+  action: z.enum(['approve', 'reject'], {
+    required_error: '必须选择审核操作',
+    invalid_type_error: '审核操作必须是approve或reject',
+  }),
+  reason: z
+    .string()
+    .max(500, '审核原因不能超过500个字符')
+    .trim()
+    .optional()
+    .or(z.literal('')),
+  category: z
+    .string()
+    .max(50, '拒绝原因分类代码不能超过50个字符')
+    .optional(),
+}).refine((data) => data.action !== 'reject' || !!data.category, {
+  message: '批量拒绝时必须选择拒绝原因分类',
+  path: ['category'],
+});
+
+// 拒绝原因分类验证schema
+export const rejectionCategoryCreateSchema = z.object({
+  code: z
+    .string()
+    .min(1, '分类代码不能为空')
+    .max(50, '分类代码不能超过50个字符')
+    .regex(/^[a-z0-9_]+$/, '分类代码只能包含小写字母、数字和下划线'),
+  label: z
+    .string()
+    .min(1, '分类名称不能为空')
+    .max(100, '分类名称不能超过100个字符')
+    .trim(),
+  template: z
+    .string()
+    .min(1, '模板内容不能为空')
+    .max(1000, '模板内容不能超过1000个字符')
+    .trim(),
+  sortOrder: z
+    .number()
+    .int('排序值必须是整数')
+    .min(0, '排序值不能小于0')
+    .max(10000, '排序值不能大于10000')
+    .optional(),
+});
+
+// 拒绝原因分类修改验证schema（分类代码不可修改）
+export const rejectionCategoryUpdateSchema = rejectionCategoryCreateSchema
+  .omit({ code: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  });
+
+// 认领/释放待审核游戏验证schema
+export const reviewClaimSchema = z.object({
+  gameId: z
+    .string()
+    .min(1, '游戏ID不能为空')
+    .uuid('游戏ID格式不正确'),
+});
+
 // 游戏ID验证schema
 export const gameIdSchema = z.object({
   id: z
@@ -95,7 +238,7 @@ export const paginationSchema = z.object({
 // 游戏状态过滤验证schema
 export const gameStatusFilterSchema = z.object({
   status: z
-    .enum(['pending', 'approved', 'rejected'])
+    .enum(['pending', 'approved', 'rejected', 'unpublished'])
     .optional(),
 });
 
@@ -116,13 +259,345 @@ export const htmlContentSecuritySchema = z.object({
   content: z.string().min(1, 'HTML内容不能为空'),
 });
 
+// 管理员登录验证schema
+export const adminLoginSchema = z.object({
+  username: z
+    .string()
+    .min(1, '用户名不能为空')
+    .max(100, '用户名不能超过100个字符')
+    .trim(),
+  password: z
+    .string()
+    .min(1, '密码不能为空')
+    .max(200, '密码不能超过200个字符'),
+});
+
+// 创建管理员验证schema
+export const adminCreateSchema = z.object({
+  username: z
+    .string()
+    .min(3, '用户名至少需要3个字符')
+    .max(100, '用户名不能超过100个字符')
+    .regex(/^[a-zA-Z0-9_.-]+$/, '用户名只能包含字母、数字、下划线、点和连字符')
+    .trim(),
+  password: z
+    .string()
+    .min(8, '密码至少需要8个字符')
+    .max(200, '密码不能超过200个字符'),
+  displayName: z
+    .string()
+    .max(100, '显示名称不能超过100个字符')
+    .trim()
+    .optional(),
+  role: z.enum(ADMIN_ROLES, {
+    errorMap: () => ({ message: '角色必须是reviewer、moderator或owner' }),
+  }),
+});
+
+// 更新管理员验证schema
+export const adminUpdateSchema = z.object({
+  displayName: z
+    .string()
+    .max(100, '显示名称不能超过100个字符')
+    .trim()
+    .optional(),
+  role: z
+    .enum(ADMIN_ROLES, {
+      errorMap: () => ({ message: '角色必须是reviewer、moderator或owner' }),
+    })
+    .optional(),
+  isActive: z.boolean().optional(),
+  password: z
+    .string()
+    .min(8, '密码至少需要8个字符')
+    .max(200, '密码不能超过200个字符')
+    .optional(),
+});
+
+// 创作者注册验证schema
+export const creatorRegisterSchema = z.object({
+  username: z
+    .string()
+    .min(3, '用户名至少需要3个字符')
+    .max(100, '用户名不能超过100个字符')
+    .regex(/^[a-zA-Z0-9_.-]+$/, '用户名只能包含字母、数字、下划线、点和连字符')
+    .trim(),
+  password: z
+    .string()
+    .min(8, '密码至少需要8个字符')
+    .max(200, '密码不能超过200个字符'),
+  displayName: z
+    .string()
+    .max(100, '显示名称不能超过100个字符')
+    .trim()
+    .optional()
+    .or(z.literal('')),
+});
+
+// 创作者登录验证schema
+export const creatorLoginSchema = adminLoginSchema;
+
+// 创建API令牌验证schema
+export const apiTokenCreateSchema = z.object({
+  name: z
+    .string()
+    .min(1, '令牌名称不能为空')
+    .max(100, '令牌名称不能超过100个字符')
+    .trim(),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES, {
+      errorMap: () => ({ message: `权限范围必须是${API_TOKEN_SCOPES.join('、')}之一` }),
+    }))
+    .min(1, '至少需要选择一个权限范围'),
+  expiresAt: z
+    .string()
+    .datetime({ message: '过期时间格式不正确' })
+    .refine((value) => new Date(value).getTime() > Date.now(), '过期时间必须晚于当前时间')
+    .optional(),
+});
+
+// 安全策略配置验证schema（禁用模式为正则表达式源码）
+const securityNameListSchema = z.array(z.string().min(1, '名称不能为空').max(100, '名称不能超过100个字符').trim());
+
+export const securityPolicyConfigSchema = z.object({
+  allowedTags: securityNameListSchema.min(1, '至少需要允许一个标签'),
+  allowedAttributes: z.record(securityNameListSchema),
+  forbiddenApis: z.array(
+    z.object({
+      api: z
+        .string()
+        .min(1, 'API名称不能为空')
+        .regex(/^[\w$]+(\.[\w$]+)*$/, 'API名称必须是以点分隔的全局路径'),
+      category: z.enum(FORBIDDEN_API_CATEGORIES, {
+        errorMap: () => ({ message: `API分类必须是${FORBIDDEN_API_CATEGORIES.join('、')}之一` }),
+      }),
+      allowedMembers: securityNameListSchema.optional(),
+    })
+  ),
+  forbiddenPatterns: z.array(
+    z
+      .string()
+      .min(1, '禁用模式不能为空')
+      .max(500, '禁用模式不能超过500个字符')
+      .refine((source) => {
+        try {
+          new RegExp(source);
+          return true;
+        } catch {
+          return false;
+        }
+      }, '禁用模式不是有效的正则表达式')
+  ),
+  maxFileSize: z
+    .number()
+    .int('文件大小限制必须是整数')
+    .min(1, '文件大小限制必须大于0')
+    .max(50 * 1024 * 1024, '文件大小限制不能超过50MB'),
+  allowedFileTypes: securityNameListSchema.min(1, '至少需要允许一种文件类型'),
+});
+
+// 创建安全策略版本验证schema
+export const securityPolicyCreateSchema = z.object({
+  config: securityPolicyConfigSchema,
+  note: z
+    .string()
+    .max(500, '备注不能超过500个字符')
+    .trim()
+    .optional(),
+  // 创建后立即启用
+  activate: z.boolean().optional(),
+});
+
+// 安全策略版本号验证schema
+export const securityPolicyVersionSchema = z.object({
+  version: z.coerce
+    .number()
+    .int('版本号必须是整数')
+    .min(1, '版本号必须大于0'),
+});
+
+// 安全复查验证schema（默认只做试运行）
+export const securityRescanSchema = z.object({
+  dryRun: z.boolean().default(true),
+  requeue: z.boolean().default(false),
+});
+
+// 游戏桥接消息验证schema（游戏iframe通过postMessage发送给平台的消息）
+// 存档键
+const gameStorageKeySchema = z
+  .string()
+  .min(1, '存档键不能为空')
+  .max(GAME_STORAGE_LIMITS.maxKeyLength, `存档键不能超过${GAME_STORAGE_LIMITS.maxKeyLength}个字符`)
+  .regex(GAME_STORAGE_KEY_PATTERN, '存档键只能包含字母、数字和 _ . : -');
+
+// 存档值（游戏中的值序列化后的JSON字符串，字节数由存档API检查）
+const gameStorageValueSchema = z
+  .string()
+  .max(GAME_STORAGE_LIMITS.maxValueBytes, '存档数据过大');
+
+// 桥接请求ID，用于将回复与请求对应
+const gameBridgeRequestIdSchema = z.string().min(1).max(64);
+
+const gameBridgeScoreSchema = z
+  .number()
+  .finite('分数必须是有限数字')
+  .min(0, '分数不能为负数')
+  .max(Number.MAX_SAFE_INTEGER, '分数过大');
+
+export const gameBridgeMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ready') }),
+  z.object({ type: z.literal('score'), score: gameBridgeScoreSchema }),
+  z.object({ type: z.literal('game-over'), score: gameBridgeScoreSchema.optional() }),
+  z.object({ type: z.literal('request-fullscreen') }),
+  z.object({
+    type: z.literal('resize'),
+    height: z.number().int('高度必须是整数').min(100, '高度不能小于100').max(4000, '高度不能超过4000'),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string().min(1, '错误信息不能为空').max(1000, '错误信息不能超过1000个字符'),
+    stack: z.string().max(5000, '错误堆栈不能超过5000个字符').optional(),
+    kind: z.enum(GAME_ERROR_KINDS).default('error'),
+    durationMs: z.number().int().min(0).optional(),
+  }),
+  z.object({ type: z.literal('heartbeat') }),
+  z.object({ type: z.literal('storage-get'), requestId: gameBridgeRequestIdSchema, key: gameStorageKeySchema }),
+  z.object({
+    type: z.literal('storage-set'),
+    requestId: gameBridgeRequestIdSchema,
+    key: gameStorageKeySchema,
+    value: gameStorageValueSchema,
+  }),
+  z.object({ type: z.literal('storage-remove'), requestId: gameBridgeRequestIdSchema, key: gameStorageKeySchema }),
+  z.object({ type: z.literal('storage-keys'), requestId: gameBridgeRequestIdSchema }),
+]);
+
+export const gameBridgeEnvelopeSchema = z.object({
+  source: z.string(),
+  version: z.number().int(),
+  message: z.unknown(),
+});
+
+// 存档查询验证schema（不指定key时列出所有存档键）
+export const gameStorageQuerySchema = z.object({
+  key: gameStorageKeySchema.optional(),
+});
+
+// 存档删除验证schema
+export const gameStorageKeyParamSchema = z.object({
+  key: gameStorageKeySchema,
+});
+
+// 存档写入验证schema
+export const gameStorageSetSchema = z.object({
+  key: gameStorageKeySchema,
+  value: gameStorageValueSchema,
+});
+
+// 游戏运行错误上报验证schema
+export const gameErrorReportSchema = z.object({
+  kind: z.enum(GAME_ERROR_KINDS),
+  message: z
+    .string()
+    .min(1, '错误信息不能为空')
+    .max(1000, '错误信息不能超过1000个字符'),
+  stack: z
+    .string()
+    .max(5000, '错误堆栈不能超过5000个字符')
+    .optional(),
+  durationMs: z.number().int().min(0).optional(),
+});
+
+// 游戏运行错误汇总查询参数验证schema
+export const gameErrorSummaryQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int('天数必须是整数')
+    .min(1, '天数必须大于0')
+    .max(90, '天数不能超过90')
+    .default(7),
+});
+
+// 分数提交验证schema
+export const scoreSubmitSchema = z.object({
+  playerName: z
+    .string()
+    .trim()
+    .min(1, '玩家名称不能为空')
+    .max(30, '玩家名称不能超过30个字符'),
+  score: z.number().finite('分数必须是有限数字'),
+});
+
+// 排行榜查询验证schema
+export const leaderboardQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int('数量必须是整数')
+    .min(1, '数量必须大于0')
+    .max(50, '数量不能超过50')
+    .default(10),
+});
+
+// 排行榜设置验证schema
+export const scoreSettingsSchema = z
+  .object({
+    sortOrder: z.enum(['desc', 'asc']),
+    minScore: z.number().finite('最低分必须是有限数字').nullable(),
+    maxScore: z.number().finite('最高分必须是有限数字').nullable(),
+    unit: z
+      .string()
+      .max(20, '分数单位不能超过20个字符')
+      .trim()
+      .nullable()
+      .transform((unit) => unit || null),
+    rateLimitCount: z
+      .number()
+      .int('提交次数必须是整数')
+      .min(1, '提交次数至少为1')
+      .max(100, '提交次数不能超过100'),
+    rateLimitWindowSeconds: z
+      .number()
+      .int('时间窗口必须是整数')
+      .min(10, '时间窗口不能少于10秒')
+      .max(86400, '时间窗口不能超过1天'),
+  })
+  .refine(
+    (settings) => settings.minScore === null || settings.maxScore === null || settings.minScore <= settings.maxScore,
+    { message: '最低分不能大于最高分', path: ['maxScore'] }
+  );
+
 // 类型导出
 export type GameSubmissionInput = z.infer<typeof gameSubmissionSchema>;
 export type GameUpdateInput = z.infer<typeof gameUpdateSchema>;
+export type GameVersionSubmitInput = z.infer<typeof gameVersionSubmitSchema>;
+export type VersionReviewInput = z.infer<typeof versionReviewSchema>;
+export type GameRollbackInput = z.infer<typeof gameRollbackSchema>;
+export type GameDeleteInput = z.infer<typeof gameDeleteSchema>;
+export type GameAppealInput = z.infer<typeof gameAppealSchema>;
 export type ReviewGameInput = z.infer<typeof reviewGameSchema>;
+export type BatchReviewInput = z.infer<typeof batchReviewSchema>;
+export type ReviewClaimInput = z.infer<typeof reviewClaimSchema>;
+export type RejectionCategoryCreateInput = z.infer<typeof rejectionCategoryCreateSchema>;
+export type RejectionCategoryUpdateInput = z.infer<typeof rejectionCategoryUpdateSchema>;
 export type GameIdInput = z.infer<typeof gameIdSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
 export type GameStatusFilterInput = z.infer<typeof gameStatusFilterSchema>;
 export type SearchInput = z.infer<typeof searchSchema>;
 export type GameListQueryInput = z.infer<typeof gameListQuerySchema>;
 export type HtmlContentSecurityInput = z.infer<typeof htmlContentSecuritySchema>;
+export type AdminLoginInput = z.infer<typeof adminLoginSchema>;
+export type AdminCreateInput = z.infer<typeof adminCreateSchema>;
+export type AdminUpdateInput = z.infer<typeof adminUpdateSchema>;
+export type CreatorRegisterInput = z.infer<typeof creatorRegisterSchema>;
+export type CreatorLoginInput = z.infer<typeof creatorLoginSchema>;
+export type ApiTokenCreateInput = z.infer<typeof apiTokenCreateSchema>;
+export type SecurityPolicyConfigInput = z.infer<typeof securityPolicyConfigSchema>;
+export type SecurityPolicyCreateInput = z.infer<typeof securityPolicyCreateSchema>;
+export type SecurityRescanInput = z.infer<typeof securityRescanSchema>;
+export type GameBridgeMessage = z.infer<typeof gameBridgeMessageSchema>;
+export type GameErrorReportInput = z.infer<typeof gameErrorReportSchema>;
+export type GameErrorSummaryQueryInput = z.infer<typeof gameErrorSummaryQuerySchema>;
+export type GameStorageSetInput = z.infer<typeof gameStorageSetSchema>;
+export type ScoreSubmitInput = z.infer<typeof scoreSubmitSchema>;
+export type LeaderboardQueryInput = z.infer<typeof leaderboardQuerySchema>;
+export type ScoreSettingsInput = z.infer<typeof scoreSettingsSchema>;
@@ -1,9 +1,38 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
 import { isAdminAuthenticated, requireAdmin, validateAdminAccess } from '@/lib/auth';
-import { GameDAL, ReviewLogDAL } from '@/lib/dal';
+import { GameDAL, ReviewLogDAL, AdminDAL, ApiTokenDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { generateApiToken } from '@/lib/api-tokens';
+import { hasPermission } from '@/lib/permissions';
+import { ReviewService } from '@/lib/review-service';
+import { POST as reviewGame } from '@/app/api/admin/review/route';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'reviewer' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
 
 // Mock NextRequest
-const createMockRequest = (authHeader?: string) => {
+const createMockRequest = (authHeader?: string, sessionCookie?: string) => {
   const headers = new Map();
   if (authHeader) {
     headers.set('authorization', authHeader);
@@ -13,49 +42,76 @@ const createMockRequest = (authHeader?: string) => {
     headers: {
       get: (key: string) => headers.get(key) || null,
     },
+    cookies: {
+      get: (name: string) =>
+        name === 'admin-auth' && sessionCookie ? { name, value: sessionCookie } : undefined,
+    },
   } as any;
 };
 
 describe('管理员认证系统', () => {
-  beforeEach(() => {
-    vi.clearAllMocks();
+  let validToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    validToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
   });
 
   describe('isAdminAuthenticated', () => {
-    it('应该在有效的Bearer token时返回true', () => {
-      const request = createMockRequest('Bearer admin-secret-key');
-      expect(isAdminAuthenticated(request)).toBe(true);
+    it('应该在有效的会话Cookie时返回true', async () => {
+      const request = createMockRequest(undefined, validToken);
+      expect(await isAdminAuthenticated(request)).toBe(true);
     });
 
-    it('应该在有效的直接token时返回true', () => {
-      const request = createMockRequest('admin-secret-key');
-      expect(isAdminAuthenticated(request)).toBe(true);
+    it('应该在有效的Bearer会话令牌时返回true', async () => {
+      const request = createMockRequest(`Bearer ${validToken}`);
+      expect(await isAdminAuthenticated(request)).toBe(true);
     });
 
-    it('应该在无效token时返回false', () => {
+    it('应该在无效token时返回false', async () => {
       const request = createMockRequest('invalid-token');
-      expect(isAdminAuthenticated(request)).toBe(false);
+      expect(await isAdminAuthenticated(request)).toBe(false);
+    });
+
+    it('应该拒绝旧的共享ADMIN_SECRET', async () => {
+      const request = createMockRequest('Bearer admin-secret-key');
+      expect(await isAdminAuthenticated(request)).toBe(false);
+    });
+
+    it('应该在签名被篡改时返回false', async () => {
+      const [payload, signature] = validToken.split('.');
+      const tampered = `${payload}x.${signature}`;
+      const request = createMockRequest(undefined, tampered);
+      expect(await isAdminAuthenticated(request)).toBe(false);
+    });
+
+    it('应该在管理员账号被停用时返回false', async () => {
+      vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, isActive: false });
+      const request = createMockRequest(undefined, validToken);
+      expect(await isAdminAuthenticated(request)).toBe(false);
     });
 
-    it('应该在没有Authorization header时返回false', () => {
+    it('应该在没有认证信息时返回false', async () => {
       const request = createMockRequest();
-      expect(isAdminAuthenticated(request)).toBe(false);
+      expect(await isAdminAuthenticated(request)).toBe(false);
     });
   });
 
   describe('validateAdminAccess', () => {
-    it('应该在有效认证时返回成功结果', () => {
-      const request = createMockRequest('Bearer admin-secret-key');
-      const result = validateAdminAccess(request);
+    it('应该在有效认证时返回真实的管理员身份', async () => {
+      const request = createMockRequest(undefined, validToken);
+      const result = await validateAdminAccess(request);
       
       expect(result.isValid).toBe(true);
-      expect(result.adminId).toBe('admin');
+      expect(result.adminId).toBe('alice');
+      expect(result.admin?.id).toBe('admin-1');
       expect(result.error).toBeUndefined();
     });
 
-    it('应该在无效认证时返回错误结果', () => {
+    it('应该在无效认证时返回错误结果', async () => {
       const request = createMockRequest('invalid-token');
-      const result = validateAdminAccess(request);
+      const result = await validateAdminAccess(request);
       
       expect(result.isValid).toBe(false);
       expect(result.adminId).toBe('');
@@ -66,21 +122,21 @@ describe('管理员认证系统', () => {
   describe('requireAdmin装饰器', () => {
     it('应该在有效认证时调用处理函数', async () => {
       const mockHandler = vi.fn().mockResolvedValue(new Response('success'));
-      const decoratedHandler = requireAdmin(mockHandler);
-      const request = createMockRequest('Bearer admin-secret-key');
+      const decoratedHandler = requireAdmin(mockHandler, 'review:write');
+      const request = createMockRequest(undefined, validToken);
 
-      const response = await decoratedHandler(request);
+      const response = await decoratedHandler(request, undefined);
       
-      expect(mockHandler).toHaveBeenCalledWith(request);
+      expect(mockHandler).toHaveBeenCalledWith(request, undefined);
       expect(response.status).not.toBe(401);
     });
 
     it('应该在无效认证时返回401错误', async () => {
       const mockHandler = vi.fn();
-      const decoratedHandler = requireAdmin(mockHandler);
+      const decoratedHandler = requireAdmin(mockHandler, 'review:write');
       const request = createMockRequest('invalid-token');
 
-      const response = await decoratedHandler(request);
+      const response = await decoratedHandler(request, undefined);
       
       expect(mockHandler).not.toHaveBeenCalled();
       expect(response.status).toBe(401);
@@ -88,6 +144,109 @@ describe('管理员认证系统', () => {
       const body = await response.json();
       expect(body.error).toBe('Unauthorized');
     });
+
+    it('应该在角色缺少所需权限时返回403错误', async () => {
+      const mockHandler = vi.fn();
+      const decoratedHandler = requireAdmin(mockHandler, 'games:delete');
+      const request = createMockRequest(undefined, validToken);
+
+      const response = await decoratedHandler(request, undefined);
+
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(response.status).toBe(403);
+
+      const body = await response.json();
+      expect(body.error).toBe('Forbidden');
+    });
+  });
+
+  describe('角色权限', () => {
+    it('审核员只能审核游戏，不能删除游戏', () => {
+      expect(hasPermission('reviewer', 'review:write')).toBe(true);
+      expect(hasPermission('reviewer', 'games:unpublish')).toBe(false);
+      expect(hasPermission('reviewer', 'games:delete')).toBe(false);
+    });
+
+    it('版主可以下架和编辑游戏，但不能管理管理员', () => {
+      expect(hasPermission('moderator', 'games:unpublish')).toBe(true);
+      expect(hasPermission('moderator', 'games:edit')).toBe(true);
+      expect(hasPermission('moderator', 'games:delete')).toBe(false);
+      expect(hasPermission('moderator', 'admins:manage')).toBe(false);
+    });
+
+    it('所有者拥有全部权限', () => {
+      expect(hasPermission('owner', 'games:delete')).toBe(true);
+      expect(hasPermission('owner', 'admins:manage')).toBe(true);
+      expect(hasPermission('owner', 'security:manage')).toBe(true);
+    });
+
+    it('未知角色没有任何权限', () => {
+      expect(hasPermission(null, 'review:read')).toBe(false);
+    });
+  });
+});
+
+describe('API令牌认证', () => {
+  const { token, prefix, hash } = generateApiToken();
+
+  const mockApiToken = {
+    id: 'token-1',
+    name: 'ci-import',
+    tokenPrefix: prefix,
+    tokenHash: hash,
+    scopes: ['games:submit', 'review:read'] as ('games:submit' | 'review:read')[],
+    createdBy: 'alice',
+    expiresAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(ApiTokenDAL, 'touchLastUsed').mockResolvedValue();
+  });
+
+  it('应该接受权限范围内的API令牌并记录令牌身份', async () => {
+    const getByHash = vi.spyOn(ApiTokenDAL, 'getByHash').mockResolvedValue(mockApiToken);
+    const request = createMockRequest(`Bearer ${token}`);
+
+    const result = await validateAdminAccess(request);
+
+    expect(getByHash).toHaveBeenCalledWith(hash);
+    expect(result.isValid).toBe(true);
+    expect(result.adminId).toBe('token:ci-import');
+    expect(await isAdminAuthenticated(request, 'review:read')).toBe(true);
+    expect(ApiTokenDAL.touchLastUsed).toHaveBeenCalledWith('token-1');
+  });
+
+  it('应该在权限范围不足时返回403错误', async () => {
+    vi.spyOn(ApiTokenDAL, 'getByHash').mockResolvedValue(mockApiToken);
+    const mockHandler = vi.fn();
+    const decoratedHandler = requireAdmin(mockHandler, 'review:write');
+
+    const response = await decoratedHandler(createMockRequest(`Bearer ${token}`), undefined);
+
+    expect(mockHandler).not.toHaveBeenCalled();
+    expect(response.status).toBe(403);
+  });
+
+  it('应该拒绝已吊销的API令牌', async () => {
+    vi.spyOn(ApiTokenDAL, 'getByHash').mockResolvedValue({ ...mockApiToken, revokedAt: new Date() });
+    expect(await isAdminAuthenticated(createMockRequest(`Bearer ${token}`))).toBe(false);
+  });
+
+  it('应该拒绝已过期的API令牌', async () => {
+    vi.spyOn(ApiTokenDAL, 'getByHash').mockResolvedValue({
+      ...mockApiToken,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    expect(await isAdminAuthenticated(createMockRequest(`Bearer ${token}`))).toBe(false);
+  });
+
+  it('应该拒绝不存在的API令牌', async () => {
+    vi.spyOn(ApiTokenDAL, 'getByHash').mockResolvedValue(null);
+    expect(await isAdminAuthenticated(createMockRequest('Bearer mgs_unknown'))).toBe(false);
   });
 });
 
@@ -171,6 +330,7 @@ describe('审核功能集成测试', () => {
         gameId: 'test-game-id',
         action: 'reject',
         reason: '内容不符合规范',
+        category: null,
         reviewer: 'admin',
         createdAt: new Date(),
       } as any);
@@ -248,6 +408,7 @@ describe('审核功能集成测试', () => {
         totalReviews: 10,
         approvals: 7,
         rejections: 3,
+        rejectionsByCategory: [{ category: 'broken_game', count: 3 }],
       };
 
       vi.spyOn(ReviewLogDAL, 'getReviewStats').mockResolvedValue(mockStats);
@@ -258,4 +419,88 @@ describe('审核功能集成测试', () => {
       expect(stats.rejections).toBe(3);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('下架游戏', () => {
+  const gameId = 'test-game-id';
+
+  const createReviewRequest = (body: unknown, token: string) =>
+    new NextRequest('http://localhost:3000/api/admin/review', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${token}` },
+      body: JSON.stringify(body),
+    });
+
+  let moderatorToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, role: 'moderator' });
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, title: '测试游戏', status: 'approved' } as any);
+    moderatorToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  it('应该下架已发布的游戏并记录原因', async () => {
+    const review = vi
+      .spyOn(ReviewService, 'review')
+      .mockResolvedValue({ id: gameId, status: 'unpublished', unpublishReason: '收到侵权举报' } as any);
+
+    const response = await reviewGame(
+      createReviewRequest({ gameId, action: 'unpublish', reason: '收到侵权举报' }, moderatorToken),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    expect(review).toHaveBeenCalledWith({
+      gameId,
+      action: 'unpublish',
+      reason: '收到侵权举报',
+      category: null,
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+    });
+  });
+
+  it('下架时必须提供原因', async () => {
+    const review = vi.spyOn(ReviewService, 'review');
+
+    const response = await reviewGame(createReviewRequest({ gameId, action: 'unpublish' }, moderatorToken), undefined);
+
+    expect(response.status).toBe(400);
+    expect(review).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝下架未发布的游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, status: 'pending' } as any);
+
+    const response = await reviewGame(
+      createReviewRequest({ gameId, action: 'unpublish', reason: '违规' }, moderatorToken),
+      undefined
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('审核员没有下架权限', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    const review = vi.spyOn(ReviewService, 'review');
+
+    const response = await reviewGame(
+      createReviewRequest({ gameId, action: 'unpublish', reason: '违规' }, moderatorToken),
+      undefined
+    );
+
+    expect(response.status).toBe(403);
+    expect(review).not.toHaveBeenCalled();
+  });
+
+  it('并发审核失败的请求应该返回409错误', async () => {
+    vi.spyOn(ReviewService, 'review').mockResolvedValue(null);
+
+    const response = await reviewGame(
+      createReviewRequest({ gameId, action: 'unpublish', reason: '违规' }, moderatorToken),
+      undefined
+    );
+
+    expect(response.status).toBe(409);
+  });
+});
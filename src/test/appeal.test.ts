@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { CreatorDAL, GameDAL, ReviewLogDAL, SubmissionReceiptDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { generateReceiptToken } from '@/lib/receipts';
+import { POST as appealGame } from '@/app/api/games/[id]/appeal/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockGame: Game = {
+  id: gameId,
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>Test</body></html>',
+  authorName: 'Bob',
+  status: 'rejected',
+  rejectionReason: '内容不完整',
+  appealMessage: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  approvedAt: null,
+  approvedBy: null,
+  securityPolicyVersion: null,
+  claimedBy: null,
+  claimExpiresAt: null,
+  unpublishedAt: null,
+  unpublishReason: null,
+  deletedAt: null,
+  currentVersionId: null,
+  submittedBy: null,
+  ownerId: 'creator-1',
+};
+
+const createRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost:3000/api/games/${gameId}/appeal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+describe('游戏申诉API', () => {
+  const context = { params: { id: gameId } };
+  const { token: receiptToken, hash: receiptHash } = generateReceiptToken();
+  let creatorCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(SubmissionReceiptDAL, 'getByGameId').mockResolvedValue({
+      gameId,
+      tokenHash: receiptHash,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    });
+    vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 1,
+      gameId,
+      action: 'appeal',
+      reason: null,
+      category: null,
+      reviewer: 'creator:bob',
+      reviewerRole: null,
+      versionId: null,
+      createdAt: new Date(),
+    });
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    creatorCookie = `creator-auth=${token}`;
+  });
+
+  it('所有者申诉后游戏应该重新进入审核并记录日志', async () => {
+    const appeal = vi.spyOn(GameDAL, 'appeal').mockResolvedValue({
+      ...mockGame,
+      status: 'pending',
+      appealMessage: '已补充说明文档',
+    });
+
+    const response = await appealGame(createRequest({ message: '已补充说明文档' }, { Cookie: creatorCookie }), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.game.status).toBe('pending');
+    expect(data.data.game.rejectionReason).toBe('内容不完整');
+    expect(appeal).toHaveBeenCalledWith(gameId, '已补充说明文档');
+    expect(ReviewLogDAL.create).toHaveBeenCalledWith({
+      gameId,
+      action: 'appeal',
+      reason: '已补充说明文档',
+      reviewer: 'creator:bob',
+    });
+  });
+
+  it('应该允许持有回执令牌的匿名提交者申诉', async () => {
+    vi.spyOn(GameDAL, 'appeal').mockResolvedValue({ ...mockGame, status: 'pending', appealMessage: '误判' });
+
+    const response = await appealGame(createRequest({ message: '误判' }, { 'X-Receipt-Token': receiptToken }), context);
+
+    expect(response.status).toBe(200);
+    expect(ReviewLogDAL.create).toHaveBeenCalledWith(expect.objectContaining({ reviewer: 'receipt' }));
+  });
+
+  it('应该在没有申诉权限时返回404错误', async () => {
+    const appeal = vi.spyOn(GameDAL, 'appeal');
+
+    const response = await appealGame(
+      createRequest({ message: '误判' }, { 'X-Receipt-Token': generateReceiptToken().token }),
+      context
+    );
+
+    expect(response.status).toBe(404);
+    expect(appeal).not.toHaveBeenCalled();
+  });
+
+  it('只能对已拒绝的游戏申诉', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+
+    const response = await appealGame(createRequest({ message: '误判' }, { Cookie: creatorCookie }), context);
+    expect(response.status).toBe(400);
+  });
+
+  it('申诉内容不能为空', async () => {
+    const response = await appealGame(createRequest({ message: '   ' }, { Cookie: creatorCookie }), context);
+    expect(response.status).toBe(400);
+  });
+
+  it('应该在状态并发变更时返回409错误', async () => {
+    vi.spyOn(GameDAL, 'appeal').mockResolvedValue(null);
+
+    const response = await appealGame(createRequest({ message: '误判' }, { Cookie: creatorCookie }), context);
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getCreatorSession } from '@/lib/auth';
+import { GameDAL, ReviewLogDAL, CreatorDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { POST as withdrawGame } from '@/app/api/creator/games/[id]/withdraw/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockGame: Game = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>Test</body></html>',
+  authorName: 'Bob',
+  status: 'pending',
+  rejectionReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  approvedAt: null,
+  approvedBy: null,
+  securityPolicyVersion: null,
+  claimedBy: null,
+  claimExpiresAt: null,
+  appealMessage: null,
+  unpublishedAt: null,
+  unpublishReason: null,
+  deletedAt: null,
+  currentVersionId: null,
+  submittedBy: null,
+  ownerId: 'creator-1',
+};
+
+// Mock NextRequest
+const createMockRequest = (cookies: Record<string, string> = {}) => {
+  return {
+    headers: {
+      get: () => null,
+    },
+    cookies: {
+      get: (name: string) => (cookies[name] ? { name, value: cookies[name] } : undefined),
+    },
+  } as any;
+};
+
+describe('创作者会话', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+  });
+
+  it('应该解析有效的创作者会话', async () => {
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    const creator = await getCreatorSession(createMockRequest({ 'creator-auth': token }));
+
+    expect(creator).toEqual({ id: 'creator-1', username: 'bob', displayName: 'Bob' });
+  });
+
+  it('不应该接受管理员会话作为创作者会话', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' });
+    expect(await getCreatorSession(createMockRequest({ 'creator-auth': token }))).toBeNull();
+  });
+
+  it('应该在账号不存在时返回null', async () => {
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(null);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+
+    expect(await getCreatorSession(createMockRequest({ 'creator-auth': token }))).toBeNull();
+  });
+});
+
+describe('撤回游戏', () => {
+  let request: ReturnType<typeof createMockRequest>;
+  const context = { params: { id: mockGame.id } };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    request = createMockRequest({ 'creator-auth': token });
+  });
+
+  it('应该在未登录时返回401错误', async () => {
+    const response = await withdrawGame(createMockRequest(), context);
+    expect(response.status).toBe(401);
+  });
+
+  it('应该撤回自己待审核的游戏并记录日志', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    const withdraw = vi.spyOn(GameDAL, 'withdraw').mockResolvedValue({ ...mockGame, status: 'withdrawn' });
+    const createLog = vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 1,
+      gameId: mockGame.id,
+      action: 'withdraw',
+      reason: null,
+      category: null,
+      reviewer: 'creator:bob',
+      reviewerRole: null,
+      versionId: null,
+      createdAt: new Date(),
+    });
+
+    const response = await withdrawGame(request, context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.game.status).toBe('withdrawn');
+    expect(withdraw).toHaveBeenCalledWith(mockGame.id, 'creator-1');
+    expect(createLog).toHaveBeenCalledWith({
+      gameId: mockGame.id,
+      action: 'withdraw',
+      reviewer: 'creator:bob',
+    });
+  });
+
+  it('应该对他人的游戏返回404错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, ownerId: 'creator-2' });
+    const withdraw = vi.spyOn(GameDAL, 'withdraw');
+
+    const response = await withdrawGame(request, context);
+
+    expect(response.status).toBe(404);
+    expect(withdraw).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝撤回已审核的游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+
+    const response = await withdrawGame(request, context);
+    expect(response.status).toBe(400);
+  });
+
+  it('应该在审核并发完成时返回409错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(GameDAL, 'withdraw').mockResolvedValue(null);
+
+    const response = await withdrawGame(request, context);
+    expect(response.status).toBe(409);
+  });
+});
@@ -43,6 +43,16 @@ describe('GameDAL', () => {
         updatedAt: new Date(),
         approvedAt: null,
         approvedBy: null,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       // Mock the insert operation
@@ -95,6 +105,16 @@ describe('GameDAL', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy: '管理员',
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       mockDb.select.mockReturnValue({
@@ -150,6 +170,16 @@ describe('GameDAL', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy: '管理员',
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       mockDb.select.mockReturnValue({
@@ -201,6 +231,16 @@ describe('GameDAL', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       // Mock update operation
@@ -239,6 +279,16 @@ describe('GameDAL', () => {
         updatedAt: new Date(),
         approvedAt: null,
         approvedBy: null,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       // Mock update operation
@@ -379,6 +429,9 @@ describe('ReviewLogDAL', () => {
         id: 1,
         ...newReviewLog,
         reason: null,
+        category: null,
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
       };
 
@@ -425,7 +478,10 @@ describe('ReviewLogDAL', () => {
           gameId,
           action: 'approve',
           reason: null,
+          category: null,
           reviewer: '管理员',
+          reviewerRole: null,
+          versionId: null,
           createdAt: new Date(),
         },
       ];
@@ -461,8 +517,9 @@ describe('ReviewLogDAL', () => {
   describe('getReviewStats', () => {
     it('should return review statistics', async () => {
       const mockResults = [
-        { action: 'approve', count: 10 },
-        { action: 'reject', count: 5 },
+        { action: 'approve', category: null, count: 10 },
+        { action: 'reject', category: 'broken_game', count: 2 },
+        { action: 'reject', category: 'security_violation', count: 3 },
       ];
 
       mockDb.select.mockReturnValue({
@@ -477,14 +534,18 @@ describe('ReviewLogDAL', () => {
         totalReviews: 15,
         approvals: 10,
         rejections: 5,
+        rejectionsByCategory: [
+          { category: 'security_violation', count: 3 },
+          { category: 'broken_game', count: 2 },
+        ],
       });
     });
 
     it('should return review statistics for specific reviewer', async () => {
       const reviewer = '管理员';
       const mockResults = [
-        { action: 'approve', count: 8 },
-        { action: 'reject', count: 2 },
+        { action: 'approve', category: null, count: 8 },
+        { action: 'reject', category: null, count: 2 },
       ];
 
       mockDb.select.mockReturnValue({
@@ -501,6 +562,7 @@ describe('ReviewLogDAL', () => {
         totalReviews: 10,
         approvals: 8,
         rejections: 2,
+        rejectionsByCategory: [{ category: null, count: 2 }],
       });
     });
 
@@ -517,6 +579,7 @@ describe('ReviewLogDAL', () => {
         totalReviews: 0,
         approvals: 0,
         rejections: 0,
+        rejectionsByCategory: [],
       });
     });
   });
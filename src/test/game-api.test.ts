@@ -23,6 +23,16 @@ describe('Game API Route', () => {
       updatedAt: new Date(),
       approvedAt: new Date(),
       approvedBy: 'admin',
+      securityPolicyVersion: null,
+      claimedBy: null,
+      claimExpiresAt: null,
+      appealMessage: null,
+      unpublishedAt: null,
+      unpublishReason: null,
+      deletedAt: null,
+      currentVersionId: null,
+      ownerId: null,
+      submittedBy: null,
       rejectionReason: null,
       isApproved: true,
       isPending: false,
@@ -67,6 +77,16 @@ describe('Game API Route', () => {
       updatedAt: new Date(),
       approvedAt: null,
       approvedBy: null,
+      securityPolicyVersion: null,
+      claimedBy: null,
+      claimExpiresAt: null,
+      appealMessage: null,
+      unpublishedAt: null,
+      unpublishReason: null,
+      deletedAt: null,
+      currentVersionId: null,
+      ownerId: null,
+      submittedBy: null,
       rejectionReason: null,
       isApproved: false,
       isPending: true,
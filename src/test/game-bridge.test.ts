@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  GAME_BRIDGE_SOURCE,
+  GAME_BRIDGE_VERSION,
+  GAME_HEARTBEAT_INTERVAL,
+  createGameBridgeReply,
+  getGameBridgeSdk,
+  parseGameBridgeMessage,
+} from '@/lib/game-bridge';
+import { createSecureContent } from '@/lib/game-sandbox';
+import { GAME_FREEZE_THRESHOLD_MS } from '@/lib/game-errors';
+
+const envelope = (message: unknown) => ({ source: GAME_BRIDGE_SOURCE, version: GAME_BRIDGE_VERSION, message });
+
+// 在模拟的游戏窗口中执行SDK，返回SDK对象和发送给父页面的消息
+const loadSdk = (targetOrigin: string | null, document?: { hidden: boolean; addEventListener: () => void }) => {
+  const postMessage = vi.fn();
+  const addEventListener = vi.fn();
+  const parent = { postMessage };
+  const gameWindow: Record<string, unknown> = { parent, addEventListener, document };
+  new Function('window', `return ${getGameBridgeSdk(targetOrigin)}`)(gameWindow);
+  const sdk = gameWindow.MiniGame as Record<string, CallableFunction> & {
+    storage: Record<string, CallableFunction>;
+  };
+  return {
+    sdk,
+    parent,
+    postMessage,
+    // SDK注册的全局事件监听
+    getListener: (type: string) => addEventListener.mock.calls.find(([name]) => name === type)?.[1],
+  };
+};
+
+describe('游戏桥接消息解析', () => {
+  it('应该接受来源正确且格式有效的消息', () => {
+    expect(parseGameBridgeMessage({ origin: 'null', data: envelope({ type: 'score', score: 120 }) }, 'null')).toEqual({
+      type: 'score',
+      score: 120,
+    });
+    expect(
+      parseGameBridgeMessage({ origin: 'null', data: envelope({ type: 'resize', height: 720 }) }, 'null')
+    ).toEqual({ type: 'resize', height: 720 });
+  });
+
+  it('应该拒绝来源不符的消息', () => {
+    const data = envelope({ type: 'ready' });
+    expect(parseGameBridgeMessage({ origin: 'https://evil.example.com', data }, 'null')).toBeNull();
+  });
+
+  it('应该拒绝其他协议或不支持的版本', () => {
+    expect(parseGameBridgeMessage({ origin: 'null', data: { type: 'ready' } }, 'null')).toBeNull();
+    expect(
+      parseGameBridgeMessage(
+        { origin: 'null', data: { source: GAME_BRIDGE_SOURCE, version: GAME_BRIDGE_VERSION + 1, message: { type: 'ready' } } },
+        'null'
+      )
+    ).toBeNull();
+  });
+
+  it('应该拒绝不符合schema的消息', () => {
+    const parse = (message: unknown) => parseGameBridgeMessage({ origin: 'null', data: envelope(message) }, 'null');
+
+    expect(parse({ type: 'score', score: -1 })).toBeNull();
+    expect(parse({ type: 'score', score: 'NaN' })).toBeNull();
+    expect(parse({ type: 'resize', height: 100000 })).toBeNull();
+    expect(parse({ type: 'navigate', url: 'https://evil.example.com' })).toBeNull();
+    expect(parse({ type: 'storage-get', requestId: '1', key: '../other-game' })).toBeNull();
+    expect(parse({ type: 'storage-set', requestId: '1', key: 'save', value: 'x'.repeat(64 * 1024 + 1) })).toBeNull();
+  });
+
+  it('应该为错误消息补充默认类型', () => {
+    const parse = (message: unknown) => parseGameBridgeMessage({ origin: 'null', data: envelope(message) }, 'null');
+
+    expect(parse({ type: 'error', message: 'boom' })).toEqual({ type: 'error', message: 'boom', kind: 'error' });
+    expect(parse({ type: 'error', kind: 'freeze', message: 'Game was unresponsive', durationMs: 12000 })).toEqual({
+      type: 'error',
+      kind: 'freeze',
+      message: 'Game was unresponsive',
+      durationMs: 12000,
+    });
+    expect(parse({ type: 'error', kind: 'crash', message: 'boom' })).toBeNull();
+  });
+
+  it('应该接受存档请求', () => {
+    const data = envelope({ type: 'storage-set', requestId: '3', key: 'level:1', value: '{"stars":3}' });
+    expect(parseGameBridgeMessage({ origin: 'null', data }, 'null')).toEqual({
+      type: 'storage-set',
+      requestId: '3',
+      key: 'level:1',
+      value: '{"stars":3}',
+    });
+  });
+});
+
+describe('游戏桥接SDK', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('应该向父页面发送带版本的消息', () => {
+    const { sdk, postMessage } = loadSdk('https://games.example.com');
+
+    sdk.ready();
+    sdk.ready();
+    sdk.reportScore(42);
+    sdk.gameOver('88');
+    sdk.resize(640.4);
+
+    expect(postMessage.mock.calls).toEqual([
+      [envelope({ type: 'ready' }), 'https://games.example.com'],
+      [envelope({ type: 'score', score: 42 }), 'https://games.example.com'],
+      [envelope({ type: 'game-over', score: 88 }), 'https://games.example.com'],
+      [envelope({ type: 'resize', height: 640 }), 'https://games.example.com'],
+    ]);
+  });
+
+  it('应该忽略无效的分数并报告未捕获的错误', () => {
+    const { sdk, postMessage, getListener } = loadSdk(null);
+
+    sdk.reportScore('abc');
+    getListener('error')({ message: 'boom', error: { stack: 'Error: boom\n    at game' } });
+    getListener('unhandledrejection')({ reason: 'network down' });
+
+    expect(postMessage.mock.calls).toEqual([
+      [envelope({ type: 'error', kind: 'error', message: 'boom', stack: 'Error: boom\n    at game' }), '*'],
+      [envelope({ type: 'error', kind: 'unhandledrejection', message: 'network down' }), '*'],
+    ]);
+  });
+
+  it('应该定时发送心跳并报告主线程卡死', () => {
+    const document = { hidden: false, addEventListener: vi.fn() };
+    const { postMessage } = loadSdk(null, document);
+
+    vi.advanceTimersByTime(GAME_HEARTBEAT_INTERVAL);
+    expect(postMessage).toHaveBeenLastCalledWith(envelope({ type: 'heartbeat' }), '*');
+
+    // 模拟主线程阻塞：定时器延迟执行
+    vi.setSystemTime(Date.now() + GAME_FREEZE_THRESHOLD_MS);
+    vi.advanceTimersByTime(GAME_HEARTBEAT_INTERVAL);
+    expect(postMessage).toHaveBeenCalledWith(
+      envelope({
+        type: 'error',
+        kind: 'freeze',
+        message: 'Game was unresponsive',
+        durationMs: GAME_FREEZE_THRESHOLD_MS + GAME_HEARTBEAT_INTERVAL,
+      }),
+      '*'
+    );
+  });
+
+  it('页面不可见时不应该报告卡死', () => {
+    const document = { hidden: true, addEventListener: vi.fn() };
+    const { postMessage } = loadSdk(null, document);
+
+    vi.setSystemTime(Date.now() + GAME_FREEZE_THRESHOLD_MS);
+    vi.advanceTimersByTime(GAME_HEARTBEAT_INTERVAL);
+
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('应该通过平台读写存档', async () => {
+    const { sdk, parent, postMessage, getListener } = loadSdk(null);
+    const reply = (data: unknown, source: unknown = parent) => getListener('message')({ source, data });
+
+    const saving = sdk.storage.set('progress', { level: 3 });
+    expect(postMessage).toHaveBeenLastCalledWith(
+      envelope({ type: 'storage-set', key: 'progress', value: '{"level":3}', requestId: '1' }),
+      '*'
+    );
+    reply(createGameBridgeReply('1', { ok: true }));
+    await expect(saving).resolves.toBeUndefined();
+
+    const loading = sdk.storage.get('progress');
+    // 不是来自平台页面的回复应该被忽略
+    reply(createGameBridgeReply('2', { ok: true, value: '{"level":99}' }), {});
+    reply(createGameBridgeReply('2', { ok: true, value: '{"level":3}' }));
+    await expect(loading).resolves.toEqual({ level: 3 });
+
+    const failing = sdk.storage.set('big', 'x');
+    reply(createGameBridgeReply('3', { ok: false, error: '存档空间已满' }));
+    await expect(failing).rejects.toThrow('存档空间已满');
+  });
+
+  it('应该在游戏内容之前注入SDK', () => {
+    const html = createSecureContent('<script>MiniGame.ready();</script>', '测试游戏', 'https://games.example.com');
+
+    expect(html.indexOf('window.MiniGame')).toBeGreaterThan(-1);
+    expect(html.indexOf('window.MiniGame')).toBeLessThan(html.indexOf('MiniGame.ready()'));
+    expect(html).toContain('var TARGET_ORIGIN = "https://games.example.com"');
+  });
+});
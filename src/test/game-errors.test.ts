@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, CreatorDAL, GameDAL, GameErrorDAL, RateLimitDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { PLAYER_ID_COOKIE } from '@/lib/game-storage';
+import {
+  DELETE as clearErrors,
+  GET as getErrors,
+  POST as reportError,
+} from '@/app/api/games/[id]/errors/route';
+import { GET as getErrorSummaries } from '@/app/api/admin/game-errors/route';
+import type { Game, GameError } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+const context = { params: { id: gameId } };
+
+const mockGame = {
+  id: gameId,
+  title: 'MazeChaser',
+  status: 'approved',
+  ownerId: 'creator-1',
+} as Game;
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'reviewer' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockError: GameError = {
+  gameId,
+  fingerprint: 'a'.repeat(64),
+  kind: 'error',
+  message: 'Cannot read properties of undefined',
+  stack: null,
+  count: 3,
+  firstSeenAt: new Date(),
+  lastSeenAt: new Date(),
+};
+
+const createRequest = (method: string, body?: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost:3000/api/games/${gameId}/errors`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('POST /api/games/[id]/errors', () => {
+  // 游戏页面签发的玩家标识，获取不到客户端IP时用于频率限制
+  let playerCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(RateLimitDAL, 'increment').mockResolvedValue(1);
+    const token = await createSessionToken({ sub: 'player-1', name: 'player', kind: 'player' });
+    playerCookie = `${PLAYER_ID_COOKIE}=${token}`;
+  });
+
+  it('应该按错误特征聚合记录运行错误', async () => {
+    const record = vi.spyOn(GameErrorDAL, 'record').mockResolvedValue(true);
+    const report = (stack: string) =>
+      reportError(createRequest('POST', { kind: 'error', message: 'boom', stack }, { Cookie: playerCookie }), context);
+
+    const response = await report('Error: boom\n    at update (game.js:10:5)\n    at loop (game.js:40:1)');
+    const data = await response.json();
+    await report('Error: boom\n    at update (game.js:10:5)\n    at tick (game.js:52:3)');
+    await report('Error: boom\n    at render (game.js:88:2)');
+
+    expect(response.status).toBe(202);
+    expect(data.data.recorded).toBe(true);
+    const fingerprints = record.mock.calls.map(([, fingerprint]) => fingerprint);
+    expect(fingerprints[0]).toMatch(/^[0-9a-f]{64}$/);
+    // 首个调用位置相同的错误属于同一分组
+    expect(fingerprints[1]).toBe(fingerprints[0]);
+    expect(fingerprints[2]).not.toBe(fingerprints[0]);
+    expect(record).toHaveBeenCalledWith(gameId, fingerprints[0], expect.objectContaining({ kind: 'error', message: 'boom' }));
+  });
+
+  it('应该拒绝无效的错误报告', async () => {
+    const record = vi.spyOn(GameErrorDAL, 'record');
+
+    const response = await reportError(createRequest('POST', { kind: 'crash', message: '' }, { Cookie: playerCookie }), context);
+
+    expect(response.status).toBe(400);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('超过上报频率限制时不记录错误', async () => {
+    vi.spyOn(RateLimitDAL, 'increment').mockResolvedValue(11);
+    const record = vi.spyOn(GameErrorDAL, 'record');
+
+    const response = await reportError(createRequest('POST', { kind: 'error', message: 'boom' }, { Cookie: playerCookie }), context);
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('没有客户端IP和玩家标识时不记录错误', async () => {
+    const increment = vi.spyOn(RateLimitDAL, 'increment');
+    const record = vi.spyOn(GameErrorDAL, 'record');
+
+    const response = await reportError(createRequest('POST', { kind: 'error', message: 'boom' }), context);
+
+    expect(response.status).toBe(401);
+    expect(increment).not.toHaveBeenCalled();
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('未发布的游戏不记录错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'pending' });
+    const record = vi.spyOn(GameErrorDAL, 'record');
+
+    const response = await reportError(createRequest('POST', { kind: 'freeze', message: 'Game stopped responding' }, { Cookie: playerCookie }), context);
+
+    expect(response.status).toBe(404);
+    expect(record).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/games/[id]/errors', () => {
+  let creatorCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    vi.spyOn(GameErrorDAL, 'getByGameId').mockResolvedValue([mockError]);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    creatorCookie = `creator-auth=${token}`;
+  });
+
+  it('游戏所有者应该可以查看运行错误', async () => {
+    const response = await getErrors(createRequest('GET', undefined, { Cookie: creatorCookie }), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.errors).toHaveLength(1);
+    expect(data.data.errors[0]).toMatchObject({ kind: 'error', count: 3 });
+  });
+
+  it('审核员应该可以查看运行错误', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    const token = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+
+    const response = await getErrors(createRequest('GET', undefined, { Cookie: `admin-auth=${token}` }), context);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('其他人不能查看运行错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, ownerId: 'creator-2' });
+
+    const response = await getErrors(createRequest('GET', undefined, { Cookie: creatorCookie }), context);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('只有可以编辑游戏的人能清除运行错误', async () => {
+    const clear = vi.spyOn(GameErrorDAL, 'clear').mockResolvedValue();
+
+    const response = await clearErrors(createRequest('DELETE', undefined, { Cookie: creatorCookie }), context);
+    expect(response.status).toBe(200);
+    expect(clear).toHaveBeenCalledWith(gameId);
+
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    const token = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+    const forbidden = await clearErrors(createRequest('DELETE', undefined, { Cookie: `admin-auth=${token}` }), context);
+    expect(forbidden.status).toBe(403);
+  });
+});
+
+describe('GET /api/admin/game-errors', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  const createSummaryRequest = (query: string) =>
+    new NextRequest(`http://localhost:3000/api/admin/game-errors${query}`, {
+      headers: { Cookie: `admin-auth=${adminToken}` },
+    });
+
+  it('应该返回指定天数内出现错误的游戏', async () => {
+    const getSummaries = vi.spyOn(GameErrorDAL, 'getSummaries').mockResolvedValue([
+      {
+        gameId,
+        title: 'MazeChaser',
+        authorName: 'Bob',
+        status: 'approved',
+        groups: 2,
+        occurrences: 15,
+        lastSeenAt: new Date(),
+      },
+    ]);
+    const before = Date.now();
+
+    const response = await getErrorSummaries(createSummaryRequest('?days=1'), undefined);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.summaries[0]).toMatchObject({ gameId, occurrences: 15 });
+    const since = getSummaries.mock.calls[0][0] as Date;
+    expect(before - since.getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000 - 1000);
+    expect(before - since.getTime()).toBeLessThanOrEqual(24 * 60 * 60 * 1000 + 1000);
+  });
+
+  it('应该拒绝超出范围的天数', async () => {
+    const response = await getErrorSummaries(createSummaryRequest('?days=365'), undefined);
+
+    expect(response.status).toBe(400);
+  });
+});
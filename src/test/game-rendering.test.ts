@@ -23,6 +23,16 @@ describe('Game Rendering System', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy: 'admin',
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
         rejectionReason: null,
         isApproved: true,
         isPending: false,
@@ -77,7 +87,7 @@ describe('Game Rendering System', () => {
       
       expect(result.isValid).toBe(false);
       expect(result.violations.length).toBeGreaterThan(0);
-      expect(result.violations.some(v => v.includes('FORBIDDEN_PATTERN'))).toBe(true);
+      expect(result.violations.some(v => v.includes('FORBIDDEN_API'))).toBe(true);
     });
 
     it('should detect dangerous attributes', () => {
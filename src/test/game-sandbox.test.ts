@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GameDAL } from '@/lib/dal';
+import {
+  createSecureContent,
+  getGameRawCsp,
+  getGameRawUrl,
+  getGameSandboxAttribute,
+  isGameSandboxIsolated,
+} from '@/lib/game-sandbox';
+import { GET as getRaw } from '@/app/play/[id]/raw/route';
+import { middleware } from '../../middleware';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('游戏沙箱配置', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('未配置沙箱源时游戏内容由主站提供且不允许allow-same-origin', () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://games.example.com');
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', '');
+
+    expect(getGameRawUrl(gameId)).toBe(`/play/${gameId}/raw`);
+    expect(isGameSandboxIsolated()).toBe(false);
+    expect(getGameSandboxAttribute(false)).not.toContain('allow-same-origin');
+    expect(getGameRawCsp(false)).toContain("frame-ancestors 'self'");
+  });
+
+  it('沙箱源与主站同源时不应该视为隔离', () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://games.example.com/');
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', 'https://games.example.com');
+
+    expect(isGameSandboxIsolated()).toBe(false);
+  });
+
+  it('配置了独立的沙箱源时应该从沙箱源加载游戏', () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://games.example.com');
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', 'https://sandbox.example-usercontent.com/');
+
+    expect(getGameRawUrl(gameId)).toBe(`https://sandbox.example-usercontent.com/play/${gameId}/raw`);
+    expect(isGameSandboxIsolated()).toBe(true);
+    expect(getGameSandboxAttribute(true)).toContain('allow-same-origin');
+    expect(getGameRawCsp(true)).toContain('frame-ancestors https://games.example.com');
+  });
+
+  it('应该转义页面标题', () => {
+    const html = createSecureContent('<canvas></canvas>', '</title><script>alert(1)</script>');
+    expect(html).toContain('<title>&lt;/title&gt;&lt;script&gt;alert(1)&lt;/script&gt;</title>');
+    expect(html).toContain('<canvas></canvas>');
+  });
+});
+
+describe('GET /play/[id]/raw', () => {
+  const mockGame = {
+    id: gameId,
+    title: '测试游戏',
+    status: 'approved',
+    htmlContent: '<div id="game">Hello</div>',
+  } as Game;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createRequest = () => new NextRequest(`http://localhost:3000/play/${gameId}/raw`);
+
+  it('应该以HTML页面返回已发布的游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+
+    const response = await getRaw(createRequest(), { params: { id: gameId } });
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(html).toContain('<div id="game">Hello</div>');
+    expect(html).toContain('<title>测试游戏</title>');
+  });
+
+  it('不应该提供未发布的游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'pending' });
+
+    const response = await getRaw(createRequest(), { params: { id: gameId } });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).not.toContain('Hello');
+  });
+
+  it('已下架的游戏应该返回410', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'unpublished' });
+
+    const response = await getRaw(createRequest(), { params: { id: gameId } });
+
+    expect(response.status).toBe(410);
+  });
+});
+
+describe('游戏内容路由的安全headers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('应该通过CSP的sandbox指令隔离游戏内容', async () => {
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', '');
+
+    const response = await middleware(new NextRequest(`http://localhost:3000/play/${gameId}/raw`));
+    const csp = response.headers.get('Content-Security-Policy')!;
+
+    expect(csp).toContain('sandbox allow-scripts');
+    expect(csp).not.toContain('allow-same-origin');
+    expect(csp).toContain("frame-ancestors 'self'");
+  });
+
+  it('配置了沙箱源时不应该从主站提供游戏内容', async () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'http://localhost:3000');
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', 'http://127.0.0.1:3000');
+
+    const createRequest = (host: string) =>
+      new NextRequest(`http://${host}/play/${gameId}/raw`, { headers: { host } });
+
+    const fromApp = await middleware(createRequest('localhost:3000'));
+    expect(fromApp.status).toBe(404);
+
+    const fromSandbox = await middleware(createRequest('127.0.0.1:3000'));
+    const csp = fromSandbox.headers.get('Content-Security-Policy')!;
+    expect(fromSandbox.status).toBe(200);
+    expect(csp).toContain('allow-same-origin');
+    expect(csp).toContain('frame-ancestors http://localhost:3000');
+  });
+
+  it('游戏页面应该允许嵌入沙箱源', async () => {
+    vi.stubEnv('NEXT_PUBLIC_GAME_SANDBOX_ORIGIN', 'http://127.0.0.1:3000');
+
+    const response = await middleware(new NextRequest(`http://localhost:3000/game/${gameId}`));
+
+    expect(response.headers.get('Content-Security-Policy')).toContain("frame-src 'self' http://127.0.0.1:3000");
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { CreatorDAL, GameDAL, GameSaveDAL, RateLimitDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import {
+  GAME_STORAGE_LIMITS,
+  GAME_STORAGE_RATE_LIMIT,
+  PLAYER_ID_COOKIE,
+  exceedsGameStorageQuota,
+} from '@/lib/game-storage';
+import { checkRateLimit, getClientIp, getRateLimitClient } from '@/lib/rate-limit';
+import { DELETE, GET, PUT } from '@/app/api/games/[id]/storage/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+const playerId = '9b2f6c1e-4a3d-4f8e-9c7b-2d1e0f3a4b5c';
+const context = { params: { id: gameId } };
+
+const mockGame = { id: gameId, title: 'MazeChaser', status: 'approved' } as Game;
+
+const createRequest = (method: string, query = '', body?: unknown, cookie?: string) =>
+  new NextRequest(`http://localhost:3000/api/games/${gameId}/storage${query}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: typeof body === 'string' ? body : body ? JSON.stringify(body) : undefined,
+  });
+
+describe('游戏存档API', () => {
+  // 游戏页面签发的玩家标识
+  let playerCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(RateLimitDAL, 'increment').mockResolvedValue(1);
+    const token = await createSessionToken({ sub: playerId, name: 'player', kind: 'player' });
+    playerCookie = `${PLAYER_ID_COOKIE}=${token}`;
+  });
+
+  it('应该按浏览器标识读取存档值', async () => {
+    const get = vi.spyOn(GameSaveDAL, 'get').mockResolvedValue('{"level":3}');
+
+    const response = await GET(createRequest('GET', '?key=progress', undefined, playerCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ key: 'progress', value: '{"level":3}' });
+    expect(get).toHaveBeenCalledWith(gameId, `player:${playerId}`, 'progress');
+  });
+
+  it('没有玩家标识时读取结果为空', async () => {
+    const get = vi.spyOn(GameSaveDAL, 'get');
+
+    const response = await GET(createRequest('GET', '?key=progress'), context);
+    const data = await response.json();
+
+    expect(data.data.value).toBeNull();
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('应该按玩家标识写入存档', async () => {
+    const set = vi.spyOn(GameSaveDAL, 'set').mockResolvedValue(true);
+
+    const response = await PUT(createRequest('PUT', '', { key: 'progress', value: '{"level":1}' }, playerCookie), context);
+
+    expect(response.status).toBe(200);
+    expect(set).toHaveBeenCalledWith(gameId, `player:${playerId}`, 'progress', '{"level":1}', 11);
+  });
+
+  it('没有玩家标识或标识不是游戏页面签发的时不能写入', async () => {
+    const set = vi.spyOn(GameSaveDAL, 'set').mockResolvedValue(true);
+
+    const missing = await PUT(createRequest('PUT', '', { key: 'progress', value: '1' }), context);
+    const forged = await PUT(
+      createRequest('PUT', '', { key: 'progress', value: '1' }, `${PLAYER_ID_COOKIE}=${playerId}`),
+      context
+    );
+
+    expect(missing.status).toBe(401);
+    expect(forged.status).toBe(401);
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it('写入过于频繁时应该返回429', async () => {
+    vi.spyOn(RateLimitDAL, 'increment').mockResolvedValue(GAME_STORAGE_RATE_LIMIT.limit + 1);
+    const set = vi.spyOn(GameSaveDAL, 'set').mockResolvedValue(true);
+
+    const response = await PUT(createRequest('PUT', '', { key: 'progress', value: '1' }, playerCookie), context);
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it('无效的JSON应该返回400', async () => {
+    const response = await PUT(createRequest('PUT', '', '{"key":', playerCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('VALIDATION_ERROR');
+  });
+
+  it('登录的创作者应该按账号保存存档', async () => {
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue({
+      id: 'creator-1',
+      username: 'bob',
+      displayName: 'Bob',
+      lastLoginAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    const set = vi.spyOn(GameSaveDAL, 'set').mockResolvedValue(true);
+
+    const response = await PUT(
+      createRequest('PUT', '', { key: 'progress', value: '1' }, `creator-auth=${token}; ${playerCookie}`),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(set).toHaveBeenCalledWith(gameId, 'creator:creator-1', 'progress', '1', 1);
+  });
+
+  it('超出存档配额时应该拒绝写入', async () => {
+    vi.spyOn(GameSaveDAL, 'set').mockResolvedValue(false);
+
+    const response = await PUT(createRequest('PUT', '', { key: 'new-slot', value: '1' }, playerCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(data.error).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('应该按覆盖后的结果计算存档配额', () => {
+    const keys = Array.from({ length: GAME_STORAGE_LIMITS.maxKeys }, (_, index) => ({
+      key: `slot-${index}`,
+      size: 10,
+    }));
+
+    expect(exceedsGameStorageQuota(keys, 'new-slot', 1)).toBe(true);
+    // 覆盖已有的键不增加键数量
+    expect(exceedsGameStorageQuota(keys, 'slot-0', 1)).toBe(false);
+    expect(exceedsGameStorageQuota([], 'slot-0', GAME_STORAGE_LIMITS.maxTotalBytes + 1)).toBe(true);
+  });
+
+  it('应该拒绝无效的存档键', async () => {
+    const response = await DELETE(createRequest('DELETE', '?key=../secret', undefined, playerCookie), context);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('未发布的游戏不能使用存档', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'unpublished' });
+
+    const response = await PUT(createRequest('PUT', '', { key: 'progress', value: '1' }), context);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('应该按固定时间窗口计数', async () => {
+    const increment = vi.spyOn(RateLimitDAL, 'increment').mockResolvedValueOnce(2).mockResolvedValueOnce(3);
+    const now = new Date('2026-01-01T00:00:45Z');
+    const rule = { limit: 2, windowSeconds: 60 };
+
+    await expect(checkRateLimit('storage:game-1', 'hash', rule, now)).resolves.toEqual({ allowed: true, retryAfter: 15 });
+    await expect(checkRateLimit('storage:game-1', 'hash', rule, now)).resolves.toEqual({ allowed: false, retryAfter: 15 });
+    expect(increment).toHaveBeenCalledWith('storage:game-1', 'hash', new Date('2026-01-01T00:00:00Z'));
+  });
+});
+
+describe('频率限制的客户端标识', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createIpRequest = (headers: Record<string, string>) =>
+    new NextRequest('http://localhost:3000/api/games/game-1/storage', { headers });
+
+  it('未配置可信代理时不读取代理header', () => {
+    vi.stubEnv('TRUSTED_PROXY_HEADER', '');
+    const request = createIpRequest({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+
+    expect(getClientIp(request)).toBe(null);
+  });
+
+  it('应该从右侧取可信代理写入的地址，忽略客户端伪造的部分', () => {
+    vi.stubEnv('TRUSTED_PROXY_HEADER', 'x-forwarded-for');
+    const request = createIpRequest({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' });
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(getClientIp(request)).toBe('10.0.0.1');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('获取不到IP时应该按玩家标识区分客户端', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HEADER', '');
+    const token = await createSessionToken({ sub: 'player-2', name: 'player', kind: 'player' });
+
+    expect(await getRateLimitClient(createIpRequest({ cookie: `${PLAYER_ID_COOKIE}=${token}` }))).toBe('player:player-2');
+    expect(await getRateLimitClient(createIpRequest({}))).toBe(null);
+  });
+});
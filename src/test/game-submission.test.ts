@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { POST } from '@/app/api/games/route';
-import { GameDAL } from '@/lib/dal';
+import { GameDAL, SecurityPolicyDAL } from '@/lib/dal';
 import { validateHtmlContent, validateStringContent } from '@/lib/security';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/security-policy';
 
 // Mock the dependencies
 vi.mock('@/lib/dal');
@@ -10,6 +11,7 @@ vi.mock('@/lib/security');
 describe('游戏提交API测试', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(SecurityPolicyDAL.getActiveConfig).mockResolvedValue(DEFAULT_SECURITY_POLICY);
   });
 
   it('应该成功提交有效的游戏', async () => {
@@ -23,6 +25,7 @@ describe('游戏提交API测试', () => {
 
     vi.mocked(validateHtmlContent).mockReturnValue({
       isValid: true,
+      findings: [],
       violations: [],
       warnings: [],
       sanitizedContent: '<div>Test Game</div>',
@@ -41,6 +44,16 @@ describe('游戏提交API测试', () => {
       rejectionReason: null,
       approvedAt: null,
       approvedBy: null,
+      securityPolicyVersion: null,
+      claimedBy: null,
+      claimExpiresAt: null,
+      appealMessage: null,
+      unpublishedAt: null,
+      unpublishReason: null,
+      deletedAt: null,
+      currentVersionId: null,
+      ownerId: null,
+      submittedBy: null,
     };
 
     vi.mocked(GameDAL.create).mockResolvedValue(mockGame);
@@ -67,6 +80,8 @@ describe('游戏提交API测试', () => {
     expect(data.game.id).toBe('test-id');
     expect(data.game.title).toBe('测试游戏');
     expect(data.game.status).toBe('pending');
+    expect(data.receipt.token).toMatch(/^mgr_/);
+    expect(data.receipt.statusUrl).toBe('/api/games/test-id/receipt');
   });
 
   it('应该拒绝无效的游戏数据', async () => {
@@ -100,7 +115,18 @@ describe('游戏提交API测试', () => {
 
     vi.mocked(validateHtmlContent).mockReturnValue({
       isValid: false,
-      violations: ['FORBIDDEN_PATTERN: 检测到禁用模式'],
+      findings: [
+        {
+          code: 'FORBIDDEN_API',
+          severity: 'error',
+          message: '检测到网络请求API "fetch"',
+          line: 3,
+          column: 11,
+          snippet: "fetch('/api/admin');",
+          ruleId: 'api:fetch',
+        },
+      ],
+      violations: ['FORBIDDEN_API: 检测到网络请求API "fetch"（第3行第11列）'],
       warnings: [],
     });
 
@@ -121,6 +147,7 @@ describe('游戏提交API测试', () => {
     expect(response.status).toBe(400);
     expect(data.error).toBe('MALICIOUS_CONTENT');
     expect(data.message).toBe('HTML内容包含不安全的元素');
+    expect(data.details.findings[0]).toMatchObject({ code: 'FORBIDDEN_API', ruleId: 'api:fetch', line: 3 });
   });
 
   it('应该拒绝过大的文件', async () => {
@@ -162,6 +189,7 @@ describe('游戏提交API测试', () => {
 
     vi.mocked(validateHtmlContent).mockReturnValue({
       isValid: true,
+      findings: [],
       violations: [],
       warnings: [],
       sanitizedContent: '<div>Test Game</div>',
@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, CreatorDAL, GameDAL, GameVersionDAL, ReviewLogDAL, SecurityPolicyDAL } from '@/lib/dal';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/security-policy';
+import { createSessionToken } from '@/lib/session';
+import { GET, PATCH, DELETE } from '@/app/api/games/[id]/route';
+import type { Game, GameVersion } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'owner' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockGame: Game = {
+  id: gameId,
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>Test</body></html>',
+  authorName: 'Bob',
+  status: 'pending',
+  rejectionReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  approvedAt: null,
+  approvedBy: null,
+  securityPolicyVersion: null,
+  claimedBy: null,
+  claimExpiresAt: null,
+  appealMessage: null,
+  unpublishedAt: null,
+  unpublishReason: null,
+  deletedAt: null,
+  currentVersionId: null,
+  submittedBy: null,
+  ownerId: 'creator-1',
+};
+
+const mockVersion: GameVersion = {
+  id: 'baseline-version',
+  gameId,
+  versionNumber: 1,
+  title: mockGame.title,
+  description: mockGame.description,
+  htmlContent: mockGame.htmlContent,
+  changelog: null,
+  status: 'approved',
+  rejectionReason: null,
+  submittedBy: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  securityPolicyVersion: null,
+  createdAt: new Date(),
+};
+
+const createRequest = (method: string, body?: unknown, cookie?: string) => {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (cookie) {
+    headers.set('Cookie', cookie);
+  }
+  return new NextRequest(`http://localhost:3000/api/games/${gameId}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+};
+
+const mockReviewLog = {
+  id: 1,
+  gameId,
+  action: 'edit' as const,
+  reason: null,
+  category: null,
+  reviewer: 'creator:bob',
+  reviewerRole: null,
+  versionId: null,
+  createdAt: new Date(),
+};
+
+describe('获取游戏API', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('应该对已下架的游戏返回410错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({
+      ...mockGame,
+      status: 'unpublished',
+      unpublishReason: '收到侵权举报',
+    });
+
+    const response = await GET(createRequest('GET'), { params: { id: gameId } });
+    const data = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(data.error).toBe('GAME_UNPUBLISHED');
+  });
+});
+
+describe('修改游戏API', () => {
+  const context = { params: { id: gameId } };
+  let creatorCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(null);
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue(mockReviewLog);
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue(DEFAULT_SECURITY_POLICY);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    creatorCookie = `creator-auth=${token}`;
+  });
+
+  it('应该拒绝非所有者修改游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, ownerId: 'creator-2' });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus');
+
+    const response = await PATCH(createRequest('PATCH', { title: '新标题' }, creatorCookie), context);
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('应该修改元数据并记录日志', async () => {
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, title: '新标题' });
+
+    const response = await PATCH(createRequest('PATCH', { title: '新标题' }, creatorCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.requiresReview).toBe(false);
+    expect(update).toHaveBeenCalledWith(gameId, 'pending', { title: '新标题' });
+    expect(ReviewLogDAL.create).toHaveBeenCalledWith({
+      gameId,
+      action: 'edit',
+      reason: '修改字段: title',
+      reviewer: 'creator:bob',
+      reviewerRole: null,
+      versionId: null,
+    });
+  });
+
+  it('修改期间游戏状态变化时应该返回冲突', async () => {
+    vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue(null);
+
+    const response = await PATCH(createRequest('PATCH', { title: '新标题' }, creatorCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe('CONFLICT');
+    expect(ReviewLogDAL.create).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝包含不安全内容的HTML', async () => {
+    const update = vi.spyOn(GameDAL, 'updateIfStatus');
+
+    const response = await PATCH(
+      createRequest(
+        'PATCH',
+        { htmlContent: '<html><body><script>const cookies = document.cookie;</script></body></html>' },
+        creatorCookie
+      ),
+      context
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('MALICIOUS_CONTENT');
+    expect(data.details.findings[0]).toMatchObject({ ruleId: 'api:document.cookie', line: 1 });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('修改已拒绝游戏的HTML内容后应该重新进入审核，并记录检查时使用的安全策略版本', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'rejected', rejectionReason: '有问题' });
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue({ ...DEFAULT_SECURITY_POLICY, version: 3 });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue(mockGame);
+    const htmlContent = '<html><body>New</body></html>';
+
+    const response = await PATCH(createRequest('PATCH', { htmlContent }, creatorCookie), context);
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(gameId, 'rejected', {
+      htmlContent,
+      securityPolicyVersion: 3,
+      status: 'pending',
+      rejectionReason: null,
+    });
+  });
+
+  it('已发布游戏的HTML内容变更应该作为新版本提交审核', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue(null);
+    vi.spyOn(GameVersionDAL, 'ensureBaseline').mockResolvedValue(mockVersion);
+    vi.spyOn(GameVersionDAL, 'getLatestVersionNumber').mockResolvedValue(1);
+    const create = vi.spyOn(GameVersionDAL, 'create').mockImplementation(async (version) => ({
+      ...version,
+      description: version.description ?? null,
+      changelog: null,
+      status: 'pending',
+      rejectionReason: null,
+      submittedBy: version.submittedBy ?? null,
+      reviewedBy: null,
+      reviewedAt: null,
+      securityPolicyVersion: version.securityPolicyVersion ?? null,
+      createdAt: new Date(),
+    }));
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, status: 'approved' });
+
+    const response = await PATCH(
+      createRequest('PATCH', { htmlContent: '<html><body>New</body></html>' }, creatorCookie),
+      context
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.requiresReview).toBe(true);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ versionNumber: 2, status: 'pending' }));
+    // 线上内容保持不变
+    expect(update).toHaveBeenCalledWith(gameId, 'approved', {});
+  });
+
+  it('随新版本修改的标题只保存在新版本上', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue(null);
+    vi.spyOn(GameVersionDAL, 'ensureBaseline').mockResolvedValue(mockVersion);
+    vi.spyOn(GameVersionDAL, 'getLatestVersionNumber').mockResolvedValue(1);
+    const create = vi
+      .spyOn(GameVersionDAL, 'create')
+      .mockImplementation(async (version) => ({ ...mockVersion, ...version, status: 'pending' }));
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, status: 'approved' });
+
+    const response = await PATCH(
+      createRequest(
+        'PATCH',
+        { title: '新标题', authorName: 'Bobby', htmlContent: '<html><body>New</body></html>' },
+        creatorCookie
+      ),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ title: '新标题', description: mockGame.description })
+    );
+    expect(update).toHaveBeenCalledWith(gameId, 'approved', { authorName: 'Bobby' });
+  });
+
+  it('有版本在审核中时修改标题应该同步到该版本', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue({
+      ...mockVersion,
+      id: 'pending-version',
+      versionNumber: 2,
+      status: 'pending',
+    });
+    const sync = vi.spyOn(GameVersionDAL, 'updatePendingMetadata').mockResolvedValue(true);
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, title: '新标题' });
+
+    const response = await PATCH(createRequest('PATCH', { title: '新标题' }, creatorCookie), context);
+
+    expect(response.status).toBe(200);
+    expect(sync).toHaveBeenCalledWith('pending-version', { title: '新标题' });
+    expect(update).toHaveBeenCalledWith(gameId, 'approved', { title: '新标题' });
+  });
+
+  it('同步期间版本已被审核时应该返回冲突', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue({
+      ...mockVersion,
+      id: 'pending-version',
+      versionNumber: 2,
+      status: 'pending',
+    });
+    vi.spyOn(GameVersionDAL, 'updatePendingMetadata').mockResolvedValue(false);
+    const update = vi.spyOn(GameDAL, 'updateIfStatus');
+
+    const response = await PATCH(createRequest('PATCH', { title: '新标题' }, creatorCookie), context);
+
+    expect(response.status).toBe(409);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('删除游戏API', () => {
+  const context = { params: { id: gameId } };
+  let adminCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({ ...mockReviewLog, action: 'delete' });
+    const token = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+    adminCookie = `admin-auth=${token}`;
+  });
+
+  it('应该在没有删除权限时返回403错误', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, role: 'moderator' });
+    const softDelete = vi.spyOn(GameDAL, 'softDelete');
+
+    const response = await DELETE(createRequest('DELETE', undefined, adminCookie), context);
+
+    expect(response.status).toBe(403);
+    expect(softDelete).not.toHaveBeenCalled();
+  });
+
+  it('应该软删除游戏并记录日志', async () => {
+    const softDelete = vi.spyOn(GameDAL, 'softDelete').mockResolvedValue({
+      ...mockGame,
+      status: 'deleted',
+      deletedAt: new Date(),
+    });
+
+    const response = await DELETE(createRequest('DELETE', { reason: '重复提交' }, adminCookie), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.game.status).toBe('deleted');
+    expect(softDelete).toHaveBeenCalledWith(gameId);
+    expect(ReviewLogDAL.create).toHaveBeenCalledWith({
+      gameId,
+      action: 'delete',
+      reason: '重复提交',
+      reviewer: 'alice',
+      reviewerRole: 'owner',
+    });
+  });
+
+  it('应该对已删除的游戏返回404错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'deleted' });
+
+    const response = await DELETE(createRequest('DELETE', undefined, adminCookie), context);
+    expect(response.status).toBe(404);
+  });
+});
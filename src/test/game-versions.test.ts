@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, CreatorDAL, GameDAL, GameVersionDAL, ReviewLogDAL, SecurityPolicyDAL } from '@/lib/dal';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/security-policy';
+import { createSessionToken } from '@/lib/session';
+import { diffLines, getDiffStats } from '@/lib/diff';
+import { ReviewService } from '@/lib/review-service';
+import { POST as submitVersion } from '@/app/api/games/[id]/versions/route';
+import { POST as reviewVersion } from '@/app/api/admin/review/versions/[versionId]/route';
+import { POST as rollbackGame } from '@/app/api/admin/games/[id]/rollback/route';
+import type { Game, GameVersion } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+const versionId = '223e4567-e89b-12d3-a456-426614174000';
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'moderator' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockGame: Game = {
+  id: gameId,
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>v1</body></html>',
+  authorName: 'Bob',
+  status: 'approved',
+  rejectionReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  approvedAt: new Date(),
+  approvedBy: 'alice',
+  securityPolicyVersion: null,
+  claimedBy: null,
+  claimExpiresAt: null,
+  appealMessage: null,
+  unpublishedAt: null,
+  unpublishReason: null,
+  deletedAt: null,
+  currentVersionId: null,
+  submittedBy: null,
+  ownerId: 'creator-1',
+};
+
+const mockVersion: GameVersion = {
+  id: versionId,
+  gameId,
+  versionNumber: 2,
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>v2</body></html>',
+  changelog: '修复bug',
+  status: 'pending',
+  rejectionReason: null,
+  submittedBy: 'creator:bob',
+  reviewedBy: null,
+  reviewedAt: null,
+  securityPolicyVersion: null,
+  createdAt: new Date(),
+};
+
+const createRequest = (url: string, body: unknown, cookie?: string) => {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (cookie) {
+    headers.set('Cookie', cookie);
+  }
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+};
+
+describe('行级差异', () => {
+  it('应该识别新增、删除和未修改的行', () => {
+    const diff = diffLines('a\nb\nc', 'a\nc\nd');
+
+    expect(diff.map((line) => `${line.type}:${line.content}`)).toEqual([
+      'equal:a',
+      'removed:b',
+      'equal:c',
+      'added:d',
+    ]);
+    expect(getDiffStats(diff)).toEqual({ added: 1, removed: 1, unchanged: 2 });
+  });
+
+  it('应该记录新旧版本中的行号', () => {
+    const diff = diffLines('a\r\nb', 'x\na\nb');
+
+    expect(diff[0]).toEqual({ type: 'added', content: 'x', oldLineNumber: null, newLineNumber: 1 });
+    expect(diff[2]).toEqual({ type: 'equal', content: 'b', oldLineNumber: 2, newLineNumber: 3 });
+  });
+});
+
+describe('提交新版本', () => {
+  const context = { params: { id: gameId } };
+  let creatorCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(null);
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue(DEFAULT_SECURITY_POLICY);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    creatorCookie = `creator-auth=${token}`;
+  });
+
+  it('应该拒绝非所有者提交新版本', async () => {
+    const response = await submitVersion(
+      createRequest(`/api/games/${gameId}/versions`, { htmlContent: '<html></html>' }),
+      context
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it('应该拒绝为未发布的游戏提交新版本', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'pending' });
+
+    const response = await submitVersion(
+      createRequest(`/api/games/${gameId}/versions`, { htmlContent: '<html></html>' }, creatorCookie),
+      context
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('应该在已有待审核版本时返回409错误', async () => {
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue(mockVersion);
+    const create = vi.spyOn(GameVersionDAL, 'create');
+
+    const response = await submitVersion(
+      createRequest(`/api/games/${gameId}/versions`, { htmlContent: '<html></html>' }, creatorCookie),
+      context
+    );
+
+    expect(response.status).toBe(409);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('应该创建待审核的新版本且不修改线上内容', async () => {
+    vi.spyOn(GameVersionDAL, 'getPendingByGameId').mockResolvedValue(null);
+    vi.spyOn(GameVersionDAL, 'ensureBaseline').mockResolvedValue({
+      ...mockVersion,
+      versionNumber: 1,
+      status: 'approved',
+    });
+    vi.spyOn(GameVersionDAL, 'getLatestVersionNumber').mockResolvedValue(1);
+    const create = vi.spyOn(GameVersionDAL, 'create').mockResolvedValue(mockVersion);
+    const update = vi.spyOn(GameDAL, 'update');
+
+    const response = await submitVersion(
+      createRequest(
+        `/api/games/${gameId}/versions`,
+        { htmlContent: mockVersion.htmlContent, changelog: '修复bug' },
+        creatorCookie
+      ),
+      context
+    );
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        gameId,
+        versionNumber: 2,
+        status: 'pending',
+        submittedBy: 'creator:bob',
+      })
+    );
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('版本审核与回滚', () => {
+  let adminCookie: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 1,
+      gameId,
+      action: 'approve',
+      reason: null,
+      category: null,
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+      versionId,
+      createdAt: new Date(),
+    });
+    const token = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+    adminCookie = `admin-auth=${token}`;
+  });
+
+  it('批准版本后应该将其设为线上版本', async () => {
+    vi.spyOn(GameVersionDAL, 'getById').mockResolvedValue(mockVersion);
+    const review = vi.spyOn(ReviewService, 'reviewVersion').mockResolvedValue({
+      version: { ...mockVersion, status: 'approved' },
+      game: { ...mockGame, currentVersionId: versionId },
+    });
+
+    const response = await reviewVersion(
+      createRequest(`/api/admin/review/versions/${versionId}`, { action: 'approve' }, adminCookie),
+      { params: { versionId } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.currentVersionId).toBe(versionId);
+    expect(review).toHaveBeenCalledWith({
+      version: mockVersion,
+      action: 'approve',
+      reason: undefined,
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+    });
+  });
+
+  it('拒绝版本时应该记录拒绝原因', async () => {
+    vi.spyOn(GameVersionDAL, 'getById').mockResolvedValue(mockVersion);
+    const review = vi.spyOn(ReviewService, 'reviewVersion').mockResolvedValue({
+      version: { ...mockVersion, status: 'rejected' },
+      game: null,
+    });
+
+    const response = await reviewVersion(
+      createRequest(
+        `/api/admin/review/versions/${versionId}`,
+        { action: 'reject', reason: '存在问题' },
+        adminCookie
+      ),
+      { params: { versionId } }
+    );
+
+    expect(response.status).toBe(200);
+    expect(review).toHaveBeenCalledWith(expect.objectContaining({ action: 'reject', reason: '存在问题' }));
+  });
+
+  it('版本已被其他审核员审核时应该返回409', async () => {
+    vi.spyOn(GameVersionDAL, 'getById').mockResolvedValue(mockVersion);
+    vi.spyOn(ReviewService, 'reviewVersion').mockResolvedValue(null);
+
+    const response = await reviewVersion(
+      createRequest(`/api/admin/review/versions/${versionId}`, { action: 'approve' }, adminCookie),
+      { params: { versionId } }
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it('应该回滚到已批准的历史版本并记录日志', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, currentVersionId: 'current-version' });
+    vi.spyOn(GameVersionDAL, 'getById').mockResolvedValue({ ...mockVersion, status: 'approved' });
+    const applyVersion = vi.spyOn(GameDAL, 'applyVersion').mockResolvedValue({
+      ...mockGame,
+      currentVersionId: versionId,
+    });
+
+    const response = await rollbackGame(
+      createRequest(`/api/admin/games/${gameId}/rollback`, { versionId }, adminCookie),
+      { params: { id: gameId } }
+    );
+
+    expect(response.status).toBe(200);
+    expect(applyVersion).toHaveBeenCalled();
+    expect(ReviewLogDAL.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'rollback', versionId, reason: '回滚到版本 v2' })
+    );
+  });
+
+  it('不应该回滚到未批准的版本', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(GameVersionDAL, 'getById').mockResolvedValue(mockVersion);
+    const applyVersion = vi.spyOn(GameDAL, 'applyVersion');
+
+    const response = await rollbackGame(
+      createRequest(`/api/admin/games/${gameId}/rollback`, { versionId }, adminCookie),
+      { params: { id: gameId } }
+    );
+
+    expect(response.status).toBe(400);
+    expect(applyVersion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { middleware } from '../../middleware';
+import { createSessionToken, verifySessionToken } from '@/lib/session';
+import { PLAYER_ID_COOKIE } from '@/lib/game-storage';
+import { getSafeRedirectPath } from '@/lib/utils';
+
+const createRequest = (path: string, sessionCookie?: string, cookieName: string = 'admin-auth') => {
+  const headers = new Headers();
+  if (sessionCookie) {
+    headers.set('cookie', `${cookieName}=${sessionCookie}`);
+  }
+  return new NextRequest(`http://localhost:3000${path}`, { headers });
+};
+
+describe('管理员页面访问控制', () => {
+  it('应该将未登录的访问重定向到登录页面', async () => {
+    const response = await middleware(createRequest('/admin/review?status=pending'));
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('from')).toBe('/admin/review?status=pending');
+  });
+
+  it('应该拒绝伪造的会话Cookie', async () => {
+    const response = await middleware(createRequest('/admin', 'forged.cookie'));
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+  });
+
+  it('应该放行有效会话的访问', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' });
+    const response = await middleware(createRequest('/admin', token));
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('登录后跳转地址', () => {
+  it('应该保留站内路径', () => {
+    expect(getSafeRedirectPath('/admin/review?status=pending', '/admin')).toBe('/admin/review?status=pending');
+  });
+
+  it('应该拒绝指向其他站点的地址', () => {
+    for (const from of ['//evil.com', '/\\evil.com', '/\t/evil.com', 'https://evil.com', undefined]) {
+      expect(getSafeRedirectPath(from, '/admin')).toBe('/admin');
+    }
+  });
+});
+
+describe('创作者页面访问控制', () => {
+  it('应该将未登录的访问重定向到创作者登录页面', async () => {
+    const response = await middleware(createRequest('/my-games'));
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/creator/login');
+    expect(location.searchParams.get('from')).toBe('/my-games');
+  });
+
+  it('应该放行有效的创作者会话', async () => {
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    const response = await middleware(createRequest('/my-games', token, 'creator-auth'));
+
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('不应该接受创作者会话访问管理员页面', async () => {
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    const response = await middleware(createRequest('/admin', token));
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+  });
+});
+
+describe('游戏页面CSP', () => {
+  it('应该只放行白名单中的CDN主机', async () => {
+    const response = await middleware(createRequest('/game/game-1'));
+    const csp = response.headers.get('Content-Security-Policy')!;
+    const directive = (name: string) => csp.split('; ').find((item) => item.startsWith(`${name} `));
+
+    expect(directive('script-src')).toBe("script-src 'self' 'unsafe-inline' 'unsafe-eval' blob: https://cdn.tailwindcss.com");
+    expect(directive('style-src')).toBe("style-src 'self' 'unsafe-inline' blob: https://fonts.googleapis.com");
+    expect(directive('font-src')).toBe("font-src 'self' data: https://fonts.gstatic.com");
+    expect(directive('connect-src')).toBe("connect-src 'self'");
+  });
+});
+
+describe('玩家存档标识', () => {
+  it('游戏页面应该为没有标识的浏览器签发玩家标识', async () => {
+    const response = await middleware(createRequest('/game/game-1'));
+    const cookie = response.cookies.get(PLAYER_ID_COOKIE);
+
+    expect(cookie?.httpOnly).toBe(true);
+    const player = await verifySessionToken(cookie?.value);
+    expect(player?.kind).toBe('player');
+  });
+
+  it('已有有效标识时不应该重新签发', async () => {
+    const token = await createSessionToken({ sub: 'player-1', name: 'player', kind: 'player' });
+    const response = await middleware(createRequest('/game/game-1', token, PLAYER_ID_COOKIE));
+
+    expect(response.cookies.get(PLAYER_ID_COOKIE)).toBeUndefined();
+  });
+
+  it('应该替换伪造或其他类型的标识', async () => {
+    const creatorToken = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+
+    const forged = await middleware(createRequest('/game/game-1', '9b2f6c1e-4a3d-4f8e-9c7b-2d1e0f3a4b5c', PLAYER_ID_COOKIE));
+    const wrongKind = await middleware(createRequest('/game/game-1', creatorToken, PLAYER_ID_COOKIE));
+
+    expect(forged.cookies.get(PLAYER_ID_COOKIE)).toBeDefined();
+    expect(wrongKind.cookies.get(PLAYER_ID_COOKIE)).toBeDefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SQL } from 'drizzle-orm';
+import { MySqlDialect } from 'drizzle-orm/mysql-core';
+import { db } from '@/lib/db';
+import { createTables } from '@/lib/migrations';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    execute: vi.fn(),
+  },
+}));
+
+const dialect = new MySqlDialect();
+
+// 按列是否已存在模拟information_schema查询，返回执行过的全部语句
+const runMigrations = async (existingCount: number) => {
+  vi.mocked(db.execute).mockResolvedValue({ rows: [{ count: existingCount }] } as never);
+  await createTables();
+  return vi.mocked(db.execute).mock.calls.map(([query]) => dialect.sqlToQuery(query as SQL).sql.replace(/\s+/g, ' ').trim());
+};
+
+describe('数据库迁移', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(db.execute).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('应该为已有的表补充缺少的列', async () => {
+    const statements = await runMigrations(0);
+
+    expect(statements).toContain(
+      "ALTER TABLE review_logs ADD COLUMN reviewer_role ENUM('reviewer', 'moderator', 'owner') AFTER reviewer"
+    );
+    expect(statements).toContain('ALTER TABLE games ADD INDEX idx_owner_id (owner_id)');
+  });
+
+  it('应该扩展已有表的ENUM取值', async () => {
+    const statements = await runMigrations(1);
+
+    expect(statements.find((statement) => statement.startsWith('ALTER TABLE games MODIFY COLUMN status'))).toContain(
+      "'withdrawn'"
+    );
+  });
+
+  it('列和索引已存在时不应该重复添加', async () => {
+    const statements = await runMigrations(1);
+
+    expect(statements.some((statement) => statement.includes('ADD COLUMN') || statement.includes('ADD INDEX'))).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GameDAL, ReviewLogDAL, SecurityPolicyDAL, SubmissionReceiptDAL } from '@/lib/dal';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/security-policy';
+import { generateReceiptToken, hashReceiptToken, verifyReceiptToken } from '@/lib/receipts';
+import { GET, PATCH, DELETE } from '@/app/api/games/[id]/receipt/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+
+const mockGame: Game = {
+  id: gameId,
+  title: 'Test Game',
+  description: 'A test game',
+  htmlContent: '<html><body>Test</body></html>',
+  authorName: null,
+  status: 'pending',
+  rejectionReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  approvedAt: null,
+  approvedBy: null,
+  securityPolicyVersion: null,
+  claimedBy: null,
+  claimExpiresAt: null,
+  appealMessage: null,
+  unpublishedAt: null,
+  unpublishReason: null,
+  deletedAt: null,
+  currentVersionId: null,
+  submittedBy: null,
+  ownerId: null,
+};
+
+const createRequest = (token?: string, method: string = 'GET', body?: unknown) => {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (token) {
+    headers.set('X-Receipt-Token', token);
+  }
+  return new NextRequest(`http://localhost:3000/api/games/${gameId}/receipt`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+};
+
+describe('回执令牌', () => {
+  it('应该生成带前缀的令牌并只校验匹配的哈希', () => {
+    const { token, hash } = generateReceiptToken();
+
+    expect(token.startsWith('mgr_')).toBe(true);
+    expect(hash).toBe(hashReceiptToken(token));
+    expect(verifyReceiptToken(token, hash)).toBe(true);
+    expect(verifyReceiptToken(generateReceiptToken().token, hash)).toBe(false);
+    expect(verifyReceiptToken(null, hash)).toBe(false);
+  });
+});
+
+describe('提交回执API', () => {
+  const { token, hash } = generateReceiptToken();
+  const context = { params: { id: gameId } };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(SubmissionReceiptDAL, 'getByGameId').mockResolvedValue({
+      gameId,
+      tokenHash: hash,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    });
+    vi.spyOn(SubmissionReceiptDAL, 'touchLastUsed').mockResolvedValue();
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue(DEFAULT_SECURITY_POLICY);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+  });
+
+  it('应该在缺少令牌时返回401错误', async () => {
+    const response = await GET(createRequest(), context);
+    expect(response.status).toBe(401);
+  });
+
+  it('应该在令牌不匹配时返回404错误', async () => {
+    const response = await GET(createRequest(generateReceiptToken().token), context);
+    expect(response.status).toBe(404);
+  });
+
+  it('应该返回审核状态和不含审核员的审核记录', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({
+      ...mockGame,
+      status: 'rejected',
+      rejectionReason: '内容不完整',
+    });
+    vi.spyOn(ReviewLogDAL, 'getByGameId').mockResolvedValue([
+      {
+        id: 1,
+        gameId,
+        action: 'reject',
+        reason: '内容不完整',
+        category: null,
+        reviewer: 'alice',
+        reviewerRole: 'reviewer',
+        versionId: null,
+        createdAt: new Date(),
+      },
+    ]);
+
+    const response = await GET(createRequest(token), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.game.status).toBe('rejected');
+    expect(data.data.game.rejectionReason).toBe('内容不完整');
+    expect(data.data.game.htmlContent).toBeUndefined();
+    expect(data.data.reviewLogs[0].reviewer).toBeUndefined();
+  });
+
+  it('修改已拒绝游戏的HTML内容后应该重新进入审核', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({
+      ...mockGame,
+      status: 'rejected',
+      rejectionReason: '内容不完整',
+    });
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue({ ...DEFAULT_SECURITY_POLICY, version: 2 });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, title: '新标题' });
+    const createLog = vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 3,
+      gameId,
+      action: 'edit',
+      reason: '修改字段: title, htmlContent',
+      category: null,
+      reviewer: 'receipt',
+      reviewerRole: null,
+      versionId: null,
+      createdAt: new Date(),
+    });
+    const htmlContent = '<html><body>New</body></html>';
+
+    const response = await PATCH(createRequest(token, 'PATCH', { title: '新标题', htmlContent }), context);
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(gameId, 'rejected', {
+      title: '新标题',
+      htmlContent,
+      securityPolicyVersion: 2,
+      status: 'pending',
+      rejectionReason: null,
+    });
+    expect(createLog).toHaveBeenCalledWith({
+      gameId,
+      action: 'edit',
+      reason: '修改字段: title, htmlContent',
+      reviewer: 'receipt',
+    });
+  });
+
+  it('只修改已拒绝游戏的元数据时不应该重新进入审核', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'rejected', rejectionReason: '内容不完整' });
+    vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 3,
+      gameId,
+      action: 'edit',
+      reason: '修改字段: title',
+      category: null,
+      reviewer: 'receipt',
+      reviewerRole: null,
+      versionId: null,
+      createdAt: new Date(),
+    });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue({ ...mockGame, status: 'rejected', title: '新标题' });
+
+    const response = await PATCH(createRequest(token, 'PATCH', { title: '新标题' }), context);
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(gameId, 'rejected', { title: '新标题' });
+  });
+
+  it('没有修改任何内容时应该返回400错误', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'rejected', rejectionReason: '内容不完整' });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus');
+
+    const response = await PATCH(createRequest(token, 'PATCH', { htmlContent: mockGame.htmlContent }), context);
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('审核期间游戏状态变化时应该返回冲突', async () => {
+    vi.spyOn(GameDAL, 'updateIfStatus').mockResolvedValue(null);
+    const createLog = vi.spyOn(ReviewLogDAL, 'create');
+
+    const response = await PATCH(createRequest(token, 'PATCH', { title: '新标题' }), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe('CONFLICT');
+    expect(createLog).not.toHaveBeenCalled();
+  });
+
+  it('不应该允许修改已发布的游戏', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'approved' });
+    const update = vi.spyOn(GameDAL, 'updateIfStatus');
+
+    const response = await PATCH(createRequest(token, 'PATCH', { title: '新标题' }), context);
+
+    expect(response.status).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('应该撤回待审核的游戏并记录日志', async () => {
+    vi.spyOn(GameDAL, 'withdraw').mockResolvedValue({ ...mockGame, status: 'withdrawn' });
+    const createLog = vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue({
+      id: 2,
+      gameId,
+      action: 'withdraw',
+      reason: null,
+      category: null,
+      reviewer: 'receipt',
+      reviewerRole: null,
+      versionId: null,
+      createdAt: new Date(),
+    });
+
+    const response = await DELETE(createRequest(token, 'DELETE'), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.game.status).toBe('withdrawn');
+    expect(createLog).toHaveBeenCalledWith({ gameId, action: 'withdraw', reviewer: 'receipt' });
+  });
+});
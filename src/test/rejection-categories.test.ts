@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, GameDAL, RejectionCategoryDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { ReviewService } from '@/lib/review-service';
+import { formatRejectionReason } from '@/lib/rejection-categories';
+import { GET as listCategories, POST as createCategory } from '@/app/api/admin/review/categories/route';
+import { PATCH as updateCategory } from '@/app/api/admin/review/categories/[code]/route';
+import { POST as reviewGame } from '@/app/api/admin/review/route';
+import type { RejectionCategory } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+
+const mockCategory: RejectionCategory = {
+  code: 'broken_game',
+  label: '无法运行',
+  template: '游戏无法正常加载或运行，请在本地测试后重新提交。',
+  isActive: true,
+  sortOrder: 20,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'moderator' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const createRequest = (url: string, method: string, token: string, body?: unknown) =>
+  new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${token}` },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('formatRejectionReason', () => {
+  it('应该在模板后拼接补充说明', () => {
+    expect(formatRejectionReason('游戏无法运行。', '  第3关卡死  ')).toBe('游戏无法运行。\n\n补充说明：第3关卡死');
+    expect(formatRejectionReason('游戏无法运行。', '   ')).toBe('游戏无法运行。');
+    expect(formatRejectionReason('游戏无法运行。')).toBe('游戏无法运行。');
+  });
+});
+
+describe('拒绝原因分类API', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  it('应该返回分类列表，all=true时包含已停用的分类', async () => {
+    const getAll = vi.spyOn(RejectionCategoryDAL, 'getAll').mockResolvedValue([mockCategory]);
+
+    const response = await listCategories(
+      createRequest('/api/admin/review/categories?all=true', 'GET', adminToken),
+      undefined
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.categories[0].code).toBe('broken_game');
+    expect(getAll).toHaveBeenCalledWith(true);
+  });
+
+  it('应该创建分类', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue(null);
+    const create = vi.spyOn(RejectionCategoryDAL, 'create').mockResolvedValue(mockCategory);
+
+    const response = await createCategory(
+      createRequest('/api/admin/review/categories', 'POST', adminToken, {
+        code: 'broken_game',
+        label: '无法运行',
+        template: mockCategory.template,
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith({
+      code: 'broken_game',
+      label: '无法运行',
+      template: mockCategory.template,
+      sortOrder: 0,
+    });
+  });
+
+  it('分类代码已存在时应该返回409错误', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue(mockCategory);
+    const create = vi.spyOn(RejectionCategoryDAL, 'create');
+
+    const response = await createCategory(
+      createRequest('/api/admin/review/categories', 'POST', adminToken, {
+        code: 'broken_game',
+        label: '无法运行',
+        template: '模板',
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(409);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝格式不正确的分类代码', async () => {
+    const response = await createCategory(
+      createRequest('/api/admin/review/categories', 'POST', adminToken, {
+        code: 'Broken Game',
+        label: '无法运行',
+        template: '模板',
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('审核员没有维护分类的权限', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, role: 'reviewer' });
+    const update = vi.spyOn(RejectionCategoryDAL, 'update');
+
+    const response = await updateCategory(
+      createRequest('/api/admin/review/categories/broken_game', 'PATCH', adminToken, { isActive: false }),
+      { params: { code: 'broken_game' } }
+    );
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('应该停用分类', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue(mockCategory);
+    const update = vi
+      .spyOn(RejectionCategoryDAL, 'update')
+      .mockResolvedValue({ ...mockCategory, isActive: false });
+
+    const response = await updateCategory(
+      createRequest('/api/admin/review/categories/broken_game', 'PATCH', adminToken, { isActive: false }),
+      { params: { code: 'broken_game' } }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.category.isActive).toBe(false);
+    expect(update).toHaveBeenCalledWith('broken_game', { isActive: false });
+  });
+
+  it('修改不存在的分类应该返回404错误', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue(null);
+
+    const response = await updateCategory(
+      createRequest('/api/admin/review/categories/missing', 'PATCH', adminToken, { label: '新名称' }),
+      { params: { code: 'missing' } }
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('按分类拒绝游戏', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, status: 'pending' } as any);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  it('应该将分类和补充说明传给审核服务', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue(mockCategory);
+    const review = vi.spyOn(ReviewService, 'review').mockResolvedValue({ id: gameId, status: 'rejected' } as any);
+
+    const response = await reviewGame(
+      createRequest('/api/admin/review', 'POST', adminToken, {
+        gameId,
+        action: 'reject',
+        category: 'broken_game',
+        reason: '第3关卡死',
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    expect(review).toHaveBeenCalledWith({
+      gameId,
+      action: 'reject',
+      reason: '第3关卡死',
+      category: mockCategory,
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+    });
+  });
+
+  it('拒绝时未选择分类应该返回400错误', async () => {
+    const review = vi.spyOn(ReviewService, 'review');
+
+    const response = await reviewGame(
+      createRequest('/api/admin/review', 'POST', adminToken, { gameId, action: 'reject', reason: '内容不完整' }),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+    expect(review).not.toHaveBeenCalled();
+  });
+
+  it('不能使用已停用的分类', async () => {
+    vi.spyOn(RejectionCategoryDAL, 'getByCode').mockResolvedValue({ ...mockCategory, isActive: false });
+    const review = vi.spyOn(ReviewService, 'review');
+
+    const response = await reviewGame(
+      createRequest('/api/admin/review', 'POST', adminToken, { gameId, action: 'reject', category: 'broken_game' }),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+    expect(review).not.toHaveBeenCalled();
+  });
+});
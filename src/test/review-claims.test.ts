@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, GameDAL, ReviewLogDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { ReviewService, getOtherClaimant } from '@/lib/review-service';
+import { POST as claimGame, DELETE as releaseGame } from '@/app/api/admin/review/claim/route';
+import { POST as claimNext } from '@/app/api/admin/review/next/route';
+import { POST as reviewGame } from '@/app/api/admin/review/route';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+const inFuture = () => new Date(Date.now() + 10 * 60 * 1000);
+const inPast = () => new Date(Date.now() - 10 * 60 * 1000);
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'reviewer' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockLog = {
+  id: 1,
+  gameId,
+  action: 'claim' as const,
+  reason: null,
+  category: null,
+  reviewer: 'alice',
+  reviewerRole: 'reviewer' as const,
+  versionId: null,
+  createdAt: new Date(),
+};
+
+const createRequest = (url: string, method: string, token: string, body?: unknown) =>
+  new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${token}` },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('审核认领', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  describe('getOtherClaimant', () => {
+    it('应该只返回其他审核员未过期的认领', () => {
+      expect(getOtherClaimant({ claimedBy: 'bob', claimExpiresAt: inFuture() }, 'alice')).toBe('bob');
+      expect(getOtherClaimant({ claimedBy: 'bob', claimExpiresAt: inPast() }, 'alice')).toBeNull();
+      expect(getOtherClaimant({ claimedBy: 'alice', claimExpiresAt: inFuture() }, 'alice')).toBeNull();
+      expect(getOtherClaimant({ claimedBy: null, claimExpiresAt: null }, 'alice')).toBeNull();
+    });
+  });
+
+  describe('ReviewService', () => {
+    it('新认领应该记录日志，续期不重复记录', async () => {
+      const createLog = vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue(mockLog);
+      const claim = vi
+        .spyOn(GameDAL, 'claim')
+        .mockResolvedValue({ id: gameId, claimedBy: 'alice', claimExpiresAt: inFuture() } as any);
+
+      vi.spyOn(GameDAL, 'getById').mockResolvedValueOnce({ id: gameId, claimedBy: null } as any);
+      await ReviewService.claim(gameId, { reviewer: 'alice', reviewerRole: 'reviewer' });
+
+      vi.spyOn(GameDAL, 'getById').mockResolvedValueOnce({
+        id: gameId,
+        claimedBy: 'alice',
+        claimExpiresAt: inFuture(),
+      } as any);
+      await ReviewService.claim(gameId, { reviewer: 'alice', reviewerRole: 'reviewer' });
+
+      expect(claim).toHaveBeenCalledTimes(2);
+      expect(claim.mock.calls[0][2].getTime()).toBeGreaterThan(Date.now());
+      expect(createLog).toHaveBeenCalledTimes(1);
+      expect(createLog).toHaveBeenCalledWith({ gameId, action: 'claim', reviewer: 'alice', reviewerRole: 'reviewer' });
+    });
+
+    it('认领下一个时应该跳过被其他审核员抢先认领的游戏', async () => {
+      const otherId = '123e4567-e89b-12d3-a456-426614174001';
+      vi.spyOn(GameDAL, 'getUnclaimedPending').mockResolvedValue([{ id: otherId } as any, { id: gameId } as any]);
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue(null);
+      vi.spyOn(ReviewLogDAL, 'create').mockResolvedValue(mockLog);
+      vi.spyOn(GameDAL, 'claim')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: gameId, claimedBy: 'alice' } as any);
+
+      const game = await ReviewService.claimNext({ reviewer: 'alice' });
+
+      expect(game?.id).toBe(gameId);
+    });
+  });
+
+  describe('认领API', () => {
+    it('应该认领待审核的游戏', async () => {
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, status: 'pending', claimedBy: null } as any);
+      const claim = vi
+        .spyOn(ReviewService, 'claim')
+        .mockResolvedValue({ id: gameId, status: 'pending', claimedBy: 'alice', claimExpiresAt: inFuture() } as any);
+
+      const response = await claimGame(createRequest('/api/admin/review/claim', 'POST', adminToken, { gameId }), undefined);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.game.claimedBy).toBe('alice');
+      expect(claim).toHaveBeenCalledWith(gameId, { reviewer: 'alice', reviewerRole: 'reviewer' });
+    });
+
+    it('已被其他审核员认领时应该返回409错误', async () => {
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue({
+        id: gameId,
+        status: 'pending',
+        claimedBy: 'bob',
+        claimExpiresAt: inFuture(),
+      } as any);
+      const claim = vi.spyOn(ReviewService, 'claim');
+
+      const response = await claimGame(createRequest('/api/admin/review/claim', 'POST', adminToken, { gameId }), undefined);
+
+      expect(response.status).toBe(409);
+      expect(claim).not.toHaveBeenCalled();
+    });
+
+    it('不能认领非待审核的游戏', async () => {
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, status: 'approved' } as any);
+
+      const response = await claimGame(createRequest('/api/admin/review/claim', 'POST', adminToken, { gameId }), undefined);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('释放不属于自己的认领应该返回409错误', async () => {
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue({ id: gameId, status: 'pending', claimedBy: 'bob' } as any);
+      vi.spyOn(ReviewService, 'release').mockResolvedValue(null);
+
+      const response = await releaseGame(
+        createRequest('/api/admin/review/claim', 'DELETE', adminToken, { gameId }),
+        undefined
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('没有可认领的游戏时应该返回404错误', async () => {
+      vi.spyOn(ReviewService, 'claimNext').mockResolvedValue(null);
+
+      const response = await claimNext(createRequest('/api/admin/review/next', 'POST', adminToken), undefined);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('游戏被其他审核员认领期间不能审核', async () => {
+      vi.spyOn(GameDAL, 'getById').mockResolvedValue({
+        id: gameId,
+        status: 'pending',
+        claimedBy: 'bob',
+        claimExpiresAt: inFuture(),
+      } as any);
+      const review = vi.spyOn(ReviewService, 'review');
+
+      const response = await reviewGame(
+        createRequest('/api/admin/review', 'POST', adminToken, { gameId, action: 'approve' }),
+        undefined
+      );
+
+      expect(response.status).toBe(409);
+      expect(review).not.toHaveBeenCalled();
+    });
+  });
+});
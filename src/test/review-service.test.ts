@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { AdminDAL, GameDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { ReviewService } from '@/lib/review-service';
+import { POST as batchReview } from '@/app/api/admin/review/batch/route';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+const mockDb = vi.mocked(db);
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+
+// 构造事务对象，rowsAffected模拟条件更新命中的行数
+const createMockTransaction = (rowsAffected: number) => {
+  const updateWhere = vi.fn().mockResolvedValue({ rowsAffected });
+  const insertValues = vi.fn().mockResolvedValue({ insertId: '1' });
+  const updateSet = vi.fn().mockReturnValue({ where: updateWhere });
+  const tx = {
+    update: vi.fn().mockReturnValue({ set: updateSet }),
+    insert: vi.fn().mockReturnValue({ values: insertValues }),
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue([{ id: gameId, status: 'approved' }]),
+      }),
+    }),
+  };
+  mockDb.transaction.mockImplementation(async (callback: any) => callback(tx));
+  return { tx, updateSet, updateWhere, insertValues };
+};
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('应该在同一事务中更新状态并写入审核日志', async () => {
+    const { tx, insertValues } = createMockTransaction(1);
+
+    const game = await ReviewService.review({
+      gameId,
+      action: 'approve',
+      reviewer: 'alice',
+      reviewerRole: 'reviewer',
+    });
+
+    expect(game?.status).toBe('approved');
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    expect(tx.update).toHaveBeenCalledTimes(1);
+    expect(insertValues).toHaveBeenCalledWith({
+      gameId,
+      action: 'approve',
+      reason: null,
+      category: null,
+      reviewer: 'alice',
+      reviewerRole: 'reviewer',
+    });
+  });
+
+  it('按分类拒绝时应该拼接模板和补充说明，日志记录分类代码', async () => {
+    const { updateSet, insertValues } = createMockTransaction(1);
+
+    await ReviewService.review({
+      gameId,
+      action: 'reject',
+      reason: '第3关无法通过',
+      category: {
+        code: 'broken_game',
+        label: '无法运行',
+        template: '游戏无法正常运行。',
+        isActive: true,
+        sortOrder: 20,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      reviewer: 'alice',
+    });
+
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'rejected',
+        rejectionReason: '游戏无法正常运行。\n\n补充说明：第3关无法通过',
+      })
+    );
+    expect(insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: '第3关无法通过', category: 'broken_game' })
+    );
+  });
+
+  it('状态已被并发修改时应该返回null且不写日志', async () => {
+    const { tx } = createMockTransaction(0);
+
+    const game = await ReviewService.review({
+      gameId,
+      action: 'reject',
+      reason: '内容不完整',
+      reviewer: 'alice',
+    });
+
+    expect(game).toBeNull();
+    expect(tx.insert).not.toHaveBeenCalled();
+  });
+
+  it('写入日志失败时应该抛出错误（事务回滚）', async () => {
+    const { insertValues } = createMockTransaction(1);
+    insertValues.mockRejectedValue(new Error('Database error'));
+
+    await expect(
+      ReviewService.review({ gameId, action: 'approve', reviewer: 'alice' })
+    ).rejects.toThrow('Failed to review game: Database error');
+  });
+});
+
+describe('版本审核', () => {
+  const version = {
+    id: '223e4567-e89b-12d3-a456-426614174000',
+    gameId,
+    versionNumber: 2,
+    title: '新标题',
+    description: null,
+    htmlContent: '<div>v2</div>',
+    changelog: null,
+    securityPolicyVersion: null,
+    status: 'pending',
+    submittedBy: 'creator:bob',
+    reviewedBy: null,
+    reviewedAt: null,
+    rejectionReason: null,
+    createdAt: new Date(),
+  } as const;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('批准时应该在同一事务中更新版本、替换线上内容并写入日志', async () => {
+    const { tx, updateSet, insertValues } = createMockTransaction(1);
+
+    const result = await ReviewService.reviewVersion({
+      version,
+      action: 'approve',
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+    });
+
+    expect(result).not.toBeNull();
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    expect(tx.update).toHaveBeenCalledTimes(2);
+    expect(updateSet).toHaveBeenLastCalledWith(
+      expect.objectContaining({ htmlContent: '<div>v2</div>', currentVersionId: version.id })
+    );
+    expect(insertValues).toHaveBeenCalledWith({
+      gameId,
+      action: 'approve',
+      reason: null,
+      reviewer: 'alice',
+      reviewerRole: 'moderator',
+      versionId: version.id,
+    });
+  });
+
+  it('拒绝时不应该修改线上内容', async () => {
+    const { tx, updateSet } = createMockTransaction(1);
+
+    await ReviewService.reviewVersion({ version, action: 'reject', reason: '存在问题', reviewer: 'alice' });
+
+    expect(tx.update).toHaveBeenCalledTimes(1);
+    expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({ status: 'rejected', rejectionReason: '存在问题' }));
+  });
+
+  it('版本已被审核时应该返回null且不替换内容', async () => {
+    const { tx } = createMockTransaction(0);
+
+    const result = await ReviewService.reviewVersion({ version, action: 'approve', reviewer: 'alice' });
+
+    expect(result).toBeNull();
+    expect(tx.update).toHaveBeenCalledTimes(1);
+    expect(tx.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('批量审核', () => {
+  const pendingId = '123e4567-e89b-12d3-a456-426614174001';
+  const approvedId = '123e4567-e89b-12d3-a456-426614174002';
+  const missingId = '123e4567-e89b-12d3-a456-426614174003';
+
+  const mockAdmin = {
+    id: 'admin-1',
+    username: 'alice',
+    displayName: 'Alice',
+    role: 'reviewer' as const,
+    isActive: true,
+    sessionVersion: 0,
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const createBatchRequest = (body: unknown, token: string) =>
+    new NextRequest('http://localhost:3000/api/admin/review/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${token}` },
+      body: JSON.stringify(body),
+    });
+
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    vi.spyOn(GameDAL, 'getById').mockImplementation(async (id: string) => {
+      if (id === pendingId) return { id, status: 'pending' } as any;
+      if (id === approvedId) return { id, status: 'approved' } as any;
+      return null;
+    });
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  it('应该逐个审核待审核的游戏并返回每一项的结果', async () => {
+    const review = vi.spyOn(ReviewService, 'review').mockResolvedValue({ id: pendingId, status: 'rejected' } as any);
+
+    const results = await ReviewService.batchReview({
+      gameIds: [pendingId, approvedId, missingId, 'not-a-uuid', pendingId],
+      action: 'reject',
+      reason: '垃圾内容',
+      reviewer: 'alice',
+    });
+
+    expect(results).toEqual([
+      { gameId: pendingId, status: 'reviewed' },
+      { gameId: approvedId, status: 'skipped', message: '游戏不是待审核状态' },
+      { gameId: missingId, status: 'not_found', message: '游戏不存在' },
+      { gameId: 'not-a-uuid', status: 'invalid', message: '游戏ID格式不正确' },
+    ]);
+    expect(review).toHaveBeenCalledTimes(1);
+    expect(review).toHaveBeenCalledWith({
+      gameId: pendingId,
+      action: 'reject',
+      reason: '垃圾内容',
+      reviewer: 'alice',
+    });
+  });
+
+  it('单个游戏失败不应该影响其他游戏', async () => {
+    const otherPendingId = '123e4567-e89b-12d3-a456-426614174004';
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ status: 'pending' } as any);
+    vi.spyOn(ReviewService, 'review')
+      .mockRejectedValueOnce(new Error('Failed to review game: Database error'))
+      .mockResolvedValueOnce(null);
+
+    const results = await ReviewService.batchReview({
+      gameIds: [pendingId, otherPendingId],
+      action: 'approve',
+      reviewer: 'alice',
+    });
+
+    expect(results.map((item) => item.status)).toEqual(['error', 'conflict']);
+  });
+
+  it('批量审核接口应该使用当前管理员身份并返回汇总', async () => {
+    const batch = vi.spyOn(ReviewService, 'batchReview').mockResolvedValue([
+      { gameId: pendingId, status: 'reviewed' },
+      { gameId: approvedId, status: 'skipped', message: '游戏不是待审核状态' },
+    ]);
+
+    const response = await batchReview(
+      createBatchRequest({ gameIds: [pendingId, approvedId], action: 'approve' }, adminToken),
+      undefined
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.summary).toEqual({ total: 2, reviewed: 1, failed: 1 });
+    expect(batch).toHaveBeenCalledWith({
+      gameIds: [pendingId, approvedId],
+      action: 'approve',
+      reason: undefined,
+      category: null,
+      reviewer: 'alice',
+      reviewerRole: 'reviewer',
+    });
+  });
+
+  it('批量拒绝时必须选择拒绝原因分类', async () => {
+    const batch = vi.spyOn(ReviewService, 'batchReview');
+
+    const response = await batchReview(
+      createBatchRequest({ gameIds: [pendingId], action: 'reject' }, adminToken),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+    expect(batch).not.toHaveBeenCalled();
+  });
+
+  it('未登录时应该返回401错误', async () => {
+    const response = await batchReview(
+      new NextRequest('http://localhost:3000/api/admin/review/batch', {
+        method: 'POST',
+        body: JSON.stringify({ gameIds: [pendingId], action: 'approve' }),
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -25,6 +25,16 @@ describe('Schema Types', () => {
         updatedAt: new Date(),
         approvedAt: null,
         approvedBy: null,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       expect(game.id).toBeDefined();
@@ -48,6 +58,16 @@ describe('Schema Types', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy: '管理员',
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
       };
 
       expect(game.description).toBeNull();
@@ -71,6 +91,16 @@ describe('Schema Types', () => {
           updatedAt: new Date(),
           approvedAt: null,
           approvedBy: null,
+          securityPolicyVersion: null,
+          claimedBy: null,
+          claimExpiresAt: null,
+          appealMessage: null,
+          unpublishedAt: null,
+          unpublishReason: null,
+          deletedAt: null,
+          currentVersionId: null,
+          ownerId: null,
+          submittedBy: null,
         };
 
         expect(game.status).toBe(status);
@@ -113,7 +143,10 @@ describe('Schema Types', () => {
         gameId: '123e4567-e89b-12d3-a456-426614174000',
         action: 'approve',
         reason: null,
+        category: null,
         reviewer: '管理员',
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
       };
 
@@ -130,7 +163,10 @@ describe('Schema Types', () => {
         gameId: '123e4567-e89b-12d3-a456-426614174000',
         action: 'approve',
         reason: null,
+        category: null,
         reviewer: '管理员',
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
       };
 
@@ -139,7 +175,10 @@ describe('Schema Types', () => {
         gameId: '123e4567-e89b-12d3-a456-426614174000',
         action: 'reject',
         reason: '内容不符合规范',
+        category: null,
         reviewer: '管理员',
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
       };
 
@@ -188,6 +227,16 @@ describe('Schema Types', () => {
         updatedAt: new Date(),
         approvedAt: new Date(),
         approvedBy: '管理员',
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
         isApproved: true,
         isPending: false,
         isRejected: false,
@@ -213,6 +262,16 @@ describe('Schema Types', () => {
         updatedAt: new Date(),
         approvedAt: null,
         approvedBy: null,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
         isApproved: false,
         isPending: true,
         isRejected: false,
@@ -238,6 +297,16 @@ describe('Schema Types', () => {
         updatedAt: new Date(),
         approvedAt: null,
         approvedBy: null,
+        securityPolicyVersion: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+        appealMessage: null,
+        unpublishedAt: null,
+        unpublishReason: null,
+        deletedAt: null,
+        currentVersionId: null,
+        ownerId: null,
+        submittedBy: null,
         isApproved: false,
         isPending: false,
         isRejected: true,
@@ -324,7 +393,10 @@ describe('Schema Types', () => {
         gameId: '123e4567-e89b-12d3-a456-426614174000',
         action: 'approve',
         reason: null,
+        category: null,
         reviewer: '管理员',
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
         game: {
           id: '123e4567-e89b-12d3-a456-426614174000',
@@ -351,7 +423,10 @@ describe('Schema Types', () => {
         gameId: '123e4567-e89b-12d3-a456-426614174000',
         action: 'reject',
         reason: '内容不合适',
+        category: null,
         reviewer: '管理员',
+        reviewerRole: null,
+        versionId: null,
         createdAt: new Date(),
         game: {
           id: '123e4567-e89b-12d3-a456-426614174000',
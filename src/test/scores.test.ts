@@ -0,0 +1,231 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { CreatorDAL, GameDAL, GameScoreSettingsDAL, ScoreDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { DEFAULT_SCORE_SETTINGS, isScorePlausible } from '@/lib/scores';
+import { hashRateLimitClient } from '@/lib/rate-limit';
+import { GET as getScores, POST as submitScore } from '@/app/api/games/[id]/scores/route';
+import { PUT as saveScoreSettings } from '@/app/api/games/[id]/score-settings/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const gameId = '123e4567-e89b-12d3-a456-426614174000';
+const context = { params: { id: gameId } };
+
+const mockGame = {
+  id: gameId,
+  title: 'MazeChaser',
+  status: 'approved',
+  ownerId: 'creator-1',
+} as Game;
+
+const mockCreator = {
+  id: 'creator-1',
+  username: 'bob',
+  displayName: 'Bob',
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const createRequest = (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost:3000/api/games/${gameId}/${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('isScorePlausible', () => {
+  it('应该按设置的范围检查分数', () => {
+    expect(isScorePlausible(10, { minScore: 0, maxScore: 100 })).toBe(true);
+    expect(isScorePlausible(-1, { minScore: 0, maxScore: 100 })).toBe(false);
+    expect(isScorePlausible(101, { minScore: 0, maxScore: 100 })).toBe(false);
+    expect(isScorePlausible(1e12, { minScore: null, maxScore: null })).toBe(true);
+    expect(isScorePlausible(Number.NaN, { minScore: null, maxScore: null })).toBe(false);
+  });
+});
+
+describe('POST /api/games/[id]/scores', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(GameScoreSettingsDAL, 'get').mockResolvedValue({
+      ...DEFAULT_SCORE_SETTINGS,
+      sortOrder: 'asc',
+      minScore: 5,
+      maxScore: 3600,
+      unit: '秒',
+    });
+    vi.stubEnv('TRUSTED_PROXY_HEADER', 'x-forwarded-for');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const submit = (body: unknown) =>
+    submitScore(createRequest('POST', 'scores', body, { 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }), context);
+
+  it('应该记录合理范围内的分数并按IP哈希限流', async () => {
+    const countRecent = vi.spyOn(ScoreDAL, 'countRecent').mockResolvedValue(0);
+    const create = vi.spyOn(ScoreDAL, 'create').mockResolvedValue({
+      id: 'score-1',
+      gameId,
+      playerName: 'alice',
+      score: 42.5,
+      clientHash: 'hash',
+      createdAt: new Date(),
+    });
+
+    const response = await submit({ playerName: '  alice ', score: 42.5 });
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.data.score).toMatchObject({ playerName: 'alice', score: 42.5 });
+    expect(data.data.score.clientHash).toBeUndefined();
+
+    const clientHash = hashRateLimitClient(gameId, 'ip:203.0.113.7');
+    expect(countRecent).toHaveBeenCalledWith(gameId, clientHash, expect.any(Date));
+    expect(create).toHaveBeenCalledWith({ gameId, playerName: 'alice', score: 42.5, clientHash });
+  });
+
+  it('应该拒绝超出合理范围的分数', async () => {
+    const create = vi.spyOn(ScoreDAL, 'create');
+
+    const response = await submit({ playerName: 'alice', score: 1 });
+    const data = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(data.error).toBe('SCORE_OUT_OF_RANGE');
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('超过提交频率限制时应该返回429', async () => {
+    vi.spyOn(ScoreDAL, 'countRecent').mockResolvedValue(DEFAULT_SCORE_SETTINGS.rateLimitCount);
+    const create = vi.spyOn(ScoreDAL, 'create');
+
+    const response = await submit({ playerName: 'alice', score: 42 });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe(String(DEFAULT_SCORE_SETTINGS.rateLimitWindowSeconds));
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('没有客户端IP和玩家标识时不应该共用同一个计数', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HEADER', '');
+    const countRecent = vi.spyOn(ScoreDAL, 'countRecent');
+
+    const response = await submit({ playerName: 'alice', score: 42 });
+
+    expect(response.status).toBe(401);
+    expect(countRecent).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝无效的分数数据', async () => {
+    const response = await submit({ playerName: '', score: 'fast' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('未发布的游戏不接受分数', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, status: 'pending' });
+
+    const response = await submit({ playerName: 'alice', score: 42 });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/games/[id]/scores', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+  });
+
+  it('应该按游戏设置的排序方向返回排行榜', async () => {
+    vi.spyOn(GameScoreSettingsDAL, 'get').mockResolvedValue({ ...DEFAULT_SCORE_SETTINGS, sortOrder: 'asc' });
+    const getLeaderboard = vi.spyOn(ScoreDAL, 'getLeaderboard').mockResolvedValue([
+      { rank: 1, playerName: 'alice', score: 31.2, createdAt: new Date() },
+    ]);
+
+    const response = await getScores(createRequest('GET', 'scores?limit=5'), context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getLeaderboard).toHaveBeenCalledWith(gameId, 'asc', 5);
+    expect(data.data.settings.sortOrder).toBe('asc');
+    expect(data.data.entries[0]).toMatchObject({ rank: 1, playerName: 'alice', score: 31.2 });
+  });
+
+  it('应该拒绝超出范围的数量参数', async () => {
+    const response = await getScores(createRequest('GET', 'scores?limit=500'), context);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('PUT /api/games/[id]/score-settings', () => {
+  let creatorCookie: string;
+
+  const settings = {
+    sortOrder: 'asc',
+    minScore: 5,
+    maxScore: 3600,
+    unit: '秒',
+    rateLimitCount: 3,
+    rateLimitWindowSeconds: 120,
+  };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue(mockGame);
+    vi.spyOn(CreatorDAL, 'getById').mockResolvedValue(mockCreator);
+    const token = await createSessionToken({ sub: 'creator-1', name: 'bob', kind: 'creator' });
+    creatorCookie = `creator-auth=${token}`;
+  });
+
+  it('游戏所有者应该可以修改排行榜设置', async () => {
+    const upsert = vi.spyOn(GameScoreSettingsDAL, 'upsert').mockResolvedValue();
+
+    const response = await saveScoreSettings(
+      createRequest('PUT', 'score-settings', settings, { Cookie: creatorCookie }),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(upsert).toHaveBeenCalledWith(gameId, settings, 'creator:bob');
+  });
+
+  it('其他人不能修改排行榜设置', async () => {
+    vi.spyOn(GameDAL, 'getById').mockResolvedValue({ ...mockGame, ownerId: 'creator-2' });
+    const upsert = vi.spyOn(GameScoreSettingsDAL, 'upsert');
+
+    const response = await saveScoreSettings(
+      createRequest('PUT', 'score-settings', settings, { Cookie: creatorCookie }),
+      context
+    );
+
+    expect(response.status).toBe(403);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('最低分不能大于最高分', async () => {
+    const response = await saveScoreSettings(
+      createRequest('PUT', 'score-settings', { ...settings, minScore: 100, maxScore: 10 }, { Cookie: creatorCookie }),
+      context
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
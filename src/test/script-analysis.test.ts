@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeScript } from '../lib/script-analysis';
+import { DEFAULT_SECURITY_CONFIG } from '../lib/security';
+
+const analyze = (code: string) => analyzeScript(code, { forbiddenApis: DEFAULT_SECURITY_CONFIG.forbiddenApis });
+
+describe('脚本静态分析', () => {
+  it('应该检测直接调用的全局API并报告行列号', () => {
+    const findings = analyze(`const score = 0;\n  fetch('/api/admin');`);
+
+    expect(findings).toEqual([
+      {
+        code: 'FORBIDDEN_API',
+        severity: 'error',
+        message: '检测到网络请求API "fetch"',
+        ruleId: 'api:fetch',
+        line: 2,
+        column: 3,
+      },
+    ]);
+  });
+
+  it('应该检测计算属性形式的访问', () => {
+    const findings = analyze(`window['fe' + 'tch']('/x'); globalThis[\`local\${'Storage'}\`].clear();`);
+
+    expect(findings.map((f) => f.message)).toEqual(['检测到网络请求API "fetch"', '检测到存储API "localStorage"']);
+  });
+
+  it('应该跟踪全局对象的别名和解构', () => {
+    const findings = analyze(`
+      const w = window;
+      const key = 'cookie';
+      w.document[key];
+      const { sessionStorage: s } = self;
+    `);
+
+    expect(findings.map((f) => f.message)).toEqual(['检测到存储API "document.cookie"', '检测到存储API "sessionStorage"']);
+  });
+
+  it('不应该报告同名的局部变量和属性', () => {
+    const findings = analyze(`
+      const myBlob = new Image();
+      function fetch(level) { return level; }
+      fetch(1);
+      const api = { localStorage: {}, open: () => {} };
+      api.open();
+      player.location.x += 1;
+    `);
+
+    expect(findings).toHaveLength(0);
+  });
+
+  it('块级作用域外的同名调用仍应该被检测', () => {
+    const findings = analyze(`{ let fetch = () => {}; fetch(); }\nfetch('/x');`);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].line).toBe(2);
+  });
+
+  it('应该允许读取location信息但拒绝跳转', () => {
+    expect(analyze(`location.reload(); const path = location.pathname;`)).toHaveLength(0);
+    expect(analyze(`location.href = 'https://example.com';`)[0].message).toBe('检测到页面跳转API "location"');
+    expect(analyze(`window.location = '/';`)).toHaveLength(1);
+  });
+
+  it('应该检测以字符串为参数的定时器和动态导入', () => {
+    const findings = analyze(`setTimeout('alert(1)', 100); setInterval(() => {}, 100); import('https://x.js');`);
+
+    expect(findings.map((f) => f.message)).toEqual([
+      '检测到动态代码执行API "setTimeout"（以字符串作为参数）',
+      '检测到网络请求API "import"',
+    ]);
+  });
+
+  it('无法静态确定的全局访问应该给出警告', () => {
+    const findings = analyze(`window[getName()](); (function (w) { w.fetch(); })(window);`);
+
+    expect(findings.every((f) => f.code === 'DYNAMIC_GLOBAL_ACCESS' && f.severity === 'warning')).toBe(true);
+    expect(findings).toHaveLength(2);
+  });
+
+  it('应该检测通过constructor获取的Function构造函数', () => {
+    const findings = analyze(`[].constructor.constructor('return fetch')()(); (() => {})['const' + 'ructor']('x');`);
+
+    expect(findings.map((f) => f.message)).toEqual([
+      '检测到动态代码执行API "Function"',
+      '检测到动态代码执行API "Function"',
+    ]);
+    expect(analyze(`const name = player.constructor.name; class A { clone() { return new this.constructor(); } }`)).toHaveLength(0);
+  });
+
+  it('调用或保存任意对象的constructor应该视为Function构造函数', () => {
+    const sources = [
+      `Math.max.constructor('return fetch')()();`,
+      `[].map.constructor('return fetch')()();`,
+      `function f() {} f.constructor('return fetch')()();`,
+      `const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;`,
+      `Math.max.constructor.call(null, 'return fetch')()();`,
+      'Math.max.constructor`return fetch`;',
+    ];
+
+    for (const source of sources) {
+      expect(analyze(source).map((f) => f.message)).toEqual(['检测到动态代码执行API "Function"']);
+    }
+  });
+
+  it('应该将ownerDocument.defaultView解析为全局对象', () => {
+    expect(analyze(`document.ownerDocument.defaultView.fetch('/x');`)[0].message).toBe('检测到网络请求API "fetch"');
+    expect(analyze(`const canvas = getCanvas(); canvas.ownerDocument.defaultView.fetch('/x');`)[0].message).toBe(
+      '检测到网络请求API "fetch"'
+    );
+  });
+
+  it('非严格模式的普通函数中this应该视为全局对象', () => {
+    expect(analyze(`function f() { this.fetch('/x'); }`)[0].message).toBe('检测到网络请求API "fetch"');
+
+    const escaped = analyze(`function f() { return this } f().fetch('x');`);
+    expect(escaped).toHaveLength(1);
+    expect(escaped[0]).toMatchObject({ code: 'DYNAMIC_GLOBAL_ACCESS', ruleId: 'api:global-return' });
+
+    // 严格模式和方法中的this不是全局对象
+    expect(
+      analyze(`
+        function g() { 'use strict'; return this; }
+        const door = { open: false, toggle() { this.open = !this.open; return this; } };
+        class Game { start() { this.open = true; } }
+      `)
+    ).toHaveLength(0);
+  });
+
+  it('无法解析的脚本应该报告解析错误', () => {
+    const findings = analyze(`let x = ;`);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].code).toBe('SCRIPT_PARSE_ERROR');
+    expect(findings[0].severity).toBe('error');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, SecurityPolicyDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { DEFAULT_SECURITY_CONFIG, validateHtmlContent } from '@/lib/security';
+import { DEFAULT_STORED_SECURITY_CONFIG, toSecurityConfig, toStoredConfig } from '@/lib/security-policy';
+import { securityPolicyConfigSchema } from '@/lib/validation';
+import { GET as listPolicies, POST as createPolicy } from '@/app/api/admin/security-policies/route';
+import { POST as activatePolicy } from '@/app/api/admin/security-policies/[version]/activate/route';
+import type { SecurityPolicy } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+const mockPolicy: SecurityPolicy = {
+  version: 1,
+  config: DEFAULT_STORED_SECURITY_CONFIG,
+  isActive: true,
+  note: '内置默认策略',
+  createdBy: 'system',
+  activatedAt: new Date(),
+  createdAt: new Date(),
+};
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'owner' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const createRequest = (url: string, method: string, token: string, body?: unknown) =>
+  new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${token}` },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('安全策略配置转换', () => {
+  it('存储格式和安全检查配置之间应该可以互相转换', () => {
+    const stored = toStoredConfig({ ...DEFAULT_SECURITY_CONFIG, forbiddenPatterns: [/debugger/gi] });
+
+    expect(stored.forbiddenPatterns).toEqual(['debugger']);
+    expect(JSON.parse(JSON.stringify(stored))).toEqual(stored);
+
+    const config = toSecurityConfig(stored);
+    expect(config.forbiddenPatterns[0].flags).toBe('gi');
+    expect(config.allowedTags).toEqual(DEFAULT_SECURITY_CONFIG.allowedTags);
+  });
+
+  it('转换后的配置应该用于安全检查', () => {
+    const config = toSecurityConfig({
+      ...DEFAULT_STORED_SECURITY_CONFIG,
+      allowedTags: [...DEFAULT_STORED_SECURITY_CONFIG.allowedTags, 'iframe'],
+      forbiddenPatterns: ['DEBUGGER'],
+    });
+    const result = validateHtmlContent('<iframe></iframe><script>debugger;</script>', config);
+
+    expect(result.findings.map((f) => f.code)).toEqual(['FORBIDDEN_PATTERN']);
+  });
+
+  it('应该拒绝无效的正则表达式和未知的API分类', () => {
+    const result = securityPolicyConfigSchema.safeParse({
+      ...DEFAULT_STORED_SECURITY_CONFIG,
+      forbiddenApis: [{ api: 'fetch', category: 'unknown' }],
+      forbiddenPatterns: ['(unclosed'],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors.map((e) => e.path.join('.'))).toEqual([
+      'forbiddenApis.0.category',
+      'forbiddenPatterns.0',
+    ]);
+  });
+});
+
+describe('安全策略管理API', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  it('应该返回策略版本列表和当前生效的版本', async () => {
+    vi.spyOn(SecurityPolicyDAL, 'getAll').mockResolvedValue([
+      { ...mockPolicy, version: 2, isActive: false },
+      mockPolicy,
+    ]);
+
+    const response = await listPolicies(createRequest('/api/admin/security-policies', 'GET', adminToken), undefined);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.policies).toHaveLength(2);
+    expect(data.data.activeVersion).toBe(1);
+  });
+
+  it('只有拥有security:manage权限的角色可以管理安全策略', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, role: 'moderator' });
+    const getAll = vi.spyOn(SecurityPolicyDAL, 'getAll');
+
+    const response = await listPolicies(createRequest('/api/admin/security-policies', 'GET', adminToken), undefined);
+
+    expect(response.status).toBe(403);
+    expect(getAll).not.toHaveBeenCalled();
+  });
+
+  it('修改策略应该创建新版本，activate=true时立即启用', async () => {
+    const newPolicy = { ...mockPolicy, version: 2, isActive: false, note: '限制文件大小', createdBy: 'alice' };
+    const create = vi.spyOn(SecurityPolicyDAL, 'create').mockResolvedValue(newPolicy);
+    const activate = vi.spyOn(SecurityPolicyDAL, 'activate').mockResolvedValue({ ...newPolicy, isActive: true });
+    const config = { ...DEFAULT_STORED_SECURITY_CONFIG, maxFileSize: 1024 * 1024 };
+
+    const response = await createPolicy(
+      createRequest('/api/admin/security-policies', 'POST', adminToken, { config, note: '限制文件大小', activate: true }),
+      undefined
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith({ config, note: '限制文件大小', createdBy: 'alice' });
+    expect(activate).toHaveBeenCalledWith(2);
+    expect(data.data.policy.isActive).toBe(true);
+  });
+
+  it('无效的策略配置应该返回400错误', async () => {
+    const create = vi.spyOn(SecurityPolicyDAL, 'create');
+
+    const response = await createPolicy(
+      createRequest('/api/admin/security-policies', 'POST', adminToken, {
+        config: { ...DEFAULT_STORED_SECURITY_CONFIG, maxFileSize: 0 },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('启用策略时应该校验版本是否存在以及是否已经生效', async () => {
+    const getByVersion = vi.spyOn(SecurityPolicyDAL, 'getByVersion').mockResolvedValue(null);
+    const activate = vi.spyOn(SecurityPolicyDAL, 'activate').mockResolvedValue({ ...mockPolicy, version: 2 });
+    const request = () => createRequest('/api/admin/security-policies/2/activate', 'POST', adminToken);
+
+    expect((await activatePolicy(request(), { params: { version: '2' } })).status).toBe(404);
+
+    getByVersion.mockResolvedValue({ ...mockPolicy, version: 2 });
+    expect((await activatePolicy(request(), { params: { version: '2' } })).status).toBe(409);
+
+    getByVersion.mockResolvedValue({ ...mockPolicy, version: 2, isActive: false });
+    expect((await activatePolicy(request(), { params: { version: '2' } })).status).toBe(200);
+    expect(activate).toHaveBeenCalledWith(2);
+
+    expect((await activatePolicy(request(), { params: { version: 'abc' } })).status).toBe(400);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL, GameDAL, SecurityPolicyDAL, SecurityScanDAL } from '@/lib/dal';
+import { createSessionToken } from '@/lib/session';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/security-policy';
+import { SecurityRescanService } from '@/lib/security-rescan';
+import { POST as rescan } from '@/app/api/admin/security-rescan/route';
+import type { Game } from '@/lib/schema';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+type ScanGame = Pick<Game, 'id' | 'title' | 'status' | 'htmlContent'>;
+
+const scanGames: ScanGame[] = [
+  { id: 'game-1', title: '安全的游戏', status: 'approved', htmlContent: '<div>ok</div>' },
+  {
+    id: 'game-2',
+    title: '读取Cookie的游戏',
+    status: 'approved',
+    htmlContent: '<script>const c = document.cookie;</script>',
+  },
+  { id: 'game-3', title: '待审核的游戏', status: 'pending', htmlContent: '<script>fetch("/x");</script>' },
+  { id: 'game-4', title: '有警告的游戏', status: 'approved', htmlContent: '<div id="a" id="b">ok</div>' },
+];
+
+const mockAdmin = {
+  id: 'admin-1',
+  username: 'alice',
+  displayName: 'Alice',
+  role: 'owner' as const,
+  isActive: true,
+  sessionVersion: 0,
+  lastLoginAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// 按批次大小分页返回游戏
+const mockBatches = () =>
+  vi.spyOn(GameDAL, 'getBatchForSecurityScan').mockImplementation(async (afterId, limit = 50) => {
+    const start = afterId ? scanGames.findIndex((game) => game.id === afterId) + 1 : 0;
+    return scanGames.slice(start, start + limit);
+  });
+
+describe('SecurityRescanService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(SecurityPolicyDAL, 'getActiveConfig').mockResolvedValue({ ...DEFAULT_SECURITY_POLICY, version: 2 });
+  });
+
+  it('试运行应该汇总结果但不保存也不变更游戏状态', async () => {
+    const getBatch = mockBatches();
+    const upsert = vi.spyOn(SecurityScanDAL, 'upsert').mockResolvedValue();
+    const requeue = vi.spyOn(SecurityRescanService, 'requeue').mockResolvedValue(true);
+
+    const summary = await SecurityRescanService.run({ dryRun: true, requeue: true, reviewer: 'alice', batchSize: 2 });
+
+    expect(getBatch).toHaveBeenCalledTimes(3);
+    expect(summary).toMatchObject({
+      dryRun: true,
+      policyVersion: 2,
+      scanned: 4,
+      passed: 1,
+      withWarnings: 1,
+      violating: 2,
+      requeued: 0,
+    });
+    // 只标记已发布的游戏
+    expect(summary.flagged).toEqual([
+      { gameId: 'game-2', title: '读取Cookie的游戏', errorCount: 1, ruleIds: ['api:document.cookie'], requeued: false },
+    ]);
+    expect(upsert).not.toHaveBeenCalled();
+    expect(requeue).not.toHaveBeenCalled();
+  });
+
+  it('应该保存每个游戏的复查结果，requeue=true时撤回被标记的游戏', async () => {
+    mockBatches();
+    const upsert = vi.spyOn(SecurityScanDAL, 'upsert').mockResolvedValue();
+    const requeue = vi.spyOn(SecurityRescanService, 'requeue').mockResolvedValue(true);
+
+    const summary = await SecurityRescanService.run({ dryRun: false, requeue: true, reviewer: 'alice' });
+
+    expect(upsert).toHaveBeenCalledTimes(4);
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ gameId: 'game-2', policyVersion: 2, errorCount: 1, flagged: true })
+    );
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ gameId: 'game-3', gameStatus: 'pending', errorCount: 1, flagged: false })
+    );
+    expect(requeue).toHaveBeenCalledTimes(1);
+    expect(requeue).toHaveBeenCalledWith(
+      'game-2',
+      '游戏不符合安全策略 v2，需要重新审核（api:document.cookie）',
+      'alice',
+      undefined
+    );
+    expect(summary.requeued).toBe(1);
+    expect(summary.flagged[0].requeued).toBe(true);
+  });
+
+  it('单个游戏处理失败不应该影响其他游戏', async () => {
+    mockBatches();
+    vi.spyOn(SecurityScanDAL, 'upsert').mockImplementation(async (scan) => {
+      if (scan.gameId === 'game-1') {
+        throw new Error('Failed to save security scan');
+      }
+    });
+
+    const summary = await SecurityRescanService.run({ dryRun: false, requeue: false, reviewer: 'alice' });
+
+    expect(summary.errors).toEqual([{ gameId: 'game-1', message: 'Failed to save security scan' }]);
+    expect(summary.flagged.map((game) => game.gameId)).toEqual(['game-2']);
+  });
+});
+
+describe('安全复查API', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+    adminToken = await createSessionToken({ sub: mockAdmin.id, name: mockAdmin.username, kind: 'admin' });
+  });
+
+  const createRequest = (body?: unknown) =>
+    new NextRequest('http://localhost:3000/api/admin/security-rescan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: `admin-auth=${adminToken}` },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  it('未指定参数时应该只做试运行', async () => {
+    const run = vi.spyOn(SecurityRescanService, 'run').mockResolvedValue({
+      dryRun: true,
+      policyVersion: 1,
+      scanned: 3,
+      passed: 3,
+      withWarnings: 0,
+      violating: 0,
+      flagged: [],
+      requeued: 0,
+      errors: [],
+    });
+
+    const response = await rescan(createRequest(), undefined);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(run).toHaveBeenCalledWith({ dryRun: true, requeue: false, reviewer: 'alice', reviewerRole: 'owner' });
+    expect(data.data.summary.scanned).toBe(3);
+  });
+
+  it('只有拥有security:manage权限的角色可以执行复查', async () => {
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue({ ...mockAdmin, role: 'reviewer' });
+    const run = vi.spyOn(SecurityRescanService, 'run');
+
+    const response = await rescan(createRequest({ dryRun: false, requeue: true }), undefined);
+
+    expect(response.status).toBe(403);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
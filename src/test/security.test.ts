@@ -39,7 +39,7 @@ describe('HTML内容安全过滤系统', () => {
       
       const result = validateHtmlContent(maliciousHtml);
       expect(result.isValid).toBe(false);
-      expect(result.violations.some(v => v.includes('FORBIDDEN_PATTERN'))).toBe(true);
+      expect(result.violations.some(v => v.includes('FORBIDDEN_API'))).toBe(true);
       expect(result.violations.some(v => v.includes('fetch'))).toBe(true);
     });
 
@@ -124,6 +124,81 @@ describe('HTML内容安全过滤系统', () => {
       expect(result.violations.some(v => v.includes('EXTERNAL_SCRIPT'))).toBe(true);
     });
 
+    it('应该允许白名单中的CDN脚本、样式表和字体', () => {
+      const html = `
+        <head>
+          <script src="https://cdn.tailwindcss.com"></script>
+          <link rel="preconnect" href="https://fonts.googleapis.com">
+          <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+          <link href="https://fonts.googleapis.com/css2?family=Orbitron&display=swap" rel="stylesheet">
+          <style>
+            @import url('https://fonts.googleapis.com/css2?family=Inter');
+          </style>
+        </head>
+      `;
+
+      const result = validateHtmlContent(html);
+      expect(result.findings).toEqual([]);
+    });
+
+    it('应该拒绝非https或不允许该类型资源的白名单主机', () => {
+      const html = `
+        <script src="http://cdn.tailwindcss.com"></script>
+        <script src="https://fonts.googleapis.com/script.js"></script>
+        <link rel="stylesheet" href="https://cdn.tailwindcss.com.evil.com/style.css">
+      `;
+
+      const result = validateHtmlContent(html);
+      expect(result.isValid).toBe(false);
+      expect(result.findings.map(f => f.ruleId)).toEqual([
+        'url:external-script',
+        'url:external-script',
+        'url:external-resource',
+      ]);
+    });
+
+    it('应该按浏览器的解析规则识别外部脚本和内联来源', () => {
+      const html = `
+        <script src="\\\\evil.com/x.js"></script>
+        <script src="ht\ttps://evil.com/x.js"></script>
+        <script src="data:text/javascript,fetch('/api/admin')"></script>
+        <script src="blob:https://example.com/1234"></script>
+        <script src="/js/game.js"></script>
+      `;
+
+      const result = validateHtmlContent(html);
+      expect(result.findings.map(f => f.ruleId)).toEqual([
+        'url:external-script',
+        'url:external-script',
+        'url:external-script',
+        'url:external-script',
+      ]);
+      expect(result.violations[2]).toContain('不允许通过data:或blob:地址加载');
+    });
+
+    it('应该拒绝CSS从非白名单主机导入样式', () => {
+      const result = validateHtmlContent('<style>@import "https://evil.com/x.css";</style>');
+      expect(result.isValid).toBe(false);
+      expect(result.violations.some(v => v.includes('evil.com'))).toBe(true);
+    });
+
+    it('主机设置了SRI哈希时应该要求匹配的integrity属性', () => {
+      const config: SecurityConfig = {
+        ...DEFAULT_SECURITY_CONFIG,
+        allowedExternalHosts: [{ host: 'cdn.example.com', types: ['script'], integrity: ['sha384-abc'] }],
+      };
+
+      const missing = validateHtmlContent('<script src="https://cdn.example.com/lib.js"></script>', config);
+      expect(missing.isValid).toBe(false);
+      expect(missing.findings[0]).toMatchObject({ code: 'INTEGRITY_MISMATCH', ruleId: 'integrity:cdn.example.com' });
+
+      const pinned = validateHtmlContent(
+        '<script src="https://cdn.example.com/lib.js" integrity="sha384-abc" crossorigin="anonymous"></script>',
+        config
+      );
+      expect(pinned.isValid).toBe(true);
+    });
+
     it('应该检测CSS中的javascript协议', () => {
       const maliciousHtml = `
         <style>
@@ -160,15 +235,132 @@ describe('HTML内容安全过滤系统', () => {
       expect(result.violations.some(v => v.includes('FILE_TOO_LARGE'))).toBe(true);
     });
 
-    it('应该警告可疑标签的使用', () => {
+    it('不应该把包含API名称的普通标识符当作违规', () => {
+      const html = `
+        <script>
+          const myBlob = { fetchCount: 0 };
+          function fetchLevel() { return myBlob.fetchCount++; }
+          location.reload();
+        </script>
+      `;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it('应该报告脚本中违规访问在HTML中的位置', () => {
+      const html = `<div></div>
+<script>
+  const w = window;
+  w['local' + 'Storage'].setItem('k', 1);
+</script>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toEqual(['FORBIDDEN_API: 检测到存储API "localStorage"（第4行第3列）']);
+    });
+
+    it('应该返回带代码、级别、位置和源码片段的结构化结果', () => {
+      const html = `<div>
+  <a href="javascript:void(0)">链接</a>
+</div>
+<div id="a" id="b"></div>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.findings).toEqual([
+        {
+          code: 'MALFORMED_HTML',
+          severity: 'warning',
+          message: 'HTML结构异常 "duplicate-attribute"',
+          line: 4,
+          column: 15,
+          snippet: '<div id="a" id="b"></div>',
+          ruleId: 'parse:duplicate-attribute',
+        },
+        {
+          code: 'JAVASCRIPT_PROTOCOL',
+          severity: 'error',
+          message: '检测到javascript:协议在属性 "href" 中',
+          line: 2,
+          column: 6,
+          snippet: '<a href="javascript:void(0)">链接</a>',
+          ruleId: 'url:javascript',
+        },
+      ]);
+      expect(result.violations).toEqual(['JAVASCRIPT_PROTOCOL: 检测到javascript:协议在属性 "href" 中（第2行第6列）']);
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('与位置无关的问题不应该包含行列号', () => {
+      const result = validateHtmlContent('x'.repeat(100), { ...DEFAULT_SECURITY_CONFIG, maxFileSize: 10 });
+      expect(result.findings).toEqual([
+        expect.objectContaining({ code: 'FILE_TOO_LARGE', line: null, column: null, snippet: null, ruleId: 'size:max' }),
+      ]);
+    });
+
+    it('应该跳过非JavaScript类型的脚本', () => {
+      const html = `<script type="x-shader/x-fragment">void main() { fetch(); }</script>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it('应该拒绝不在允许列表中的标签', () => {
       const suspiciousHtml = `
         <object data="malicious.swf"></object>
         <embed src="malicious.swf"></embed>
       `;
       
       const result = validateHtmlContent(suspiciousHtml);
-      expect(result.warnings.length).toBeGreaterThan(0);
-      expect(result.warnings.some(w => w.includes('SUSPICIOUS_TAG'))).toBe(true);
+      expect(result.isValid).toBe(false);
+      expect(result.violations.some(v => v.includes('DISALLOWED_TAG') && v.includes('<object>'))).toBe(true);
+      expect(result.violations.some(v => v.includes('DISALLOWED_TAG') && v.includes('<embed>'))).toBe(true);
+    });
+
+    it('应该拒绝不在允许列表中的属性并允许data-*属性', () => {
+      const html = `<div data-level="3" data-score="10" formaction="/x">内容</div>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]).toContain('DISALLOWED_ATTRIBUTE');
+      expect(result.violations[0]).toContain('formaction');
+    });
+
+    it('应该检测无引号、大小写混合和实体编码的危险属性', () => {
+      const html = `<IMG SRC=x OnError=alert(1)>
+<a href="jav&#x09;ascript:alert(1)">链接</a>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations.some(v => v.includes('DANGEROUS_ATTRIBUTE') && v.includes('onerror'))).toBe(true);
+      expect(result.violations.some(v => v.includes('JAVASCRIPT_PROTOCOL'))).toBe(true);
+    });
+
+    it('违规项应该包含所在的行列号', () => {
+      const html = `<div>
+  <p>文本</p>
+  <iframe src="https://example.com"></iframe>
+  <button type="button" onclick="start()">开始</button>
+</div>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toContain('DISALLOWED_TAG: 使用了不允许的标签 <iframe>（第3行第3列）');
+      expect(result.violations).toContain('DANGEROUS_ATTRIBUTE: 检测到事件处理器属性 "onclick"（第4行第25列）');
+    });
+
+    it('应该检测完整文档中body上的事件处理器', () => {
+      const html = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head><meta charset="UTF-8"><title>游戏</title></head>
+<body onload="init()"></body>
+</html>`;
+      
+      const result = validateHtmlContent(html);
+      expect(result.violations).toEqual(['DANGEROUS_ATTRIBUTE: 检测到事件处理器属性 "onload"（第4行第7列）']);
+    });
+
+    it('应该对畸形的HTML结构给出警告', () => {
+      const result = validateHtmlContent('<div class="game" class="other"></div>');
+      expect(result.isValid).toBe(true);
+      expect(result.warnings.some(w => w.includes('MALFORMED_HTML') && w.includes('duplicate-attribute'))).toBe(true);
     });
 
     it('应该使用自定义安全配置', () => {
@@ -324,6 +516,25 @@ describe('HTML内容安全过滤系统', () => {
       expect(sanitized).toContain('内容');
     });
 
+    it('应该移除不允许的标签和属性并保留其中的内容', () => {
+      const html = `<section data-level="1" title="关卡"><p>保留</p><iframe src="x"><p>移除</p></iframe></section>`;
+      
+      const sanitized = sanitizeHtmlContent(html);
+      expect(sanitized).toBe('<p>保留</p>');
+    });
+
+    it('应该移除无引号和大小写混合的事件处理器', () => {
+      const sanitized = sanitizeHtmlContent('<IMG SRC=x OnError=alert(1) data-id=2>');
+      expect(sanitized).toBe('<img src="x" data-id="2">');
+    });
+
+    it('应该保留完整文档的结构', () => {
+      const html = '<!DOCTYPE html><html lang="en"><head><title>游戏</title></head><body onload="x()"><div>内容</div></body></html>';
+      
+      const sanitized = sanitizeHtmlContent(html);
+      expect(sanitized).toBe('<!DOCTYPE html><html lang="en"><head><title>游戏</title></head><body><div>内容</div></body></html>');
+    });
+
     it('应该保留安全的内容', () => {
       const safeHtml = `
         <div class="game" id="main">
@@ -374,7 +585,7 @@ describe('HTML内容安全过滤系统', () => {
 
     it('应该为有警告的内容提供建议', () => {
       const suspiciousHtml = `
-        <object data="content.swf"></object>
+        <div id="game" id="other"></div>
       `;
       
       const report = generateSecurityReport(suspiciousHtml);
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { AdminDAL } from '../lib/dal';
+import { getAdminSession } from '../lib/auth';
+import {
+  ADMIN_SESSION_COOKIE,
+  createSessionToken,
+  getSessionSecret,
+  verifySessionToken,
+} from '../lib/session';
+import { getDummyPasswordHash, hashPassword, verifyPassword } from '../lib/password';
+
+// Mock the database
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    execute: vi.fn(),
+  },
+}));
+
+describe('会话令牌', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('生产环境未配置会话密钥时应该抛出错误', () => {
+    vi.stubEnv('SESSION_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getSessionSecret()).toThrow('SESSION_SECRET must be set in production');
+
+    vi.stubEnv('SESSION_SECRET', 'configured-secret');
+    expect(getSessionSecret()).toBe('configured-secret');
+  });
+
+  it('签名时才读取会话密钥，更换密钥后旧令牌失效', async () => {
+    vi.stubEnv('SESSION_SECRET', 'first-secret');
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' });
+    expect(await verifySessionToken(token)).not.toBeNull();
+
+    vi.stubEnv('SESSION_SECRET', 'second-secret');
+    expect(await verifySessionToken(token)).toBeNull();
+
+    vi.stubEnv('SESSION_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    await expect(createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' })).rejects.toThrow(
+      'SESSION_SECRET must be set in production'
+    );
+  });
+
+  it('应该能够签发并校验会话令牌', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' });
+    const payload = await verifySessionToken(token);
+
+    expect(payload).not.toBeNull();
+    expect(payload?.sub).toBe('admin-1');
+    expect(payload?.name).toBe('alice');
+    expect(payload?.kind).toBe('admin');
+  });
+
+  it('应该拒绝被篡改的令牌', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' });
+    const [, signature] = token.split('.');
+    const forgedPayload = btoa(JSON.stringify({ sub: 'admin-2', name: 'mallory', kind: 'admin', iat: 0, exp: 9999999999 }))
+      .replace(/=+$/, '');
+
+    expect(await verifySessionToken(`${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('应该拒绝已过期的令牌', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin' }, 60);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 61 * 1000);
+
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('应该拒绝格式错误的令牌', async () => {
+    expect(await verifySessionToken(undefined)).toBeNull();
+    expect(await verifySessionToken('')).toBeNull();
+    expect(await verifySessionToken('not-a-token')).toBeNull();
+    expect(await verifySessionToken('a.b.c')).toBeNull();
+  });
+});
+
+describe('管理员会话版本', () => {
+  const mockAdmin = {
+    id: 'admin-1',
+    username: 'alice',
+    displayName: 'Alice',
+    role: 'owner' as const,
+    isActive: true,
+    sessionVersion: 1,
+    lastLoginAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const createRequest = (token: string) =>
+    new NextRequest('http://localhost:3000/api/admin/games', {
+      headers: { Cookie: `${ADMIN_SESSION_COOKIE}=${token}` },
+    });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(AdminDAL, 'getById').mockResolvedValue(mockAdmin);
+  });
+
+  it('应该接受与当前会话版本一致的令牌', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin', ver: 1 });
+
+    expect(await getAdminSession(createRequest(token))).toMatchObject({ id: 'admin-1', role: 'owner' });
+  });
+
+  it('修改密码后应该拒绝之前签发的令牌', async () => {
+    const token = await createSessionToken({ sub: 'admin-1', name: 'alice', kind: 'admin', ver: 0 });
+
+    expect(await getAdminSession(createRequest(token))).toBeNull();
+  });
+});
+
+describe('密码哈希', () => {
+  it('应该为相同密码生成不同的哈希', async () => {
+    const first = await hashPassword('correct horse battery staple');
+    const second = await hashPassword('correct horse battery staple');
+
+    expect(first).not.toBe(second);
+    expect(first.startsWith('scrypt$')).toBe(true);
+  });
+
+  it('应该只接受正确的密码', async () => {
+    const hash = await hashPassword('correct horse battery staple');
+
+    expect(await verifyPassword('correct horse battery staple', hash)).toBe(true);
+    expect(await verifyPassword('wrong password', hash)).toBe(false);
+  });
+
+  it('占位哈希不应该匹配任何常见密码', async () => {
+    const dummy = await getDummyPasswordHash();
+
+    expect(dummy).toBe(await getDummyPasswordHash());
+    expect(await verifyPassword('', dummy)).toBe(false);
+    expect(await verifyPassword('password', dummy)).toBe(false);
+  });
+
+  it('应该拒绝无法识别的哈希格式', async () => {
+    expect(await verifyPassword('password', 'plain-text-password')).toBe(false);
+  });
+});
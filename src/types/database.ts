@@ -41,12 +41,17 @@ export enum GameStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
   REJECTED = 'rejected',
+  UNPUBLISHED = 'unpublished',
 }
 
 // 审核操作枚举
 export enum ReviewAction {
   APPROVE = 'approve',
   REJECT = 'reject',
+  UNPUBLISH = 'unpublish',
+  CLAIM = 'claim',
+  RELEASE = 'release',
+  RESCAN = 'rescan',
 }
 
 // 错误代码枚举
@@ -54,6 +59,7 @@ export enum ErrorCode {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   UNAUTHORIZED = 'UNAUTHORIZED',
   GAME_NOT_FOUND = 'GAME_NOT_FOUND',
+  GAME_UNPUBLISHED = 'GAME_UNPUBLISHED',
   INVALID_HTML = 'INVALID_HTML',
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   MALICIOUS_CONTENT = 'MALICIOUS_CONTENT',